@@ -1,19 +1,35 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider } from './src/contexts/AuthContext';
 import { ImportProvider } from './src/contexts/ImportContext';
+import { TimerProvider } from './src/contexts/TimerContext';
+import { queryClient, initializeQueryClient } from './src/services/queryClient';
+import { networkStatusService } from './src/services/networkStatus';
 import AppNavigator from './src/navigation/AppNavigator';
 
 export default function App() {
+  useEffect(() => {
+    // Restore persisted queries (shopping list, recipes) from AsyncStorage
+    initializeQueryClient();
+    // Watch connectivity so queries pause and queued changes sync when Wi-Fi returns
+    networkStatusService.start();
+    return () => networkStatusService.stop();
+  }, []);
+
   return (
-    <SafeAreaProvider>
-      <AuthProvider>
-        <ImportProvider>
-          <AppNavigator />
-          <StatusBar style="auto" />
-        </ImportProvider>
-      </AuthProvider>
-    </SafeAreaProvider>
+    <QueryClientProvider client={queryClient}>
+      <SafeAreaProvider>
+        <AuthProvider>
+          <ImportProvider>
+            <TimerProvider>
+              <AppNavigator />
+              <StatusBar style="auto" />
+            </TimerProvider>
+          </ImportProvider>
+        </AuthProvider>
+      </SafeAreaProvider>
+    </QueryClientProvider>
   );
-}
\ No newline at end of file
+}
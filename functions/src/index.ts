@@ -4,6 +4,8 @@ import axios from 'axios';
 import * as cheerio from 'cheerio';
 import * as crypto from 'crypto';
 import OpenAI from 'openai';
+import { StoredIngredient, ingredientContainsAllergen, ingredientToText } from '../../shared/allergens';
+import { ScrapedRecipe, runRecipeExtractors, extractImageFromMetaTags } from './recipeExtractors';
 
 admin.initializeApp();
 
@@ -12,21 +14,6 @@ const openai = new OpenAI({
   apiKey: functions.config().openai?.api_key || process.env.OPENAI_API_KEY,
 });
 
-interface ScrapedRecipe {
-  title: string;
-  description?: string;
-  image?: string;
-  prepTime?: string;
-  cookTime?: string;
-  totalTime?: string;
-  servings?: number;
-  difficulty?: string;
-  ingredients: string[];
-  instructions: string[];
-  sourceUrl: string;
-  tags?: string[];
-}
-
 interface RecipeCacheEntry {
   sourceUrl: string;
   normalizedUrl: string;
@@ -238,17 +225,26 @@ async function extractRecipeWithAI(
   url: string,
   html: string,
   hints: { title?: string }
+): Promise<ScrapedRecipe> {
+  const $ = cheerio.load(html);
+  const articleText = $('article').text() || $('main').text() || $('.recipe').text() || $('.entry-content').text() || $('body').text();
+  const cleanedText = articleText.replace(/\s+/g, ' ').trim().slice(0, 15000);
+
+  return extractRecipeFromTextWithAI(cleanedText, { ...hints, url });
+}
+
+// Shared by the web page fallback and pasted-text imports, which have no URL
+async function extractRecipeFromTextWithAI(
+  text: string,
+  hints: { title?: string; url?: string }
 ): Promise<ScrapedRecipe> {
   const apiKey = functions.config().openai?.api_key || process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error('OpenAI API key not configured for AI fallback');
   }
 
-  const $ = cheerio.load(html);
-  const articleText = $('article').text() || $('main').text() || $('.recipe').text() || $('.entry-content').text() || $('body').text();
-  const cleanedText = articleText.replace(/\s+/g, ' ').trim().slice(0, 15000);
-
-  const prompt = `You are extracting recipe data from a web page.
+  const sourceUrl = hints.url || '';
+  const prompt = `You are extracting recipe data from ${sourceUrl ? 'a web page' : 'text a parent pasted from their notes or email'}.
 Return JSON only with this shape:
 {
   "title": "string",
@@ -267,9 +263,9 @@ Return JSON only with this shape:
 Use only the provided text. If a field is missing, use empty string or empty array. Ingredients and instructions must be arrays of strings.
 
 Title hint: ${hints.title || 'unknown'}
-URL: ${url}
-PAGE TEXT:
-${cleanedText}`;
+URL: ${sourceUrl || 'none'}
+${sourceUrl ? 'PAGE TEXT' : 'RECIPE TEXT'}:
+${text}`;
 
   const response = await openai.chat.completions.create({
     model: 'gpt-4o-mini',
@@ -302,7 +298,7 @@ ${cleanedText}`;
     tags: Array.isArray(parsed.tags) ? parsed.tags : []
   };
 
-  const validated = validateAndCleanRecipe(aiRecipe, url);
+  const validated = validateAndCleanRecipe(aiRecipe, sourceUrl);
   if (!validated) {
     throw new Error('AI fallback did not return a valid recipe');
   }
@@ -334,55 +330,29 @@ async function extractRecipeFromUrl(url: string): Promise<ScrapedRecipe> {
     });
 
     const $ = cheerio.load(response.data);
-    const jsonLdScripts = $('script[type="application/ld+json"]');
+    const results = runRecipeExtractors({ url, hostname: new URL(url).hostname.toLowerCase(), $ });
     console.log('Scrape debug:', {
       url,
-      jsonLdScriptCount: jsonLdScripts.length,
-      htmlLength: response.data?.length || 0
+      htmlLength: response.data?.length || 0,
+      candidates: results.map(result => ({
+        extractor: result.extractor,
+        confidence: Number(result.confidence.toFixed(2))
+      }))
     });
 
-    // Try to extract from JSON-LD structured data first (most reliable)
-    const jsonLdRecipe = extractFromJsonLd($);
-    if (jsonLdRecipe && jsonLdRecipe.title) {
-      // Add meta tag image fallback if no image found in structured data
-      if (!jsonLdRecipe.image) {
-        jsonLdRecipe.image = extractImageFromMetaTags($);
-      }
-
-      try {
-        const validated = validateAndCleanRecipe(jsonLdRecipe, url);
-        if (validated) {
-          console.log('Scrape debug: JSON-LD success', {
-            title: validated.title,
-            hasImage: !!validated.image,
-            ingredientCount: validated.ingredients.length,
-            instructionCount: validated.instructions.length
-          });
-          await setRecipeCache(url, validated, 'scrape');
-          return validated;
-        }
-      } catch (error) {
-        console.warn('Scrape debug: JSON-LD validation failed', {
-          error: error instanceof Error ? error.message : String(error),
-          ingredientCount: jsonLdRecipe.ingredients?.length || 0,
-          instructionCount: jsonLdRecipe.instructions?.length || 0
-        });
-      }
-    }
-
-    // Fall back to microdata extraction
-    const microdataRecipe = extractFromMicrodata($);
-    if (microdataRecipe && microdataRecipe.title) {
-      // Add meta tag image fallback if no image found in microdata
-      if (!microdataRecipe.image) {
-        microdataRecipe.image = extractImageFromMetaTags($);
+    // Take the most trusted result that passes validation
+    for (const result of results) {
+      // Add meta tag image fallback if the extractor found no image
+      if (!result.recipe.image) {
+        result.recipe.image = extractImageFromMetaTags($);
       }
 
       try {
-        const validated = validateAndCleanRecipe(microdataRecipe, url);
+        const validated = validateAndCleanRecipe(result.recipe, url);
         if (validated) {
-          console.log('Scrape debug: Microdata success', {
+          console.log(`Scrape debug: ${result.extractor} success`, {
             title: validated.title,
+            confidence: result.confidence,
             hasImage: !!validated.image,
             ingredientCount: validated.ingredients.length,
             instructionCount: validated.instructions.length
@@ -391,44 +361,15 @@ async function extractRecipeFromUrl(url: string): Promise<ScrapedRecipe> {
           return validated;
         }
       } catch (error) {
-        console.warn('Scrape debug: Microdata validation failed', {
+        console.warn(`Scrape debug: ${result.extractor} validation failed`, {
           error: error instanceof Error ? error.message : String(error),
-          ingredientCount: microdataRecipe.ingredients?.length || 0,
-          instructionCount: microdataRecipe.instructions?.length || 0
+          ingredientCount: result.recipe.ingredients?.length || 0,
+          instructionCount: result.recipe.instructions?.length || 0
         });
       }
     }
 
-    // Fall back to common CSS selectors
-    const cssRecipe = extractFromCommonSelectors($);
-    if (cssRecipe && cssRecipe.title) {
-      // Always add meta tag image for CSS selectors since they don't extract images
-      if (!cssRecipe.image) {
-        cssRecipe.image = extractImageFromMetaTags($);
-      }
-
-      try {
-        const validated = validateAndCleanRecipe(cssRecipe, url);
-        if (validated) {
-          console.log('Scrape debug: CSS selectors success', {
-            title: validated.title,
-            hasImage: !!validated.image,
-            ingredientCount: validated.ingredients.length,
-            instructionCount: validated.instructions.length
-          });
-          await setRecipeCache(url, validated, 'scrape');
-          return validated;
-        }
-      } catch (error) {
-        console.warn('Scrape debug: CSS selectors validation failed', {
-          error: error instanceof Error ? error.message : String(error),
-          ingredientCount: cssRecipe.ingredients?.length || 0,
-          instructionCount: cssRecipe.instructions?.length || 0
-        });
-      }
-    }
-
-    const candidate = jsonLdRecipe || microdataRecipe || cssRecipe;
+    const candidate = results[0]?.recipe;
     const hasMissingCoreData = !!candidate && (
       !candidate.ingredients?.length || !candidate.instructions?.length
     );
@@ -462,397 +403,60 @@ async function extractRecipeFromUrl(url: string): Promise<ScrapedRecipe> {
   }
 }
 
-function extractImageFromMetaTags($: cheerio.CheerioAPI): string | undefined {
-  // Priority order: og:image, twitter:image, fallback image selectors
-  const imageSelectors = [
-    'meta[property="og:image"]',
-    'meta[property="og:image:url"]',
-    'meta[name="twitter:image"]',
-    'meta[name="twitter:image:src"]',
-    'link[rel="image_src"]',
-    // Common recipe site image selectors
-    '.recipe-image img',
-    '.recipe-hero img',
-    '.recipe-photo img',
-    '[class*="recipe-image"] img',
-    '.post-thumbnail img',
-    '.featured-image img'
-  ];
-
-  for (const selector of imageSelectors) {
-    let imageUrl: string | undefined;
-
-    if (selector.startsWith('meta') || selector.startsWith('link')) {
-      // Meta tags and link tags
-      const element = $(selector).first();
-      imageUrl = element.attr('content') || element.attr('href');
-    } else {
-      // Image tags
-      const imgElement = $(selector).first();
-      imageUrl = imgElement.attr('src') || imgElement.attr('data-src');
-    }
-
-    if (imageUrl) {
-      // Clean and validate the image URL
-      const cleanedUrl = imageUrl.trim();
-
-      // Skip if it's not a valid image URL
-      if (!cleanedUrl || cleanedUrl === '#' || cleanedUrl === '/' || cleanedUrl.length < 10) {
-        continue;
-      }
-
-      // Skip common placeholder/loading images
-      const skipPatterns = [
-        'placeholder', 'loading', 'spinner', 'default',
-        '1x1', 'pixel', 'spacer', 'blank'
-      ];
-
-      if (skipPatterns.some(pattern => cleanedUrl.toLowerCase().includes(pattern))) {
-        continue;
-      }
-
-      // Reassign cleaned URL
-      imageUrl = cleanedUrl;
-
-      // Convert relative URLs to absolute
-      if (imageUrl.startsWith('//')) {
-        imageUrl = 'https:' + imageUrl;
-      } else if (imageUrl.startsWith('/')) {
-        // Would need the base URL to make this absolute - skip for now
-        continue;
-      }
-
-      // Check if it's a valid image file extension or has image query params
-      const hasImageExtension = /\.(jpg|jpeg|png|gif|webp|avif)(\?.*)?$/i.test(imageUrl);
-      const isHttpsUrl = imageUrl.startsWith('https://');
-
-      if (isHttpsUrl && (hasImageExtension || imageUrl.includes('image') || selector.includes('og:') || selector.includes('twitter:'))) {
-        return imageUrl;
-      }
-    }
-  }
-
-  return undefined;
-}
-
-function extractFromJsonLd($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
-  try {
-    const jsonLdScripts = $('script[type="application/ld+json"]');
-
-    for (let i = 0; i < jsonLdScripts.length; i++) {
-      const scriptContent = $(jsonLdScripts[i]).html();
-      if (!scriptContent) continue;
-
-      try {
-        const data = JSON.parse(scriptContent);
-        const recipe = findRecipeInJsonLd(data);
-        if (recipe) return recipe;
-      } catch (parseError) {
-        continue; // Try next script tag
-      }
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
+// Interfaces for AI conversion
+interface KidConversionRequest {
+  recipeId: string;
+  kidAge: number;
+  readingLevel: 'beginner' | 'intermediate' | 'advanced';
+  allergyFlags?: string[];
+  allergies?: KidAllergy[]; // Preferred over allergyFlags when present
+  permissions?: KidKitchenPermissions;
 }
 
-function findRecipeInJsonLd(data: any): Partial<ScrapedRecipe> | null {
-  // Handle different JSON-LD structures
-  if (Array.isArray(data)) {
-    for (const item of data) {
-      const recipe = findRecipeInJsonLd(item);
-      if (recipe) return recipe;
-    }
-    return null;
-  }
-
-  if (data['@type'] === 'Recipe') {
-    return parseJsonLdRecipe(data);
-  }
-
-  // Handle nested structures
-  if (data['@graph']) {
-    return findRecipeInJsonLd(data['@graph']);
-  }
-
-  return null;
+interface KidKitchenPermissions {
+  canUseKnives?: boolean;
+  canUseStove?: boolean;
+  canUseOven?: boolean;
+  requiresAdultHelp?: boolean;
+  maxCookingTimeMinutes?: number;
 }
 
-function parseJsonLdRecipe(recipe: any): Partial<ScrapedRecipe> {
-  const extractText = (value: any): string => {
-    if (typeof value === 'string') return value;
-    if (value && value.text) return value.text;
-    if (value && value['@value']) return value['@value'];
-    return '';
-  };
-
-  const extractArray = (value: any): string[] => {
-    if (!value) return [];
-    if (Array.isArray(value)) {
-      return value.map(extractText).filter(Boolean);
-    }
-    return [extractText(value)].filter(Boolean);
-  };
-
-  const extractInstructions = (instructions: any): string[] => {
-    if (!instructions) return [];
-
-    const processInstruction = (instruction: any): string => {
-      // Handle HowToStep objects
-      if (instruction && typeof instruction === 'object') {
-        if (Array.isArray(instruction.itemListElement)) {
-          return instruction.itemListElement.map(processInstruction).filter(Boolean).join('\n');
-        }
-        if (Array.isArray(instruction.steps)) {
-          return instruction.steps.map(processInstruction).filter(Boolean).join('\n');
-        }
-        // Standard HowToStep with text property
-        if (instruction.text) {
-          return extractText(instruction.text);
-        }
-        // Some sites use name instead of text
-        if (instruction.name) {
-          return extractText(instruction.name);
-        }
-        // Some use description
-        if (instruction.description) {
-          return extractText(instruction.description);
-        }
-        // Handle @type HowToStep
-        if (instruction['@type'] === 'HowToStep') {
-          return instruction.text || instruction.name || instruction.description || '';
-        }
-        if (instruction['@type'] === 'HowToSection' && instruction.itemListElement) {
-          const sectionSteps = Array.isArray(instruction.itemListElement)
-            ? instruction.itemListElement
-            : [instruction.itemListElement];
-          return sectionSteps.map(processInstruction).filter(Boolean).join('\n');
-        }
-        if (instruction['@type'] === 'ItemList' && instruction.itemListElement) {
-          const listSteps = Array.isArray(instruction.itemListElement)
-            ? instruction.itemListElement
-            : [instruction.itemListElement];
-          return listSteps.map(processInstruction).filter(Boolean).join('\n');
-        }
-        // If it's an object but no recognizable text, try to extract text from it
-        return extractText(instruction);
-      }
-
-      // Handle plain strings
-      return extractText(instruction);
-    };
-
-    let result: string[] = [];
-
-    if (Array.isArray(instructions)) {
-      result = instructions.map(processInstruction).filter(Boolean);
-    } else {
-      const processed = processInstruction(instructions);
-      if (processed) result = [processed];
-    }
-
-    // Clean up instruction text
-    const flattened = result.flatMap((instruction: string) =>
-      instruction.split('\n').map(step => step.trim()).filter(Boolean)
-    );
-
-    return flattened.map((instruction: string, index: number) => {
-      let cleaned = instruction
-        // Remove step numbers at the beginning
-        .replace(/^\d+\.\s*/, '')
-        .replace(/^Step\s+\d+:?\s*/i, '')
-        // Remove extra whitespace
-        .trim();
-
-      // Ensure instruction ends with period if it doesn't end with punctuation
-      if (cleaned && !/[.!?]$/.test(cleaned)) {
-        cleaned += '.';
-      }
-
-      return cleaned;
-    }).filter(Boolean);
-  };
-
-  const extractTime = (duration: any): string => {
-    if (!duration) return '';
-    if (typeof duration === 'string') {
-      // Parse ISO 8601 duration (PT15M = 15 minutes)
-      const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
-      if (match) {
-        const hours = match[1] ? parseInt(match[1]) : 0;
-        const minutes = match[2] ? parseInt(match[2]) : 0;
-        if (hours && minutes) return `${hours}h ${minutes}min`;
-        if (hours) return `${hours}h`;
-        if (minutes) return `${minutes}min`;
-      }
-    }
-    return extractText(duration);
-  };
-
-  const extractNumber = (value: any): number | undefined => {
-    if (typeof value === 'number') return value;
-    if (typeof value === 'string') {
-      const str = value.toString().trim();
-
-      // Handle fractions like "1/2", "3/4", etc.
-      const fractionMatch = str.match(/^(\d+)\/(\d+)$/);
-      if (fractionMatch) {
-        const numerator = parseFloat(fractionMatch[1]);
-        const denominator = parseFloat(fractionMatch[2]);
-        return denominator !== 0 ? numerator / denominator : undefined;
-      }
-
-      // Handle mixed numbers like "1 1/2", "2 3/4"
-      const mixedMatch = str.match(/^(\d+)\s+(\d+)\/(\d+)$/);
-      if (mixedMatch) {
-        const whole = parseFloat(mixedMatch[1]);
-        const numerator = parseFloat(mixedMatch[2]);
-        const denominator = parseFloat(mixedMatch[3]);
-        return denominator !== 0 ? whole + (numerator / denominator) : undefined;
-      }
-
-      // Handle ranges like "2-3", "4-6" - take the middle value
-      const rangeMatch = str.match(/^(\d+(?:\.\d+)?)\s*[-–—]\s*(\d+(?:\.\d+)?)$/);
-      if (rangeMatch) {
-        const min = parseFloat(rangeMatch[1]);
-        const max = parseFloat(rangeMatch[2]);
-        return !isNaN(min) && !isNaN(max) ? (min + max) / 2 : undefined;
-      }
-
-      // Handle "about", "approximately" prefixes
-      const approxMatch = str.match(/(?:about|approximately|around|~)\s*(\d+(?:\.\d+)?)/i);
-      if (approxMatch) {
-        const num = parseFloat(approxMatch[1]);
-        return !isNaN(num) ? num : undefined;
-      }
-
-      // Extract first number from string (handles cases like "4 servings", "serves 6", etc.)
-      const numberMatch = str.match(/(\d+(?:\.\d+)?)/);
-      if (numberMatch) {
-        const num = parseFloat(numberMatch[1]);
-        return !isNaN(num) ? num : undefined;
-      }
-
-      return undefined;
-    }
-    return undefined;
-  };
-
-  const structuredImage = extractText(recipe.image?.url || recipe.image);
-
-  return {
-    title: extractText(recipe.name),
-    description: extractText(recipe.description),
-    image: structuredImage, // Meta tag extraction will be handled in the main scraping function
-    prepTime: extractTime(recipe.prepTime),
-    cookTime: extractTime(recipe.cookTime),
-    totalTime: extractTime(recipe.totalTime),
-    servings: extractNumber(recipe.recipeYield || recipe.yield),
-    ingredients: extractArray(recipe.recipeIngredient),
-    instructions: recipe.recipeInstructions ?
-      extractInstructions(recipe.recipeInstructions) : [],
-    tags: extractArray(recipe.recipeCategory).concat(extractArray(recipe.recipeCuisine)),
-  };
+// Tools a kid isn't allowed to use, in the words the prompt uses
+function getRestrictedTools(permissions?: KidKitchenPermissions): string[] {
+  if (!permissions) return [];
+  const restricted: string[] = [];
+  if (permissions.canUseKnives === false) restricted.push('knives');
+  if (permissions.canUseStove === false) restricted.push('the stove');
+  if (permissions.canUseOven === false) restricted.push('the oven');
+  return restricted;
 }
 
-function extractFromMicrodata($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
-  const recipeElement = $('[itemtype*="schema.org/Recipe"]').first();
-  if (!recipeElement.length) return null;
-
-  const extractProp = (prop: string): string[] => {
-    const elements = recipeElement.find(`[itemprop="${prop}"]`);
-    const values: string[] = [];
-
-    elements.each((_, el) => {
-      const $el = $(el);
-      const text = $el.text().trim() || $el.attr('content') || '';
-      if (text) values.push(text);
-    });
-
-    return values;
-  };
-
-  const title = extractProp('name')[0];
-  if (!title) return null;
+type AllergySeverity = 'mild' | 'moderate' | 'severe';
 
-  return {
-    title,
-    description: extractProp('description')[0],
-    image: recipeElement.find('[itemprop="image"]').attr('src'),
-    prepTime: extractProp('prepTime')[0],
-    cookTime: extractProp('cookTime')[0],
-    totalTime: extractProp('totalTime')[0],
-    servings: parseInt(extractProp('recipeYield')[0]) || undefined,
-    ingredients: extractProp('recipeIngredient'),
-    instructions: extractProp('recipeInstructions'),
-  };
+interface KidAllergy {
+  allergen: string;
+  severity: AllergySeverity;
+  notes?: string;
 }
 
-function extractFromCommonSelectors($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
-  // Common recipe site patterns
-  const titleSelectors = [
-    '.recipe-title', '.entry-title', 'h1.recipe-name', '.recipe-header h1',
-    '[class*="recipe-title"]', '[class*="recipe-name"]'
-  ];
-
-  const ingredientSelectors = [
-    '.recipe-ingredient', '.ingredient', '.recipe-ingredients li',
-    '[class*="ingredient"]', '.ingredients li'
-  ];
-
-  const instructionSelectors = [
-    '.recipe-instruction', '.instruction', '.recipe-instructions li',
-    '.recipe-method li', '[class*="instruction"]', '.directions li'
-  ];
+const ALLERGY_SEVERITIES: AllergySeverity[] = ['mild', 'moderate', 'severe'];
 
-  const title = findTextBySelectors($, titleSelectors);
-  if (!title) return null;
+// Drops malformed entries and duplicates; unknown severities fall back to moderate
+function sanitizeAllergies(allergies: unknown): KidAllergy[] {
+  if (!Array.isArray(allergies)) return [];
 
-  const ingredients = findMultipleTextBySelectors($, ingredientSelectors);
-  const instructions = findMultipleTextBySelectors($, instructionSelectors);
-
-  if (ingredients.length === 0 && instructions.length === 0) return null;
-
-  return {
-    title: title.trim(),
-    ingredients,
-    instructions,
-  };
-}
+  const seen = new Set<string>();
+  const sanitized: KidAllergy[] = [];
+  for (const item of allergies.slice(0, 50)) {
+    const allergen = typeof item?.allergen === 'string' ? item.allergen.trim().toLowerCase().slice(0, 50) : '';
+    if (!allergen || seen.has(allergen)) continue;
+    seen.add(allergen);
 
-function findTextBySelectors($: cheerio.CheerioAPI, selectors: string[]): string {
-  for (const selector of selectors) {
-    const element = $(selector).first();
-    if (element.length) {
-      const text = element.text().trim();
-      if (text) return text;
-    }
-  }
-  return '';
-}
-
-function findMultipleTextBySelectors($: cheerio.CheerioAPI, selectors: string[]): string[] {
-  for (const selector of selectors) {
-    const elements = $(selector);
-    if (elements.length) {
-      const texts: string[] = [];
-      elements.each((_, el) => {
-        const text = $(el).text().trim();
-        if (text) texts.push(text);
-      });
-      if (texts.length > 0) return texts;
-    }
+    const severity: AllergySeverity = ALLERGY_SEVERITIES.includes(item.severity) ? item.severity : 'moderate';
+    const notes = typeof item.notes === 'string' ? item.notes.trim().slice(0, 200) : '';
+    sanitized.push(notes ? { allergen, severity, notes } : { allergen, severity });
   }
-  return [];
-}
-
-// Interfaces for AI conversion
-interface KidConversionRequest {
-  recipeId: string;
-  kidAge: number;
-  readingLevel: 'beginner' | 'intermediate' | 'advanced';
-  allergyFlags?: string[];
+  return sanitized;
 }
 
 interface KidProfile {
@@ -860,10 +464,8 @@ interface KidProfile {
   name: string;
   age: number;
   readingLevel: 'beginner' | 'intermediate' | 'advanced';
-  allergies: {
-    allergen: string;
-    severity: 'mild' | 'moderate' | 'severe';
-  }[];
+  allergies: KidAllergy[];
+  allergyFlags: string[]; // Allergen names only, for older clients
   experience: 'beginner' | 'intermediate' | 'advanced';
   favoriteRecipes: string[];
   parentId: string;
@@ -897,7 +499,12 @@ export const convertRecipeForKid = functions.https.onCall(async (data: KidConver
       throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
     }
 
-    const { recipeId, kidAge, readingLevel, allergyFlags = [] } = data;
+    const { recipeId, kidAge, readingLevel } = data;
+    const allergies = data.allergies
+      ? sanitizeAllergies(data.allergies)
+      : (data.allergyFlags || []).map(allergen => ({ allergen, severity: 'moderate' as const }));
+    const allergyFlags = allergies.map(allergy => allergy.allergen);
+    const restrictedTools = getRestrictedTools(data.permissions);
 
     // Input validation
     if (!recipeId || !kidAge || !readingLevel) {
@@ -940,7 +547,9 @@ export const convertRecipeForKid = functions.https.onCall(async (data: KidConver
       readingLevel,
       getAgeRange(kidAge),
       allergyFlags || [],
-      'beginner' // Default experience level for now
+      'beginner', // Default experience level for now
+      restrictedTools,
+      data.permissions
     );
     const cached = await checkConversionCache(cacheKey);
 
@@ -948,8 +557,8 @@ export const convertRecipeForKid = functions.https.onCall(async (data: KidConver
       console.log('Using cached conversion');
 
       // Check for allergies in original recipe even when using cache
-      const allergyInfo = allergyFlags && allergyFlags.length > 0
-        ? detectAllergensInIngredients(recipe.ingredients || [], allergyFlags.map(allergen => ({ allergen, severity: 'moderate' as const })))
+      const allergyInfo = allergies.length > 0
+        ? detectAllergensInIngredients(recipe.ingredients || [], allergies)
         : { hasAllergens: false, detectedAllergens: [], warnings: [] };
 
       const kidRecipeId = await createKidRecipeFromCache(recipeId, kidAge, readingLevel, cached, context.auth.uid);
@@ -967,13 +576,13 @@ export const convertRecipeForKid = functions.https.onCall(async (data: KidConver
     }
 
     // Check for allergies in original recipe
-    const allergyInfo = allergyFlags && allergyFlags.length > 0
-      ? detectAllergensInIngredients(recipe.ingredients || [], allergyFlags.map(allergen => ({ allergen, severity: 'moderate' as const })))
+    const allergyInfo = allergies.length > 0
+      ? detectAllergensInIngredients(recipe.ingredients || [], allergies)
       : { hasAllergens: false, detectedAllergens: [], warnings: [] };
 
     // Convert with AI
     console.log('Converting recipe with AI');
-    const conversion = await convertRecipeWithAI(recipe, kidAge, readingLevel, allergyFlags);
+    const conversion = await convertRecipeWithAI(recipe, kidAge, readingLevel, allergyFlags, data.permissions);
 
     // Add allergy information to conversion
     const enhancedConversion = {
@@ -1268,6 +877,48 @@ export const importRecipeSecure = functions.https.onCall(async (data: { url: str
   }
 });
 
+// Pasted recipe text the app's own heuristics couldn't split into title, ingredients and steps
+export const extractRecipeFromText = functions.https.onCall(async (data: { text: string; title?: string }, context) => {
+  try {
+    if (!context.auth) {
+      throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+    }
+
+    const text = typeof data?.text === 'string' ? data.text.trim() : '';
+    if (!text) {
+      throw new functions.https.HttpsError('invalid-argument', 'Recipe text is required');
+    }
+    if (text.length > 20000) {
+      throw new functions.https.HttpsError('invalid-argument', 'Recipe text is too long');
+    }
+
+    // Counts against the same daily limit as URL imports
+    await checkImportRateLimit(context.auth.uid);
+
+    const recipe = await extractRecipeFromTextWithAI(text.slice(0, 15000), {
+      title: typeof data.title === 'string' ? data.title : undefined
+    });
+
+    await updateImportCount(context.auth.uid);
+
+    return {
+      success: true,
+      recipe
+    };
+
+  } catch (error) {
+    console.error('Error extracting recipe from text:', error);
+
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+
+    throw new functions.https.HttpsError('internal',
+      error instanceof Error ? error.message : 'Failed to read recipe text'
+    );
+  }
+});
+
 // Helper functions
 async function checkConversionRateLimit(userId: string): Promise<void> {
   const rateLimitDoc = await admin.firestore().collection('rateLimits').doc(userId).get();
@@ -1455,7 +1106,7 @@ export const createKidProfile = functions.https.onCall(async (data: {
   name: string;
   age: number;
   readingLevel: 'beginner' | 'intermediate' | 'advanced';
-  allergies: { allergen: string; severity: 'mild' | 'moderate' | 'severe' }[];
+  allergies: KidAllergy[];
   experience?: 'beginner' | 'intermediate' | 'advanced';
 }, context) => {
   try {
@@ -1486,11 +1137,13 @@ export const createKidProfile = functions.https.onCall(async (data: {
     }
 
     // Create kid profile
+    const sanitizedAllergies = sanitizeAllergies(allergies);
     const kidProfileData = {
       name: name.trim(),
       age,
       readingLevel,
-      allergies: allergies || [],
+      allergies: sanitizedAllergies,
+      allergyFlags: sanitizedAllergies.map(allergy => allergy.allergen),
       experience,
       favoriteRecipes: [],
       parentId: parentProfile.id,
@@ -1574,6 +1227,238 @@ async function getKidProfile(kidProfileId: string): Promise<KidProfile | null> {
   return data ? { id: doc.id, ...data } as KidProfile : null;
 }
 
+// Parent PIN - stored salted and hashed in parentPins/{parentId}, which clients can't read
+interface ParentPinRecord {
+  parentId: string;
+  userId: string;
+  hash: string;
+  salt: string;
+  failedAttempts: number;
+  lockedUntil: admin.firestore.Timestamp | null;
+  updatedAt: admin.firestore.FieldValue | admin.firestore.Timestamp;
+}
+
+interface PinVerificationResult {
+  valid: boolean;
+  attemptsRemaining?: number;
+  lockedUntil?: number; // Milliseconds since epoch
+  requiresReset?: boolean;
+}
+
+const PIN_PATTERN = /^\d{4}$/;
+const PIN_FREE_ATTEMPTS = 3; // Wrong tries allowed before the backoff starts
+const PIN_BASE_LOCKOUT_MS = 30 * 1000; // Doubles with every further wrong try
+const PIN_MAX_LOCKOUT_MS = 60 * 60 * 1000;
+const PIN_RESET_AFTER_ATTEMPTS = 10; // After this many, only a password reset unlocks it
+const PIN_RECENT_LOGIN_MS = 5 * 60 * 1000; // How fresh a password sign-in must be to reset the PIN
+
+function hashPin(pin: string, salt: string): string {
+  return crypto.scryptSync(pin, salt, 64).toString('hex');
+}
+
+function pinMatches(pin: string, record: Pick<ParentPinRecord, 'hash' | 'salt'>): boolean {
+  const expected = Buffer.from(record.hash, 'hex');
+  const actual = Buffer.from(hashPin(pin, record.salt), 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function getPinLockoutMs(failedAttempts: number): number {
+  if (failedAttempts < PIN_FREE_ATTEMPTS) return 0;
+  return Math.min(PIN_BASE_LOCKOUT_MS * Math.pow(2, failedAttempts - PIN_FREE_ATTEMPTS), PIN_MAX_LOCKOUT_MS);
+}
+
+async function requireParentProfile(context: functions.https.CallableContext) {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated');
+  }
+
+  const parentProfile = await getUserParentProfile(context.auth.uid);
+  if (!parentProfile) {
+    throw new functions.https.HttpsError('not-found', 'Parent profile not found');
+  }
+
+  return { uid: context.auth.uid, parentProfile: parentProfile as { id: string; kidModePin?: string } };
+}
+
+async function writeParentPin(parentId: string, userId: string, pin: string): Promise<void> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const record: ParentPinRecord = {
+    parentId,
+    userId,
+    hash: hashPin(pin, salt),
+    salt,
+    failedAttempts: 0,
+    lockedUntil: null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  const batch = admin.firestore().batch();
+  batch.set(admin.firestore().collection('parentPins').doc(parentId), record);
+  // The profile only says whether a PIN is set; any old plaintext PIN is removed
+  batch.update(admin.firestore().collection('parentProfiles').doc(parentId), {
+    hasKidModePin: true,
+    kidModePin: admin.firestore.FieldValue.delete(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+}
+
+// Profiles from before PINs were hashed keep the PIN in plaintext; move it across
+async function getParentPinRecord(uid: string, parentProfile: { id: string; kidModePin?: string }): Promise<ParentPinRecord | null> {
+  const pinDoc = await admin.firestore().collection('parentPins').doc(parentProfile.id).get();
+  if (pinDoc.exists) {
+    return pinDoc.data() as ParentPinRecord;
+  }
+
+  if (parentProfile.kidModePin && PIN_PATTERN.test(parentProfile.kidModePin)) {
+    await writeParentPin(parentProfile.id, uid, parentProfile.kidModePin);
+    const migratedDoc = await admin.firestore().collection('parentPins').doc(parentProfile.id).get();
+    return migratedDoc.data() as ParentPinRecord;
+  }
+
+  return null;
+}
+
+// Checks a PIN and records the attempt; wrong tries back off exponentially, then lock until reset
+async function checkParentPin(uid: string, parentProfile: { id: string; kidModePin?: string }, pin: string): Promise<PinVerificationResult> {
+  // Also moves a plaintext PIN from an older profile across before it's checked
+  if (!await getParentPinRecord(uid, parentProfile)) {
+    throw new functions.https.HttpsError('failed-precondition', 'No parent PIN has been set');
+  }
+
+  const pinRef = admin.firestore().collection('parentPins').doc(parentProfile.id);
+
+  // Read, compare and count in one transaction so parallel guesses can't share an attempt
+  return admin.firestore().runTransaction(async transaction => {
+    const pinDoc = await transaction.get(pinRef);
+    if (!pinDoc.exists) {
+      throw new functions.https.HttpsError('failed-precondition', 'No parent PIN has been set');
+    }
+    const record = pinDoc.data() as ParentPinRecord;
+
+    if (record.failedAttempts >= PIN_RESET_AFTER_ATTEMPTS) {
+      return { valid: false, attemptsRemaining: 0, requiresReset: true };
+    }
+
+    const now = Date.now();
+    if (record.lockedUntil && record.lockedUntil.toMillis() > now) {
+      return { valid: false, attemptsRemaining: 0, lockedUntil: record.lockedUntil.toMillis() };
+    }
+
+    if (PIN_PATTERN.test(pin) && pinMatches(pin, record)) {
+      if (record.failedAttempts > 0 || record.lockedUntil) {
+        transaction.update(pinRef, { failedAttempts: 0, lockedUntil: null, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      }
+      return { valid: true };
+    }
+
+    const failedAttempts = record.failedAttempts + 1;
+    const lockoutMs = getPinLockoutMs(failedAttempts);
+    const lockedUntil = lockoutMs > 0 ? admin.firestore.Timestamp.fromMillis(now + lockoutMs) : null;
+    transaction.update(pinRef, { failedAttempts, lockedUntil, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+
+    if (failedAttempts >= PIN_RESET_AFTER_ATTEMPTS) {
+      return { valid: false, attemptsRemaining: 0, requiresReset: true };
+    }
+
+    return {
+      valid: false,
+      attemptsRemaining: Math.max(PIN_FREE_ATTEMPTS - failedAttempts, 0),
+      ...(lockedUntil ? { lockedUntil: lockedUntil.toMillis() } : {}),
+    };
+  });
+}
+
+// Cloud Function to check the parent PIN when leaving kid mode or verifying a kid's cooking
+export const verifyParentPin = functions.https.onCall(async (data: { pin: string }, context) => {
+  try {
+    const { uid, parentProfile } = await requireParentProfile(context);
+
+    if (typeof data?.pin !== 'string') {
+      throw new functions.https.HttpsError('invalid-argument', 'PIN is required');
+    }
+
+    return await checkParentPin(uid, parentProfile, data.pin);
+
+  } catch (error) {
+    console.error('Error verifying parent PIN:', error);
+
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+
+    throw new functions.https.HttpsError('internal',
+      error instanceof Error ? error.message : 'Failed to verify PIN'
+    );
+  }
+});
+
+// Cloud Function to set or change the parent PIN. Replacing an existing PIN needs
+// either the current PIN or a password sign-in from the last few minutes.
+export const setParentPin = functions.https.onCall(async (data: { pin: string; currentPin?: string }, context) => {
+  try {
+    const { uid, parentProfile } = await requireParentProfile(context);
+    const { pin, currentPin } = data || {};
+
+    if (typeof pin !== 'string' || !PIN_PATTERN.test(pin)) {
+      throw new functions.https.HttpsError('invalid-argument', 'PIN must be 4 digits');
+    }
+
+    const existing = await getParentPinRecord(uid, parentProfile);
+    if (existing) {
+      const authTime = Number(context.auth?.token?.auth_time || 0) * 1000;
+      const recentlySignedIn = Date.now() - authTime < PIN_RECENT_LOGIN_MS;
+
+      if (!recentlySignedIn) {
+        if (typeof currentPin !== 'string') {
+          throw new functions.https.HttpsError('permission-denied', 'Enter your current PIN or your account password to change the PIN');
+        }
+
+        const result = await checkParentPin(uid, parentProfile, currentPin);
+        if (!result.valid) {
+          return { success: false, verification: result };
+        }
+      }
+    }
+
+    await writeParentPin(parentProfile.id, uid, pin);
+
+    return { success: true };
+
+  } catch (error) {
+    console.error('Error setting parent PIN:', error);
+
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+
+    throw new functions.https.HttpsError('internal',
+      error instanceof Error ? error.message : 'Failed to set PIN'
+    );
+  }
+});
+
+// Cloud Function to move a plaintext PIN left on an older profile into parentPins
+export const migrateParentPin = functions.https.onCall(async (data, context) => {
+  try {
+    const { uid, parentProfile } = await requireParentProfile(context);
+    const record = await getParentPinRecord(uid, parentProfile);
+
+    return { success: true, hasPin: !!record };
+
+  } catch (error) {
+    console.error('Error migrating parent PIN:', error);
+
+    if (error instanceof functions.https.HttpsError) {
+      throw error;
+    }
+
+    throw new functions.https.HttpsError('internal',
+      error instanceof Error ? error.message : 'Failed to migrate PIN'
+    );
+  }
+});
+
 // Cloud Function to rate and provide feedback on kid recipes
 export const rateKidRecipe = functions.https.onCall(async (data: {
   kidRecipeId: string;
@@ -1773,7 +1658,7 @@ ${refinementInstructions}
 
 Original Recipe:
 Title: ${recipe.title}
-Ingredients: ${recipe.ingredients?.join(', ') || 'Not specified'}
+Ingredients: ${recipe.ingredients?.map(ingredientToText).join(', ') || 'Not specified'}
 Instructions: ${recipe.instructions?.join(' ') || 'Not specified'}
 
 Please convert this recipe to be kid-friendly for a ${kidAge}-year-old with ${readingLevel} reading level, incorporating the feedback above.
@@ -1874,52 +1759,10 @@ Return a JSON object with:
   }
 }
 
-// Common allergens database for detection
-const COMMON_ALLERGENS = {
-  'nuts': [
-    'almond', 'almonds', 'walnut', 'walnuts', 'pecan', 'pecans', 'cashew', 'cashews',
-    'pistachio', 'pistachios', 'hazelnut', 'hazelnuts', 'macadamia', 'brazil nut',
-    'pine nut', 'pine nuts', 'chestnut', 'chestnuts', 'nut', 'nuts', 'tree nut',
-    'peanut', 'peanuts', 'peanut butter', 'nutella'
-  ],
-  'dairy': [
-    'milk', 'butter', 'cheese', 'cream', 'yogurt', 'yoghurt', 'sour cream',
-    'heavy cream', 'whipped cream', 'cottage cheese', 'cream cheese', 'mozzarella',
-    'cheddar', 'parmesan', 'swiss cheese', 'goat cheese', 'feta', 'ricotta',
-    'buttermilk', 'half and half', 'dairy', 'lactose', 'casein', 'whey'
-  ],
-  'eggs': [
-    'egg', 'eggs', 'egg white', 'egg whites', 'egg yolk', 'egg yolks',
-    'whole egg', 'beaten egg', 'scrambled egg', 'mayonnaise', 'mayo'
-  ],
-  'shellfish': [
-    'shrimp', 'crab', 'lobster', 'crawfish', 'crayfish', 'prawn', 'prawns',
-    'scallop', 'scallops', 'clam', 'clams', 'oyster', 'oysters', 'mussel', 'mussels',
-    'shellfish', 'seafood'
-  ],
-  'fish': [
-    'salmon', 'tuna', 'cod', 'halibut', 'trout', 'bass', 'mackerel', 'sardine',
-    'sardines', 'anchovy', 'anchovies', 'fish', 'fish sauce', 'worcestershire'
-  ],
-  'soy': [
-    'soy', 'soy sauce', 'soy milk', 'tofu', 'tempeh', 'miso', 'edamame',
-    'soybean', 'soybeans', 'soy protein', 'soy lecithin'
-  ],
-  'wheat': [
-    'wheat', 'flour', 'bread', 'pasta', 'noodles', 'crackers', 'cereal',
-    'wheat flour', 'all-purpose flour', 'whole wheat', 'breadcrumbs', 'gluten',
-    'semolina', 'durum', 'bulgur', 'couscous'
-  ],
-  'sesame': [
-    'sesame', 'sesame seed', 'sesame seeds', 'sesame oil', 'tahini',
-    'sesame paste', 'sesame butter'
-  ]
-};
-
 // Function to detect allergens in ingredients
 function detectAllergensInIngredients(
-  ingredients: string[],
-  allergies: { allergen: string; severity: 'mild' | 'moderate' | 'severe' }[]
+  ingredients: StoredIngredient[],
+  allergies: KidAllergy[]
 ): {
   hasAllergens: boolean;
   detectedAllergens: {
@@ -1940,21 +1783,9 @@ function detectAllergensInIngredients(
 
   // Check each allergy against all ingredients
   for (const allergy of allergies) {
-    const allergenName = allergy.allergen.toLowerCase();
-    const allergenKeywords = COMMON_ALLERGENS[allergenName as keyof typeof COMMON_ALLERGENS] || [allergenName];
-    const foundInIngredients: string[] = [];
-
-    for (const ingredient of ingredients) {
-      const ingredientLower = ingredient.toLowerCase();
-
-      // Check for exact matches and partial matches
-      for (const keyword of allergenKeywords) {
-        if (ingredientLower.includes(keyword)) {
-          foundInIngredients.push(ingredient);
-          break; // Don't add same ingredient multiple times
-        }
-      }
-    }
+    const foundInIngredients = ingredients
+      .map(ingredientToText)
+      .filter(ingredient => ingredientContainsAllergen(ingredient, allergy.allergen));
 
     if (foundInIngredients.length > 0) {
       detected.push({
@@ -1992,12 +1823,25 @@ function generateCacheKey(
   readingLevel: string,
   ageRange: string,
   allergyProfile: string[] = [],
-  experience: string = 'beginner'
+  experience: string = 'beginner',
+  restrictedTools: string[] = [],
+  permissions?: KidKitchenPermissions
 ): string {
   // Create a consistent string for hashing
   const normalizedUrl = url.toLowerCase().trim();
   const sortedAllergies = [...allergyProfile].sort().join(',');
-  const cacheInput = `${normalizedUrl}|${readingLevel}|${ageRange}|${sortedAllergies}|${experience}`;
+  let cacheInput = `${normalizedUrl}|${readingLevel}|${ageRange}|${sortedAllergies}|${experience}`;
+  // Only appended when set, so conversions cached before restrictions existed still match
+  if (restrictedTools.length > 0) {
+    cacheInput += `|${[...restrictedTools].sort().join(',')}`;
+  }
+  // The prompt changes with these too, so a conversion made without them can't be reused
+  if (permissions?.requiresAdultHelp) {
+    cacheInput += '|adult-help';
+  }
+  if (permissions?.maxCookingTimeMinutes) {
+    cacheInput += `|max-${permissions.maxCookingTimeMinutes}min`;
+  }
 
   // Generate SHA256 hash
   const hash = crypto.createHash('sha256').update(cacheInput).digest('hex');
@@ -2089,7 +1933,22 @@ async function createKidRecipeFromCache(recipeId: string, kidAge: number, readin
   return doc.id;
 }
 
-async function convertRecipeWithAI(recipe: any, kidAge: number, readingLevel: string, allergyFlags: string[]) {
+async function convertRecipeWithAI(
+  recipe: any,
+  kidAge: number,
+  readingLevel: string,
+  allergyFlags: string[],
+  permissions?: KidKitchenPermissions
+) {
+  const restrictedTools = getRestrictedTools(permissions);
+  const permissionRules = [
+    restrictedTools.length > 0
+      ? `- This child is NOT allowed to use ${restrictedTools.join(', ')}. Any step that needs them must be a hand-off step: set "grownUpStep": true and write it as something the child asks their grown-up to do (e.g. "Ask your grown-up to chop the onion while you watch"). Split steps so the child still does every part they safely can.`
+      : '',
+    permissions?.requiresAdultHelp ? '- This child always cooks with an adult in the kitchen; remind them to check in with their grown-up before starting.' : '',
+    permissions?.maxCookingTimeMinutes ? `- Keep the child's hands-on time within ${permissions.maxCookingTimeMinutes} minutes; long waits (rising, chilling, slow baking) should be grown-up steps.` : '',
+  ].filter(Boolean).join('\n');
+
   const prompt = `Convert this recipe to be kid-friendly for a ${kidAge}-year-old with ${readingLevel} reading level.
 
 Original Recipe:
@@ -2105,7 +1964,7 @@ SAFETY GUIDELINES:
 - For high heat/dangerous techniques (deep frying, broiling, etc.), emphasize adult assistance
 - For raw ingredients (raw eggs, undercooked meat), include proper handling safety notes
 - Always prioritize safety while keeping the recipe engaging for kids
-
+${permissionRules ? `\nKITCHEN PERMISSIONS:\n${permissionRules}\n` : ''}
 Please convert this to:
 1. Kid-friendly ingredient names and measurements they can understand
 2. Simple, clear step-by-step instructions appropriate for their reading level
@@ -2134,6 +1993,7 @@ Return the response as JSON in this exact format:
       "kidFriendlyText": "simple kid-friendly instruction",
       "safetyNote": "safety warning if needed",
       "adultSupervision": true,
+      "grownUpStep": false,
       "time": "5 minutes",
       "order": 1,
       "completed": false,
@@ -0,0 +1,613 @@
+// Recipe extraction from fetched pages - structured data, recipe card plugins and
+// common markup. Kept free of Firebase so it can be tested against saved pages.
+import * as cheerio from 'cheerio';
+
+export interface ScrapedRecipe {
+  title: string;
+  description?: string;
+  image?: string;
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  servings?: number;
+  difficulty?: string;
+  ingredients: string[];
+  instructions: string[];
+  sourceUrl: string;
+  tags?: string[];
+}
+
+export function extractImageFromMetaTags($: cheerio.CheerioAPI): string | undefined {
+  // Priority order: og:image, twitter:image, fallback image selectors
+  const imageSelectors = [
+    'meta[property="og:image"]',
+    'meta[property="og:image:url"]',
+    'meta[name="twitter:image"]',
+    'meta[name="twitter:image:src"]',
+    'link[rel="image_src"]',
+    // Common recipe site image selectors
+    '.recipe-image img',
+    '.recipe-hero img',
+    '.recipe-photo img',
+    '[class*="recipe-image"] img',
+    '.post-thumbnail img',
+    '.featured-image img'
+  ];
+
+  for (const selector of imageSelectors) {
+    let imageUrl: string | undefined;
+
+    if (selector.startsWith('meta') || selector.startsWith('link')) {
+      // Meta tags and link tags
+      const element = $(selector).first();
+      imageUrl = element.attr('content') || element.attr('href');
+    } else {
+      // Image tags
+      const imgElement = $(selector).first();
+      imageUrl = imgElement.attr('src') || imgElement.attr('data-src');
+    }
+
+    if (imageUrl) {
+      // Clean and validate the image URL
+      const cleanedUrl = imageUrl.trim();
+
+      // Skip if it's not a valid image URL
+      if (!cleanedUrl || cleanedUrl === '#' || cleanedUrl === '/' || cleanedUrl.length < 10) {
+        continue;
+      }
+
+      // Skip common placeholder/loading images
+      const skipPatterns = [
+        'placeholder', 'loading', 'spinner', 'default',
+        '1x1', 'pixel', 'spacer', 'blank'
+      ];
+
+      if (skipPatterns.some(pattern => cleanedUrl.toLowerCase().includes(pattern))) {
+        continue;
+      }
+
+      // Reassign cleaned URL
+      imageUrl = cleanedUrl;
+
+      // Convert relative URLs to absolute
+      if (imageUrl.startsWith('//')) {
+        imageUrl = 'https:' + imageUrl;
+      } else if (imageUrl.startsWith('/')) {
+        // Would need the base URL to make this absolute - skip for now
+        continue;
+      }
+
+      // Check if it's a valid image file extension or has image query params
+      const hasImageExtension = /\.(jpg|jpeg|png|gif|webp|avif)(\?.*)?$/i.test(imageUrl);
+      const isHttpsUrl = imageUrl.startsWith('https://');
+
+      if (isHttpsUrl && (hasImageExtension || imageUrl.includes('image') || selector.includes('og:') || selector.includes('twitter:'))) {
+        return imageUrl;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function extractFromJsonLd($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
+  try {
+    const jsonLdScripts = $('script[type="application/ld+json"]');
+
+    for (let i = 0; i < jsonLdScripts.length; i++) {
+      const scriptContent = $(jsonLdScripts[i]).html();
+      if (!scriptContent) continue;
+
+      try {
+        const data = JSON.parse(scriptContent);
+        const recipe = findRecipeInJsonLd(data);
+        if (recipe) return recipe;
+      } catch (parseError) {
+        continue; // Try next script tag
+      }
+    }
+    return null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function findRecipeInJsonLd(data: any): Partial<ScrapedRecipe> | null {
+  // Handle different JSON-LD structures
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const recipe = findRecipeInJsonLd(item);
+      if (recipe) return recipe;
+    }
+    return null;
+  }
+
+  if (data['@type'] === 'Recipe') {
+    return parseJsonLdRecipe(data);
+  }
+
+  // Handle nested structures
+  if (data['@graph']) {
+    return findRecipeInJsonLd(data['@graph']);
+  }
+
+  return null;
+}
+
+function parseJsonLdRecipe(recipe: any): Partial<ScrapedRecipe> {
+  const extractText = (value: any): string => {
+    if (typeof value === 'string') return value;
+    if (value && value.text) return value.text;
+    if (value && value['@value']) return value['@value'];
+    return '';
+  };
+
+  const extractArray = (value: any): string[] => {
+    if (!value) return [];
+    if (Array.isArray(value)) {
+      return value.map(extractText).filter(Boolean);
+    }
+    return [extractText(value)].filter(Boolean);
+  };
+
+  const extractInstructions = (instructions: any): string[] => {
+    if (!instructions) return [];
+
+    const processInstruction = (instruction: any): string => {
+      // Handle HowToStep objects
+      if (instruction && typeof instruction === 'object') {
+        if (Array.isArray(instruction.itemListElement)) {
+          return instruction.itemListElement.map(processInstruction).filter(Boolean).join('\n');
+        }
+        if (Array.isArray(instruction.steps)) {
+          return instruction.steps.map(processInstruction).filter(Boolean).join('\n');
+        }
+        // Standard HowToStep with text property
+        if (instruction.text) {
+          return extractText(instruction.text);
+        }
+        // Some sites use name instead of text
+        if (instruction.name) {
+          return extractText(instruction.name);
+        }
+        // Some use description
+        if (instruction.description) {
+          return extractText(instruction.description);
+        }
+        // Handle @type HowToStep
+        if (instruction['@type'] === 'HowToStep') {
+          return instruction.text || instruction.name || instruction.description || '';
+        }
+        if (instruction['@type'] === 'HowToSection' && instruction.itemListElement) {
+          const sectionSteps = Array.isArray(instruction.itemListElement)
+            ? instruction.itemListElement
+            : [instruction.itemListElement];
+          return sectionSteps.map(processInstruction).filter(Boolean).join('\n');
+        }
+        if (instruction['@type'] === 'ItemList' && instruction.itemListElement) {
+          const listSteps = Array.isArray(instruction.itemListElement)
+            ? instruction.itemListElement
+            : [instruction.itemListElement];
+          return listSteps.map(processInstruction).filter(Boolean).join('\n');
+        }
+        // If it's an object but no recognizable text, try to extract text from it
+        return extractText(instruction);
+      }
+
+      // Handle plain strings
+      return extractText(instruction);
+    };
+
+    let result: string[] = [];
+
+    if (Array.isArray(instructions)) {
+      result = instructions.map(processInstruction).filter(Boolean);
+    } else {
+      const processed = processInstruction(instructions);
+      if (processed) result = [processed];
+    }
+
+    // Clean up instruction text
+    const flattened = result.flatMap((instruction: string) =>
+      instruction.split('\n').map(step => step.trim()).filter(Boolean)
+    );
+
+    return flattened.map((instruction: string, index: number) => {
+      let cleaned = instruction
+        // Remove step numbers at the beginning
+        .replace(/^\d+\.\s*/, '')
+        .replace(/^Step\s+\d+:?\s*/i, '')
+        // Remove extra whitespace
+        .trim();
+
+      // Ensure instruction ends with period if it doesn't end with punctuation
+      if (cleaned && !/[.!?]$/.test(cleaned)) {
+        cleaned += '.';
+      }
+
+      return cleaned;
+    }).filter(Boolean);
+  };
+
+  const extractTime = (duration: any): string => {
+    if (!duration) return '';
+    if (typeof duration === 'string') {
+      // Parse ISO 8601 duration (PT15M = 15 minutes)
+      const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?/);
+      if (match) {
+        const hours = match[1] ? parseInt(match[1]) : 0;
+        const minutes = match[2] ? parseInt(match[2]) : 0;
+        if (hours && minutes) return `${hours}h ${minutes}min`;
+        if (hours) return `${hours}h`;
+        if (minutes) return `${minutes}min`;
+      }
+    }
+    return extractText(duration);
+  };
+
+  const extractNumber = (value: any): number | undefined => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string') {
+      const str = value.toString().trim();
+
+      // Handle fractions like "1/2", "3/4", etc.
+      const fractionMatch = str.match(/^(\d+)\/(\d+)$/);
+      if (fractionMatch) {
+        const numerator = parseFloat(fractionMatch[1]);
+        const denominator = parseFloat(fractionMatch[2]);
+        return denominator !== 0 ? numerator / denominator : undefined;
+      }
+
+      // Handle mixed numbers like "1 1/2", "2 3/4"
+      const mixedMatch = str.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+      if (mixedMatch) {
+        const whole = parseFloat(mixedMatch[1]);
+        const numerator = parseFloat(mixedMatch[2]);
+        const denominator = parseFloat(mixedMatch[3]);
+        return denominator !== 0 ? whole + (numerator / denominator) : undefined;
+      }
+
+      // Handle ranges like "2-3", "4-6" - take the middle value
+      const rangeMatch = str.match(/^(\d+(?:\.\d+)?)\s*[-–—]\s*(\d+(?:\.\d+)?)$/);
+      if (rangeMatch) {
+        const min = parseFloat(rangeMatch[1]);
+        const max = parseFloat(rangeMatch[2]);
+        return !isNaN(min) && !isNaN(max) ? (min + max) / 2 : undefined;
+      }
+
+      // Handle "about", "approximately" prefixes
+      const approxMatch = str.match(/(?:about|approximately|around|~)\s*(\d+(?:\.\d+)?)/i);
+      if (approxMatch) {
+        const num = parseFloat(approxMatch[1]);
+        return !isNaN(num) ? num : undefined;
+      }
+
+      // Extract first number from string (handles cases like "4 servings", "serves 6", etc.)
+      const numberMatch = str.match(/(\d+(?:\.\d+)?)/);
+      if (numberMatch) {
+        const num = parseFloat(numberMatch[1]);
+        return !isNaN(num) ? num : undefined;
+      }
+
+      return undefined;
+    }
+    return undefined;
+  };
+
+  const structuredImage = extractText(recipe.image?.url || recipe.image);
+
+  return {
+    title: extractText(recipe.name),
+    description: extractText(recipe.description),
+    image: structuredImage, // Meta tag extraction will be handled in the main scraping function
+    prepTime: extractTime(recipe.prepTime),
+    cookTime: extractTime(recipe.cookTime),
+    totalTime: extractTime(recipe.totalTime),
+    servings: extractNumber(recipe.recipeYield || recipe.yield),
+    ingredients: extractArray(recipe.recipeIngredient),
+    instructions: recipe.recipeInstructions ?
+      extractInstructions(recipe.recipeInstructions) : [],
+    tags: extractArray(recipe.recipeCategory).concat(extractArray(recipe.recipeCuisine)),
+  };
+}
+
+function extractFromMicrodata($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
+  const recipeElement = $('[itemtype*="schema.org/Recipe"]').first();
+  if (!recipeElement.length) return null;
+
+  const extractProp = (prop: string): string[] => {
+    const elements = recipeElement.find(`[itemprop="${prop}"]`);
+    const values: string[] = [];
+
+    elements.each((_, el) => {
+      const $el = $(el);
+      const text = $el.text().trim() || $el.attr('content') || '';
+      if (text) values.push(text);
+    });
+
+    return values;
+  };
+
+  const title = extractProp('name')[0];
+  if (!title) return null;
+
+  return {
+    title,
+    description: extractProp('description')[0],
+    image: recipeElement.find('[itemprop="image"]').attr('src'),
+    prepTime: extractProp('prepTime')[0],
+    cookTime: extractProp('cookTime')[0],
+    totalTime: extractProp('totalTime')[0],
+    servings: parseInt(extractProp('recipeYield')[0]) || undefined,
+    ingredients: extractProp('recipeIngredient'),
+    instructions: extractProp('recipeInstructions'),
+  };
+}
+
+function extractFromCommonSelectors($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
+  // Common recipe site patterns
+  const titleSelectors = [
+    '.recipe-title', '.entry-title', 'h1.recipe-name', '.recipe-header h1',
+    '[class*="recipe-title"]', '[class*="recipe-name"]'
+  ];
+
+  const ingredientSelectors = [
+    '.recipe-ingredient', '.ingredient', '.recipe-ingredients li',
+    '[class*="ingredient"]', '.ingredients li'
+  ];
+
+  const instructionSelectors = [
+    '.recipe-instruction', '.instruction', '.recipe-instructions li',
+    '.recipe-method li', '[class*="instruction"]', '.directions li'
+  ];
+
+  const title = findTextBySelectors($, titleSelectors);
+  if (!title) return null;
+
+  const ingredients = findMultipleTextBySelectors($, ingredientSelectors);
+  const instructions = findMultipleTextBySelectors($, instructionSelectors);
+
+  if (ingredients.length === 0 && instructions.length === 0) return null;
+
+  return {
+    title: title.trim(),
+    ingredients,
+    instructions,
+  };
+}
+
+function findTextBySelectors($: cheerio.CheerioAPI, selectors: string[]): string {
+  for (const selector of selectors) {
+    const element = $(selector).first();
+    if (element.length) {
+      const text = element.text().trim();
+      if (text) return text;
+    }
+  }
+  return '';
+}
+
+function findMultipleTextBySelectors($: cheerio.CheerioAPI, selectors: string[]): string[] {
+  for (const selector of selectors) {
+    const elements = $(selector);
+    if (elements.length) {
+      const texts: string[] = [];
+      elements.each((_, el) => {
+        const text = $(el).text().trim();
+        if (text) texts.push(text);
+      });
+      if (texts.length > 0) return texts;
+    }
+  }
+  return [];
+}
+
+// Recipe extractors - each one says which pages it handles and how much to trust what it found
+export interface ExtractorContext {
+  url: string;
+  hostname: string;
+  $: cheerio.CheerioAPI;
+}
+
+export interface ExtractorResult {
+  extractor: string;
+  recipe: Partial<ScrapedRecipe>;
+  confidence: number; // 0-1, used to rank results from every extractor that ran
+}
+
+export interface RecipeExtractor {
+  name: string;
+  // Sites it's written for; matches subdomains too
+  hosts?: string[];
+  // Selectors for the recipe card markup it understands, wherever it's hosted
+  signatures?: string[];
+  // How far to trust a complete result; scaled down when fields are missing
+  baseConfidence: number;
+  extract: (context: ExtractorContext) => Partial<ScrapedRecipe> | null;
+}
+
+// Site- and plugin-specific extractors first; the generic ones run on every page
+const RECIPE_EXTRACTORS: RecipeExtractor[] = [
+  {
+    name: 'WP Recipe Maker',
+    signatures: ['.wprm-recipe-container', '.wprm-recipe'],
+    baseConfidence: 0.95,
+    extract: ({ $ }) => extractFromWprm($),
+  },
+  {
+    name: 'Tasty Recipes',
+    signatures: ['.tasty-recipes'],
+    baseConfidence: 0.95,
+    extract: ({ $ }) => extractFromTastyRecipes($),
+  },
+  {
+    name: 'JSON-LD',
+    baseConfidence: 0.9,
+    extract: ({ $ }) => extractFromJsonLd($),
+  },
+  {
+    name: 'Microdata',
+    baseConfidence: 0.8,
+    extract: ({ $ }) => extractFromMicrodata($),
+  },
+  {
+    name: 'CSS selectors',
+    baseConfidence: 0.5,
+    extract: ({ $ }) => extractFromCommonSelectors($),
+  },
+];
+
+function extractorHandles(extractor: RecipeExtractor, context: ExtractorContext): boolean {
+  if (!extractor.hosts && !extractor.signatures) return true;
+
+  const hostMatches = (extractor.hosts || []).some(host =>
+    context.hostname === host || context.hostname.endsWith(`.${host}`)
+  );
+  if (hostMatches) return true;
+
+  return (extractor.signatures || []).some(selector => context.$(selector).length > 0);
+}
+
+// Runs every extractor that handles the page, best result first
+export function runRecipeExtractors(context: ExtractorContext): ExtractorResult[] {
+  const results: ExtractorResult[] = [];
+
+  for (const extractor of RECIPE_EXTRACTORS) {
+    if (!extractorHandles(extractor, context)) continue;
+
+    try {
+      const recipe = extractor.extract(context);
+      if (!recipe || !recipe.title) continue;
+
+      results.push({
+        extractor: extractor.name,
+        recipe,
+        confidence: extractor.baseConfidence * scoreRecipeCompleteness(recipe),
+      });
+    } catch (error) {
+      console.warn(`Scrape debug: ${extractor.name} extractor failed`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.confidence - a.confidence);
+}
+
+// 0-1 for how usable an extracted recipe looks, before validation
+function scoreRecipeCompleteness(recipe: Partial<ScrapedRecipe>): number {
+  const ingredients = recipe.ingredients || [];
+  const instructions = recipe.instructions || [];
+
+  let score = 0;
+  if (recipe.title) score += 0.15;
+  score += Math.min(ingredients.length / 5, 1) * 0.3;
+  score += Math.min(instructions.length / 3, 1) * 0.3;
+  if (recipe.image) score += 0.08;
+  if (recipe.prepTime || recipe.cookTime || recipe.totalTime) score += 0.07;
+  if (recipe.servings) score += 0.05;
+  if (recipe.description) score += 0.05;
+
+  // Broken markup tends to leave tags behind or run every step into one block
+  const lines = [...ingredients, ...instructions];
+  if (lines.some(line => /<[^>]+>/.test(line))) score *= 0.7;
+  if (instructions.length === 1 && instructions[0].length > 600) score *= 0.6;
+
+  return score;
+}
+
+// Text of the first match, without the screen-reader labels recipe plugins add
+function cardText($: cheerio.CheerioAPI, root: cheerio.Cheerio<any>, selector: string): string {
+  const element = root.find(selector).first().clone();
+  element.find('.sr-only, .screen-reader-text, .wprm-screen-reader-text').remove();
+  return element.text().replace(/\s+/g, ' ').trim();
+}
+
+function cardTexts($: cheerio.CheerioAPI, root: cheerio.Cheerio<any>, selector: string): string[] {
+  const texts: string[] = [];
+  root.find(selector).each((_, el) => {
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (text) texts.push(text);
+  });
+  return texts;
+}
+
+// Recipe plugins lazy-load images, so the real URL is often in a data attribute
+function cardImage(root: cheerio.Cheerio<any>, selector: string): string | undefined {
+  const img = root.find(selector).first();
+  const src = img.attr('data-lazy-src') || img.attr('data-src') || img.attr('src');
+  if (!src || src.startsWith('data:')) return undefined;
+  return src.startsWith('//') ? `https:${src}` : src;
+}
+
+function extractFromWprm($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
+  const card = $('.wprm-recipe-container').first().length
+    ? $('.wprm-recipe-container').first()
+    : $('.wprm-recipe').first();
+  if (!card.length) return null;
+
+  const title = cardText($, card, '.wprm-recipe-name');
+  if (!title) return null;
+
+  const ingredients: string[] = [];
+  card.find('.wprm-recipe-ingredient').each((_, el) => {
+    const $el = $(el);
+    const part = (name: string) => $el.find(`.wprm-recipe-ingredient-${name}`).first().text().trim();
+    const main = ['amount', 'unit', 'name'].map(part).filter(Boolean).join(' ');
+    // Notes after a comma, the way the ingredient parser expects them
+    const notes = part('notes');
+    const text = main ? [main, notes].filter(Boolean).join(', ') : $el.text().trim();
+    if (text) ingredients.push(text.replace(/\s+/g, ' '));
+  });
+
+  const tags = [
+    ...cardTexts($, card, '.wprm-recipe-course'),
+    ...cardTexts($, card, '.wprm-recipe-cuisine'),
+  ].flatMap(value => value.split(',').map(tag => tag.trim())).filter(Boolean);
+
+  return {
+    title,
+    description: cardText($, card, '.wprm-recipe-summary') || undefined,
+    image: cardImage(card, '.wprm-recipe-image img'),
+    prepTime: cardText($, card, '.wprm-recipe-prep-time-container .wprm-recipe-time') || undefined,
+    cookTime: cardText($, card, '.wprm-recipe-cook-time-container .wprm-recipe-time') || undefined,
+    totalTime: cardText($, card, '.wprm-recipe-total-time-container .wprm-recipe-time') || undefined,
+    servings: parseInt(cardText($, card, '.wprm-recipe-servings')) || undefined,
+    ingredients,
+    instructions: cardTexts($, card, '.wprm-recipe-instruction-text'),
+    tags: tags.length ? tags : undefined,
+  };
+}
+
+function extractFromTastyRecipes($: cheerio.CheerioAPI): Partial<ScrapedRecipe> | null {
+  const card = $('.tasty-recipes').first();
+  if (!card.length) return null;
+
+  const title = cardText($, card, '.tasty-recipes-title');
+  if (!title) return null;
+
+  // Older versions of the plugin write steps as paragraphs rather than a list
+  let instructions = cardTexts($, card, '.tasty-recipes-instructions li');
+  if (instructions.length === 0) {
+    instructions = cardTexts($, card, '.tasty-recipes-instructions p');
+  }
+
+  const yieldMatch = cardText($, card, '.tasty-recipes-yield').match(/\d+/);
+  const tags = [
+    ...cardTexts($, card, '.tasty-recipes-category'),
+    ...cardTexts($, card, '.tasty-recipes-cuisine'),
+  ].flatMap(value => value.split(',').map(tag => tag.trim())).filter(Boolean);
+
+  return {
+    title,
+    description: cardText($, card, '.tasty-recipes-description') || undefined,
+    image: cardImage(card, '.tasty-recipes-image img'),
+    prepTime: cardText($, card, '.tasty-recipes-prep-time') || undefined,
+    cookTime: cardText($, card, '.tasty-recipes-cook-time') || undefined,
+    totalTime: cardText($, card, '.tasty-recipes-total-time') || undefined,
+    servings: yieldMatch ? parseInt(yieldMatch[0]) : undefined,
+    ingredients: cardTexts($, card, '.tasty-recipes-ingredients li'),
+    instructions,
+    tags: tags.length ? tags : undefined,
+  };
+}
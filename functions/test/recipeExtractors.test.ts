@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { ExtractorResult, runRecipeExtractors, extractImageFromMetaTags } from '../src/recipeExtractors';
+
+// Pages saved from recipe sites, trimmed to the markup the extractors look at
+function loadFixture(name: string): cheerio.CheerioAPI {
+  return cheerio.load(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.html`), 'utf8'));
+}
+
+function extract(name: string, url = 'https://example.com/recipe'): ExtractorResult[] {
+  return runRecipeExtractors({ url, hostname: new URL(url).hostname, $: loadFixture(name) });
+}
+
+describe('runRecipeExtractors', () => {
+  test('prefers the WP Recipe Maker card over thin JSON-LD', () => {
+    const results = extract('wprm');
+
+    expect(results.map(result => result.extractor)).toEqual(['WP Recipe Maker', 'CSS selectors', 'JSON-LD']);
+    expect(results[0].recipe).toEqual({
+      title: 'Easy Banana Bread',
+      description: 'A moist, one-bowl banana bread that little hands can help mash and stir.',
+      image: 'https://sunnysidekitchen.example/wp-content/uploads/2024/03/banana-bread-500x500.jpg',
+      prepTime: '10 mins',
+      cookTime: '1 hr',
+      totalTime: '1 hr 10 mins',
+      servings: 10,
+      ingredients: [
+        '3 ripe bananas, very spotty',
+        '⅓ cup butter, melted',
+        '¾ cup sugar',
+        '1 egg, beaten',
+        '1 tsp baking soda',
+        '1 ½ cups all-purpose flour',
+      ],
+      instructions: [
+        'Heat the oven to 350°F and butter a loaf pan.',
+        'Mash the bananas in a big bowl, then stir in the melted butter.',
+        'Mix in the sugar, egg and baking soda, then fold in the flour.',
+        'Pour into the pan and bake for 1 hour, until a skewer comes out clean.',
+      ],
+      tags: ['Breakfast', 'Snack', 'American'],
+    });
+  });
+
+  test('reads a Tasty Recipes card with paragraph instructions', () => {
+    const [best] = extract('tasty');
+
+    expect(best.extractor).toBe('Tasty Recipes');
+    expect(best.recipe).toEqual({
+      title: 'Rainbow Veggie Pasta',
+      description: 'A bright weeknight pasta that hides five vegetables in plain sight.',
+      image: 'https://littlesprouts.example/wp-content/uploads/2023/09/rainbow-pasta-225x225.jpg',
+      prepTime: '15 minutes',
+      cookTime: '12 minutes',
+      totalTime: '27 minutes',
+      servings: 4,
+      ingredients: [
+        '8 oz short pasta',
+        '1 red bell pepper, diced',
+        '1 small zucchini, grated',
+        '1 cup cherry tomatoes, halved',
+        '2 tbsp olive oil',
+        'Parmesan, to serve',
+      ],
+      instructions: [
+        'Cook the pasta in salted water until just tender, then drain.',
+        'Warm the olive oil in a large pan and soften the pepper and zucchini for 5 minutes.',
+        'Add the tomatoes and cook until they start to burst.',
+        'Toss the pasta through the vegetables and top with Parmesan.',
+      ],
+      tags: ['Dinner', 'Italian'],
+    });
+  });
+
+  test('falls back to microdata when the JSON-LD is malformed or empty', () => {
+    const results = extract('broken-json-ld');
+
+    expect(results.map(result => result.extractor)).toEqual(['Microdata', 'JSON-LD']);
+    expect(results[1].recipe.ingredients).toEqual([]);
+    expect(results[0].recipe).toMatchObject({
+      title: 'Fluffy Pancakes',
+      servings: 8,
+      ingredients: [
+        '1 ½ cups all-purpose flour',
+        '1 tbsp sugar',
+        '2 tsp baking powder',
+        '1 ¼ cups milk',
+        '1 egg',
+        '2 tbsp butter, melted',
+      ],
+    });
+    expect(results[0].recipe.instructions).toHaveLength(3);
+  });
+
+  test('uses well-formed JSON-LD over generic page markup', () => {
+    const results = extract('json-ld');
+
+    expect(results.map(result => result.extractor)).toEqual(['JSON-LD', 'CSS selectors']);
+    expect(results[0].recipe).toEqual({
+      title: 'Easy Chicken Tacos',
+      description: 'Quick shredded chicken tacos with all the toppings.',
+      image: 'https://weeknighteats.example/img/chicken-tacos.jpg',
+      prepTime: '15min',
+      cookTime: '20min',
+      totalTime: '35min',
+      servings: 4,
+      ingredients: [
+        '1 lb boneless chicken breasts',
+        '1 tbsp taco seasoning',
+        '8 small tortillas',
+        '1 cup shredded lettuce',
+        '1/2 cup grated cheddar',
+        '1 lime, cut into wedges',
+      ],
+      instructions: [
+        'Rub the chicken with the taco seasoning.',
+        'Cook the chicken in a skillet over medium heat for 8 minutes per side, then shred.',
+        'Warm the tortillas and fill with chicken, lettuce and cheese.',
+        'Serve with lime wedges.',
+      ],
+      tags: ['Main Course', 'Mexican'],
+    });
+  });
+
+  test('ranks results by confidence', () => {
+    for (const fixture of ['wprm', 'tasty', 'broken-json-ld', 'json-ld']) {
+      const confidences = extract(fixture).map(result => result.confidence);
+      expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+      confidences.forEach(confidence => {
+        expect(confidence).toBeGreaterThan(0);
+        expect(confidence).toBeLessThanOrEqual(1);
+      });
+    }
+  });
+});
+
+describe('extractImageFromMetaTags', () => {
+  test('reads the Open Graph image', () => {
+    expect(extractImageFromMetaTags(loadFixture('tasty')))
+      .toBe('https://littlesprouts.example/wp-content/uploads/2023/09/rainbow-pasta-1200.jpg');
+  });
+});
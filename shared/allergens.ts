@@ -0,0 +1,87 @@
+// Allergen matching shared by the app's recipe checks and the conversion function,
+// so a recipe the server flags is the same recipe the app hides. Both packages
+// compile this file directly, so keep it free of imports.
+
+// Recipes saved after import store structured ingredients; older ones store plain lines
+export type StoredIngredient = string | { name?: string; amount?: number; unit?: string; notes?: string };
+
+/**
+ * One line of text per ingredient, including the notes ("flour, or almond flour")
+ */
+export function ingredientToText(ingredient: StoredIngredient): string {
+  if (typeof ingredient === 'string') return ingredient;
+  return [ingredient.amount, ingredient.unit, ingredient.name, ingredient.notes]
+    .filter(part => part !== undefined && part !== null && part !== '')
+    .join(' ');
+}
+
+/**
+ * Ingredient keywords for the allergy flags parents pick most often. Keywords
+ * match at the start of a word, so "egg" also finds "eggs". Flags we don't know
+ * about are matched by their own name.
+ */
+export const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  nuts: [
+    'nut', 'tree nut', 'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut',
+    'macadamia', 'brazil nut', 'pine nut', 'chestnut', 'peanut', 'nut butter', 'nutella',
+    'praline', 'marzipan'
+  ],
+  peanuts: ['peanut', 'groundnut'],
+  dairy: [
+    'milk', 'butter', 'cheese', 'cream', 'yogurt', 'yoghurt', 'sour cream', 'whey', 'casein',
+    'ghee', 'buttermilk', 'half and half', 'mozzarella', 'cheddar', 'parmesan', 'feta',
+    'ricotta', 'dairy', 'lactose'
+  ],
+  eggs: ['egg', 'mayonnaise', 'mayo', 'meringue', 'aioli'],
+  gluten: [
+    'flour', 'wheat', 'gluten', 'bread', 'pasta', 'noodle', 'barley', 'rye', 'couscous',
+    'cracker', 'semolina', 'durum', 'bulgur', 'cereal'
+  ],
+  wheat: [
+    'flour', 'wheat', 'gluten', 'bread', 'pasta', 'noodle', 'couscous', 'cracker', 'semolina',
+    'durum', 'bulgur', 'cereal'
+  ],
+  soy: ['soy', 'soya', 'tofu', 'edamame', 'miso', 'tempeh'],
+  fish: [
+    'fish', 'salmon', 'tuna', 'cod', 'anchovy', 'anchovies', 'sardine', 'tilapia', 'halibut', 'trout',
+    'bass', 'mackerel', 'worcestershire'
+  ],
+  shellfish: [
+    'shellfish', 'seafood', 'shrimp', 'prawn', 'crab', 'lobster', 'crawfish', 'crayfish',
+    'clam', 'mussel', 'oyster', 'scallop'
+  ],
+  sesame: ['sesame', 'tahini'],
+};
+
+/**
+ * Phrases that look like an allergen but aren't ("coconut milk", "nutmeg").
+ * Only the phrase itself is ignored, so "almonds and coconut" still counts as nuts.
+ */
+export const ALLERGEN_EXCEPTIONS: Record<string, string[]> = {
+  nuts: ['nutmeg', 'nutritional yeast', 'coconut', 'butternut', 'doughnut', 'donut'],
+  dairy: [
+    'coconut milk', 'coconut cream', 'almond milk', 'oat milk', 'soy milk', 'rice milk',
+    'cocoa butter', 'peanut butter', 'nut butter', 'almond butter', 'apple butter',
+    'butternut', 'cream of tartar'
+  ],
+  eggs: ['eggplant'],
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether one ingredient line contains an allergen, by flag name ("nuts", "dairy")
+ */
+export function ingredientContainsAllergen(ingredient: string, allergen: string): boolean {
+  const flag = allergen.trim().toLowerCase();
+  const keywords = ALLERGEN_KEYWORDS[flag] || [flag];
+
+  // Blank out the exception phrases rather than skipping the line, so a
+  // mixed line like "peanut butter and milk" is still checked for the rest
+  const text = (ALLERGEN_EXCEPTIONS[flag] || []).reduce(
+    (masked, exception) => masked.replace(new RegExp(escapeRegExp(exception), 'gi'), ' '),
+    ingredient.toLowerCase()
+  );
+
+  return keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}`, 'i').test(text));
+}
@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import type { KidAllergy, AllergySeverity } from '../types';
+import { DEFAULT_ALLERGY_SEVERITY } from '../utils/kidRecipeChecks';
+
+export const COMMON_ALLERGIES = [
+  'nuts', 'dairy', 'eggs', 'shellfish', 'fish', 'soy', 'wheat', 'sesame'
+];
+
+export const SEVERITY_LEVELS: { value: AllergySeverity; label: string; color: string; description: string }[] = [
+  { value: 'mild', label: 'Mild', color: '#fbbf24', description: 'Recipes show a warning' },
+  { value: 'moderate', label: 'Moderate', color: '#f97316', description: 'Recipes show a warning and need a grown-up' },
+  { value: 'severe', label: 'Severe', color: '#dc2626', description: 'Recipes are hidden completely' }
+];
+
+interface AllergyEditorProps {
+  allergies: KidAllergy[];
+  onChange: (allergies: KidAllergy[]) => void;
+}
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export default function AllergyEditor({ allergies, onChange }: AllergyEditorProps) {
+  const [customAllergen, setCustomAllergen] = useState('');
+
+  // Anything already on the profile that isn't in the common list still gets a row
+  const allergens = [
+    ...COMMON_ALLERGIES,
+    ...allergies
+      .map(allergy => allergy.allergen)
+      .filter(allergen => !COMMON_ALLERGIES.includes(allergen)),
+  ];
+
+  const findAllergy = (allergen: string) => allergies.find(allergy => allergy.allergen === allergen);
+
+  const toggleAllergy = (allergen: string) => {
+    if (findAllergy(allergen)) {
+      onChange(allergies.filter(allergy => allergy.allergen !== allergen));
+    } else {
+      onChange([...allergies, { allergen, severity: DEFAULT_ALLERGY_SEVERITY }]);
+    }
+  };
+
+  const updateAllergy = (allergen: string, updates: Partial<KidAllergy>) => {
+    onChange(allergies.map(allergy =>
+      allergy.allergen === allergen ? { ...allergy, ...updates } : allergy
+    ));
+  };
+
+  const addCustomAllergen = () => {
+    const allergen = customAllergen.trim().toLowerCase();
+    if (!allergen) return;
+    if (!findAllergy(allergen)) {
+      onChange([...allergies, { allergen, severity: DEFAULT_ALLERGY_SEVERITY }]);
+    }
+    setCustomAllergen('');
+  };
+
+  return (
+    <View>
+      {allergens.map((allergen) => {
+        const allergy = findAllergy(allergen);
+        const severityLevel = SEVERITY_LEVELS.find(level => level.value === allergy?.severity);
+
+        return (
+          <View key={allergen} style={styles.allergyContainer}>
+            <TouchableOpacity
+              style={[
+                styles.allergyButton,
+                allergy && styles.allergyButtonActive
+              ]}
+              onPress={() => toggleAllergy(allergen)}
+            >
+              <Text style={[
+                styles.allergyButtonText,
+                allergy && styles.allergyButtonTextActive
+              ]}>
+                {capitalize(allergen)}
+              </Text>
+              {allergy && <Text style={styles.checkmark}>✓</Text>}
+            </TouchableOpacity>
+
+            {allergy && (
+              <View style={styles.allergyDetails}>
+                <View style={styles.severityContainer}>
+                  {SEVERITY_LEVELS.map((severity) => (
+                    <TouchableOpacity
+                      key={severity.value}
+                      style={[
+                        styles.severityButton,
+                        { borderColor: severity.color },
+                        allergy.severity === severity.value && { backgroundColor: severity.color }
+                      ]}
+                      onPress={() => updateAllergy(allergen, { severity: severity.value })}
+                    >
+                      <Text style={[
+                        styles.severityButtonText,
+                        allergy.severity === severity.value && styles.severityButtonTextActive
+                      ]}>
+                        {severity.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {severityLevel && (
+                  <Text style={styles.severityDescription}>{severityLevel.description}</Text>
+                )}
+                <TextInput
+                  style={styles.notesInput}
+                  value={allergy.notes || ''}
+                  onChangeText={(notes) => updateAllergy(allergen, { notes })}
+                  placeholder="Notes (e.g., baked is OK, carries an EpiPen)"
+                  maxLength={200}
+                />
+              </View>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.customRow}>
+        <TextInput
+          style={[styles.notesInput, styles.customInput]}
+          value={customAllergen}
+          onChangeText={setCustomAllergen}
+          onSubmitEditing={addCustomAllergen}
+          placeholder="Other allergy (e.g., kiwi)"
+          autoCapitalize="none"
+          returnKeyType="done"
+        />
+        <TouchableOpacity
+          style={[styles.addButton, !customAllergen.trim() && styles.addButtonDisabled]}
+          onPress={addCustomAllergen}
+          disabled={!customAllergen.trim()}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  allergyContainer: {
+    marginBottom: 12,
+  },
+  allergyButton: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  allergyButtonActive: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  allergyButtonText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#6b7280',
+  },
+  allergyButtonTextActive: {
+    color: '#dc2626',
+  },
+  checkmark: {
+    fontSize: 18,
+    color: '#dc2626',
+    fontWeight: 'bold',
+  },
+  allergyDetails: {
+    paddingLeft: 16,
+  },
+  severityContainer: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 8,
+  },
+  severityButton: {
+    flex: 1,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+    alignItems: 'center',
+    backgroundColor: 'white',
+  },
+  severityButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  severityButtonTextActive: {
+    color: 'white',
+  },
+  severityDescription: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 6,
+  },
+  notesInput: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    marginTop: 8,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  customInput: {
+    flex: 1,
+    marginTop: 0,
+  },
+  addButton: {
+    backgroundColor: '#2563eb',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  addButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  addButtonText: {
+    color: 'white',
+    fontWeight: '600',
+  },
+});
@@ -6,18 +6,24 @@ import {
   TouchableOpacity,
   ScrollView,
 } from 'react-native';
+import type { SearchMode } from '../utils/searchUtils';
+import type { FilterExpression } from '../types';
 
 export interface FilterOption {
   id: string;
   label: string;
   emoji?: string;
-  value?: any;
+  value?: FilterExpression;
+  mode?: SearchMode; // Switches what the search looks through instead of narrowing results
+  isPreset?: boolean; // Saved by a parent; long press to delete
 }
 
 interface FilterChipsProps {
   filters: FilterOption[];
   activeFilters: string[];
   onFilterPress: (filterId: string) => void;
+  onFilterLongPress?: (filterId: string) => void;
+  onSavePreset?: () => void; // Shows a save chip while filters are active
   kidMode?: boolean;
   style?: any;
 }
@@ -26,6 +32,8 @@ export default function FilterChips({
   filters,
   activeFilters,
   onFilterPress,
+  onFilterLongPress,
+  onSavePreset,
   kidMode = false,
   style
 }: FilterChipsProps) {
@@ -37,9 +45,13 @@ export default function FilterChips({
         key={filter.id}
         style={[
           kidMode ? styles.kidChip : styles.parentChip,
-          isActive && (kidMode ? styles.kidChipActive : styles.parentChipActive)
+          filter.mode && styles.modeChip,
+          filter.isPreset && styles.presetChip,
+          isActive && (kidMode ? styles.kidChipActive : styles.parentChipActive),
+          isActive && filter.mode && styles.modeChipActive,
         ]}
         onPress={() => onFilterPress(filter.id)}
+        onLongPress={onFilterLongPress ? () => onFilterLongPress(filter.id) : undefined}
         activeOpacity={0.7}
       >
         <Text style={[
@@ -60,6 +72,17 @@ export default function FilterChips({
         contentContainerStyle={styles.scrollContent}
       >
         {filters.map(renderFilterChip)}
+        {onSavePreset && activeFilters.length > 0 && (
+          <TouchableOpacity
+            style={[kidMode ? styles.kidChip : styles.parentChip, styles.saveChip]}
+            onPress={onSavePreset}
+            activeOpacity={0.7}
+          >
+            <Text style={[kidMode ? styles.kidChipText : styles.parentChipText, styles.saveChipText]}>
+              💾 Save
+            </Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
     </View>
   );
@@ -102,6 +125,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  // Mode chips stand apart from the filters next to them
+  modeChip: {
+    borderColor: '#10b981',
+    borderStyle: 'dashed',
+  },
+  modeChipActive: {
+    backgroundColor: '#059669',
+    borderColor: '#059669',
+    borderStyle: 'solid',
+  },
+
+  presetChip: {
+    borderColor: '#a78bfa',
+  },
+  saveChip: {
+    borderColor: '#2563eb',
+    borderStyle: 'dashed',
+  },
+  saveChipText: {
+    color: '#2563eb',
+  },
+
   // Kid Mode Styles
   kidChip: {
     backgroundColor: '#f0f9ff',
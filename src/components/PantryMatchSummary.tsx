@@ -0,0 +1,74 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { PantryMatch } from '../utils/pantrySearch';
+
+interface PantryMatchSummaryProps {
+  match: PantryMatch;
+  kidMode?: boolean;
+  onImage?: boolean; // Light text for cards with a photo behind them
+}
+
+const MAX_MISSING_SHOWN = 3;
+
+export default function PantryMatchSummary({ match, kidMode = false, onImage = false }: PantryMatchSummaryProps) {
+  const { missing, substitutions, onHandCount, requiredCount } = match;
+  const shownMissing = missing.slice(0, MAX_MISSING_SHOWN);
+  const moreMissing = missing.length - shownMissing.length;
+
+  const haveText = missing.length === 0
+    ? (kidMode ? '🎉 We have everything!' : '✅ Everything on hand')
+    : `🧺 ${onHandCount} of ${requiredCount} on hand`;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[kidMode ? styles.kidHaveText : styles.haveText, onImage && styles.onImageText]}>
+        {haveText}
+      </Text>
+      {missing.length > 0 && (
+        <Text style={[kidMode ? styles.kidMissingText : styles.missingText, onImage && styles.onImageText]} numberOfLines={2}>
+          {kidMode ? 'We need: ' : 'Missing: '}
+          {shownMissing.join(', ')}
+          {moreMissing > 0 ? ` +${moreMissing} more` : ''}
+        </Text>
+      )}
+      {substitutions.length > 0 && (
+        <Text style={[styles.substitutionText, onImage && styles.onImageText]} numberOfLines={1}>
+          🔄 {substitutions.map(sub => `${sub.using} for ${sub.ingredient}`).join(', ')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 6,
+    gap: 2,
+  },
+  haveText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#059669',
+  },
+  missingText: {
+    fontSize: 12,
+    color: '#b45309',
+  },
+  kidHaveText: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: '#059669',
+  },
+  kidMissingText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#b45309',
+  },
+  substitutionText: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
+  onImageText: {
+    color: 'white',
+  },
+});
@@ -8,25 +8,29 @@ import {
   Alert,
   ActivityIndicator,
 } from 'react-native';
+import type { PinVerification } from '../types';
 
 interface PinChangeModalProps {
   visible: boolean;
   onClose: () => void;
-  onPinChanged: (newPin: string) => Promise<void>;
-  currentPin?: string;
+  onPinChanged: (newPin: string, currentPin: string) => Promise<void>;
+  verifyCurrentPin: (pin: string) => Promise<PinVerification>;
+  onForgotPin?: () => void; // Reset with the account password instead
 }
 
 export const PinChangeModal: React.FC<PinChangeModalProps> = ({
   visible,
   onClose,
   onPinChanged,
-  currentPin
+  verifyCurrentPin,
+  onForgotPin
 }) => {
   const [step, setStep] = useState<'current' | 'new' | 'confirm'>('current');
   const [enteredCurrentPin, setEnteredCurrentPin] = useState('');
   const [newPin, setNewPin] = useState('');
   const [confirmPin, setConfirmPin] = useState('');
   const [loading, setLoading] = useState(false);
+  const [checking, setChecking] = useState(false);
 
   const resetState = () => {
     setStep('current');
@@ -34,6 +38,7 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
     setNewPin('');
     setConfirmPin('');
     setLoading(false);
+    setChecking(false);
   };
 
   const handleDigit = (digit: string) => {
@@ -70,16 +75,44 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
     }
   };
 
+  // The server counts wrong tries here too, so guessing through this screen is locked out as well
+  const checkCurrentPin = async () => {
+    setChecking(true);
+    try {
+      const result = await verifyCurrentPin(enteredCurrentPin);
+      if (result.valid) {
+        setStep('new');
+        return;
+      }
+
+      setEnteredCurrentPin('');
+      if (result.requiresReset) {
+        Alert.alert('PIN Locked', 'Too many wrong PINs. Use "Forgot PIN?" to reset it with your account password.');
+      } else if (result.lockedUntil) {
+        const seconds = Math.ceil((result.lockedUntil - Date.now()) / 1000);
+        Alert.alert('Too Many Attempts', `Please wait ${seconds} seconds before trying again.`);
+      } else {
+        Alert.alert(
+          'Incorrect PIN',
+          result.attemptsRemaining
+            ? `The current PIN you entered is incorrect. ${result.attemptsRemaining} attempts remaining.`
+            : 'The current PIN you entered is incorrect.'
+        );
+      }
+    } catch (error: any) {
+      console.error('Error checking PIN:', error);
+      setEnteredCurrentPin('');
+      Alert.alert('Error', error.message || 'Failed to check PIN. Please try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
   const handleStepComplete = () => {
     switch (step) {
       case 'current':
         if (enteredCurrentPin.length === 4) {
-          if (!currentPin || enteredCurrentPin === currentPin) {
-            setStep('new');
-          } else {
-            Alert.alert('Incorrect PIN', 'The current PIN you entered is incorrect.');
-            setEnteredCurrentPin('');
-          }
+          checkCurrentPin();
         }
         break;
       case 'new':
@@ -103,7 +136,7 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
   const handleSubmit = async () => {
     setLoading(true);
     try {
-      await onPinChanged(newPin);
+      await onPinChanged(newPin, enteredCurrentPin);
       resetState();
       onClose();
       Alert.alert('Success', 'Your PIN has been changed successfully!');
@@ -136,7 +169,7 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
   const getStepTitle = () => {
     switch (step) {
       case 'current':
-        return currentPin ? 'Enter your current PIN' : 'Enter any PIN to continue';
+        return 'Enter your current PIN';
       case 'new':
         return 'Enter your new PIN';
       case 'confirm':
@@ -179,7 +212,7 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
               key={number}
               style={styles.keypadButton}
               onPress={() => handleDigit(number.toString())}
-              disabled={loading}
+              disabled={loading || checking}
             >
               <Text style={styles.keypadButtonText}>{number}</Text>
             </TouchableOpacity>
@@ -188,14 +221,14 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
           <TouchableOpacity
             style={styles.keypadButton}
             onPress={() => handleDigit('0')}
-            disabled={loading}
+            disabled={loading || checking}
           >
             <Text style={styles.keypadButtonText}>0</Text>
           </TouchableOpacity>
           <TouchableOpacity
             style={styles.keypadButton}
             onPress={handleBackspace}
-            disabled={loading}
+            disabled={loading || checking}
           >
             <Text style={styles.keypadButtonText}>⌫</Text>
           </TouchableOpacity>
@@ -258,6 +291,19 @@ export const PinChangeModal: React.FC<PinChangeModalProps> = ({
           <View style={styles.stepContainer}>
             <Text style={styles.stepTitle}>{getStepTitle()}</Text>
             {renderKeypad()}
+            {checking && <ActivityIndicator style={styles.checking} color="#2563eb" />}
+            {step === 'current' && onForgotPin && (
+              <TouchableOpacity
+                style={styles.forgotButton}
+                onPress={() => {
+                  resetState();
+                  onForgotPin();
+                }}
+                disabled={checking}
+              >
+                <Text style={styles.forgotButtonText}>Forgot PIN?</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -472,4 +518,17 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     fontWeight: '500',
   },
-});
\ No newline at end of file
+  checking: {
+    marginTop: 12,
+  },
+  forgotButton: {
+    alignItems: 'center',
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+  forgotButtonText: {
+    fontSize: 16,
+    color: '#2563eb',
+    fontWeight: '500',
+  },
+});
@@ -2,13 +2,16 @@ import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
+  TextInput,
   TouchableOpacity,
   StyleSheet,
   Modal,
   Alert,
   Vibration,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import type { PinVerification } from '../types';
 
 interface PinInputProps {
   visible: boolean;
@@ -16,77 +19,184 @@ interface PinInputProps {
   onSuccess: (pin?: string) => void;
   title?: string;
   subtitle?: string;
-  correctPin?: string;
-  maxAttempts?: number;
-  mode?: 'validate' | 'input'; // validate = check against correctPin, input = just collect PIN
+  verifyPin?: (pin: string) => Promise<PinVerification>; // Checked on the server, which counts wrong tries
+  onResetPin?: (password: string, newPin: string) => Promise<void>; // Shows "Forgot PIN?" when set
+  alternativeLabel?: string; // e.g. "Use Password Instead"
+  onUseAlternative?: () => void;
+  mode?: 'validate' | 'input' | 'reset'; // validate = check with verifyPin, input = just collect PIN, reset = password then new PIN
 }
 
+type ResetStep = 'password' | 'new' | 'confirm';
+
+const formatWait = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
 export default function PinInput({
   visible,
   onClose,
   onSuccess,
   title = "Enter Parent PIN",
   subtitle = "Enter the 4-digit PIN to continue",
-  correctPin = '',
-  maxAttempts = 3,
+  verifyPin,
+  onResetPin,
+  alternativeLabel,
+  onUseAlternative,
   mode = 'validate'
 }: PinInputProps) {
   const [pin, setPin] = useState('');
-  const [attempts, setAttempts] = useState(0);
   const [isShaking, setIsShaking] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [requiresReset, setRequiresReset] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [resetStep, setResetStep] = useState<ResetStep | null>(null);
+  const [password, setPassword] = useState('');
+  const [newPin, setNewPin] = useState('');
 
   useEffect(() => {
     if (visible) {
       setPin('');
-      setAttempts(0);
       setIsShaking(false);
+      setChecking(false);
+      setAttemptsRemaining(null);
+      setLockedUntil(null);
+      setRequiresReset(false);
+      setResetStep(mode === 'reset' ? 'password' : null);
+      setPassword('');
+      setNewPin('');
     }
-  }, [visible]);
-
-  const handleNumberPress = (number: string) => {
-    if (pin.length < 4) {
-      const newPin = pin + number;
-      setPin(newPin);
+  }, [visible, mode]);
 
-      // Check pin when 4 digits are entered
-      if (newPin.length === 4) {
-        setTimeout(() => {
-          if (mode === 'input') {
-            // Just collect the PIN and return it
-            onSuccess(newPin);
-            setPin('');
-          } else if (newPin === correctPin) {
-            onSuccess(newPin);
-            setPin('');
-          } else {
-            handleIncorrectPin();
-          }
-        }, 200);
+  // Tick once a second so the lockout countdown stays current
+  useEffect(() => {
+    if (!lockedUntil) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
       }
-    }
-  };
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const isLocked = !!lockedUntil && lockedUntil > now;
+  const keypadDisabled = checking || (!resetStep && (isLocked || requiresReset));
 
-  const handleIncorrectPin = () => {
-    const newAttempts = attempts + 1;
-    setAttempts(newAttempts);
+  const shake = () => {
     setPin('');
     setIsShaking(true);
     Vibration.vibrate([0, 100, 50, 100]);
-
     setTimeout(() => setIsShaking(false), 500);
+  };
+
+  const checkPin = async (enteredPin: string) => {
+    if (!verifyPin) return;
 
-    if (newAttempts >= maxAttempts) {
+    setChecking(true);
+    try {
+      const result = await verifyPin(enteredPin);
+      if (result.valid) {
+        onSuccess(enteredPin);
+        setPin('');
+        return;
+      }
+      handleIncorrectPin(result);
+    } catch (error) {
+      console.error('Error checking PIN:', error);
+      setPin('');
+      Alert.alert('Could Not Check PIN', 'Please check your connection and try again.');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleIncorrectPin = (result: PinVerification) => {
+    shake();
+    setAttemptsRemaining(result.attemptsRemaining ?? null);
+    setLockedUntil(result.lockedUntil ?? null);
+    setRequiresReset(!!result.requiresReset);
+
+    if (result.requiresReset) {
+      Alert.alert(
+        "PIN Locked",
+        onResetPin
+          ? "Too many wrong PINs. A grown-up needs to reset the PIN with the account password."
+          : "Too many wrong PINs. Reset the PIN in Settings with your account password.",
+        [{ text: "OK" }]
+      );
+    } else if (result.lockedUntil) {
       Alert.alert(
         "Too Many Attempts",
-        "You've entered the wrong PIN too many times. Please try again later.",
-        [{ text: "OK", onPress: onClose }]
+        `You've entered the wrong PIN too many times. Try again in ${formatWait(result.lockedUntil - Date.now())}.`,
+        [{ text: "OK" }]
       );
-    } else {
+    }
+  };
+
+  const handleResetPinEntered = async (enteredPin: string) => {
+    if (resetStep === 'new') {
+      setNewPin(enteredPin);
+      setPin('');
+      setResetStep('confirm');
+      return;
+    }
+
+    if (enteredPin !== newPin) {
+      shake();
+      Alert.alert('PIN Mismatch', 'The new PINs do not match. Please try again.');
+      setNewPin('');
+      setResetStep('new');
+      return;
+    }
+
+    if (!onResetPin) return;
+    setChecking(true);
+    try {
+      await onResetPin(password, enteredPin);
+      onSuccess(enteredPin);
+      setPin('');
+    } catch (error: any) {
+      console.error('Error resetting PIN:', error);
+      const wrongPassword = error?.code === 'auth/wrong-password' || error?.code === 'auth/invalid-credential';
       Alert.alert(
-        "Incorrect PIN",
-        `Wrong PIN. You have ${maxAttempts - newAttempts} attempts remaining.`,
-        [{ text: "Try Again" }]
+        wrongPassword ? 'Incorrect Password' : 'Reset Failed',
+        wrongPassword ? 'That password is not right. Please try again.' : (error?.message || 'Failed to reset PIN. Please try again.')
       );
+      setPin('');
+      setNewPin('');
+      setPassword('');
+      setResetStep('password');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleNumberPress = (number: string) => {
+    if (pin.length < 4) {
+      const newPinValue = pin + number;
+      setPin(newPinValue);
+
+      // Check pin when 4 digits are entered
+      if (newPinValue.length === 4) {
+        setTimeout(() => {
+          if (resetStep) {
+            handleResetPinEntered(newPinValue);
+          } else if (mode === 'input') {
+            // Just collect the PIN and return it
+            onSuccess(newPinValue);
+            setPin('');
+          } else {
+            checkPin(newPinValue);
+          }
+        }, 200);
+      }
     }
   };
 
@@ -94,6 +204,18 @@ export default function PinInput({
     setPin(pin.slice(0, -1));
   };
 
+  const startReset = () => {
+    setPin('');
+    setPassword('');
+    setNewPin('');
+    setResetStep('password');
+  };
+
+  const handlePasswordContinue = () => {
+    if (!password) return;
+    setResetStep('new');
+  };
+
   const renderPinDots = () => {
     return (
       <View style={styles.pinDotsContainer}>
@@ -120,7 +242,7 @@ export default function PinInput({
     ];
 
     return (
-      <View style={styles.numberPad}>
+      <View style={[styles.numberPad, keypadDisabled && styles.numberPadDisabled]}>
         {numbers.map((row, rowIndex) => (
           <View key={rowIndex} style={styles.numberRow}>
             {row.map((number, colIndex) => (
@@ -137,7 +259,7 @@ export default function PinInput({
                     handleNumberPress(number);
                   }
                 }}
-                disabled={number === '' || attempts >= maxAttempts}
+                disabled={number === '' || keypadDisabled}
               >
                 <Text style={[
                   styles.numberText,
@@ -153,6 +275,42 @@ export default function PinInput({
     );
   };
 
+  const renderStatus = () => {
+    if (checking) {
+      return <ActivityIndicator style={styles.checking} color="#2563eb" />;
+    }
+    if (resetStep) return null;
+    if (requiresReset) {
+      return <Text style={styles.attemptWarning}>PIN locked. Reset it with the account password.</Text>;
+    }
+    if (isLocked && lockedUntil) {
+      return <Text style={styles.attemptWarning}>Too many tries. Try again in {formatWait(lockedUntil - now)}</Text>;
+    }
+    if (attemptsRemaining !== null && attemptsRemaining > 0) {
+      return (
+        <Text style={styles.attemptWarning}>
+          {attemptsRemaining} {attemptsRemaining === 1 ? 'attempt' : 'attempts'} remaining
+        </Text>
+      );
+    }
+    return null;
+  };
+
+  const getHeading = () => {
+    switch (resetStep) {
+      case 'password':
+        return { title: 'Reset Parent PIN', subtitle: 'Enter your account password to continue' };
+      case 'new':
+        return { title: 'Reset Parent PIN', subtitle: 'Enter a new 4-digit PIN' };
+      case 'confirm':
+        return { title: 'Reset Parent PIN', subtitle: 'Enter the new PIN again' };
+      default:
+        return { title, subtitle };
+    }
+  };
+
+  const heading = getHeading();
+
   return (
     <Modal
       visible={visible}
@@ -168,18 +326,51 @@ export default function PinInput({
         </View>
 
         <View style={styles.content}>
-          <Text style={styles.title}>{title}</Text>
-          <Text style={styles.subtitle}>{subtitle}</Text>
+          <Text style={styles.title}>{heading.title}</Text>
+          <Text style={styles.subtitle}>{heading.subtitle}</Text>
 
-          {renderPinDots()}
+          {resetStep === 'password' ? (
+            <View style={styles.passwordContainer}>
+              <TextInput
+                style={styles.passwordInput}
+                value={password}
+                onChangeText={setPassword}
+                placeholder="Account password"
+                placeholderTextColor="#9ca3af"
+                secureTextEntry
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+                returnKeyType="next"
+                onSubmitEditing={handlePasswordContinue}
+              />
+              <TouchableOpacity
+                style={[styles.passwordButton, !password && styles.passwordButtonDisabled]}
+                onPress={handlePasswordContinue}
+                disabled={!password}
+              >
+                <Text style={styles.passwordButtonText}>Continue</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <>
+              {renderPinDots()}
+              {renderStatus()}
+              {renderNumberPad()}
+            </>
+          )}
 
-          {attempts > 0 && attempts < maxAttempts && (
-            <Text style={styles.attemptWarning}>
-              {maxAttempts - attempts} attempts remaining
-            </Text>
+          {mode === 'validate' && !resetStep && onResetPin && (
+            <TouchableOpacity style={styles.forgotButton} onPress={startReset}>
+              <Text style={styles.forgotButtonText}>Forgot PIN?</Text>
+            </TouchableOpacity>
           )}
 
-          {renderNumberPad()}
+          {mode === 'validate' && !resetStep && onUseAlternative && alternativeLabel && (
+            <TouchableOpacity style={styles.forgotButton} onPress={onUseAlternative}>
+              <Text style={styles.forgotButtonText}>{alternativeLabel}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </SafeAreaView>
     </Modal>
@@ -254,9 +445,15 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontWeight: '500',
   },
+  checking: {
+    marginBottom: 20,
+  },
   numberPad: {
     width: 300,
   },
+  numberPadDisabled: {
+    opacity: 0.4,
+  },
   numberRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -292,4 +489,40 @@ const styles = StyleSheet.create({
     fontSize: 24,
     color: '#6b7280',
   },
-});
\ No newline at end of file
+  forgotButton: {
+    marginTop: 10,
+    paddingVertical: 8,
+  },
+  forgotButtonText: {
+    fontSize: 16,
+    color: '#2563eb',
+    fontWeight: '500',
+  },
+  passwordContainer: {
+    width: 300,
+  },
+  passwordInput: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  passwordButton: {
+    backgroundColor: '#2563eb',
+    borderRadius: 8,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  passwordButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  passwordButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
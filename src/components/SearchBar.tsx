@@ -7,6 +7,7 @@ import {
   Text,
   Animated,
 } from 'react-native';
+import type { SearchMode } from '../utils/searchUtils';
 
 interface SearchBarProps {
   placeholder?: string;
@@ -16,6 +17,7 @@ interface SearchBarProps {
   onBlur?: () => void;
   autoFocus?: boolean;
   kidMode?: boolean;
+  mode?: SearchMode;
   debounceMs?: number;
 }
 
@@ -27,6 +29,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   onBlur,
   autoFocus = false,
   kidMode = false,
+  mode = 'recipes',
   debounceMs = 300,
 }) => {
   const [localValue, setLocalValue] = useState(value);
@@ -106,7 +109,7 @@ export const SearchBar: React.FC<SearchBarProps> = ({
       ]}
     >
       <View style={styles.searchIconContainer}>
-        <Text style={kidMode ? styles.kidSearchIcon : styles.searchIcon}>🔍</Text>
+        <Text style={kidMode ? styles.kidSearchIcon : styles.searchIcon}>{mode === 'pantry' ? '🧺' : '🔍'}</Text>
       </View>
 
       <TextInput
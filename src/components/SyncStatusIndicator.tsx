@@ -0,0 +1,99 @@
+import React from 'react';
+import { Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useSyncStatus } from '../hooks/useSyncStatus';
+import { syncQueueService } from '../services/syncQueue';
+import type { SyncStatus } from '../services/syncQueue';
+
+interface SyncStatusIndicatorProps {
+  showActions?: boolean; // Kid mode shows the pill but leaves retrying to a grown-up
+}
+
+const getLabel = (status: SyncStatus): { icon: string; text: string } | null => {
+  const changes = status.pending === 1 ? '1 change' : `${status.pending} changes`;
+  switch (status.state) {
+    case 'offline':
+      return { icon: '📴', text: status.pending > 0 ? `Offline · ${changes} to sync` : 'Offline' };
+    case 'syncing':
+      return { icon: '🔄', text: `Syncing ${changes}…` };
+    case 'error':
+      return { icon: '⚠️', text: status.failed === 1 ? '1 change didn\'t sync' : `${status.failed} changes didn't sync` };
+    default:
+      return status.conflicts.length > 0
+        ? { icon: 'ℹ️', text: 'Some edits were replaced' }
+        : null;
+  }
+};
+
+// Small pill that stays out of the way until there's something to sync
+export default function SyncStatusIndicator({ showActions = true }: SyncStatusIndicatorProps) {
+  const status = useSyncStatus();
+  const label = getLabel(status);
+
+  if (!label) return null;
+
+  const handlePress = () => {
+    if (status.state === 'error') {
+      Alert.alert(
+        'Changes Not Saved',
+        'Some changes couldn\'t be saved to your account. You can try again or throw them away.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Discard', style: 'destructive', onPress: () => syncQueueService.discardFailed() },
+          { text: 'Try Again', onPress: () => syncQueueService.retryFailed() },
+        ]
+      );
+    } else if (status.state === 'synced' && status.conflicts.length > 0) {
+      Alert.alert(
+        'Edits Replaced',
+        `${status.conflicts.length === 1 ? 'An item was' : `${status.conflicts.length} items were`} changed on another device while you were offline, so the newer version was kept.`,
+        [{ text: 'OK', onPress: () => syncQueueService.clearConflicts() }]
+      );
+    } else if (status.state === 'offline') {
+      Alert.alert(
+        'You\'re Offline',
+        'You can keep cooking. Changes are saved on this device and will sync when you\'re back online.'
+      );
+    }
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.pill, status.state === 'error' && styles.pillError]}
+      onPress={handlePress}
+      disabled={!showActions}
+      accessibilityRole="button"
+      accessibilityLabel={label.text}
+    >
+      <Text style={styles.icon}>{label.icon}</Text>
+      <Text style={[styles.text, status.state === 'error' && styles.textError]}>{label.text}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    backgroundColor: '#f3f4f6',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginTop: 8,
+  },
+  pillError: {
+    backgroundColor: '#fef2f2',
+  },
+  icon: {
+    fontSize: 14,
+    marginRight: 6,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#4b5563',
+  },
+  textError: {
+    color: '#b91c1c',
+  },
+});
@@ -0,0 +1,122 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { useTimers, CookingTimer } from '../contexts/TimerContext';
+import { formatCountdown } from '../utils/stepTimers';
+
+interface TimerStripProps {
+  style?: any;
+}
+
+export default function TimerStrip({ style }: TimerStripProps) {
+  const { timers, pauseTimer, resumeTimer, addTime, dismissTimer, getRemainingSeconds } = useTimers();
+
+  if (timers.length === 0) {
+    return null;
+  }
+
+  const renderTimer = (timer: CookingTimer) => {
+    const isDone = timer.status === 'done';
+    const isPaused = timer.status === 'paused';
+
+    return (
+      <View key={timer.id} style={[styles.timerChip, isDone && styles.timerChipDone]}>
+        <Text style={styles.timerLabel} numberOfLines={1}>{timer.label}</Text>
+        <Text style={[styles.timerTime, isDone && styles.timerTimeDone]}>
+          {isDone ? '🔔 Done!' : formatCountdown(getRemainingSeconds(timer))}
+        </Text>
+        <View style={styles.timerActions}>
+          {isDone ? (
+            <TouchableOpacity style={styles.actionButton} onPress={() => addTime(timer.id, 60)}>
+              <Text style={styles.actionText}>+1 min</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => (isPaused ? resumeTimer(timer.id) : pauseTimer(timer.id))}
+            >
+              <Text style={styles.actionText}>{isPaused ? '▶️' : '⏸️'}</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={() => dismissTimer(timer.id)}>
+            <Text style={styles.actionText}>{isDone ? 'OK' : '✕'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {timers.map(renderTimer)}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#eff6ff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#bfdbfe',
+    paddingVertical: 8,
+  },
+  scrollContent: {
+    paddingHorizontal: 12,
+    gap: 8,
+  },
+  timerChip: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+    minWidth: 130,
+    maxWidth: 200,
+  },
+  timerChipDone: {
+    backgroundColor: '#fef3c7',
+    borderColor: '#f59e0b',
+  },
+  timerLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1e40af',
+  },
+  timerTime: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    fontVariant: ['tabular-nums'],
+  },
+  timerTimeDone: {
+    color: '#b45309',
+  },
+  timerActions: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 4,
+  },
+  actionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#f3f4f6',
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
+});
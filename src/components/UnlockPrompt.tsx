@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import PinInput from './PinInput';
+import { unlockProviders, getFallbackProviders, GUARDED_ACTION_LABELS } from '../services/unlockProviders';
+import type { UnlockProvider } from '../services/unlockProviders';
+import type { UnlockMethod, GuardedAction } from '../types';
+
+interface UnlockPromptProps {
+  visible: boolean;
+  action: GuardedAction;
+  method: UnlockMethod; // The provider the parent chose for this action
+  hasKidModePin: boolean;
+  onUnlocked: () => void;
+  onCancel: () => void;
+  onResetPin?: (password: string, newPin: string) => Promise<void>;
+}
+
+// Asks a grown-up to prove it's them with the chosen provider, offering the fallbacks if that fails
+export default function UnlockPrompt({
+  visible,
+  action,
+  method,
+  hasKidModePin,
+  onUnlocked,
+  onCancel,
+  onResetPin,
+}: UnlockPromptProps) {
+  const [currentMethod, setCurrentMethod] = useState<UnlockMethod>(method);
+  const [fallbacks, setFallbacks] = useState<UnlockProvider[]>([]);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const provider = unlockProviders[currentMethod];
+  const reason = `Grown-up check: ${GUARDED_ACTION_LABELS[action]}`;
+
+  useEffect(() => {
+    if (visible) {
+      setCurrentMethod(method);
+      setPassword('');
+      setError('');
+    }
+  }, [visible, method]);
+
+  useEffect(() => {
+    if (!visible) return;
+    getFallbackProviders(currentMethod, { hasKidModePin }).then(setFallbacks);
+  }, [visible, currentMethod, hasKidModePin]);
+
+  const runBiometric = async () => {
+    setWorking(true);
+    setError('');
+    try {
+      const result = await provider.unlock(undefined, reason);
+      if (result.valid) {
+        onUnlocked();
+      } else {
+        setError('That didn\'t work. Try again or use another way.');
+      }
+    } catch (unlockError) {
+      console.error('Error with biometric unlock:', unlockError);
+      setError('Face or fingerprint isn\'t available right now.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Biometrics need no typing, so start straight away
+  useEffect(() => {
+    if (visible && provider.input === 'none') {
+      runBiometric();
+    }
+  }, [visible, currentMethod]);
+
+  const switchTo = (next: UnlockMethod) => {
+    setPassword('');
+    setError('');
+    setCurrentMethod(next);
+  };
+
+  const handlePasswordSubmit = async () => {
+    if (!password) return;
+    setWorking(true);
+    setError('');
+    try {
+      const result = await provider.unlock(password, reason);
+      if (result.valid) {
+        onUnlocked();
+        return;
+      }
+      setPassword('');
+      setError(result.lockedUntil
+        ? 'Too many tries. Please wait a minute and try again.'
+        : 'That password is not right. Please try again.');
+    } catch (unlockError: any) {
+      console.error('Error checking password:', unlockError);
+      setError(unlockError?.message || 'Could not check the password. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (provider.input === 'pin') {
+    const alternative = fallbacks[0];
+    return (
+      <PinInput
+        visible={visible}
+        onClose={onCancel}
+        onSuccess={onUnlocked}
+        title="Parent PIN Required"
+        subtitle={`Enter your PIN to ${GUARDED_ACTION_LABELS[action].toLowerCase()}`}
+        verifyPin={pin => provider.unlock(pin, reason)}
+        onResetPin={onResetPin}
+        alternativeLabel={alternative ? `Use ${alternative.label} Instead` : undefined}
+        onUseAlternative={alternative ? () => switchTo(alternative.method) : undefined}
+      />
+    );
+  }
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <View style={styles.modal}>
+          <Text style={styles.icon}>{provider.icon}</Text>
+          <Text style={styles.title}>Grown-Up Check</Text>
+          <Text style={styles.description}>
+            {provider.input === 'password'
+              ? `Enter your account password to ${GUARDED_ACTION_LABELS[action].toLowerCase()}.`
+              : `Use your face or fingerprint to ${GUARDED_ACTION_LABELS[action].toLowerCase()}.`}
+          </Text>
+
+          {provider.input === 'password' && (
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Account password"
+              placeholderTextColor="#9ca3af"
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+              returnKeyType="done"
+              onSubmitEditing={handlePasswordSubmit}
+              editable={!working}
+            />
+          )}
+
+          {!!error && <Text style={styles.error}>{error}</Text>}
+          {working && <ActivityIndicator style={styles.working} color="#2563eb" />}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.unlockButton, (working || (provider.input === 'password' && !password)) && styles.unlockButtonDisabled]}
+              onPress={provider.input === 'password' ? handlePasswordSubmit : runBiometric}
+              disabled={working || (provider.input === 'password' && !password)}
+            >
+              <Text style={styles.unlockButtonText}>{provider.input === 'password' ? 'Unlock' : 'Try Again'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {fallbacks.map(fallback => (
+            <TouchableOpacity
+              key={fallback.method}
+              style={styles.fallbackButton}
+              onPress={() => switchTo(fallback.method)}
+              disabled={working}
+            >
+              <Text style={styles.fallbackButtonText}>{fallback.icon} Use {fallback.label} Instead</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  modal: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+  },
+  icon: {
+    fontSize: 40,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  description: {
+    fontSize: 14,
+    color: '#6b7280',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  error: {
+    fontSize: 14,
+    color: '#ef4444',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  working: {
+    marginBottom: 12,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  unlockButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#2563eb',
+    alignItems: 'center',
+  },
+  unlockButtonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  unlockButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  fallbackButton: {
+    alignItems: 'center',
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  fallbackButtonText: {
+    fontSize: 15,
+    color: '#2563eb',
+    fontWeight: '500',
+  },
+});
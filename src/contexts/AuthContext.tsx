@@ -4,7 +4,12 @@ import { authService } from '../services/auth';
 import { parentProfileService } from '../services/parentProfile';
 import { kidProfileService } from '../services/kidProfile';
 import { migrationService } from '../services/migration';
-import type { UserProfile, ParentProfile, KidProfile } from '../types';
+import { parentPinService } from '../services/parentPin';
+import { syncQueueService } from '../services/syncQueue';
+import { offlineStore } from '../services/offlineStore';
+import { unlockProviders, getUnlockSetting, getFallbackProviders } from '../services/unlockProviders';
+import UnlockPrompt from '../components/UnlockPrompt';
+import type { UserProfile, ParentProfile, KidProfile, PinVerification, GuardedAction, UnlockMethod } from '../types';
 
 interface AuthContextType {
   user: User | null;
@@ -13,6 +18,7 @@ interface AuthContextType {
   kidProfiles: KidProfile[]; // All kids for this parent
   currentKid: KidProfile | null; // Currently selected kid profile
   deviceMode: 'parent' | 'kid'; // Device mode setting
+  hasKidModePin: boolean; // Whether leaving kid mode needs the parent PIN
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, profile: Partial<UserProfile>) => Promise<void>;
@@ -23,7 +29,11 @@ interface AuthContextType {
   updateProfile: (updates: Partial<UserProfile>) => Promise<void>;
   updateParentProfile: (updates: Partial<ParentProfile>) => Promise<void>;
   setKidModePin: (pin: string) => Promise<void>;
-  changePIN: (newPin: string) => Promise<void>;
+  changePIN: (newPin: string, currentPin: string) => Promise<void>;
+  resetKidModePin: (password: string, newPin: string) => Promise<void>;
+  verifyParentPin: (pin: string) => Promise<PinVerification>;
+  isActionGuarded: (action: GuardedAction) => boolean;
+  requestUnlock: (action: GuardedAction) => Promise<boolean>; // Resolves true at once for unguarded actions
   refreshProfile: () => Promise<void>;
   addKid: (kidData: Omit<KidProfile, 'id' | 'parentId' | 'createdAt' | 'updatedAt'>) => Promise<string>;
   updateKid: (kidId: string, updates: Partial<KidProfile>) => Promise<void>;
@@ -33,6 +43,12 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+interface UnlockRequest {
+  action: GuardedAction;
+  method: UnlockMethod;
+  resolve: (unlocked: boolean) => void;
+}
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -49,6 +65,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [currentKid, setCurrentKid] = useState<KidProfile | null>(null);
   const [deviceMode, setDeviceMode] = useState<'parent' | 'kid'>('parent');
   const [loading, setLoading] = useState(true);
+  const [unlockRequest, setUnlockRequest] = useState<UnlockRequest | null>(null);
 
   const loadUserProfile = async (user: User) => {
     try {
@@ -69,11 +86,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
       }
 
+      // Older profiles kept the PIN in plaintext; have the server hash it
+      if (parent?.kidModePin) {
+        const migrated = await parentPinService.migrateLegacyPin();
+        if (migrated) {
+          parent = await parentProfileService.getParentProfile(user.uid);
+        }
+      }
+
       setParentProfile(parent);
 
       // Load kids if parent profile exists
       if (parent) {
-        const kids = await kidProfileService.getParentKids(parent.id);
+        let kids = await kidProfileService.getParentKids(parent.id);
+        const migratedCount = await migrationService.migrateAllergyFlags(kids);
+        if (migratedCount > 0) {
+          kids = await kidProfileService.getParentKids(parent.id);
+        }
         setKidProfiles(kids);
       } else {
         setKidProfiles([]);
@@ -95,8 +124,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setUser(user);
 
       if (user) {
+        // Resume the parent's changes made offline before reading anything
+        syncQueueService.start(user.uid);
         await loadUserProfile(user);
       } else {
+        syncQueueService.stop();
         setUserProfile(null);
         setParentProfile(null);
         setKidProfiles([]);
@@ -110,6 +142,19 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return unsubscribe;
   }, []);
 
+  // Keep the kid list live so kids added or edited on another device show up
+  useEffect(() => {
+    if (!parentProfile?.id) return;
+    return kidProfileService.subscribeToParentKids(parentProfile.id, (kids) => {
+      setKidProfiles(kids);
+      // Only swap the current kid when it really changed; screens reload on a new object
+      setCurrentKid(prev => {
+        const updated = prev && kids.find(kid => kid.id === prev.id);
+        return updated && JSON.stringify(updated) !== JSON.stringify(prev) ? updated : prev;
+      });
+    });
+  }, [parentProfile?.id]);
+
   const signIn = async (email: string, password: string) => {
     setLoading(true);
     try {
@@ -133,6 +178,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const signOut = async () => {
     try {
       await authService.signOut();
+      await offlineStore.clear();
     } catch (error) {
       console.error('Error signing out:', error);
       throw error;
@@ -176,7 +222,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
       if (!targetParent) throw new Error('No parent profile found');
 
-      await parentProfileService.updateParentProfile(targetParent.id, { kidModePin: pin });
+      await parentPinService.setPin(pin);
       await refreshProfile();
     } catch (error) {
       console.error('Error setting kid mode PIN:', error);
@@ -184,12 +230,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const changePIN = async (newPin: string) => {
+  const changePIN = async (newPin: string, currentPin: string) => {
     if (!user) throw new Error('No user logged in');
     if (!parentProfile) throw new Error('No parent profile found');
 
     try {
-      await parentProfileService.updateParentProfile(parentProfile.id, { kidModePin: newPin });
+      const result = await parentPinService.setPin(newPin, currentPin);
+      if (!result.valid) throw new Error('The current PIN is incorrect');
       await refreshProfile();
     } catch (error) {
       console.error('Error changing PIN:', error);
@@ -197,6 +244,58 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // For a forgotten or locked PIN: the account password stands in for the old PIN
+  const resetKidModePin = async (password: string, newPin: string) => {
+    if (!user) throw new Error('No user logged in');
+
+    try {
+      await authService.reauthenticate(password);
+      await parentPinService.setPin(newPin);
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error resetting PIN:', error);
+      throw error;
+    }
+  };
+
+  // A legacy plaintext PIN still counts until the server has hashed it
+  const hasKidModePin = !!(parentProfile?.hasKidModePin || parentProfile?.kidModePin);
+
+  const verifyParentPin = async (pin: string): Promise<PinVerification> => {
+    return parentPinService.verifyPin(pin);
+  };
+
+  // A PIN-guarded action stays open until a PIN is set, as it always has
+  const isActionGuarded = (action: GuardedAction): boolean => {
+    const setting = getUnlockSetting(parentProfile?.settings, action);
+    if (setting === 'none') return false;
+    return setting !== 'pin' || hasKidModePin;
+  };
+
+  const requestUnlock = async (action: GuardedAction): Promise<boolean> => {
+    if (!isActionGuarded(action)) return true;
+
+    // Biometrics can go missing (new device, fingers unenrolled); use the next provider instead
+    let method = getUnlockSetting(parentProfile?.settings, action) as UnlockMethod;
+    const unlockContext = { hasKidModePin };
+    if (!(await unlockProviders[method].isAvailable(unlockContext))) {
+      const [fallback] = await getFallbackProviders(method, unlockContext);
+      if (!fallback) return false;
+      method = fallback.method;
+    }
+
+    // Only one prompt at a time; an earlier one that's still open counts as cancelled
+    unlockRequest?.resolve(false);
+    return new Promise<boolean>(resolve => {
+      setUnlockRequest({ action, method, resolve });
+    });
+  };
+
+  const finishUnlock = (unlocked: boolean) => {
+    unlockRequest?.resolve(unlocked);
+    setUnlockRequest(null);
+  };
+
   const setDeviceModeWithPin = async (mode: 'parent' | 'kid', pin?: string): Promise<boolean> => {
     // If switching to kid mode, no PIN required
     if (mode === 'kid') {
@@ -207,10 +306,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     // If switching from kid to parent mode, PIN is required
     if (mode === 'parent' && deviceMode === 'kid') {
-      const storedPin = parentProfile?.kidModePin;
-
-      // If no PIN is set, allow access (for backward compatibility)
-      if (!storedPin) {
+      // If leaving kid mode isn't guarded (e.g. no PIN set yet), allow access (for backward compatibility)
+      if (!isActionGuarded('exitKidMode')) {
         setDeviceMode(mode);
         return true;
       }
@@ -220,8 +317,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         return false; // PIN required but not provided
       }
 
-      if (pin !== storedPin) {
-        return false; // Invalid PIN
+      // The server counts wrong tries and locks out guessing
+      try {
+        const result = await verifyParentPin(pin);
+        if (!result.valid) {
+          return false; // Invalid PIN or locked out
+        }
+      } catch (error) {
+        console.error('Error verifying PIN:', error);
+        return false;
       }
     }
 
@@ -339,6 +443,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     kidProfiles,
     currentKid,
     deviceMode,
+    hasKidModePin,
     loading,
     signIn,
     signUp,
@@ -355,6 +460,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     updateParentProfile,
     setKidModePin,
     changePIN,
+    resetKidModePin,
+    verifyParentPin,
+    isActionGuarded,
+    requestUnlock,
     refreshProfile,
     addKid,
     updateKid,
@@ -365,6 +474,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   return (
     <AuthContext.Provider value={value}>
       {children}
+      <UnlockPrompt
+        visible={!!unlockRequest}
+        action={unlockRequest?.action || 'exitKidMode'}
+        method={unlockRequest?.method || 'pin'}
+        hasKidModePin={hasKidModePin}
+        onUnlocked={() => finishUnlock(true)}
+        onCancel={() => finishUnlock(false)}
+        onResetPin={resetKidModePin}
+      />
     </AuthContext.Provider>
   );
 };
@@ -0,0 +1,200 @@
+import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import { Vibration } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio } from 'expo-av';
+
+export interface CookingTimer {
+  id: string;
+  label: string;
+  recipeId?: string;
+  stepId?: string;
+  durationSeconds: number;
+  status: 'running' | 'paused' | 'done';
+  endsAt?: number; // Epoch ms while running
+  remainingSeconds: number; // Frozen value while paused
+}
+
+export interface StartTimerOptions {
+  label: string;
+  durationSeconds: number;
+  recipeId?: string;
+  stepId?: string;
+}
+
+interface TimerContextType {
+  timers: CookingTimer[];
+  startTimer: (options: StartTimerOptions) => string; // Returns timer ID
+  pauseTimer: (timerId: string) => void;
+  resumeTimer: (timerId: string) => void;
+  addTime: (timerId: string, seconds: number) => void;
+  dismissTimer: (timerId: string) => void;
+  getRemainingSeconds: (timer: CookingTimer) => number;
+  getTimerForStep: (stepId: string) => CookingTimer | undefined;
+}
+
+// Timers are kept in storage with absolute end times so they keep counting if the app is closed
+const STORAGE_KEY = 'KIDCHEF_TIMERS';
+
+const TimerContext = createContext<TimerContextType | undefined>(undefined);
+
+export const useTimers = () => {
+  const context = useContext(TimerContext);
+  if (context === undefined) {
+    throw new Error('useTimers must be used within a TimerProvider');
+  }
+  return context;
+};
+
+const playTimerSound = async () => {
+  try {
+    Vibration.vibrate([0, 400, 200, 400]);
+    await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+    const { sound } = await Audio.Sound.createAsync(require('../../assets/sounds/timer-done.wav'));
+    sound.setOnPlaybackStatusUpdate(status => {
+      if (status.isLoaded && status.didJustFinish) {
+        sound.unloadAsync();
+      }
+    });
+    await sound.playAsync();
+  } catch (error) {
+    console.error('Error playing timer sound:', error);
+  }
+};
+
+export const TimerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [timers, setTimers] = useState<CookingTimer[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [restored, setRestored] = useState(false);
+  const timerIdCounter = useRef(0);
+
+  // Restore timers from a previous launch
+  useEffect(() => {
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then(stored => {
+        if (stored) {
+          setTimers(JSON.parse(stored) as CookingTimer[]);
+        }
+      })
+      .catch(error => console.error('Error restoring timers:', error))
+      .finally(() => setRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!restored) return;
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(timers))
+      .catch(error => console.error('Error saving timers:', error));
+  }, [timers, restored]);
+
+  const hasRunningTimers = timers.some(timer => timer.status === 'running');
+
+  // Tick once a second while anything is counting down
+  useEffect(() => {
+    if (!hasRunningTimers) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningTimers]);
+
+  useEffect(() => {
+    const finished = timers.filter(timer => timer.status === 'running' && timer.endsAt !== undefined && timer.endsAt <= now);
+    if (finished.length === 0) return;
+
+    const finishedIds = new Set(finished.map(timer => timer.id));
+    setTimers(prev =>
+      prev.map(timer =>
+        finishedIds.has(timer.id)
+          ? { ...timer, status: 'done', endsAt: undefined, remainingSeconds: 0 }
+          : timer
+      )
+    );
+    playTimerSound();
+  }, [now, timers]);
+
+  const getRemainingSeconds = (timer: CookingTimer): number => {
+    if (timer.status !== 'running' || timer.endsAt === undefined) {
+      return timer.remainingSeconds;
+    }
+    return Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+  };
+
+  const updateTimer = (timerId: string, update: (timer: CookingTimer) => CookingTimer) => {
+    setTimers(prev => prev.map(timer => (timer.id === timerId ? update(timer) : timer)));
+  };
+
+  const startTimer = (options: StartTimerOptions): string => {
+    timerIdCounter.current += 1;
+    const timerId = `timer_${Date.now()}_${timerIdCounter.current}`;
+    const startedAt = Date.now();
+
+    setNow(startedAt);
+    setTimers(prev => [
+      ...prev,
+      {
+        id: timerId,
+        label: options.label,
+        recipeId: options.recipeId,
+        stepId: options.stepId,
+        durationSeconds: options.durationSeconds,
+        status: 'running',
+        endsAt: startedAt + options.durationSeconds * 1000,
+        remainingSeconds: options.durationSeconds,
+      },
+    ]);
+
+    return timerId;
+  };
+
+  const pauseTimer = (timerId: string) => {
+    updateTimer(timerId, timer =>
+      timer.status === 'running'
+        ? { ...timer, status: 'paused', remainingSeconds: getRemainingSeconds(timer), endsAt: undefined }
+        : timer
+    );
+  };
+
+  const resumeTimer = (timerId: string) => {
+    const resumedAt = Date.now();
+    setNow(resumedAt);
+    updateTimer(timerId, timer =>
+      timer.status === 'paused'
+        ? { ...timer, status: 'running', endsAt: resumedAt + timer.remainingSeconds * 1000 }
+        : timer
+    );
+  };
+
+  // Works on finished timers too, for "it needs a few more minutes"
+  const addTime = (timerId: string, seconds: number) => {
+    const addedAt = Date.now();
+    setNow(addedAt);
+    updateTimer(timerId, timer => {
+      if (timer.status === 'paused') {
+        return { ...timer, remainingSeconds: timer.remainingSeconds + seconds };
+      }
+      const remaining = getRemainingSeconds(timer) + seconds;
+      return { ...timer, status: 'running', endsAt: addedAt + remaining * 1000, remainingSeconds: remaining };
+    });
+  };
+
+  const dismissTimer = (timerId: string) => {
+    setTimers(prev => prev.filter(timer => timer.id !== timerId));
+  };
+
+  const getTimerForStep = (stepId: string): CookingTimer | undefined =>
+    timers.find(timer => timer.stepId === stepId);
+
+  const value: TimerContextType = {
+    timers,
+    startTimer,
+    pauseTimer,
+    resumeTimer,
+    addTime,
+    dismissTimer,
+    getRemainingSeconds,
+    getTimerForStep,
+  };
+
+  return (
+    <TimerContext.Provider value={value}>
+      {children}
+    </TimerContext.Provider>
+  );
+};
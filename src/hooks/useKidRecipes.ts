@@ -1,11 +1,18 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { kidRecipeManagerService } from '../services/kidRecipeManager';
 import { conversionStatusService, ConversionStatus } from '../services/conversionStatus';
 import { queryKeys } from '../services/queryClient';
-import type { Recipe, KidRecipe, ReadingLevel } from '../types';
+import type { Recipe, KidRecipe, ReadingLevel, KidAllergy, KidPermissions } from '../types';
 
-// Hook for getting kid recipes with offline support
+// Hook for getting kid recipes with offline support, kept live while mounted
 export const useKidRecipes = (kidId: string) => {
+  // The subscription writes into the same cache entry the query reads
+  useEffect(() => {
+    if (!kidId) return;
+    return kidRecipeManagerService.subscribeToKidRecipes(kidId, () => {});
+  }, [kidId]);
+
   return useQuery({
     queryKey: queryKeys.kidRecipes(kidId),
     queryFn: () => kidRecipeManagerService.getKidRecipes(kidId),
@@ -48,13 +55,17 @@ export const useConvertRecipe = () => {
       kidId,
       kidAge,
       readingLevel,
-      allergyFlags = []
+      allergyFlags = [],
+      allergies,
+      permissions
     }: {
       recipeId: string;
       kidId: string;
       kidAge: number;
       readingLevel: ReadingLevel;
       allergyFlags?: string[];
+      allergies?: KidAllergy[];
+      permissions?: KidPermissions;
     }) => {
       // Queue the conversion with status tracking
       return conversionStatusService.queueConversion(
@@ -62,7 +73,9 @@ export const useConvertRecipe = () => {
         kidId,
         kidAge,
         readingLevel,
-        allergyFlags
+        allergyFlags,
+        allergies,
+        permissions
       );
     },
     onSuccess: (taskId, variables) => {
@@ -103,8 +116,9 @@ export const useConversionStatus = (taskId: string) => {
     queryKey: queryKeys.conversionTask(taskId),
     queryFn: () => conversionStatusService.getConversionStatus(taskId),
     enabled: !!taskId,
-    refetchInterval: (data) => {
+    refetchInterval: (query) => {
       // Poll more frequently for active conversions
+      const data = query.state.data;
       if (data?.status === ConversionStatus.QUEUED || data?.status === ConversionStatus.CONVERTING) {
         return 2000; // 2 seconds
       }
@@ -0,0 +1,39 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { pantryService } from '../services/pantry';
+import { queryKeys } from '../services/queryClient';
+import type { PantryItem } from '../types';
+
+// Hook for what the family has on hand - kid mode reads it too, using the parent's ID
+export const usePantry = (parentId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.pantry(parentId || ''),
+    queryFn: () => pantryService.getItems(parentId!),
+    enabled: !!parentId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 7 * 24 * 60 * 60 * 1000, // 1 week
+    networkMode: 'offlineFirst',
+  });
+};
+
+// Hook for saving the whole pantry; the cache is updated first so edits feel instant
+export const useSavePantry = (parentId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.pantry(parentId || '');
+
+  return useMutation({
+    mutationFn: (items: PantryItem[]) => pantryService.saveItems(parentId!, items),
+    onMutate: async (items) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previousItems = queryClient.getQueryData<PantryItem[]>(queryKey);
+      queryClient.setQueryData(queryKey, items);
+      return { previousItems };
+    },
+    onError: (error, _, context) => {
+      console.error('Error saving pantry:', error);
+      if (context?.previousItems) {
+        queryClient.setQueryData(queryKey, context.previousItems);
+      }
+    },
+    networkMode: 'offlineFirst',
+  });
+};
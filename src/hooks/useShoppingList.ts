@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { shoppingListService } from '../services/shoppingList';
+import { queryKeys } from '../services/queryClient';
+import type { ShoppingListItem } from '../types';
+
+// Hook for the family shopping list - persisted so it's usable in the store without signal
+export const useShoppingList = (parentId: string | undefined) => {
+  return useQuery({
+    queryKey: queryKeys.shoppingList(parentId || ''),
+    queryFn: () => shoppingListService.getItems(parentId!),
+    enabled: !!parentId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 7 * 24 * 60 * 60 * 1000, // 1 week
+    networkMode: 'offlineFirst',
+  });
+};
+
+// Hook for saving the whole list; the cache is updated first so checking items off feels instant
+export const useSaveShoppingList = (parentId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const queryKey = queryKeys.shoppingList(parentId || '');
+
+  return useMutation({
+    mutationFn: (items: ShoppingListItem[]) => shoppingListService.saveItems(parentId!, items),
+    onMutate: async (items) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previousItems = queryClient.getQueryData<ShoppingListItem[]>(queryKey);
+      queryClient.setQueryData(queryKey, items);
+      return { previousItems };
+    },
+    onError: (error, _, context) => {
+      console.error('Error saving shopping list:', error);
+      if (context?.previousItems) {
+        queryClient.setQueryData(queryKey, context.previousItems);
+      }
+    },
+    // The sync queue holds offline saves, so the mutation itself never waits for a connection
+    networkMode: 'always',
+  });
+};
@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { syncQueueService } from '../services/syncQueue';
+import type { SyncStatus } from '../services/syncQueue';
+
+// Hook for whether offline changes are waiting, syncing or stuck
+export const useSyncStatus = (): SyncStatus => {
+  const [status, setStatus] = useState<SyncStatus>(() => syncQueueService.getStatus());
+
+  useEffect(() => syncQueueService.subscribe(setStatus), []);
+
+  return status;
+};
@@ -21,6 +21,11 @@ import KidManagementScreen from '../screens/parent/KidManagementScreen';
 import RecipeDetailScreen from '../screens/parent/RecipeDetailScreen';
 import RecipeManagementScreen from '../screens/parent/RecipeManagementScreen';
 import FavoritesScreen from '../screens/parent/FavoritesScreen';
+import FamilyMealsScreen from '../screens/parent/FamilyMealsScreen';
+import ShoppingListScreen from '../screens/parent/ShoppingListScreen';
+import PantryScreen from '../screens/parent/PantryScreen';
+import PasteRecipeScreen from '../screens/parent/PasteRecipeScreen';
+import ManualRecipeEntryScreen from '../screens/parent/ManualRecipeEntryScreen';
 
 // Kid screens
 import KidHomeScreen from '../screens/kid/KidHomeScreen';
@@ -31,6 +36,7 @@ import BadgeCollectionScreen from '../screens/kid/BadgeCollectionScreen';
 
 // Shared screens
 import SettingsScreen from '../screens/shared/SettingsScreen';
+import CookingHistoryScreen from '../screens/shared/CookingHistoryScreen';
 
 import type { RootStackParamList, ParentTabParamList, KidTabParamList } from '../types';
 
@@ -209,6 +215,14 @@ export default function AppNavigator() {
                     headerShown: false,
                   }}
                 />
+                <RootStack.Screen
+                  name="CookingHistory"
+                  component={CookingHistoryScreen}
+                  options={{
+                    headerShown: true,
+                    title: 'My Cooking'
+                  }}
+                />
               </>
             )}
           </>
@@ -243,6 +257,54 @@ export default function AppNavigator() {
                 title: 'Favorites'
               }}
             />
+            <RootStack.Screen
+              name="FamilyMeals"
+              component={FamilyMealsScreen}
+              options={{
+                headerShown: true,
+                title: 'Meal Planner'
+              }}
+            />
+            <RootStack.Screen
+              name="ShoppingList"
+              component={ShoppingListScreen}
+              options={{
+                headerShown: true,
+                title: 'Shopping List'
+              }}
+            />
+            <RootStack.Screen
+              name="Pantry"
+              component={PantryScreen}
+              options={{
+                headerShown: true,
+                title: 'Pantry'
+              }}
+            />
+            <RootStack.Screen
+              name="CookingHistory"
+              component={CookingHistoryScreen}
+              options={{
+                headerShown: true,
+                title: 'Cooking History'
+              }}
+            />
+            <RootStack.Screen
+              name="PasteRecipe"
+              component={PasteRecipeScreen}
+              options={{
+                headerShown: true,
+                title: 'Paste Recipe'
+              }}
+            />
+            <RootStack.Screen
+              name="ManualRecipeEntry"
+              component={ManualRecipeEntryScreen}
+              options={{
+                headerShown: true,
+                title: 'New Recipe'
+              }}
+            />
           </>
         )}
       </RootStack.Navigator>
@@ -16,26 +16,44 @@ import { useAuth } from '../../contexts/AuthContext';
 import { recipeSharingService } from '../../services/recipeSharing';
 import { kidProgressService, AVAILABLE_BADGES } from '../../services/kidProgressService';
 import { recipeRecommendationsService } from '../../services/recipeRecommendations';
-import PinInput from '../../components/PinInput';
+import { cookingSessionService } from '../../services/cookingSessions';
+import TimerStrip from '../../components/TimerStrip';
 import { SearchBar } from '../../components/SearchBar';
-import { searchRecipesKidMode, filterRecipes, SearchFilters } from '../../utils/searchUtils';
+import {
+  searchRecipesKidMode,
+  filterRecipes,
+  combineFilters,
+  FilterExpression,
+  SearchFilterContext,
+  SearchMode,
+} from '../../utils/searchUtils';
+import { searchByPantry, PantryMatch } from '../../utils/pantrySearch';
+import { usePantry } from '../../hooks/usePantry';
+import { evaluateRecipePermissions, isRecipeHiddenForKid } from '../../utils/kidRecipeChecks';
+import { formatMinutes, getRecipeTotalMinutes } from '../../utils/durations';
 import FilterChips, { FilterOption } from '../../components/FilterChips';
-import type { Recipe, KidBadge } from '../../types';
+import PantryMatchSummary from '../../components/PantryMatchSummary';
+import SyncStatusIndicator from '../../components/SyncStatusIndicator';
+import type { Recipe, KidBadge, CookingSession } from '../../types';
 import type { KidProgress } from '../../services/kidProgressService';
 
 export default function KidHomeScreen() {
   const navigation = useNavigation();
-  const { currentKid, setDeviceModeWithPin, selectKid, parentProfile } = useAuth();
+  const { currentKid, setDeviceMode, setDeviceModeWithPin, selectKid, parentProfile, isActionGuarded, requestUnlock } = useAuth();
   const [sharedRecipes, setSharedRecipes] = useState<Recipe[]>([]);
   const [filteredRecipes, setFilteredRecipes] = useState<Recipe[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [activeFilters, setActiveFilters] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
-  const [showPinInput, setShowPinInput] = useState(false);
   const [progress, setProgress] = useState<KidProgress | null>(null);
   const [recentBadges, setRecentBadges] = useState<KidBadge[]>([]);
   const [recommendations, setRecommendations] = useState<Recipe[]>([]);
   const [loadingRecommendations, setLoadingRecommendations] = useState(false);
+  const [unfinishedSessions, setUnfinishedSessions] = useState<CookingSession[]>([]);
+  const [pantryMatches, setPantryMatches] = useState<Map<string, PantryMatch>>(new Map());
+  const [filterContext, setFilterContext] = useState<SearchFilterContext>({});
+  // Kids cook from the family pantry their parent keeps
+  const { data: pantryItems } = usePantry(parentProfile?.id);
 
   // If no kid is selected, redirect to selector
   if (!currentKid) {
@@ -78,7 +96,12 @@ export default function KidHomeScreen() {
     try {
       setLoading(true);
       // Load recipes shared with this kid
-      const shared = await recipeSharingService.getSharedRecipesForKid(currentKid.id);
+      // Recipes that match a severe allergy never reach the kid
+      const allShared = await recipeSharingService.getSharedRecipesForKid(currentKid.id);
+      const shared = allShared.filter(recipe => !isRecipeHiddenForKid(recipe, currentKid));
+      const hiddenRecipeIds = new Set(
+        allShared.filter(recipe => !shared.includes(recipe)).map(recipe => recipe.id)
+      );
       setSharedRecipes(shared);
       setFilteredRecipes(shared);
 
@@ -92,6 +115,18 @@ export default function KidHomeScreen() {
         .slice(0, 3);
       setRecentBadges(sortedBadges);
 
+      // Recipes the kid started but didn't finish
+      const activeSessions = await cookingSessionService.getActiveSessions(currentKid.id);
+      setUnfinishedSessions(
+        activeSessions.filter(session => !hiddenRecipeIds.has(session.recipeId)).slice(0, 3)
+      );
+
+      // Recipes this kid has finished, for the "New to Me" chip
+      const sessions = await cookingSessionService.getSessionsForKid(currentKid.id);
+      setFilterContext({
+        cookedRecipeIds: new Set(sessions.filter(session => session.completedAt).map(session => session.recipeId)),
+      });
+
       // Load recommendations in background
       loadRecommendations();
     } catch (error) {
@@ -115,6 +150,8 @@ export default function KidHomeScreen() {
     }
   };
 
+  const searchMode: SearchMode = activeFilters.includes('pantry') ? 'pantry' : 'recipes';
+
   // Handle search and filter combination for kids
   useEffect(() => {
     let filtered = sharedRecipes;
@@ -125,21 +162,21 @@ export default function KidHomeScreen() {
     }
 
     // Apply active filters
-    if (activeFilters.length > 0) {
-      const searchFilters: SearchFilters = {};
-
-      activeFilters.forEach(filterId => {
-        const filterOption = kidFilterOptions.find(opt => opt.id === filterId);
-        if (filterOption && filterOption.value) {
-          Object.assign(searchFilters, filterOption.value);
-        }
-      });
+    const activeValues = activeFilters
+      .map(filterId => kidFilterOptions.find(opt => opt.id === filterId)?.value)
+      .filter((value): value is FilterExpression => value !== undefined);
+    if (activeValues.length > 0) {
+      filtered = filterRecipes(filtered, combineFilters(activeValues), filterContext);
+    }
 
-      filtered = filterRecipes(filtered, searchFilters);
+    if (searchMode === 'pantry') {
+      const matches = searchByPantry(filtered, pantryItems || []);
+      setPantryMatches(new Map(matches.map(match => [match.recipe.id, match])));
+      filtered = matches.map(match => match.recipe);
     }
 
     setFilteredRecipes(filtered);
-  }, [searchQuery, sharedRecipes, activeFilters]);
+  }, [searchQuery, sharedRecipes, activeFilters, pantryItems, filterContext]);
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -147,10 +184,12 @@ export default function KidHomeScreen() {
 
   // Define filter options for kid mode
   const kidFilterOptions: FilterOption[] = [
+    { id: 'pantry', label: 'What Can We Make?', emoji: '🧺', mode: 'pantry' },
     { id: 'quick', label: 'Quick & Easy', emoji: '⚡', value: { maxCookTime: 30 } },
     { id: 'fun', label: 'Fun to Make', emoji: '🎉', value: { difficulty: 'easy' } },
     { id: 'dessert', label: 'Sweet Treats', emoji: '🍪', value: { mealType: 'dessert' } },
     { id: 'snack', label: 'Yummy Snacks', emoji: '🍎', value: { mealType: 'snack' } },
+    { id: 'new', label: 'New to Me', emoji: '🆕', value: { neverCooked: true } },
   ];
 
   const handleFilterPress = (filterId: string) => {
@@ -161,16 +200,17 @@ export default function KidHomeScreen() {
     );
   };
 
-  const handleRecipePress = (recipe: Recipe) => {
+  const handleRecipePress = (recipe: Pick<Recipe, 'id'>) => {
     if (!currentKid) return;
     navigation.navigate('RecipeView' as never, { recipeId: recipe.id, kidId: currentKid.id } as never);
   };
 
-  const handleExitKidMode = () => {
-    const hasPinProtection = parentProfile?.kidModePin;
-
-    if (hasPinProtection) {
-      setShowPinInput(true);
+  const handleExitKidMode = async () => {
+    if (isActionGuarded('exitKidMode')) {
+      // PIN, face or password - whichever the parent chose
+      if (await requestUnlock('exitKidMode')) {
+        setDeviceMode('parent');
+      }
     } else {
       // No PIN set, ask if they want to set one
       Alert.alert(
@@ -195,11 +235,29 @@ export default function KidHomeScreen() {
     }
   };
 
-  const handlePinSuccess = async (pin?: string) => {
-    setShowPinInput(false);
-    await setDeviceModeWithPin('parent', pin);
-  };
 
+  // Let kids know up front when a recipe needs a grown-up or runs past their time limit
+  const renderPermissionBadges = (recipe: Recipe) => {
+    if (!currentKid?.permissions) return null;
+
+    const check = evaluateRecipePermissions(recipe, currentKid.permissions);
+    if (check.blockedTools.length === 0 && !check.overTimeLimit) return null;
+
+    return (
+      <View style={styles.permissionBadges}>
+        {check.blockedTools.length > 0 && (
+          <View style={styles.permissionBadge}>
+            <Text style={styles.permissionBadgeText}>🧑‍🍳 With a grown-up</Text>
+          </View>
+        )}
+        {check.overTimeLimit && (
+          <View style={styles.permissionBadge}>
+            <Text style={styles.permissionBadgeText}>⏰ Long one</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
 
   const renderSharedRecipe = ({ item }: { item: Recipe }) => (
     <TouchableOpacity style={[styles.recipeCard, styles.kidRecipeCard]} onPress={() => handleRecipePress(item)}>
@@ -220,8 +278,12 @@ export default function KidHomeScreen() {
           <View style={[styles.difficultyBadge, { backgroundColor: '#10b981' }]}>
             <Text style={styles.difficultyText}>{currentKid?.readingLevel}</Text>
           </View>
-          <Text style={styles.timeText}>{item.totalTime || item.cookTime || 30}m</Text>
+          <Text style={styles.timeText}>{formatMinutes(getRecipeTotalMinutes(item) ?? 30)}</Text>
         </View>
+        {renderPermissionBadges(item)}
+        {searchMode === 'pantry' && pantryMatches.has(item.id) && (
+          <PantryMatchSummary match={pantryMatches.get(item.id)!} kidMode />
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -245,8 +307,9 @@ export default function KidHomeScreen() {
           <View style={[styles.difficultyBadge, { backgroundColor: '#f59e0b' }]}>
             <Text style={styles.difficultyText}>{item.difficulty || 'easy'}</Text>
           </View>
-          <Text style={styles.timeText}>{item.totalTime || item.cookTime || '30min'}</Text>
+          <Text style={styles.timeText}>{formatMinutes(getRecipeTotalMinutes(item) ?? 30)}</Text>
         </View>
+        {renderPermissionBadges(item)}
       </View>
     </TouchableOpacity>
   );
@@ -268,6 +331,7 @@ export default function KidHomeScreen() {
 
   return (
     <SafeAreaView style={styles.container}>
+      <TimerStrip />
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <View style={styles.header}>
           <Text style={styles.greeting}>
@@ -283,8 +347,34 @@ export default function KidHomeScreen() {
           <TouchableOpacity style={styles.logoutButton} onPress={handleExitKidMode}>
             <Text style={styles.logoutButtonText}>👋 Exit Kid Mode</Text>
           </TouchableOpacity>
+          <SyncStatusIndicator showActions={false} />
         </View>
 
+        {/* Keep Cooking Section */}
+        {unfinishedSessions.length > 0 && (
+          <View style={styles.resumeSection}>
+            <Text style={styles.resumeTitle}>🍳 Keep Cooking!</Text>
+            {unfinishedSessions.map(session => (
+              <TouchableOpacity
+                key={session.id}
+                style={styles.resumeCard}
+                onPress={() => handleRecipePress({ id: session.recipeId })}
+              >
+                <Text style={styles.resumeEmoji}>
+                  {session.recipeImage && !session.recipeImage.startsWith('http') ? session.recipeImage : '🍽️'}
+                </Text>
+                <View style={styles.resumeInfo}>
+                  <Text style={styles.resumeRecipeTitle}>{session.recipeTitle || 'Your recipe'}</Text>
+                  <Text style={styles.resumeStepText}>
+                    You're on step {session.currentStep + 1} of {session.totalSteps}
+                  </Text>
+                </View>
+                <Text style={styles.resumeArrow}>→</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Progress Section */}
         {progress && (
           <View style={styles.progressSection}>
@@ -305,11 +395,14 @@ export default function KidHomeScreen() {
                 <Text style={styles.progressCardLabel}>Badges Earned</Text>
               </View>
 
-              <View style={styles.progressCard}>
+              <TouchableOpacity
+                style={styles.progressCard}
+                onPress={() => navigation.navigate('CookingHistory' as never)}
+              >
                 <Text style={styles.progressCardEmoji}>🍳</Text>
                 <Text style={styles.progressCardNumber}>{progress.recipesCompleted}</Text>
                 <Text style={styles.progressCardLabel}>Recipes Made</Text>
-              </View>
+              </TouchableOpacity>
 
               <View style={styles.progressCard}>
                 <Text style={styles.progressCardEmoji}>🌟</Text>
@@ -364,10 +457,11 @@ export default function KidHomeScreen() {
           <View>
             <View style={styles.searchContainer}>
               <SearchBar
-                placeholder="🔍 Find a yummy recipe to cook!"
+                placeholder={searchMode === 'pantry' ? 'What do you feel like making?' : '🔍 Find a yummy recipe to cook!'}
                 value={searchQuery}
                 onChangeText={handleSearch}
                 kidMode={true}
+                mode={searchMode}
               />
             </View>
             <FilterChips
@@ -387,6 +481,16 @@ export default function KidHomeScreen() {
               Ask your parent to share some recipes with you. Once shared, you can convert them to kid-friendly versions!
             </Text>
           </View>
+        ) : displayedRecipes === 0 && searchMode === 'pantry' ? (
+          <View style={styles.emptySearchState}>
+            <Text style={styles.emptySearchEmoji}>🧺</Text>
+            <Text style={styles.emptySearchTitle}>
+              {(pantryItems || []).length === 0 ? 'The pantry list is empty!' : 'Nothing we can make yet!'}
+            </Text>
+            <Text style={styles.emptySearchText}>
+              Ask a grown-up to add what's in the cupboards and fridge.
+            </Text>
+          </View>
         ) : displayedRecipes === 0 && searchQuery ? (
           <View style={styles.emptySearchState}>
             <Text style={styles.emptySearchEmoji}>🔍</Text>
@@ -421,15 +525,6 @@ export default function KidHomeScreen() {
           </View>
         )}
       </ScrollView>
-
-      <PinInput
-        visible={showPinInput}
-        onClose={() => setShowPinInput(false)}
-        onSuccess={handlePinSuccess}
-        title="Parent PIN Required"
-        subtitle="Enter your PIN to exit Kid Mode"
-        correctPin={parentProfile?.kidModePin || ''}
-      />
     </SafeAreaView>
   );
 }
@@ -586,6 +681,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textTransform: 'uppercase',
   },
+  permissionBadges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  permissionBadge: {
+    backgroundColor: '#fef3c7',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  permissionBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#92400e',
+  },
   timeText: {
     fontSize: 14,
     color: '#6b7280',
@@ -648,6 +760,51 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  resumeSection: {
+    backgroundColor: 'white',
+    margin: 15,
+    marginBottom: 0,
+    borderRadius: 16,
+    padding: 20,
+    borderWidth: 2,
+    borderColor: '#f59e0b',
+  },
+  resumeTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1e40af',
+    marginBottom: 10,
+  },
+  resumeCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fffbeb',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+  },
+  resumeEmoji: {
+    fontSize: 32,
+    marginRight: 12,
+  },
+  resumeInfo: {
+    flex: 1,
+  },
+  resumeRecipeTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  resumeStepText: {
+    fontSize: 14,
+    color: '#92400e',
+    marginTop: 2,
+  },
+  resumeArrow: {
+    fontSize: 20,
+    color: '#f59e0b',
+    fontWeight: 'bold',
+  },
   progressSection: {
     backgroundColor: 'white',
     margin: 15,
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -10,7 +10,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useAuth } from '../../contexts/AuthContext';
-import PinInput from '../../components/PinInput';
+import { getKidAllergies } from '../../utils/kidRecipeChecks';
 import type { KidProfile } from '../../types';
 
 const { width } = Dimensions.get('window');
@@ -21,8 +21,7 @@ interface KidProfileSelectorProps {
 }
 
 export default function KidProfileSelector({ onKidSelected, onExitKidMode }: KidProfileSelectorProps) {
-  const { kidProfiles, parentProfile, setDeviceModeWithPin } = useAuth();
-  const [showPinInput, setShowPinInput] = useState(false);
+  const { kidProfiles, parentProfile, isActionGuarded, requestUnlock } = useAuth();
 
   const getAgeGroup = (age: number): string => {
     if (age <= 8) return 'Little Chef';
@@ -39,11 +38,11 @@ export default function KidProfileSelector({ onKidSelected, onExitKidMode }: Kid
     }
   };
 
-  const handleExitToParentMode = () => {
-    const hasPinProtection = parentProfile?.kidModePin;
-
-    if (hasPinProtection) {
-      setShowPinInput(true);
+  const handleExitToParentMode = async () => {
+    if (isActionGuarded('exitKidMode')) {
+      if (await requestUnlock('exitKidMode')) {
+        onExitKidMode();
+      }
     } else {
       // No PIN set, ask if they want to set one
       Alert.alert(
@@ -64,11 +63,6 @@ export default function KidProfileSelector({ onKidSelected, onExitKidMode }: Kid
     }
   };
 
-  const handlePinSuccess = async () => {
-    setShowPinInput(false);
-    onExitKidMode();
-  };
-
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -114,7 +108,7 @@ export default function KidProfileSelector({ onKidSelected, onExitKidMode }: Kid
                     <Text style={styles.readingText}>{kid.readingLevel}</Text>
                   </View>
 
-                  {kid.allergyFlags && kid.allergyFlags.length > 0 && (
+                  {getKidAllergies(kid).length > 0 && (
                     <View style={styles.allergyContainer}>
                       <Text style={styles.allergyIcon}>⚠️</Text>
                       <Text style={styles.allergyText}>Has allergies</Text>
@@ -143,15 +137,6 @@ export default function KidProfileSelector({ onKidSelected, onExitKidMode }: Kid
           Need help? Ask your parent! 💝
         </Text>
       </View>
-
-      <PinInput
-        visible={showPinInput}
-        onClose={() => setShowPinInput(false)}
-        onSuccess={handlePinSuccess}
-        title="Parent PIN Required"
-        subtitle="Enter your PIN to access Parent Mode"
-        correctPin={parentProfile?.kidModePin || ''}
-      />
     </SafeAreaView>
   );
 }
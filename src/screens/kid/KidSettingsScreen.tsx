@@ -17,17 +17,13 @@ export default function KidSettingsScreen() {
   const [readAloud, setReadAloud] = useState(true);
   const [darkMode, setDarkMode] = useState(false);
 
-  const { currentKid, setDeviceModeWithPin, parentProfile } = useAuth();
+  const { currentKid, setDeviceMode, setDeviceModeWithPin, isActionGuarded, requestUnlock } = useAuth();
 
-  const handleExitKidMode = () => {
-    const hasPinProtection = parentProfile?.kidModePin;
-
-    if (hasPinProtection) {
-      Alert.alert(
-        'Exit Kid Mode',
-        'Ask your parent to enter the PIN to exit Kid Mode.',
-        [{ text: 'OK' }]
-      );
+  const handleExitKidMode = async () => {
+    if (isActionGuarded('exitKidMode')) {
+      if (await requestUnlock('exitKidMode')) {
+        setDeviceMode('parent');
+      }
     } else {
       Alert.alert(
         'Exit Kid Mode',
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,7 @@ import {
   ScrollView,
   ActivityIndicator,
   Alert,
+  TextInput,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -17,73 +18,75 @@ import { useAuth } from '../../contexts/AuthContext';
 import { recipeService } from '../../services/recipes';
 import { kidRecipeManagerService } from '../../services/kidRecipeManager';
 import { kidProgressService } from '../../services/kidProgressService';
+import { cookingSessionService, toSessionDate } from '../../services/cookingSessions';
+import { readAloudService } from '../../services/readAloud';
 import { recipeFavoritesService } from '../../services/recipeFavorites';
 import { BadgeNotification } from '../../components/BadgeNotification';
-import PinInput from '../../components/PinInput';
-import type { KidRecipe, Recipe, KidBadge } from '../../types';
+import TimerStrip from '../../components/TimerStrip';
+import { useTimers } from '../../contexts/TimerContext';
+import { convertIngredient, convertTemperaturesInText, getUnitPreferences } from '../../utils/unitConversion';
+import { formatIngredient } from '../../utils/ingredientParser';
+import { getScaleFactor, getScalingNotes, scaleKidIngredient } from '../../utils/recipeScaling';
+import { formatCountdown, formatDurationLabel, getStepDuration } from '../../utils/stepTimers';
+import {
+  checkKidStepPermissions,
+  findAllergyMatches,
+  getKidAllergies,
+  isRecipeHiddenForKid,
+} from '../../utils/kidRecipeChecks';
+import { formatMinutes, getRecipeTotalMinutes, parseDurationMinutes } from '../../utils/durations';
+import type { KidRecipe, Recipe, KidBadge, KidIngredient, CookingSession } from '../../types';
 
 type RecipeViewParams = { recipeId: string; kidId?: string };
 
+// Recipes without a serving count are treated as serving four, like the parent view
+const DEFAULT_SERVINGS = 4;
+
+// Shortcuts for the servings picker; each lands on a serving count the stepper can fine-tune
+const KID_SCALE_PRESETS = [
+  { multiplier: 0.5, label: '½', description: 'Half recipe' },
+  { multiplier: 1, label: '1x', description: 'Original' },
+  { multiplier: 2, label: '2x', description: '2x bigger!' },
+  { multiplier: 3, label: '3x', description: '3x bigger!' },
+];
+
 export default function RecipeViewScreen() {
   const route = useRoute();
   const navigation = useNavigation();
-  const { currentKid, parentProfile } = useAuth();
+  const { currentKid, parentProfile, isActionGuarded, requestUnlock } = useAuth();
+  const { startTimer, getTimerForStep, getRemainingSeconds } = useTimers();
   const { recipeId, kidId } = (route.params || {}) as RecipeViewParams;
   const [currentStep, setCurrentStep] = useState(0);
   const [parentRecipe, setParentRecipe] = useState<Recipe | null>(null);
   const [kidRecipe, setKidRecipe] = useState<KidRecipe | null>(null);
-  const [scaleMultiplier, setScaleMultiplier] = useState(1);
+  const [targetServings, setTargetServings] = useState<number | null>(null); // null until the kid picks, meaning as written
   const [loading, setLoading] = useState(true);
   const [reportingStep, setReportingStep] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
   const [newBadge, setNewBadge] = useState<KidBadge | null>(null);
   const [showBadgeNotification, setShowBadgeNotification] = useState(false);
   const [completingRecipe, setCompletingRecipe] = useState(false);
-  const [showParentVerification, setShowParentVerification] = useState(false);
   const [pendingCompletion, setPendingCompletion] = useState(false);
   const [isFavorite, setIsFavorite] = useState(false);
   const [favoriteLoading, setFavoriteLoading] = useState(false);
+  const [session, setSession] = useState<CookingSession | null>(null);
+  const [resumedSession, setResumedSession] = useState(false);
+  const [notes, setNotes] = useState('');
+  const pendingSession = useRef<Promise<CookingSession> | null>(null);
+  // Hands-free mode speaks every step as it comes up
+  const [handsFree, setHandsFree] = useState(!!parentProfile?.settings?.enableVoiceInstructions);
+  const readAloudAvailable = !!(parentProfile?.settings?.readAloud || parentProfile?.settings?.enableVoiceInstructions);
 
   const effectiveKidId = kidId || currentKid?.id;
 
-  // Function to scale ingredient measurements for kids
-  const scaleKidIngredient = (ingredient: { amount?: number; unit?: string; kidFriendlyName: string }, scale: number) => {
-    if (!ingredient.amount) {
-      return ingredient.kidFriendlyName;
-    }
-
-    const scaledAmount = ingredient.amount * scale;
-
-    // Convert decimals to kid-friendly fractions
-    let displayAmount: string;
-    if (scaledAmount === 0.5) {
-      displayAmount = '½';
-    } else if (scaledAmount === 0.25) {
-      displayAmount = '¼';
-    } else if (scaledAmount === 0.75) {
-      displayAmount = '¾';
-    } else if (scaledAmount === 1.5) {
-      displayAmount = '1½';
-    } else if (scaledAmount === 2.5) {
-      displayAmount = '2½';
-    } else if (scaledAmount < 1 && scaledAmount > 0) {
-      // For other decimal amounts, try to convert to simple fractions
-      if (scaledAmount === 1/3) {
-        displayAmount = '⅓';
-      } else if (scaledAmount === 2/3) {
-        displayAmount = '⅔';
-      } else {
-        displayAmount = scaledAmount.toFixed(2).replace(/\.?0+$/, '');
-      }
-    } else {
-      displayAmount = scaledAmount.toString();
-    }
-
-    const unit = ingredient.unit || '';
-    const name = ingredient.kidFriendlyName;
-
-    return `${displayAmount} ${unit} ${name}`.trim();
-  };
+  const formatKidIngredient = (ingredient: KidIngredient) =>
+    formatIngredient({
+      id: ingredient.id,
+      name: ingredient.kidFriendlyName,
+      amount: ingredient.amount,
+      unit: ingredient.unit,
+      order: ingredient.order,
+    });
 
   useEffect(() => {
     let isMounted = true;
@@ -102,7 +105,8 @@ export default function RecipeViewScreen() {
         if (!isMounted) return;
         setParentRecipe(recipe);
 
-        if (recipe && currentKid) {
+        // Recipes that match a severe allergy are never converted or shown
+        if (recipe && currentKid && !isRecipeHiddenForKid(recipe, currentKid)) {
           let kidVersion = await kidRecipeManagerService.getKidRecipeByOriginal(
             recipe.id,
             effectiveKidId
@@ -118,9 +122,19 @@ export default function RecipeViewScreen() {
             kidVersion = await kidRecipeManagerService.getKidRecipe(kidRecipeId);
           }
 
+          // Pick up where the kid left off if they closed the app mid-recipe
+          const activeSession = kidVersion
+            ? await cookingSessionService.getActiveSession(effectiveKidId, recipe.id)
+            : null;
+
           if (isMounted) {
             setKidRecipe(kidVersion);
-            setCurrentStep(0);
+            setSession(activeSession);
+            setNotes(activeSession?.notes || '');
+            setResumedSession(!!activeSession && activeSession.currentStep > 0);
+            setCurrentStep(activeSession && kidVersion
+              ? Math.min(activeSession.currentStep, kidVersion.simplifiedSteps.length - 1)
+              : 0);
             await loadFavoriteStatus(recipeId, effectiveKidId);
           }
         }
@@ -139,6 +153,56 @@ export default function RecipeViewScreen() {
     };
   }, [recipeId, effectiveKidId, currentKid]);
 
+  // Keep the grown-up's recipe (title, picture) current while it's open
+  useEffect(() => {
+    if (!recipeId) return;
+    return recipeService.subscribeToRecipe(recipeId, (updatedRecipe) => {
+      if (updatedRecipe) {
+        setParentRecipe(updatedRecipe);
+      }
+    });
+  }, [recipeId]);
+
+  const speakStep = (stepIndex: number) => {
+    const step = kidRecipe?.simplifiedSteps[stepIndex];
+    if (!kidRecipe || !step) return;
+
+    const { temperatureUnit } = getUnitPreferences(parentProfile?.settings);
+    const grownUpPrefix = checkKidStepPermissions(step, stepIndex, currentKid?.permissions)
+      ? 'This is a grown-up step. '
+      : '';
+    readAloudService.speakStep(
+      {
+        kidFriendlyText: grownUpPrefix + convertTemperaturesInText(step.kidFriendlyText, temperatureUnit),
+        safetyNote: step.safetyNote ? convertTemperaturesInText(step.safetyNote, temperatureUnit) : undefined,
+        encouragement: step.encouragement,
+      },
+      stepIndex + 1,
+      kidRecipe.simplifiedSteps.length,
+      { language: parentProfile?.settings?.language, readingLevel: currentKid?.readingLevel }
+    );
+  };
+
+  useEffect(() => {
+    if (handsFree && kidRecipe) {
+      speakStep(currentStep);
+    }
+  }, [currentStep, handsFree, kidRecipe]);
+
+  // Stop talking when the kid leaves the recipe
+  useEffect(() => {
+    return () => {
+      readAloudService.stop();
+    };
+  }, []);
+
+  const toggleHandsFree = () => {
+    if (handsFree) {
+      readAloudService.stop();
+    }
+    setHandsFree(!handsFree);
+  };
+
   const loadFavoriteStatus = async (recipeId: string, kidId: string) => {
     if (!parentProfile) return;
 
@@ -165,9 +229,53 @@ export default function RecipeViewScreen() {
     }
   };
 
+  // Sessions are created on the first step change so just peeking at a recipe doesn't count as cooking
+  const ensureSession = async (): Promise<CookingSession> => {
+    if (session) return session;
+    // Quick taps shouldn't create two sessions while the first one is still saving
+    if (!pendingSession.current) {
+      pendingSession.current = cookingSessionService
+        .startSession(effectiveKidId!, parentRecipe!, kidRecipe!.simplifiedSteps.length, kidRecipe!.id)
+        .then(newSession => {
+          setSession(newSession);
+          return newSession;
+        })
+        .finally(() => {
+          pendingSession.current = null;
+        });
+    }
+    return pendingSession.current;
+  };
+
+  const goToStep = (step: number) => {
+    setCurrentStep(step);
+    setResumedSession(false);
+    ensureSession()
+      .then(activeSession => cookingSessionService.updateProgress(activeSession.id, step))
+      .catch(error => console.error('Error saving cooking progress:', error));
+  };
+
+  const saveNotes = () => {
+    if (!session && !notes.trim()) return;
+    ensureSession()
+      .then(activeSession => cookingSessionService.updateNotes(activeSession.id, notes))
+      .catch(error => console.error('Error saving cooking notes:', error));
+  };
+
+  const handleStartOver = () => {
+    if (!session) return;
+    const oldSession = session;
+    setSession(null);
+    setNotes('');
+    setResumedSession(false);
+    setCurrentStep(0);
+    cookingSessionService.deleteSession(oldSession.id)
+      .catch(error => console.error('Error clearing cooking session:', error));
+  };
+
   const nextStep = () => {
     if (kidRecipe && currentStep < kidRecipe.simplifiedSteps.length - 1) {
-      setCurrentStep(currentStep + 1);
+      goToStep(currentStep + 1);
     } else if (kidRecipe && currentStep === kidRecipe.simplifiedSteps.length - 1 && !isCompleted) {
       // They've finished the last step - request recipe completion with parent verification
       requestRecipeCompletion();
@@ -176,7 +284,7 @@ export default function RecipeViewScreen() {
 
   const prevStep = () => {
     if (currentStep > 0) {
-      setCurrentStep(currentStep - 1);
+      goToStep(currentStep - 1);
     }
   };
 
@@ -237,15 +345,18 @@ export default function RecipeViewScreen() {
       [
         {
           text: 'Ask Parent to Verify',
-          onPress: () => {
-            const hasPinProtection = parentProfile?.kidModePin;
-            if (hasPinProtection) {
-              setShowParentVerification(true);
+          onPress: async () => {
+            if (isActionGuarded('approveCompletion')) {
+              if (await requestUnlock('approveCompletion')) {
+                confirmedRecipeCompletion();
+              } else {
+                handleParentVerificationClose();
+              }
             } else {
-              // No PIN set, ask if they want to proceed without verification
+              // No grown-up check set, ask if they want to proceed without verification
               Alert.alert(
-                'No Parent PIN Set',
-                'Your parent hasn\'t set up a verification PIN yet. You can still complete the recipe, but ask your parent to set up a PIN for better security!',
+                'No Grown-Up Check Set',
+                'Your parent hasn\'t set up a way to verify finished recipes yet. You can still complete the recipe, but ask your parent to set one up in Settings!',
                 [
                   {
                     text: 'Complete Anyway',
@@ -269,12 +380,19 @@ export default function RecipeViewScreen() {
     setIsCompleted(true);
 
     try {
-      // Record the recipe completion and check for new badges
-      const result = await kidProgressService.recordRecipeCompletion(
-        effectiveKidId,
-        parentRecipe,
-        true // Assume safety was followed - could be enhanced later
-      );
+      const activeSession = await ensureSession();
+      const completedSession = await cookingSessionService.completeSession(activeSession.id, { notes });
+      setSession(completedSession || activeSession);
+
+      // Record the recipe completion and check for new badges - once per session
+      const result = completedSession
+        ? await kidProgressService.recordRecipeCompletion(
+          effectiveKidId,
+          parentRecipe,
+          true, // Assume safety was followed - could be enhanced later
+          toSessionDate(completedSession.completedAt!)
+        )
+        : { newBadges: [], achievements: [] };
 
       // Show celebration message
       Alert.alert(
@@ -305,13 +423,7 @@ export default function RecipeViewScreen() {
     }
   };
 
-  const handleParentVerificationSuccess = () => {
-    setShowParentVerification(false);
-    confirmedRecipeCompletion();
-  };
-
   const handleParentVerificationClose = () => {
-    setShowParentVerification(false);
     // Reset completion state so they can try again
     setCompletingRecipe(false);
     setIsCompleted(false);
@@ -335,6 +447,19 @@ export default function RecipeViewScreen() {
     );
   }
 
+  if (parentRecipe && currentKid && isRecipeHiddenForKid(parentRecipe, currentKid)) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorTitle}>Not This One! 🚫</Text>
+          <Text style={styles.errorText}>
+            This recipe has something you're allergic to. Let's pick a different recipe!
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
   if (!effectiveKidId || !parentRecipe || !kidRecipe) {
     return (
       <SafeAreaView style={styles.container}>
@@ -348,11 +473,53 @@ export default function RecipeViewScreen() {
     );
   }
 
-  const steps = kidRecipe.simplifiedSteps;
-  const ingredients = kidRecipe.simplifiedIngredients;
+  // Imported recipes can mix cups and grams; show everything in the family's units
+  const unitPreferences = getUnitPreferences(parentProfile?.settings);
+  const steps = kidRecipe.simplifiedSteps.map(step => ({
+    ...step,
+    kidFriendlyText: convertTemperaturesInText(step.kidFriendlyText, unitPreferences.temperatureUnit),
+    safetyNote: step.safetyNote
+      ? convertTemperaturesInText(step.safetyNote, unitPreferences.temperatureUnit)
+      : step.safetyNote,
+  }));
+  const originalServings = parentRecipe.servings || DEFAULT_SERVINGS;
+  const servings = targetServings ?? originalServings;
+  const scaleFactor = getScaleFactor(originalServings, servings);
+  const ingredients = kidRecipe.simplifiedIngredients.map(ingredient =>
+    scaleKidIngredient(convertIngredient(ingredient, unitPreferences.system), scaleFactor)
+  );
+  const scalingNotes = getScalingNotes(
+    kidRecipe.simplifiedIngredients,
+    kidRecipe.simplifiedSteps.map(step => step.kidFriendlyText),
+    scaleFactor
+  );
+
+  const totalMinutes = parseDurationMinutes(kidRecipe.estimatedDuration) ?? getRecipeTotalMinutes(parentRecipe);
+
+  // Severe matches never get this far; anything milder is shown as a warning
+  const allergyWarnings = currentKid
+    ? findAllergyMatches(parentRecipe, getKidAllergies(currentKid))
+    : [];
+
+  const currentStepData = steps[currentStep];
+  const grownUpCheck = checkKidStepPermissions(currentStepData, currentStep, currentKid?.permissions);
+  const stepTimerId = `${kidRecipe.id}_${currentStepData.id}`;
+  const stepDuration = getStepDuration({ time: currentStepData.time, text: currentStepData.kidFriendlyText });
+  const stepTimer = getTimerForStep(stepTimerId);
+
+  const handleStartStepTimer = () => {
+    if (!stepDuration) return;
+    startTimer({
+      label: `Step ${currentStep + 1}: ${parentRecipe.title}`,
+      durationSeconds: stepDuration,
+      recipeId: parentRecipe.id,
+      stepId: stepTimerId,
+    });
+  };
 
   return (
     <SafeAreaView style={styles.container}>
+      <TimerStrip />
       <ScrollView style={styles.content}>
         <View style={styles.header}>
           <View style={styles.headerTop}>
@@ -384,10 +551,10 @@ export default function RecipeViewScreen() {
           <Text style={styles.title}>{parentRecipe.title}</Text>
           <View style={styles.infoRow}>
             <View style={styles.infoBadge}>
-              <Text style={styles.infoText}>{Math.round(parentRecipe.servings * scaleMultiplier)} servings</Text>
+              <Text style={styles.infoText}>{servings} servings</Text>
             </View>
             <View style={styles.infoBadge}>
-              <Text style={styles.infoText}>{parentRecipe.totalTime || '—'}</Text>
+              <Text style={styles.infoText}>{totalMinutes !== undefined ? formatMinutes(totalMinutes) : '—'}</Text>
             </View>
             <View style={[styles.infoBadge, styles.difficultyBadge]}>
               <Text style={styles.infoText}>{parentRecipe.difficulty || 'easy'}</Text>
@@ -397,53 +564,91 @@ export default function RecipeViewScreen() {
           {/* Kid-friendly scaling section */}
           <View style={styles.scaleSection}>
             <Text style={styles.scaleTitle}>🍴 How much do you want to make?</Text>
+            <View style={styles.kidServingsStepper}>
+              <TouchableOpacity
+                style={[styles.kidStepperButton, servings <= 1 && styles.kidStepperButtonDisabled]}
+                onPress={() => setTargetServings(Math.max(1, servings - 1))}
+                disabled={servings <= 1}
+              >
+                <Text style={styles.kidStepperButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.kidStepperValue}>{servings} servings</Text>
+              <TouchableOpacity
+                style={styles.kidStepperButton}
+                onPress={() => setTargetServings(servings + 1)}
+              >
+                <Text style={styles.kidStepperButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
             <View style={styles.scaleButtons}>
-              {[0.5, 1, 2, 3].map((multiplier) => (
-                <TouchableOpacity
-                  key={multiplier}
-                  style={[
-                    styles.kidScaleButton,
-                    scaleMultiplier === multiplier && styles.kidScaleButtonActive
-                  ]}
-                  onPress={() => setScaleMultiplier(multiplier)}
-                >
-                  <Text style={[
-                    styles.kidScaleButtonText,
-                    scaleMultiplier === multiplier && styles.kidScaleButtonTextActive
-                  ]}>
-                    {multiplier === 0.5 ? '½' : `${multiplier}x`}
-                  </Text>
-                  <Text style={[
-                    styles.kidScaleButtonSubtext,
-                    scaleMultiplier === multiplier && styles.kidScaleButtonSubtextActive
-                  ]}>
-                    {multiplier === 0.5 ? 'Half recipe' : multiplier === 1 ? 'Original' : `${multiplier}x bigger!`}
-                  </Text>
-                  <Text style={[
-                    styles.kidScaleButtonServings,
-                    scaleMultiplier === multiplier && styles.kidScaleButtonServingsActive
-                  ]}>
-                    {Math.round(parentRecipe.servings * multiplier)} servings
-                  </Text>
-                </TouchableOpacity>
-              ))}
+              {KID_SCALE_PRESETS.map(preset => {
+                const presetServings = Math.max(1, Math.round(originalServings * preset.multiplier));
+                const isActive = servings === presetServings;
+                return (
+                  <TouchableOpacity
+                    key={preset.multiplier}
+                    style={[
+                      styles.kidScaleButton,
+                      isActive && styles.kidScaleButtonActive
+                    ]}
+                    onPress={() => setTargetServings(presetServings)}
+                  >
+                    <Text style={[
+                      styles.kidScaleButtonText,
+                      isActive && styles.kidScaleButtonTextActive
+                    ]}>
+                      {preset.label}
+                    </Text>
+                    <Text style={[
+                      styles.kidScaleButtonSubtext,
+                      isActive && styles.kidScaleButtonSubtextActive
+                    ]}>
+                      {preset.description}
+                    </Text>
+                    <Text style={[
+                      styles.kidScaleButtonServings,
+                      isActive && styles.kidScaleButtonServingsActive
+                    ]}>
+                      {presetServings} servings
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
             </View>
-            {scaleMultiplier !== 1 && (
+            {scaleFactor !== 1 && (
               <View style={styles.kidScaleIndicator}>
                 <Text style={styles.kidScaleIndicatorText}>
-                  🎉 Making {scaleMultiplier === 0.5 ? 'half' : `${scaleMultiplier}x`} the original recipe!
+                  🎉 Making {servings} servings instead of {originalServings}!
                 </Text>
+                {scalingNotes.length > 0 && (
+                  <Text style={styles.kidScaleNoteText}>
+                    🙋 Ask a grown-up: {scalingNotes.map(note => note.message).join(' ')}
+                  </Text>
+                )}
               </View>
             )}
           </View>
         </View>
 
+        {allergyWarnings.length > 0 && (
+          <View style={styles.allergyBanner}>
+            <Text style={styles.allergyBannerTitle}>⚠️ Allergy Alert</Text>
+            {allergyWarnings.map(allergy => (
+              <Text key={allergy.allergen} style={styles.allergyBannerText}>
+                This recipe may have {allergy.allergen}
+                {allergy.severity === 'moderate' ? '. Ask a grown-up before you start!' : '.'}
+                {allergy.notes ? ` (${allergy.notes})` : ''}
+              </Text>
+            ))}
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>What You Need 📝</Text>
           {ingredients.map((ingredient) => (
             <View key={ingredient.id} style={styles.ingredientItem}>
               <Text style={styles.ingredientText}>
-                {scaleKidIngredient(ingredient, scaleMultiplier)}
+                {formatKidIngredient(ingredient)}
               </Text>
               {ingredient.description ? (
                 <Text style={styles.ingredientNote}>{ingredient.description}</Text>
@@ -454,11 +659,44 @@ export default function RecipeViewScreen() {
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Let's Cook! 👨‍🍳</Text>
+          {currentKid?.permissions?.requiresAdultHelp && (
+            <View style={styles.adultHelpBanner}>
+              <Text style={styles.adultHelpText}>👀 Cook this one with your grown-up nearby!</Text>
+            </View>
+          )}
+          {resumedSession && (
+            <View style={styles.resumeBanner}>
+              <Text style={styles.resumeText}>
+                👋 Welcome back! You stopped at step {currentStep + 1}.
+              </Text>
+              <TouchableOpacity onPress={handleStartOver}>
+                <Text style={styles.startOverText}>Start Over</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {readAloudAvailable && (
+            <TouchableOpacity
+              style={[styles.readAloudToggle, handsFree && styles.readAloudToggleActive]}
+              onPress={toggleHandsFree}
+            >
+              <Text style={[styles.readAloudToggleText, handsFree && styles.readAloudToggleTextActive]}>
+                {handsFree ? '🔊 Reading to you — tap to stop' : '🔈 Read to Me'}
+              </Text>
+            </TouchableOpacity>
+          )}
           <View style={styles.stepContainer}>
             <Text style={styles.stepCounter}>
               Step {currentStep + 1} of {steps.length}
             </Text>
-            <View style={styles.stepCard}>
+            <View style={[styles.stepCard, grownUpCheck && styles.stepCardGrownUp]}>
+              {grownUpCheck && (
+                <View style={styles.grownUpBadge}>
+                  <Text style={styles.grownUpBadgeTitle}>🧑‍🍳 Grown-up Step</Text>
+                  <Text style={styles.grownUpBadgeText}>
+                    This step {grownUpCheck.reason}. Watch while your grown-up does it!
+                  </Text>
+                </View>
+              )}
               <Text style={styles.stepText}>{steps[currentStep].kidFriendlyText}</Text>
               {steps[currentStep].safetyNote ? (
                 <Text style={styles.safetyText}>⚠️ {steps[currentStep].safetyNote}</Text>
@@ -467,6 +705,22 @@ export default function RecipeViewScreen() {
                 <Text style={styles.encouragementText}>{steps[currentStep].encouragement}</Text>
               ) : null}
 
+              {stepDuration ? (
+                stepTimer && stepTimer.status !== 'done' ? (
+                  <View style={[styles.timerButton, styles.timerButtonActive]}>
+                    <Text style={styles.timerButtonText}>
+                      ⏱️ {formatCountdown(getRemainingSeconds(stepTimer))} left
+                    </Text>
+                  </View>
+                ) : (
+                  <TouchableOpacity style={styles.timerButton} onPress={handleStartStepTimer}>
+                    <Text style={styles.timerButtonText}>
+                      ⏱️ Start {formatDurationLabel(stepDuration)} Timer
+                    </Text>
+                  </TouchableOpacity>
+                )
+              ) : null}
+
               <TouchableOpacity
                 style={styles.helpButton}
                 onPress={handleReportUnclearStep}
@@ -483,18 +737,28 @@ export default function RecipeViewScreen() {
 
           <View style={styles.stepNavigation}>
             <TouchableOpacity
-              style={[styles.navButton, currentStep === 0 && styles.navButtonDisabled]}
+              style={[styles.navButton, handsFree && styles.navButtonLarge, currentStep === 0 && styles.navButtonDisabled]}
               onPress={prevStep}
               disabled={currentStep === 0}
             >
-              <Text style={[styles.navButtonText, currentStep === 0 && styles.navButtonTextDisabled]}>
-                ← Previous
+              <Text style={[styles.navButtonText, handsFree && styles.navButtonTextLarge, currentStep === 0 && styles.navButtonTextDisabled]}>
+                ← {handsFree ? 'Back' : 'Previous'}
               </Text>
             </TouchableOpacity>
 
+            {handsFree && (
+              <TouchableOpacity
+                style={[styles.navButton, styles.navButtonLarge, styles.repeatButton]}
+                onPress={() => speakStep(currentStep)}
+              >
+                <Text style={[styles.navButtonText, styles.navButtonTextLarge, styles.repeatButtonText]}>🔁 Again</Text>
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity
               style={[
                 styles.navButton,
+                handsFree && styles.navButtonLarge,
                 styles.nextButton,
                 currentStep === steps.length - 1 && styles.completeButton
               ]}
@@ -504,7 +768,7 @@ export default function RecipeViewScreen() {
               {completingRecipe ? (
                 <ActivityIndicator size="small" color="white" />
               ) : (
-                <Text style={[styles.navButtonText, styles.nextButtonText]}>
+                <Text style={[styles.navButtonText, handsFree && styles.navButtonTextLarge, styles.nextButtonText]}>
                   {currentStep === steps.length - 1 ? (isCompleted ? '✓ Complete!' : '✓ Finish Recipe!') : 'Next →'}
                 </Text>
               )}
@@ -512,6 +776,19 @@ export default function RecipeViewScreen() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>My Cooking Notes ✏️</Text>
+          <TextInput
+            style={styles.notesInput}
+            value={notes}
+            onChangeText={setNotes}
+            onEndEditing={saveNotes}
+            placeholder="What did you learn? What would you change next time?"
+            multiline
+            maxLength={1000}
+          />
+        </View>
+
         <View style={styles.helpSection}>
           <Text style={styles.helpText}>
             🔔 Need help? Call your grown-up anytime!
@@ -525,16 +802,6 @@ export default function RecipeViewScreen() {
         visible={showBadgeNotification}
         onDismiss={handleBadgeDismiss}
       />
-
-      {/* Parent Verification PIN Input */}
-      <PinInput
-        visible={showParentVerification}
-        onClose={handleParentVerificationClose}
-        onSuccess={handleParentVerificationSuccess}
-        title="Parent Verification Required"
-        subtitle="Enter your PIN to verify the recipe was completed"
-        correctPin={parentProfile?.kidModePin || ''}
-      />
     </SafeAreaView>
   );
 }
@@ -658,6 +925,40 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#2563eb',
   },
+  stepCardGrownUp: {
+    backgroundColor: '#fef3c7',
+    borderColor: '#f59e0b',
+  },
+  grownUpBadge: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 12,
+  },
+  grownUpBadgeTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#b45309',
+    textAlign: 'center',
+  },
+  grownUpBadgeText: {
+    fontSize: 14,
+    color: '#92400e',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  adultHelpBanner: {
+    backgroundColor: '#eff6ff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 15,
+  },
+  adultHelpText: {
+    fontSize: 16,
+    color: '#1e40af',
+    textAlign: 'center',
+    fontWeight: '600',
+  },
   stepText: {
     fontSize: 18,
     color: '#1e40af',
@@ -693,6 +994,43 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: '#cbd5e1',
   },
+  // Big enough to hit with an elbow when hands are messy
+  navButtonLarge: {
+    paddingVertical: 28,
+    paddingHorizontal: 8,
+  },
+  navButtonTextLarge: {
+    fontSize: 20,
+  },
+  repeatButton: {
+    backgroundColor: '#fef3c7',
+    borderColor: '#f59e0b',
+  },
+  repeatButtonText: {
+    color: '#92400e',
+  },
+  readAloudToggle: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 2,
+    borderColor: '#cbd5e1',
+    marginBottom: 12,
+  },
+  readAloudToggleActive: {
+    backgroundColor: '#dbeafe',
+    borderColor: '#2563eb',
+  },
+  readAloudToggleText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  readAloudToggleTextActive: {
+    color: '#1e40af',
+  },
   navButtonDisabled: {
     backgroundColor: '#f8fafc',
     borderColor: '#e2e8f0',
@@ -717,6 +1055,72 @@ const styles = StyleSheet.create({
   nextButtonText: {
     color: '#1e40af',
   },
+  timerButton: {
+    backgroundColor: '#dbeafe',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  timerButtonActive: {
+    backgroundColor: '#eff6ff',
+    borderWidth: 2,
+    borderColor: '#3b82f6',
+  },
+  timerButtonText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1e40af',
+  },
+  allergyBanner: {
+    backgroundColor: '#fef3c7',
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#f59e0b',
+    padding: 15,
+    margin: 15,
+  },
+  allergyBannerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#92400e',
+    marginBottom: 6,
+  },
+  allergyBannerText: {
+    fontSize: 16,
+    color: '#92400e',
+    lineHeight: 22,
+  },
+  resumeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#ecfdf5',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 15,
+  },
+  resumeText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#065f46',
+    marginRight: 10,
+  },
+  startOverText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e40af',
+  },
+  notesInput: {
+    backgroundColor: '#f8fafc',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
   helpSection: {
     margin: 15,
     padding: 15,
@@ -795,6 +1199,38 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     gap: 8,
   },
+  kidServingsStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 20,
+    marginBottom: 15,
+  },
+  kidStepperButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#f0f9ff',
+    borderWidth: 2,
+    borderColor: '#2563eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  kidStepperButtonDisabled: {
+    opacity: 0.4,
+  },
+  kidStepperButtonText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2563eb',
+  },
+  kidStepperValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1e40af',
+    minWidth: 120,
+    textAlign: 'center',
+  },
   kidScaleButton: {
     flex: 1,
     backgroundColor: '#f0f9ff',
@@ -864,4 +1300,10 @@ const styles = StyleSheet.create({
     color: '#92400e',
     textAlign: 'center',
   },
+  kidScaleNoteText: {
+    fontSize: 13,
+    color: '#92400e',
+    textAlign: 'center',
+    marginTop: 6,
+  },
 });
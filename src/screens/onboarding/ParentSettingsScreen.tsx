@@ -64,6 +64,7 @@ export default function ParentSettingsScreen({ onComplete }: ParentSettingsScree
         autoSimplify,
         fontSize: 'medium',
         temperatureUnit: 'fahrenheit',
+        measurementSystem: 'us',
         language: 'en',
         showDifficulty,
         enableVoiceInstructions,
@@ -17,16 +17,8 @@ import { httpsCallable } from 'firebase/functions';
 import { functions } from '../../services/firebase';
 import { useAuth } from '../../contexts/AuthContext';
 import { PinSetupModal } from '../../components/PinSetupModal';
-
-const COMMON_ALLERGIES = [
-  'nuts', 'dairy', 'eggs', 'shellfish', 'fish', 'soy', 'wheat', 'sesame'
-];
-
-const SEVERITY_LEVELS = [
-  { value: 'mild', label: 'Mild', color: '#fbbf24' },
-  { value: 'moderate', label: 'Moderate', color: '#f97316' },
-  { value: 'severe', label: 'Severe', color: '#dc2626' }
-];
+import AllergyEditor from '../../components/AllergyEditor';
+import type { KidAllergy } from '../../types';
 
 export default function CreateKidProfileScreen() {
   const navigation = useNavigation();
@@ -39,33 +31,9 @@ export default function CreateKidProfileScreen() {
     age: '',
     readingLevel: 'beginner' as 'beginner' | 'intermediate' | 'advanced',
     experience: 'beginner' as 'beginner' | 'intermediate' | 'advanced',
-    allergies: [] as { allergen: string; severity: 'mild' | 'moderate' | 'severe' }[],
+    allergies: [] as KidAllergy[],
   });
 
-  const toggleAllergy = (allergen: string) => {
-    const exists = profileData.allergies.find(a => a.allergen === allergen);
-    if (exists) {
-      setProfileData(prev => ({
-        ...prev,
-        allergies: prev.allergies.filter(a => a.allergen !== allergen)
-      }));
-    } else {
-      setProfileData(prev => ({
-        ...prev,
-        allergies: [...prev.allergies, { allergen, severity: 'moderate' }]
-      }));
-    }
-  };
-
-  const updateAllergySeverity = (allergen: string, severity: 'mild' | 'moderate' | 'severe') => {
-    setProfileData(prev => ({
-      ...prev,
-      allergies: prev.allergies.map(a =>
-        a.allergen === allergen ? { ...a, severity } : a
-      )
-    }));
-  };
-
   const handleSave = async () => {
     // Validation
     if (!profileData.name.trim()) {
@@ -238,55 +206,13 @@ export default function CreateKidProfileScreen() {
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>🚨 Allergy Safety</Text>
             <Text style={styles.sectionSubtitle}>
-              Select any allergies to automatically flag recipes that contain these ingredients
+              Select any allergies to automatically flag recipes that contain these ingredients. Severe allergies hide those recipes completely.
             </Text>
 
-            {COMMON_ALLERGIES.map((allergen) => {
-              const hasAllergy = profileData.allergies.find(a => a.allergen === allergen);
-
-              return (
-                <View key={allergen} style={styles.allergyContainer}>
-                  <TouchableOpacity
-                    style={[
-                      styles.allergyButton,
-                      hasAllergy && styles.allergyButtonActive
-                    ]}
-                    onPress={() => toggleAllergy(allergen)}
-                  >
-                    <Text style={[
-                      styles.allergyButtonText,
-                      hasAllergy && styles.allergyButtonTextActive
-                    ]}>
-                      {allergen.charAt(0).toUpperCase() + allergen.slice(1)}
-                    </Text>
-                    {hasAllergy && <Text style={styles.checkmark}>✓</Text>}
-                  </TouchableOpacity>
-
-                  {hasAllergy && (
-                    <View style={styles.severityContainer}>
-                      {SEVERITY_LEVELS.map((severity) => (
-                        <TouchableOpacity
-                          key={severity.value}
-                          style={[
-                            styles.severityButton,
-                            { borderColor: severity.color },
-                            hasAllergy.severity === severity.value && { backgroundColor: severity.color }
-                          ]}
-                          onPress={() => updateAllergySeverity(allergen, severity.value as any)}
-                        >
-                          <Text style={[
-                            styles.severityButtonText,
-                            hasAllergy.severity === severity.value && styles.severityButtonTextActive
-                          ]}>
-                            {severity.label}
-                          </Text>
-                        </TouchableOpacity>
-                      ))}
-                    </View>
-                  )}
-                </View>
-              );
-            })}
+            <AllergyEditor
+              allergies={profileData.allergies}
+              onChange={(allergies) => setProfileData(prev => ({ ...prev, allergies }))}
+            />
           </View>
 
           <View style={styles.buttonContainer}>
@@ -398,59 +324,6 @@ const styles = StyleSheet.create({
   levelButtonTextActive: {
     color: 'white',
   },
-  allergyContainer: {
-    marginBottom: 12,
-  },
-  allergyButton: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    backgroundColor: 'white',
-    padding: 16,
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#e5e7eb',
-  },
-  allergyButtonActive: {
-    backgroundColor: '#fef2f2',
-    borderColor: '#fecaca',
-  },
-  allergyButtonText: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: '#6b7280',
-  },
-  allergyButtonTextActive: {
-    color: '#dc2626',
-  },
-  checkmark: {
-    fontSize: 18,
-    color: '#dc2626',
-    fontWeight: 'bold',
-  },
-  severityContainer: {
-    flexDirection: 'row',
-    marginTop: 8,
-    gap: 8,
-    paddingLeft: 16,
-  },
-  severityButton: {
-    flex: 1,
-    paddingVertical: 8,
-    paddingHorizontal: 12,
-    borderRadius: 6,
-    borderWidth: 1,
-    alignItems: 'center',
-    backgroundColor: 'white',
-  },
-  severityButtonText: {
-    fontSize: 12,
-    fontWeight: '600',
-    color: '#6b7280',
-  },
-  severityButtonTextActive: {
-    color: 'white',
-  },
   buttonContainer: {
     flexDirection: 'row',
     gap: 15,
@@ -0,0 +1,710 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { useAuth } from '../../contexts/AuthContext';
+import { recipeService } from '../../services/recipes';
+import {
+  familyMealService,
+  FamilyMealConflictError,
+  getWeekStart,
+} from '../../services/familyMeals';
+import type { FamilyMealInput, SaveMealOptions } from '../../services/familyMeals';
+import type { FamilyMeal, Recipe } from '../../types';
+
+type MealType = NonNullable<FamilyMeal['mealType']>;
+
+const MEAL_TYPES: Array<{ type: MealType; label: string; emoji: string; hour: number }> = [
+  { type: 'breakfast', label: 'Breakfast', emoji: '🥞', hour: 8 },
+  { type: 'lunch', label: 'Lunch', emoji: '🥪', hour: 12 },
+  { type: 'snack', label: 'Snack', emoji: '🍎', hour: 15 },
+  { type: 'dinner', label: 'Dinner', emoji: '🍝', hour: 18 },
+];
+
+const STATUS_LABELS: Record<FamilyMeal['status'], string> = {
+  planned: 'Planned',
+  in_progress: 'Cooking',
+  completed: 'Done',
+};
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface MealForm {
+  name: string;
+  dayIndex: number;
+  mealType: MealType;
+  recipeIds: string[];
+  assignedKids: string[];
+  notes: string;
+}
+
+const emptyForm = (dayIndex: number): MealForm => ({
+  name: '',
+  dayIndex,
+  mealType: 'dinner',
+  recipeIds: [],
+  assignedKids: [],
+  notes: '',
+});
+
+const toDate = (value: FamilyMeal['scheduledFor']): Date =>
+  value instanceof Date ? value : value.toDate();
+
+export default function FamilyMealsScreen() {
+  const navigation = useNavigation();
+  const { user, parentProfile, kidProfiles } = useAuth();
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [meals, setMeals] = useState<FamilyMeal[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showMealModal, setShowMealModal] = useState(false);
+  const [editingMeal, setEditingMeal] = useState<FamilyMeal | null>(null);
+  const [form, setForm] = useState<MealForm>(emptyForm(0));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadWeek();
+  }, [weekStart, parentProfile?.id]);
+
+  const loadWeek = async () => {
+    if (!user || !parentProfile) return;
+
+    try {
+      setLoading(true);
+      const [weekMeals, userRecipes] = await Promise.all([
+        familyMealService.getMealsForWeek(parentProfile.id, weekStart),
+        recipeService.getUserRecipes(user.uid),
+      ]);
+      setMeals(weekMeals);
+      setRecipes(userRecipes);
+    } catch (error) {
+      console.error('Error loading meal plan:', error);
+      Alert.alert('Error', 'Failed to load your meal plan');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const shiftWeek = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(next.getDate() + weeks * 7);
+    setWeekStart(next);
+  };
+
+  const getDayDate = (dayIndex: number) => {
+    const date = new Date(weekStart);
+    date.setDate(date.getDate() + dayIndex);
+    return date;
+  };
+
+  const openNewMeal = (dayIndex: number) => {
+    setEditingMeal(null);
+    setForm(emptyForm(dayIndex));
+    setShowMealModal(true);
+  };
+
+  const openMeal = (meal: FamilyMeal) => {
+    setEditingMeal(meal);
+    setForm({
+      name: meal.name,
+      dayIndex: toDate(meal.scheduledFor).getDay(),
+      mealType: meal.mealType || 'dinner',
+      recipeIds: meal.recipeIds,
+      assignedKids: meal.assignedKids,
+      notes: meal.notes || '',
+    });
+    setShowMealModal(true);
+  };
+
+  const toggleInList = (list: string[], id: string) =>
+    list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+  const saveMeal = async (options: SaveMealOptions = {}) => {
+    if (!parentProfile) return;
+
+    const slot = MEAL_TYPES.find(mealType => mealType.type === form.mealType) || MEAL_TYPES[3];
+    const scheduledFor = getDayDate(form.dayIndex);
+    scheduledFor.setHours(slot.hour, 0, 0, 0);
+
+    const firstRecipe = recipes.find(recipe => recipe.id === form.recipeIds[0]);
+    const mealInput: FamilyMealInput = {
+      name: form.name.trim() || firstRecipe?.title || slot.label,
+      scheduledFor,
+      mealType: form.mealType,
+      recipeIds: form.recipeIds,
+      assignedKids: form.assignedKids,
+      status: editingMeal?.status || 'planned',
+      notes: form.notes.trim(),
+    };
+
+    try {
+      setSaving(true);
+      if (editingMeal) {
+        await familyMealService.updateMeal(editingMeal.id, mealInput, kidProfiles, options);
+      } else {
+        await familyMealService.createMeal(parentProfile.id, mealInput, kidProfiles, options);
+      }
+      setShowMealModal(false);
+      await loadWeek();
+    } catch (error) {
+      if (error instanceof FamilyMealConflictError) {
+        const hasBlockingAllergy = error.conflicts.some(
+          conflict => conflict.type === 'allergy' && conflict.severity !== 'mild'
+        );
+        const hasMildAllergy = error.conflicts.some(
+          conflict => conflict.type === 'allergy' && conflict.severity === 'mild'
+        );
+        const details = error.conflicts.map(conflict => `• ${conflict.message}`).join('\n');
+
+        if (hasBlockingAllergy) {
+          Alert.alert(
+            'Allergy Warning',
+            `${details}\n\nChoose a different recipe or helper before saving.`
+          );
+        } else if (hasMildAllergy) {
+          Alert.alert('Mild Allergy', details, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+              text: 'Save Anyway',
+              onPress: () => saveMeal({ ...options, allowPermissionConflicts: true, allowMildAllergyConflicts: true }),
+            },
+          ]);
+        } else {
+          Alert.alert('Needs Grown-Up Help', details, [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'An Adult Will Help', onPress: () => saveMeal({ allowPermissionConflicts: true }) },
+          ]);
+        }
+      } else {
+        Alert.alert('Error', 'Failed to save meal');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateStatus = async (status: FamilyMeal['status']) => {
+    if (!editingMeal) return;
+
+    try {
+      await familyMealService.updateMealStatus(editingMeal.id, status);
+      setShowMealModal(false);
+      await loadWeek();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to update meal');
+    }
+  };
+
+  const deleteMeal = () => {
+    if (!editingMeal) return;
+
+    Alert.alert('Remove Meal', `Remove "${editingMeal.name}" from the plan?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await familyMealService.deleteMeal(editingMeal.id);
+            setShowMealModal(false);
+            await loadWeek();
+          } catch (error) {
+            Alert.alert('Error', 'Failed to remove meal');
+          }
+        },
+      },
+    ]);
+  };
+
+  const weekEnd = getDayDate(6);
+  const weekLabel = `${weekStart.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} – ${weekEnd.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+  const todayKey = new Date().toDateString();
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.weekHeader}>
+        <TouchableOpacity style={styles.weekNavButton} onPress={() => shiftWeek(-1)}>
+          <Text style={styles.weekNavText}>‹</Text>
+        </TouchableOpacity>
+        <View style={styles.weekTitleContainer}>
+          <Text style={styles.weekTitle}>Meal Plan</Text>
+          <Text style={styles.weekSubtitle}>{weekLabel}</Text>
+        </View>
+        <TouchableOpacity style={styles.weekNavButton} onPress={() => shiftWeek(1)}>
+          <Text style={styles.weekNavText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={styles.shoppingListButton}
+        onPress={() => navigation.navigate('ShoppingList' as never)}
+      >
+        <Text style={styles.shoppingListButtonText}>🛒 Shopping List</Text>
+      </TouchableOpacity>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {DAY_NAMES.map((dayName, dayIndex) => {
+            const dayDate = getDayDate(dayIndex);
+            const dayMeals = meals.filter(meal => toDate(meal.scheduledFor).toDateString() === dayDate.toDateString());
+            const isToday = dayDate.toDateString() === todayKey;
+
+            return (
+              <View key={dayName} style={[styles.dayCard, isToday && styles.todayCard]}>
+                <View style={styles.dayHeader}>
+                  <Text style={styles.dayName}>
+                    {dayName} {dayDate.getDate()}
+                    {isToday ? ' · Today' : ''}
+                  </Text>
+                  <TouchableOpacity onPress={() => openNewMeal(dayIndex)}>
+                    <Text style={styles.addMealText}>+ Add</Text>
+                  </TouchableOpacity>
+                </View>
+
+                {dayMeals.length === 0 ? (
+                  <Text style={styles.noMealsText}>Nothing planned</Text>
+                ) : (
+                  dayMeals.map(meal => {
+                    const slot = MEAL_TYPES.find(mealType => mealType.type === meal.mealType);
+                    const helpers = kidProfiles.filter(kid => meal.assignedKids.includes(kid.id));
+                    return (
+                      <TouchableOpacity key={meal.id} style={styles.mealItem} onPress={() => openMeal(meal)}>
+                        <Text style={styles.mealEmoji}>{slot?.emoji || '🍽️'}</Text>
+                        <View style={styles.mealInfo}>
+                          <Text style={styles.mealName}>{meal.name}</Text>
+                          <Text style={styles.mealMeta}>
+                            {meal.recipeIds.length} recipe{meal.recipeIds.length === 1 ? '' : 's'}
+                            {helpers.length > 0 ? ` · ${helpers.map(kid => `${kid.avatarEmoji || '👶'} ${kid.name}`).join(', ')}` : ''}
+                          </Text>
+                        </View>
+                        <View style={[styles.statusBadge, meal.status === 'completed' && styles.statusBadgeDone]}>
+                          <Text style={styles.statusText}>{STATUS_LABELS[meal.status]}</Text>
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <Modal
+        visible={showMealModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowMealModal(false)}>
+              <Text style={styles.cancelButton}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>
+              {editingMeal ? 'Edit Meal' : `${DAY_NAMES[form.dayIndex]} Meal`}
+            </Text>
+            <TouchableOpacity onPress={() => saveMeal()} disabled={saving}>
+              <Text style={[styles.saveButton, saving && styles.disabledButton]}>
+                {saving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={form.name}
+                onChangeText={(text) => setForm({ ...form, name: text })}
+                placeholder="Taco Tuesday"
+              />
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Day</Text>
+              <View style={styles.chipRow}>
+                {DAY_NAMES.map((dayName, dayIndex) => (
+                  <TouchableOpacity
+                    key={dayName}
+                    style={[styles.chip, form.dayIndex === dayIndex && styles.chipSelected]}
+                    onPress={() => setForm({ ...form, dayIndex })}
+                  >
+                    <Text style={[styles.chipText, form.dayIndex === dayIndex && styles.chipTextSelected]}>
+                      {dayName}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Meal</Text>
+              <View style={styles.chipRow}>
+                {MEAL_TYPES.map(mealType => (
+                  <TouchableOpacity
+                    key={mealType.type}
+                    style={[styles.chip, form.mealType === mealType.type && styles.chipSelected]}
+                    onPress={() => setForm({ ...form, mealType: mealType.type })}
+                  >
+                    <Text style={[styles.chipText, form.mealType === mealType.type && styles.chipTextSelected]}>
+                      {mealType.emoji} {mealType.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Kid Helpers</Text>
+              {kidProfiles.length === 0 ? (
+                <Text style={styles.helperText}>Add a kid profile to assign helpers.</Text>
+              ) : (
+                <View style={styles.chipRow}>
+                  {kidProfiles.map(kid => (
+                    <TouchableOpacity
+                      key={kid.id}
+                      style={[styles.chip, form.assignedKids.includes(kid.id) && styles.chipSelected]}
+                      onPress={() => setForm({ ...form, assignedKids: toggleInList(form.assignedKids, kid.id) })}
+                    >
+                      <Text style={[styles.chipText, form.assignedKids.includes(kid.id) && styles.chipTextSelected]}>
+                        {kid.avatarEmoji || '👶'} {kid.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Recipes</Text>
+              <Text style={styles.helperText}>
+                Helpers' allergies and kitchen permissions are checked when you save.
+              </Text>
+              {recipes.map(recipe => {
+                const selected = form.recipeIds.includes(recipe.id);
+                return (
+                  <TouchableOpacity
+                    key={recipe.id}
+                    style={[styles.recipeOption, selected && styles.recipeOptionSelected]}
+                    onPress={() => setForm({ ...form, recipeIds: toggleInList(form.recipeIds, recipe.id) })}
+                  >
+                    <Text style={styles.recipeOptionCheck}>{selected ? '☑️' : '⬜'}</Text>
+                    <Text style={styles.recipeOptionTitle} numberOfLines={1}>{recipe.title}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Notes</Text>
+              <TextInput
+                style={[styles.input, styles.notesInput]}
+                value={form.notes}
+                onChangeText={(text) => setForm({ ...form, notes: text })}
+                placeholder="Anything to remember?"
+                multiline
+              />
+            </View>
+
+            {editingMeal && (
+              <View style={styles.formGroup}>
+                <Text style={styles.label}>Status</Text>
+                <View style={styles.chipRow}>
+                  {(Object.keys(STATUS_LABELS) as FamilyMeal['status'][]).map(status => (
+                    <TouchableOpacity
+                      key={status}
+                      style={[styles.chip, editingMeal.status === status && styles.chipSelected]}
+                      onPress={() => updateStatus(status)}
+                    >
+                      <Text style={[styles.chipText, editingMeal.status === status && styles.chipTextSelected]}>
+                        {STATUS_LABELS[status]}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <TouchableOpacity style={styles.deleteButton} onPress={deleteMeal}>
+                  <Text style={styles.deleteButtonText}>Remove from Plan</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  shoppingListButton: {
+    backgroundColor: '#eff6ff',
+    paddingVertical: 10,
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+  },
+  shoppingListButtonText: {
+    color: '#2563eb',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  weekNavButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#eff6ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  weekNavText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2563eb',
+  },
+  weekTitleContainer: {
+    alignItems: 'center',
+  },
+  weekTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  weekSubtitle: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  dayCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  todayCard: {
+    borderColor: '#2563eb',
+    borderWidth: 2,
+  },
+  dayHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dayName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  addMealText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  noMealsText: {
+    fontSize: 14,
+    color: '#9ca3af',
+  },
+  mealItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  mealEmoji: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  mealInfo: {
+    flex: 1,
+  },
+  mealName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  mealMeta: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  statusBadge: {
+    backgroundColor: '#eff6ff',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusBadgeDone: {
+    backgroundColor: '#dcfce7',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  // Modal styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 20,
+    paddingTop: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e7eb',
+    backgroundColor: 'white',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  cancelButton: {
+    fontSize: 16,
+    color: '#6b7280',
+  },
+  saveButton: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563eb',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  formGroup: {
+    marginBottom: 24,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  helperText: {
+    fontSize: 13,
+    color: '#6b7280',
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+  },
+  chipSelected: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  chipTextSelected: {
+    color: 'white',
+  },
+  recipeOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  recipeOptionSelected: {
+    borderColor: '#2563eb',
+    backgroundColor: '#eff6ff',
+  },
+  recipeOptionCheck: {
+    fontSize: 18,
+    marginRight: 10,
+  },
+  recipeOptionTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: '#1f2937',
+  },
+  deleteButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
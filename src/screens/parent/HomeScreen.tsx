@@ -7,28 +7,49 @@ import {
   FlatList,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { recipeService } from '../../services/recipes';
+import { recipeFavoritesService } from '../../services/recipeFavorites';
+import { recipeSharingService } from '../../services/recipeSharing';
+import { cookingSessionService } from '../../services/cookingSessions';
 import { useAuth } from '../../contexts/AuthContext';
 import { useImport } from '../../contexts/ImportContext';
 import { SkeletonRecipeList } from '../../components/SkeletonLoader';
 import { Toast } from '../../components/Toast';
 import { importProgressService } from '../../services/importProgressService';
 import { SearchBar } from '../../components/SearchBar';
-import { searchRecipes, filterRecipes, SearchFilters } from '../../utils/searchUtils';
+import {
+  searchRecipes,
+  filterRecipes,
+  combineFilters,
+  FilterExpression,
+  SearchFilterContext,
+  SearchMode,
+} from '../../utils/searchUtils';
+import { getKidAllergies } from '../../utils/kidRecipeChecks';
+import { searchByPantry, PantryMatch } from '../../utils/pantrySearch';
+import { usePantry } from '../../hooks/usePantry';
 import FilterChips, { FilterOption } from '../../components/FilterChips';
-import type { Recipe } from '../../types';
+import PantryMatchSummary from '../../components/PantryMatchSummary';
+import FilterPresetModal from '../../components/FilterPresetModal';
+import SyncStatusIndicator from '../../components/SyncStatusIndicator';
+import type { Recipe, FilterPreset } from '../../types';
 
 export default function ParentHomeScreen() {
   const navigation = useNavigation();
-  const { user, kidProfiles, setDeviceMode } = useAuth();
+  const { user, kidProfiles, setDeviceMode, parentProfile, updateParentProfile } = useAuth();
+  const { data: pantryItems } = usePantry(parentProfile?.id);
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [filteredRecipes, setFilteredRecipes] = useState<Recipe[]>([]);
+  const [pantryMatches, setPantryMatches] = useState<Map<string, PantryMatch>>(new Map());
   const [searchQuery, setSearchQuery] = useState('');
   const [activeFilters, setActiveFilters] = useState<string[]>([]);
+  const [filterContext, setFilterContext] = useState<SearchFilterContext>({});
+  const [showPresetModal, setShowPresetModal] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [toast, setToast] = useState<{ visible: boolean; message: string; type?: 'success' | 'info'; actionText?: string; onAction?: () => void }>({
@@ -50,6 +71,13 @@ export default function ParentHomeScreen() {
     }, [user?.uid])
   );
 
+  // Favorites and cooking history change on other screens, so refresh them on focus too
+  useFocusEffect(
+    React.useCallback(() => {
+      loadFilterContext();
+    }, [user?.uid, parentProfile?.id, kidProfiles])
+  );
+
   // Listen for import completions globally
   useEffect(() => {
     const unsubscribe = importProgressService.subscribeGlobal({
@@ -86,6 +114,8 @@ export default function ParentHomeScreen() {
     return unsubscribe;
   }, [navigation]);
 
+  const searchMode: SearchMode = activeFilters.includes('pantry') ? 'pantry' : 'recipes';
+
   // Handle search and filter combination
   useEffect(() => {
     let filtered = recipes;
@@ -96,36 +126,164 @@ export default function ParentHomeScreen() {
     }
 
     // Apply active filters
-    if (activeFilters.length > 0) {
-      const searchFilters: SearchFilters = {};
-
-      activeFilters.forEach(filterId => {
-        const filterOption = filterOptions.find(opt => opt.id === filterId);
-        if (filterOption && filterOption.value) {
-          Object.assign(searchFilters, filterOption.value);
-        }
-      });
+    const activeValues = getActiveFilterValues();
+    if (activeValues.length > 0) {
+      filtered = filterRecipes(filtered, combineFilters(activeValues), filterContext);
+    }
 
-      filtered = filterRecipes(filtered, searchFilters);
+    // Pantry mode re-ranks whatever is left by what's already in the cupboard
+    if (searchMode === 'pantry') {
+      const matches = searchByPantry(filtered, pantryItems || []);
+      setPantryMatches(new Map(matches.map(match => [match.recipe.id, match])));
+      filtered = matches.map(match => match.recipe);
     }
 
     setFilteredRecipes(filtered);
-  }, [searchQuery, recipes, activeFilters]);
+  }, [searchQuery, recipes, activeFilters, pantryItems, filterContext, parentProfile?.settings?.filterPresets]);
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
   };
 
+  const filterPresets = parentProfile?.settings?.filterPresets || [];
+
+  // One "free of" chip per allergen any of the kids has
+  const familyAllergens = Array.from(
+    new Set(kidProfiles.flatMap(kid => getKidAllergies(kid).map(allergy => allergy.allergen.toLowerCase())))
+  );
+
   // Define filter options for parent mode
   const filterOptions: FilterOption[] = [
+    { id: 'pantry', label: 'What Can We Make?', emoji: '🧺', mode: 'pantry' },
+    ...filterPresets.map(preset => ({
+      id: `preset:${preset.id}`,
+      label: preset.name,
+      emoji: preset.emoji || '⭐',
+      value: preset.filters,
+      isPreset: true,
+    })),
+    { id: 'favorites', label: 'Favorites', emoji: '❤️', value: { favoritesOnly: true } },
     { id: 'quick', label: 'Quick (< 30min)', emoji: '⏰', value: { maxCookTime: 30 } },
     { id: 'under_hour', label: 'Under 1 Hour', emoji: '⏱️', value: { maxCookTime: 60 } },
     { id: 'breakfast', label: 'Breakfast', emoji: '🌅', value: { mealType: 'breakfast' } },
     { id: 'dessert', label: 'Desserts', emoji: '🍰', value: { mealType: 'dessert' } },
     { id: 'snack', label: 'Snacks', emoji: '🥨', value: { mealType: 'snack' } },
     { id: 'easy', label: 'Easy', emoji: '👍', value: { difficulty: 'easy' } },
+    { id: 'top_rated', label: '4★ & Up', emoji: '⭐', value: { minRating: 4 } },
+    { id: 'never_cooked', label: 'Never Cooked', emoji: '🆕', value: { neverCooked: true } },
+    { id: 'no_oven', label: 'No Oven', emoji: '🚫', value: { forbiddenEquipment: ['oven'] } },
+    { id: 'no_cook', label: 'No-Cook', emoji: '🥗', value: { categories: ['no-cook'] } },
+    { id: 'one_pot', label: 'One-Pot', emoji: '🍲', value: { categories: ['one-pot'] } },
+    ...familyAllergens.map(allergen => ({
+      id: `allergen:${allergen}`,
+      label: `No ${allergen}`,
+      emoji: '🛡️',
+      value: { freeOfAllergens: [allergen] },
+    })),
+    ...kidProfiles.map(kid => ({
+      id: `kid:${kid.id}`,
+      label: `Shared with ${kid.name}`,
+      emoji: kid.avatarEmoji || '👶',
+      value: { sharedWithKidId: kid.id },
+    })),
   ];
 
+  const getActiveFilterValues = (): FilterExpression[] =>
+    activeFilters
+      .map(filterId => filterOptions.find(option => option.id === filterId)?.value)
+      .filter((value): value is FilterExpression => value !== undefined);
+
+  // Favorites, sharing and cooking history aren't on the recipe documents
+  const loadFilterContext = async () => {
+    if (!user?.uid || !parentProfile) return;
+
+    try {
+      const [favoriteIds, shares, sessionLists] = await Promise.all([
+        recipeFavoritesService.getFavoriteRecipes(parentProfile.id),
+        recipeSharingService.getSharedRecipesByParent(user.uid),
+        Promise.all(kidProfiles.map(kid => cookingSessionService.getSessionsForKid(kid.id))),
+      ]);
+
+      const sharedRecipeIdsByKid: Record<string, Set<string>> = {};
+      shares.forEach(share => {
+        (sharedRecipeIdsByKid[share.kidId] ||= new Set()).add(share.parentRecipeId);
+      });
+
+      setFilterContext({
+        favoriteRecipeIds: new Set(favoriteIds),
+        sharedRecipeIdsByKid,
+        cookedRecipeIds: new Set(
+          sessionLists.flat().filter(session => session.completedAt).map(session => session.recipeId)
+        ),
+      });
+    } catch (error) {
+      console.error('Error loading recipe filter data:', error);
+    }
+  };
+
+  const describeActiveFilters = (): string =>
+    activeFilters
+      .map(filterId => filterOptions.find(option => option.id === filterId)?.label)
+      .filter(Boolean)
+      .join(' · ');
+
+  const handleSavePreset = async (name: string) => {
+    if (!parentProfile) return;
+
+    const activeValues = getActiveFilterValues();
+    if (activeValues.length === 0) {
+      setShowPresetModal(false);
+      return;
+    }
+
+    const preset: FilterPreset = {
+      id: `${Date.now()}`,
+      name,
+      filters: activeValues.length === 1 ? activeValues[0] : combineFilters(activeValues),
+    };
+
+    try {
+      await updateParentProfile({
+        settings: { ...parentProfile.settings, filterPresets: [...filterPresets, preset] },
+      });
+      setShowPresetModal(false);
+      setActiveFilters(prev => [
+        ...prev.filter(filterId => !filterOptions.find(option => option.id === filterId)?.value),
+        `preset:${preset.id}`,
+      ]);
+    } catch (error) {
+      console.error('Error saving filter preset:', error);
+      Alert.alert('Error', 'Failed to save these filters. Please try again.');
+    }
+  };
+
+  const handleFilterLongPress = (filterId: string) => {
+    const preset = filterPresets.find(p => `preset:${p.id}` === filterId);
+    if (!preset || !parentProfile) return;
+
+    Alert.alert('Delete Saved Filters', `Delete "${preset.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await updateParentProfile({
+              settings: {
+                ...parentProfile.settings,
+                filterPresets: filterPresets.filter(p => p.id !== preset.id),
+              },
+            });
+            setActiveFilters(prev => prev.filter(id => id !== filterId));
+          } catch (error) {
+            console.error('Error deleting filter preset:', error);
+            Alert.alert('Error', 'Failed to delete these filters. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
   const handleFilterPress = (filterId: string) => {
     setActiveFilters(prev =>
       prev.includes(filterId)
@@ -181,6 +339,7 @@ export default function ParentHomeScreen() {
 
   const renderRecipe = ({ item }: { item: Recipe }) => {
     const hasImage = item.image && !item.image.includes('🍽️') && !item.image.includes('🥘') && item.image.startsWith('http');
+    const pantryMatch = searchMode === 'pantry' ? pantryMatches.get(item.id) : undefined;
 
     return (
       <TouchableOpacity style={styles.recipeCard} onPress={() => handleRecipePress(item)}>
@@ -206,6 +365,7 @@ export default function ParentHomeScreen() {
                   </Text>
                 )}
               </View>
+              {pantryMatch && <PantryMatchSummary match={pantryMatch} onImage />}
             </View>
           </View>
         ) : (
@@ -222,6 +382,7 @@ export default function ParentHomeScreen() {
                 </Text>
               )}
             </View>
+            {pantryMatch && <PantryMatchSummary match={pantryMatch} />}
           </View>
         )}
       </TouchableOpacity>
@@ -249,6 +410,7 @@ export default function ParentHomeScreen() {
           {!loading && !refreshing && !searchQuery && (
             <Text style={styles.pullToRefreshHint}>Pull down to refresh</Text>
           )}
+          <SyncStatusIndicator />
         </View>
         <View style={styles.headerButtons}>
           <TouchableOpacity
@@ -257,6 +419,18 @@ export default function ParentHomeScreen() {
           >
             <Text style={styles.favoritesButtonText}>❤️ Favorites</Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.mealPlanButton}
+            onPress={() => navigation.navigate('FamilyMeals' as never)}
+          >
+            <Text style={styles.mealPlanButtonText}>📅 Meals</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.pantryButton}
+            onPress={() => navigation.navigate('Pantry' as never)}
+          >
+            <Text style={styles.pantryButtonText}>🧺 Pantry</Text>
+          </TouchableOpacity>
           {kidProfiles.length > 0 && (
             <TouchableOpacity
               style={styles.manageRecipesButton}
@@ -280,15 +454,20 @@ export default function ParentHomeScreen() {
         <View>
           <View style={styles.searchContainer}>
             <SearchBar
-              placeholder="Search recipes, cuisine, ingredients..."
+              placeholder={searchMode === 'pantry' ? 'Narrow down what we can make...' : 'Search recipes, cuisine, ingredients...'}
               value={searchQuery}
               onChangeText={handleSearch}
+              mode={searchMode}
             />
           </View>
           <FilterChips
             filters={filterOptions}
             activeFilters={activeFilters}
             onFilterPress={handleFilterPress}
+            onFilterLongPress={handleFilterLongPress}
+            onSavePreset={
+              getActiveFilterValues().length > 0 ? () => setShowPresetModal(true) : undefined
+            }
             kidMode={false}
           />
         </View>
@@ -304,6 +483,25 @@ export default function ParentHomeScreen() {
             Tap the Import tab to add your first recipe from any website
           </Text>
         </View>
+      ) : searchMode === 'pantry' && (pantryItems || []).length === 0 ? (
+        <View style={styles.emptySearchState}>
+          <Text style={styles.emptySearchEmoji}>🧺</Text>
+          <Text style={styles.emptySearchTitle}>Your pantry is empty</Text>
+          <Text style={styles.emptySearchText}>
+            Add what's in your cupboards and fridge to see what you can make
+          </Text>
+          <TouchableOpacity style={styles.emptyActionButton} onPress={() => navigation.navigate('Pantry' as never)}>
+            <Text style={styles.emptyActionButtonText}>Fill the Pantry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : filteredRecipes.length === 0 && searchMode === 'pantry' ? (
+        <View style={styles.emptySearchState}>
+          <Text style={styles.emptySearchEmoji}>🧺</Text>
+          <Text style={styles.emptySearchTitle}>Nothing to make yet</Text>
+          <Text style={styles.emptySearchText}>
+            None of these recipes use what's in your pantry
+          </Text>
+        </View>
       ) : filteredRecipes.length === 0 && searchQuery ? (
         <View style={styles.emptySearchState}>
           <Text style={styles.emptySearchEmoji}>🔍</Text>
@@ -331,6 +529,13 @@ export default function ParentHomeScreen() {
           }
         />
       )}
+
+      <FilterPresetModal
+        visible={showPresetModal}
+        description={describeActiveFilters()}
+        onClose={() => setShowPresetModal(false)}
+        onSave={handleSavePreset}
+      />
     </SafeAreaView>
   );
 }
@@ -389,6 +594,44 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  mealPlanButton: {
+    backgroundColor: '#f59e0b',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  mealPlanButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  pantryButton: {
+    backgroundColor: '#059669',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 3,
+    elevation: 3,
+  },
+  pantryButtonText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   searchContainer: {
     paddingHorizontal: 20,
     paddingBottom: 10,
@@ -564,4 +807,16 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 20,
   },
+  emptyActionButton: {
+    backgroundColor: '#059669',
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  emptyActionButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
@@ -11,12 +11,15 @@ import {
   Platform,
   TouchableWithoutFeedback,
   Keyboard,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation, useRoute } from '@react-navigation/native';
+import { recipeImportService, ImportStatus } from '../../services/recipeImport';
 import type { ImportError } from '../../services/recipeImport';
+import { importProgressService } from '../../services/importProgressService';
 import { useAuth } from '../../contexts/AuthContext';
-import { useImport } from '../../contexts/ImportContext';
+import { useImport, ImportJob } from '../../contexts/ImportContext';
 import { Toast } from '../../components/Toast';
 
 type ImportRecipeParams = {
@@ -32,7 +35,12 @@ export default function ImportRecipeScreen() {
   const [importError, setImportError] = useState<ImportError | null>(null);
   const [toast, setToast] = useState<{ visible: boolean; message: string; type?: 'success' | 'error' }>({ visible: false, message: '' });
   const { user } = useAuth();
-  const { importRecipe, getImportStatus } = useImport();
+  const { importRecipe, importRecipes, activeImports, retryImport, skipImport, clearCompletedImports } = useImport();
+  const urlCount = recipeImportService.extractUrls(url).length;
+  const isBatch = urlCount > 1;
+  const finishedCount = activeImports.filter(job =>
+    job.status === ImportStatus.COMPLETE || job.status === ImportStatus.ERROR || job.status === ImportStatus.SKIPPED
+  ).length;
 
   // Handle deep link URL import
   useEffect(() => {
@@ -110,23 +118,102 @@ export default function ImportRecipeScreen() {
     }
   };
 
+  // Several links (or a bookmarks export) go into the queue and stay on this screen
+  const handleBatchImport = async () => {
+    if (!user?.uid) {
+      setImportError({
+        code: 'UNAUTHENTICATED',
+        message: 'You must be logged in to import recipes',
+        canRetry: false
+      });
+      return;
+    }
+
+    setLoading(true);
+    setImportError(null);
+
+    try {
+      const jobIds = await importRecipes(url);
+      setUrl('');
+      setToast({
+        visible: true,
+        message: `📥 ${jobIds.length} recipes added to the import queue`,
+        type: 'success'
+      });
+    } catch (error: any) {
+      console.error('Failed to queue imports:', error);
+      setImportError({
+        code: 'IMPORT_FAILED',
+        message: error?.message || 'Failed to start import',
+        canRetry: true
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleImport = async () => {
-    await handleImportWithUrl(url);
+    if (isBatch) {
+      await handleBatchImport();
+    } else {
+      await handleImportWithUrl(url);
+    }
   };
 
 
   const handleRetry = () => {
     setImportError(null);
     if (url.trim()) {
-      handleImportWithUrl(url);
+      handleImport();
     }
   };
 
+  const renderQueueItem = (job: ImportJob) => {
+    const canRetry = job.status === ImportStatus.ERROR || job.status === ImportStatus.SKIPPED;
+    const canSkip = job.status === ImportStatus.QUEUED || job.status === ImportStatus.ERROR;
+
+    return (
+      <View key={job.id} style={styles.queueItem}>
+        <View style={styles.queueItemInfo}>
+          <Text style={styles.queueItemTitle} numberOfLines={1}>
+            {job.recipeTitle || job.url}
+          </Text>
+          <Text
+            style={[
+              styles.queueItemStatus,
+              job.status === ImportStatus.COMPLETE && styles.queueItemStatusComplete,
+              job.status === ImportStatus.ERROR && styles.queueItemStatusError,
+            ]}
+            numberOfLines={2}
+          >
+            {job.status === ImportStatus.ERROR && job.error
+              ? job.error.message
+              : job.progress || importProgressService.getStatusMessage(job.status)}
+          </Text>
+        </View>
+        {canRetry && (
+          <TouchableOpacity style={styles.queueAction} onPress={() => retryImport(job.id)}>
+            <Text style={styles.queueActionText}>Retry</Text>
+          </TouchableOpacity>
+        )}
+        {canSkip && (
+          <TouchableOpacity style={styles.queueAction} onPress={() => skipImport(job.id)}>
+            <Text style={styles.queueActionText}>Skip</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
 
   const handleManualEdit = () => {
     (navigation as any).navigate('ManualRecipeEntry');
   };
 
+  const handlePasteText = () => {
+    (navigation as any).navigate('PasteRecipe');
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <Toast
@@ -140,18 +227,18 @@ export default function ImportRecipeScreen() {
         behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
       >
         <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
-          <View style={styles.content}>
+          <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
         <View style={styles.header}>
           <Text style={styles.title}>Import Recipe</Text>
           <Text style={styles.subtitle}>
-            Paste a recipe URL from any website to automatically import it
+            Paste a recipe URL from any website to automatically import it, or paste several links at once
           </Text>
         </View>
 
         <View style={styles.formContainer}>
           <Text style={styles.label}>Recipe URL</Text>
           <TextInput
-            style={styles.input}
+            style={[styles.input, isBatch && styles.inputMultiline]}
             value={url}
             onChangeText={setUrl}
             placeholder="https://example.com/recipe"
@@ -162,6 +249,7 @@ export default function ImportRecipeScreen() {
             editable={!loading}
             autoFocus={true}
             clearButtonMode="while-editing"
+            multiline={isBatch}
           />
 
           <TouchableOpacity
@@ -175,7 +263,9 @@ export default function ImportRecipeScreen() {
                 <Text style={styles.buttonText}>Importing...</Text>
               </View>
             ) : (
-              <Text style={styles.buttonText}>Import Recipe</Text>
+              <Text style={styles.buttonText}>
+                {isBatch ? `Import ${urlCount} Recipes` : 'Import Recipe'}
+              </Text>
             )}
           </TouchableOpacity>
 
@@ -206,14 +296,40 @@ export default function ImportRecipeScreen() {
           )}
         </View>
 
+        <View style={styles.alternativesContainer}>
+          <TouchableOpacity style={styles.alternativeButton} onPress={handlePasteText}>
+            <Text style={styles.alternativeButtonText}>📋 Paste Recipe Text</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.alternativeButton} onPress={handleManualEdit}>
+            <Text style={styles.alternativeButtonText}>✏️ Enter Manually</Text>
+          </TouchableOpacity>
+        </View>
+
+        {activeImports.length > 0 && (
+          <View style={styles.queueContainer}>
+            <View style={styles.queueHeader}>
+              <Text style={styles.queueTitle}>
+                Import Queue ({finishedCount}/{activeImports.length} done)
+              </Text>
+              {finishedCount > 0 && (
+                <TouchableOpacity onPress={clearCompletedImports}>
+                  <Text style={styles.queueClearText}>Clear finished</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {activeImports.map(renderQueueItem)}
+          </View>
+        )}
+
         <View style={styles.infoContainer}>
           <Text style={styles.infoTitle}>Supported websites:</Text>
           <Text style={styles.infoText}>
             Most recipe websites are supported. The app will automatically extract
-            ingredients, instructions, and other recipe details.
+            ingredients, instructions, and other recipe details. You can also paste a
+            list of links or a browser bookmarks export to import them all.
           </Text>
         </View>
-          </View>
+          </ScrollView>
         </TouchableWithoutFeedback>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -230,6 +346,8 @@ const styles = StyleSheet.create({
   },
   content: {
     flex: 1,
+  },
+  scrollContent: {
     padding: 20,
   },
   header: {
@@ -265,6 +383,10 @@ const styles = StyleSheet.create({
     borderColor: '#e5e7eb',
     marginBottom: 20,
   },
+  inputMultiline: {
+    maxHeight: 160,
+    textAlignVertical: 'top',
+  },
   button: {
     backgroundColor: '#2563eb',
     paddingVertical: 16,
@@ -285,6 +407,88 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 10,
   },
+  alternativesContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  alternativeButton: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderColor: '#2563eb',
+    borderWidth: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  alternativeButtonText: {
+    color: '#2563eb',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  queueContainer: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginBottom: 20,
+  },
+  queueHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  queueTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  queueClearText: {
+    fontSize: 14,
+    color: '#2563eb',
+    fontWeight: '500',
+  },
+  queueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+    gap: 8,
+  },
+  queueItemInfo: {
+    flex: 1,
+  },
+  queueItemTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1f2937',
+  },
+  queueItemStatus: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  queueItemStatusComplete: {
+    color: '#059669',
+  },
+  queueItemStatusError: {
+    color: '#dc2626',
+  },
+  queueAction: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+  },
+  queueActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
   infoContainer: {
     backgroundColor: 'white',
     padding: 20,
@@ -16,17 +16,22 @@ import {
   TouchableWithoutFeedback,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../../contexts/AuthContext';
 import PinInput from '../../components/PinInput';
-import type { KidProfile, ReadingLevel } from '../../types';
+import AllergyEditor from '../../components/AllergyEditor';
+import { getKidAllergies, toAllergyFlags } from '../../utils/kidRecipeChecks';
+import type { KidProfile, KidAllergy, ReadingLevel, RootStackParamList } from '../../types';
 
 export default function KidManagementScreen() {
-  const { kidProfiles, addKid, updateKid, removeKid, loading, parentProfile, setKidModePin } = useAuth();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { kidProfiles, addKid, updateKid, removeKid, loading, hasKidModePin, setKidModePin, resetKidModePin } = useAuth();
   const [addingKid, setAddingKid] = useState(false);
   const [editingKid, setEditingKid] = useState<KidProfile | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
   const [showPinInput, setShowPinInput] = useState(false);
-  const [pinStep, setPinStep] = useState<'set' | 'confirm' | null>(null);
+  const [pinStep, setPinStep] = useState<'set' | 'confirm' | 'reset' | null>(null);
   const [firstPin, setFirstPin] = useState('');
   const [pendingSaveAfterPin, setPendingSaveAfterPin] = useState(false);
   const [returnToModalAfterPin, setReturnToModalAfterPin] = useState(false);
@@ -36,7 +41,7 @@ export default function KidManagementScreen() {
     name: '',
     age: '',
     readingLevel: 'intermediate' as ReadingLevel,
-    allergyFlags: [] as string[],
+    allergies: [] as KidAllergy[],
     avatarEmoji: '👶',
   });
 
@@ -45,7 +50,7 @@ export default function KidManagementScreen() {
       name: '',
       age: '',
       readingLevel: 'intermediate',
-      allergyFlags: [],
+      allergies: [],
       avatarEmoji: '👶',
     });
     setShowPinInput(false);
@@ -66,7 +71,7 @@ export default function KidManagementScreen() {
       name: kid.name,
       age: kid.age.toString(),
       readingLevel: kid.readingLevel,
-      allergyFlags: kid.allergyFlags || [],
+      allergies: getKidAllergies(kid),
       avatarEmoji: kid.avatarEmoji || '👶',
     });
     setEditingKid(kid);
@@ -85,7 +90,7 @@ export default function KidManagementScreen() {
       return;
     }
 
-    if (!editingKid && !parentProfile?.kidModePin) {
+    if (!editingKid && !hasKidModePin) {
       Alert.alert(
         'Set Kid Mode PIN?',
         'Add a 4-digit PIN so kids can’t exit kid mode without your help.',
@@ -112,11 +117,16 @@ export default function KidManagementScreen() {
     try {
       setAddingKid(true);
 
+      // Firestore rejects undefined fields, so blank notes are dropped rather than cleared
+      const allergies: KidAllergy[] = formData.allergies.map(({ notes, ...allergy }) =>
+        notes?.trim() ? { ...allergy, notes: notes.trim() } : allergy
+      );
       const kidData = {
         name: formData.name.trim(),
         age,
         readingLevel: formData.readingLevel,
-        allergyFlags: formData.allergyFlags,
+        allergies,
+        allergyFlags: toAllergyFlags(allergies),
         avatarEmoji: formData.avatarEmoji,
         permissions: {
           canViewIngredients: true,
@@ -172,7 +182,8 @@ export default function KidManagementScreen() {
   const startPinSetup = () => {
     setReturnToModalAfterPin(true);
     setShowAddModal(false);
-    setPinStep('set');
+    // Replacing an existing PIN goes through the account password
+    setPinStep(hasKidModePin ? 'reset' : 'set');
     setShowPinInput(true);
   };
 
@@ -180,6 +191,18 @@ export default function KidManagementScreen() {
     const pinValue = pin || '';
     if (!pinValue) return;
 
+    if (pinStep === 'reset') {
+      // PinInput has already saved the new PIN
+      Alert.alert('PIN Set', 'Kid mode PIN has been updated.');
+      setShowPinInput(false);
+      setPinStep(null);
+      if (returnToModalAfterPin) {
+        setShowAddModal(true);
+      }
+      setReturnToModalAfterPin(false);
+      return;
+    }
+
     if (pinStep === 'set') {
       setFirstPin(pinValue);
       setPinStep('confirm');
@@ -260,10 +283,12 @@ export default function KidManagementScreen() {
         </View>
       </View>
 
-      {item.allergyFlags && item.allergyFlags.length > 0 && (
+      {getKidAllergies(item).length > 0 && (
         <View style={styles.allergySection}>
           <Text style={styles.allergyLabel}>Allergies:</Text>
-          <Text style={styles.allergyText}>{item.allergyFlags.join(', ')}</Text>
+          <Text style={styles.allergyText}>
+            {getKidAllergies(item).map(allergy => `${allergy.allergen} (${allergy.severity})`).join(', ')}
+          </Text>
         </View>
       )}
 
@@ -271,6 +296,12 @@ export default function KidManagementScreen() {
         <TouchableOpacity style={styles.editButton} onPress={() => openEditModal(item)}>
           <Text style={styles.editButtonText}>✏️ Edit</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.editButton}
+          onPress={() => navigation.navigate('CookingHistory', { kidId: item.id })}
+        >
+          <Text style={styles.editButtonText}>📖 History</Text>
+        </TouchableOpacity>
         <TouchableOpacity style={styles.deleteButton} onPress={() => handleDeleteKid(item)}>
           <Text style={styles.deleteButtonText}>🗑️ Remove</Text>
         </TouchableOpacity>
@@ -381,6 +412,17 @@ export default function KidManagementScreen() {
               </View>
             </View>
 
+            <View style={styles.formGroup}>
+              <Text style={styles.label}>Allergies</Text>
+              <Text style={styles.helperText}>
+                Severe allergies hide matching recipes; mild and moderate ones show a warning.
+              </Text>
+              <AllergyEditor
+                allergies={formData.allergies}
+                onChange={(allergies) => setFormData({ ...formData, allergies })}
+              />
+            </View>
+
             <View style={styles.formGroup}>
               <Text style={styles.label}>Avatar</Text>
               <View style={styles.emojiSelector}>
@@ -407,7 +449,7 @@ export default function KidManagementScreen() {
               <View style={styles.pinActions}>
                 <TouchableOpacity style={styles.pinButton} onPress={startPinSetup}>
                   <Text style={styles.pinButtonText}>
-                    {parentProfile?.kidModePin ? 'Change PIN' : 'Set PIN'}
+                    {hasKidModePin ? 'Change PIN' : 'Set PIN'}
                   </Text>
                 </TouchableOpacity>
               </View>
@@ -433,7 +475,8 @@ export default function KidManagementScreen() {
         onSuccess={handlePinSuccess}
         title={pinStep === 'confirm' ? 'Confirm Your PIN' : 'Set Your PIN'}
         subtitle={pinStep === 'confirm' ? 'Enter the same PIN again' : 'Enter a 4-digit PIN'}
-        mode="input"
+        mode={pinStep === 'reset' ? 'reset' : 'input'}
+        onResetPin={resetKidModePin}
       />
 
     </SafeAreaView>
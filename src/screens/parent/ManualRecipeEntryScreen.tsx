@@ -12,26 +12,35 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { recipeService } from '../../services/recipes';
 import { useAuth } from '../../contexts/AuthContext';
-import type { Recipe } from '../../types';
+import type { Recipe, RecipeDraft, RootStackParamList } from '../../types';
+
+type ManualRecipeEntryParams = {
+  draft?: RecipeDraft; // Pre-filled from pasted text, for the parent to review
+  notice?: string;
+};
 
 export default function ManualRecipeEntryScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute();
+  const params = route.params as ManualRecipeEntryParams | undefined;
+  const draft = params?.draft;
   const { user } = useAuth();
   const [loading, setLoading] = useState(false);
 
   const [recipeData, setRecipeData] = useState({
-    title: '',
-    description: '',
-    prepTime: '',
-    cookTime: '',
-    servings: '4',
+    title: draft?.title || '',
+    description: draft?.description || '',
+    prepTime: draft?.prepTime || '',
+    cookTime: draft?.cookTime || '',
+    servings: draft?.servings ? String(draft.servings) : '4',
     difficulty: 'Medium',
-    ingredients: [''],
-    instructions: [''],
-    tags: [],
+    ingredients: draft?.ingredients.length ? draft.ingredients : [''],
+    instructions: draft?.instructions.length ? draft.instructions : [''],
+    tags: [] as string[],
   });
 
   const addIngredient = () => {
@@ -107,7 +116,8 @@ export default function ManualRecipeEntryScreen() {
     setLoading(true);
 
     try {
-      const newRecipe: Omit<Recipe, 'id' | 'userId' | 'createdAt' | 'updatedAt'> = {
+      const newRecipe: Omit<Recipe, 'id' | 'createdAt' | 'updatedAt'> = {
+        userId: user.uid,
         title: recipeData.title.trim(),
         description: recipeData.description.trim(),
         image: '🍽️', // Default emoji
@@ -115,15 +125,13 @@ export default function ManualRecipeEntryScreen() {
         cookTime: recipeData.cookTime.trim(),
         totalTime: '',
         servings: parseInt(recipeData.servings) || 4,
-        difficulty: recipeData.difficulty,
+        difficulty: recipeData.difficulty.toLowerCase() as Recipe['difficulty'],
         ingredients: validIngredients,
         instructions: validInstructions,
-        sourceUrl: '',
         tags: recipeData.tags,
-        kidVersionId: null,
       };
 
-      await recipeService.createRecipe(newRecipe);
+      await recipeService.addRecipe(user.uid, newRecipe);
 
       Alert.alert(
         'Recipe Saved! 🎉',
@@ -131,7 +139,8 @@ export default function ManualRecipeEntryScreen() {
         [
           {
             text: 'OK',
-            onPress: () => navigation.goBack()
+            // Back past the paste screen too when the recipe came from pasted text
+            onPress: () => (draft ? navigation.popToTop() : navigation.goBack())
           }
         ]
       );
@@ -156,12 +165,18 @@ export default function ManualRecipeEntryScreen() {
       >
         <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
           <View style={styles.header}>
-            <Text style={styles.title}>Add Recipe Manually</Text>
+            <Text style={styles.title}>{draft ? 'Review Recipe' : 'Add Recipe Manually'}</Text>
             <Text style={styles.subtitle}>
-              Enter your recipe details below
+              {draft ? 'Edit anything we got wrong, then save' : 'Enter your recipe details below'}
             </Text>
           </View>
 
+          {params?.notice && (
+            <View style={styles.noticeBanner}>
+              <Text style={styles.noticeText}>{params.notice}</Text>
+            </View>
+          )}
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Basic Information</Text>
 
@@ -361,6 +376,19 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     lineHeight: 24,
   },
+  noticeBanner: {
+    backgroundColor: '#eff6ff',
+    borderColor: '#bfdbfe',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 20,
+  },
+  noticeText: {
+    fontSize: 14,
+    color: '#1e40af',
+    lineHeight: 20,
+  },
   section: {
     marginBottom: 30,
   },
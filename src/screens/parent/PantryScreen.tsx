@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePantry, useSavePantry } from '../../hooks/usePantry';
+import { useShoppingList } from '../../hooks/useShoppingList';
+import { parseIngredientLine } from '../../utils/ingredientParser';
+import { getAisle, AISLE_ORDER, AISLE_LABELS } from '../../utils/shoppingList';
+import type { PantryItem } from '../../types';
+
+export default function PantryScreen() {
+  const { parentProfile } = useAuth();
+  const { data: items = [], isLoading } = usePantry(parentProfile?.id);
+  const { data: shoppingItems = [] } = useShoppingList(parentProfile?.id);
+  const savePantry = useSavePantry(parentProfile?.id);
+  const [newItemText, setNewItemText] = useState('');
+
+  // Skips anything already in the pantry so "eggs" isn't listed twice
+  const withNewItems = (names: string[]): PantryItem[] => {
+    const added: PantryItem[] = [];
+    names.forEach((name, index) => {
+      const alreadyHave = [...items, ...added].some(item => item.name.toLowerCase() === name.toLowerCase());
+      if (!alreadyHave) {
+        added.push({ id: `pantry-${Date.now()}-${index}`, name, aisle: getAisle(name) });
+      }
+    });
+    return [...items, ...added];
+  };
+
+  // Several things can be added at once: "eggs, milk, flour"
+  const addItems = () => {
+    const names = newItemText
+      .split(/[,\n]/)
+      .map(text => parseIngredientLine(text.trim()).name.trim())
+      .filter(name => name.length > 0);
+    if (names.length === 0) return;
+
+    savePantry.mutate(withNewItems(names));
+    setNewItemText('');
+  };
+
+  const addCheckedShopping = () => {
+    const bought = shoppingItems.filter(item => item.checked).map(item => item.name);
+    if (bought.length === 0) {
+      Alert.alert('Nothing Checked', 'Check items off your shopping list as you buy them, then add them here.');
+      return;
+    }
+    savePantry.mutate(withNewItems(bought));
+  };
+
+  const removeItem = (itemId: string) => {
+    savePantry.mutate(items.filter(item => item.id !== itemId));
+  };
+
+  const clearAll = () => {
+    Alert.alert('Clear Pantry', 'Remove everything from the pantry?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => savePantry.mutate([]) },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const sections = AISLE_ORDER
+    .map(aisle => ({
+      aisle,
+      title: AISLE_LABELS[aisle],
+      items: items.filter(item => item.aisle === aisle).sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter(section => section.items.length > 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <Text style={styles.title}>Pantry</Text>
+          <Text style={styles.subtitle}>
+            {items.length === 0
+              ? 'Add what you have to see which recipes you can make'
+              : `${items.length} item${items.length === 1 ? '' : 's'} on hand. Salt, pepper, oil and water are always assumed.`}
+          </Text>
+        </View>
+
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={newItemText}
+            onChangeText={setNewItemText}
+            placeholder="Add items, e.g. eggs, milk, flour"
+            returnKeyType="done"
+            onSubmitEditing={addItems}
+          />
+          <TouchableOpacity style={styles.addButton} onPress={addItems}>
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={styles.shoppingButton} onPress={addCheckedShopping}>
+          <Text style={styles.shoppingButtonText}>🛒 Add Checked Shopping Items</Text>
+        </TouchableOpacity>
+
+        {sections.map(section => (
+          <View key={section.aisle} style={styles.section}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            <View style={styles.itemChips}>
+              {section.items.map(item => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={styles.itemChip}
+                  onPress={() => removeItem(item.id)}
+                  accessibilityLabel={`Remove ${item.name}`}
+                >
+                  <Text style={styles.itemChipText}>{item.name}</Text>
+                  <Text style={styles.itemChipRemove}>✕</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ))}
+
+        {items.length > 0 && (
+          <TouchableOpacity style={styles.dangerButton} onPress={clearAll}>
+            <Text style={styles.dangerButtonText}>Clear All</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  addButton: {
+    backgroundColor: '#059669',
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  shoppingButton: {
+    backgroundColor: '#ecfdf5',
+    borderWidth: 1,
+    borderColor: '#059669',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  shoppingButtonText: {
+    color: '#059669',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 10,
+  },
+  itemChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  itemChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#f0fdf4',
+    borderWidth: 1,
+    borderColor: '#bbf7d0',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  itemChipText: {
+    fontSize: 14,
+    color: '#1f2937',
+  },
+  itemChipRemove: {
+    fontSize: 12,
+    color: '#9ca3af',
+    fontWeight: 'bold',
+  },
+  dangerButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 40,
+  },
+  dangerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
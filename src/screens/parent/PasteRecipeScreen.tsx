@@ -0,0 +1,289 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { recipeImportService } from '../../services/recipeImport';
+import type { ImportError } from '../../services/recipeImport';
+import { recipeTransferService } from '../../services/recipeTransfer';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseRecipeFile, ParsedRecipeFile, RecipeFileFormat } from '../../utils/recipeImportFormats';
+import type { RootStackParamList } from '../../types';
+
+const FORMAT_NAMES: Record<RecipeFileFormat, string> = {
+  'kidchef-archive': 'KidChef backup',
+  'json-ld': 'recipe file',
+  paprika: 'Paprika export',
+  mela: 'Mela export',
+  mealmaster: 'MealMaster file',
+};
+
+type PasteRecipeParams = {
+  text?: string;
+};
+
+export default function PasteRecipeScreen() {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute();
+  const params = route.params as PasteRecipeParams | undefined;
+  const [text, setText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [importError, setImportError] = useState<ImportError | null>(null);
+  const { user } = useAuth();
+
+  // Text shared into the app from a notes app or email
+  useEffect(() => {
+    if (params?.text) {
+      setText(params.text);
+    }
+  }, [params?.text]);
+
+  // Exports from KidChef or another recipe app are saved straight away; there's nothing to guess
+  const importRecipeFile = async (file: ParsedRecipeFile) => {
+    if (!user?.uid) return;
+
+    setLoading(true);
+    try {
+      const summary = await recipeTransferService.importRecipes(user.uid, file);
+      const problems = summary.failed + summary.skipped;
+      Alert.alert(
+        'Recipes Imported! 🎉',
+        `Added ${summary.imported} recipe${summary.imported === 1 ? '' : 's'} to your collection.` +
+          (problems > 0 ? ` ${problems} couldn't be imported.` : ''),
+        [{ text: 'OK', onPress: () => navigation.popToTop() }]
+      );
+    } catch (error) {
+      console.error('Error importing recipe file:', error);
+      Alert.alert('Import Failed', 'Failed to import these recipes. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReadRecipe = async () => {
+    setImportError(null);
+
+    const file = parseRecipeFile(text);
+    if (file) {
+      if (file.recipes.length === 0) {
+        setImportError({
+          code: 'EMPTY_FILE',
+          message: `This ${FORMAT_NAMES[file.format]} doesn't have any complete recipes`,
+          suggestion: 'Each recipe needs a title and at least one ingredient',
+          canRetry: false,
+          allowManualEdit: true
+        });
+        return;
+      }
+
+      Alert.alert(
+        'Import Recipes',
+        `Found ${file.recipes.length} recipe${file.recipes.length === 1 ? '' : 's'} in this ${FORMAT_NAMES[file.format]}. Add ${file.recipes.length === 1 ? 'it' : 'them all'} to your collection?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Import', onPress: () => importRecipeFile(file) },
+        ]
+      );
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const result = await recipeImportService.importFromText(text);
+
+      if (!result.success || !result.draft) {
+        setImportError(result.error || {
+          code: 'IMPORT_FAILED',
+          message: 'We couldn\'t find a recipe in that text',
+          canRetry: true,
+          allowManualEdit: true
+        });
+        return;
+      }
+
+      const notice = result.error
+        ? 'We could only read part of this recipe. Fill in anything that\'s missing before saving.'
+        : 'Check the details we found before saving.';
+
+      navigation.navigate('ManualRecipeEntry', { draft: result.draft, notice });
+    } catch (error: any) {
+      console.error('Failed to read recipe text:', error);
+      setImportError({
+        code: 'IMPORT_FAILED',
+        message: error?.message || 'Failed to read recipe text',
+        canRetry: true
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardContainer}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <ScrollView style={styles.content} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <Text style={styles.title}>Paste a Recipe</Text>
+            <Text style={styles.subtitle}>
+              Copy a recipe from your notes, an email or a text file and paste it here.
+              We'll sort out the title, ingredients and steps for you to review. Exports from
+              KidChef, Paprika, Mela and MealMaster are imported as they are.
+            </Text>
+          </View>
+
+          <TextInput
+            style={styles.textArea}
+            value={text}
+            onChangeText={setText}
+            placeholder={'Grandma\'s Pancakes\n\nIngredients\n1 cup flour\n2 eggs\n\nSteps\n1. Mix everything together...'}
+            placeholderTextColor="#9ca3af"
+            multiline
+            textAlignVertical="top"
+            editable={!loading}
+            autoFocus={!params?.text}
+          />
+
+          <TouchableOpacity
+            style={[styles.button, (!text.trim() || loading) && styles.buttonDisabled]}
+            onPress={handleReadRecipe}
+            disabled={!text.trim() || loading}
+          >
+            {loading ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator color="white" size="small" />
+                <Text style={styles.buttonText}>Reading recipe...</Text>
+              </View>
+            ) : (
+              <Text style={styles.buttonText}>Read Recipe</Text>
+            )}
+          </TouchableOpacity>
+
+          {importError && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorTitle}>{importError.message}</Text>
+              {importError.suggestion && (
+                <Text style={styles.errorSuggestion}>{importError.suggestion}</Text>
+              )}
+              {importError.allowManualEdit && (
+                <TouchableOpacity
+                  style={styles.manualButton}
+                  onPress={() => navigation.navigate('ManualRecipeEntry')}
+                >
+                  <Text style={styles.manualButtonText}>✏️ Enter Manually</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  keyboardContainer: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 20,
+  },
+  header: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 10,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    lineHeight: 24,
+  },
+  textArea: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    minHeight: 260,
+    marginBottom: 20,
+  },
+  button: {
+    backgroundColor: '#2563eb',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#9ca3af',
+  },
+  buttonText: {
+    color: 'white',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  errorContainer: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 20,
+  },
+  errorTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#dc2626',
+    marginBottom: 8,
+  },
+  errorSuggestion: {
+    fontSize: 14,
+    color: '#7f1d1d',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  manualButton: {
+    backgroundColor: 'white',
+    borderColor: '#dc2626',
+    borderWidth: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  manualButtonText: {
+    color: '#dc2626',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -7,6 +7,7 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
+  Share,
 } from 'react-native';
 import { Image } from 'expo-image';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -15,9 +16,26 @@ import { recipeService } from '../../services/recipes';
 import { recipeSharingService } from '../../services/recipeSharing';
 import { kidRecipeManagerService } from '../../services/kidRecipeManager';
 import { recipeFavoritesService } from '../../services/recipeFavorites';
+import { recipeTransferService } from '../../services/recipeTransfer';
+import { recipePrintService } from '../../services/recipePrint';
+import type { RecipeExportFormat } from '../../utils/recipeExport';
+import type { PaperSize } from '../../utils/kidRecipeCard';
 import { useAuth } from '../../contexts/AuthContext';
 import { SkeletonRecipeDetail } from '../../components/SkeletonLoader';
-import { checkRecipeSafety, generateSafetyWarningText } from '../../utils/recipeSafety';
+import {
+  analyzeRecipeSafety,
+  checkRecipeSafety,
+  generateSafetyWarningText,
+  getRecipeStepTexts,
+  getStepSafetyFlags,
+} from '../../utils/recipeSafety';
+import type { SafetyFlag, SafetySeverity } from '../../utils/recipeSafety';
+import { formatIngredient, normalizeIngredients, parseIngredientLine } from '../../utils/ingredientParser';
+import { getScaleFactor, getScalingNotes, scaleIngredient } from '../../utils/recipeScaling';
+import { convertRecipeUnits, getUnitPreferences } from '../../utils/unitConversion';
+import { mergeShoppingItems, recipesToShoppingItems } from '../../utils/shoppingList';
+import { formatMinutes, getRecipeTimes } from '../../utils/durations';
+import { useShoppingList, useSaveShoppingList } from '../../hooks/useShoppingList';
 import type { Recipe, KidProfile } from '../../types';
 
 export default function RecipeDetailScreen() {
@@ -31,15 +49,26 @@ export default function RecipeDetailScreen() {
   const [deleting, setDeleting] = useState(false);
   const [sharing, setSharing] = useState(false);
   const [servings, setServings] = useState(4);
-  const [scaleMultiplier, setScaleMultiplier] = useState(1);
+  const [targetServings, setTargetServings] = useState(4);
   const [sharedKids, setSharedKids] = useState<string[]>([]);
   const [isFavorite, setIsFavorite] = useState(false);
   const [favoriteLoading, setFavoriteLoading] = useState(false);
+  const { data: shoppingItems = [] } = useShoppingList(parentProfile?.id);
+  const saveShoppingList = useSaveShoppingList(parentProfile?.id);
 
   useEffect(() => {
     loadRecipe();
   }, [recipeId]);
 
+  // Show edits made elsewhere (another device, a finished import) while the recipe is open
+  useEffect(() => {
+    return recipeService.subscribeToRecipe(recipeId, (updatedRecipe) => {
+      if (updatedRecipe) {
+        setRecipe(updatedRecipe);
+      }
+    });
+  }, [recipeId]);
+
   const loadRecipe = async () => {
     try {
       setLoading(true);
@@ -47,7 +76,7 @@ export default function RecipeDetailScreen() {
       if (recipeData) {
         setRecipe(recipeData);
         setServings(recipeData.servings || 4);
-        setScaleMultiplier(1);
+        setTargetServings(recipeData.servings || 4);
         await loadSharedKids();
         await loadFavoriteStatus();
       } else {
@@ -106,66 +135,30 @@ export default function RecipeDetailScreen() {
     );
   }
 
-  const scaleIngredient = (ingredient: string, scale: number) => {
-    // Handle fractions like 1/2, 3/4, 1 1/2, etc.
-    const fractionMatch = ingredient.match(/^(\d+\s+)?(\d+)\/(\d+)\s+(.+)/);
-    if (fractionMatch) {
-      const wholeNumber = fractionMatch[1] ? parseInt(fractionMatch[1].trim()) : 0;
-      const numerator = parseInt(fractionMatch[2]);
-      const denominator = parseInt(fractionMatch[3]);
-      const rest = fractionMatch[4];
-
-      const decimalValue = wholeNumber + (numerator / denominator);
-      const scaledValue = decimalValue * scale;
+  const displayRecipe = convertRecipeUnits(recipe, getUnitPreferences(parentProfile?.settings));
 
-      return `${formatScaledAmount(scaledValue)} ${rest}`;
-    }
+  const scaleFactor = getScaleFactor(servings, targetServings);
 
-    // Handle decimal numbers
-    const decimalMatch = ingredient.match(/^([\d\.]+)\s+(.+)/);
-    if (decimalMatch) {
-      const amount = parseFloat(decimalMatch[1]);
-      const rest = decimalMatch[2];
-      const scaledAmount = amount * scale;
-      return `${formatScaledAmount(scaledAmount)} ${rest}`;
+  // Legacy plain-text lines are parsed so they scale the same way as structured ones
+  const ingredientLines = displayRecipe.ingredients.map((ingredient, index) => {
+    if (typeof ingredient !== 'string') {
+      return formatIngredient(scaleIngredient(ingredient, scaleFactor));
     }
-
-    // Handle ranges like "2-3 cups"
-    const rangeMatch = ingredient.match(/^(\d+)-(\d+)\s+(.+)/);
-    if (rangeMatch) {
-      const min = parseInt(rangeMatch[1]) * scale;
-      const max = parseInt(rangeMatch[2]) * scale;
-      const rest = rangeMatch[3];
-      return `${formatScaledAmount(min)}-${formatScaledAmount(max)} ${rest}`;
-    }
-
-    // If no number found, return original
-    return ingredient;
-  };
-
-  const formatScaledAmount = (amount: number): string => {
-    // Convert decimals to fractions when appropriate
-    if (amount === 0.25) return '¼';
-    if (amount === 0.5) return '½';
-    if (amount === 0.75) return '¾';
-    if (amount === 1/3) return '⅓';
-    if (amount === 2/3) return '⅔';
-
-    // Handle mixed numbers
-    const wholeNumber = Math.floor(amount);
-    const decimal = amount - wholeNumber;
-
-    if (decimal === 0) return wholeNumber.toString();
-
-    if (decimal === 0.25) return wholeNumber > 0 ? `${wholeNumber}¼` : '¼';
-    if (decimal === 0.5) return wholeNumber > 0 ? `${wholeNumber}½` : '½';
-    if (decimal === 0.75) return wholeNumber > 0 ? `${wholeNumber}¾` : '¾';
-    if (Math.abs(decimal - 1/3) < 0.01) return wholeNumber > 0 ? `${wholeNumber}⅓` : '⅓';
-    if (Math.abs(decimal - 2/3) < 0.01) return wholeNumber > 0 ? `${wholeNumber}⅔` : '⅔';
-
-    // For other decimals, round to 1 decimal place
-    return amount % 1 === 0 ? amount.toString() : amount.toFixed(1);
-  };
+    const parsed = parseIngredientLine(ingredient, index);
+    return scaleFactor === 1 || parsed.amount === undefined
+      ? ingredient
+      : formatIngredient(scaleIngredient(parsed, scaleFactor));
+  });
+
+  const instructionTexts = getRecipeStepTexts(displayRecipe);
+  const safetyFlags = analyzeRecipeSafety(displayRecipe);
+  const scalingNotes = getScalingNotes(
+    displayRecipe.ingredients.map((ingredient, index) =>
+      typeof ingredient === 'string' ? parseIngredientLine(ingredient, index) : ingredient
+    ),
+    instructionTexts,
+    scaleFactor
+  );
 
   const handleShareWithKids = () => {
     if (kidProfiles.length === 0) {
@@ -372,8 +365,106 @@ export default function RecipeDetailScreen() {
     }
   };
 
+  const handleAddToShoppingList = () => {
+    if (!parentProfile) return;
+
+    // Add what's needed for the servings on screen, not the original recipe
+    const scaledRecipe = {
+      ...recipe,
+      ingredients: normalizeIngredients(recipe.ingredients).map(ingredient => scaleIngredient(ingredient, scaleFactor)),
+    };
+    const items = mergeShoppingItems(
+      [...shoppingItems, ...recipesToShoppingItems([scaledRecipe])],
+      getUnitPreferences(parentProfile.settings).system
+    );
+
+    saveShoppingList.mutate(items, {
+      onSuccess: () => {
+        Alert.alert('Added to Shopping List', `Ingredients for ${recipe.title} were added.`, [
+          { text: 'OK' },
+          { text: 'View List', onPress: () => navigation.navigate('ShoppingList' as never) },
+        ]);
+      },
+      onError: () => Alert.alert('Error', 'Failed to update shopping list'),
+    });
+  };
+
+  const shareExport = async (format: RecipeExportFormat, kidIds: string[] = []) => {
+    if (!recipe) return;
+    try {
+      const message = await recipeTransferService.exportRecipe(recipe, format, kidIds);
+      await Share.share({ title: recipe.title, message });
+    } catch (error) {
+      console.error('Error exporting recipe:', error);
+      Alert.alert('Error', 'Failed to export the recipe. Please try again.');
+    }
+  };
+
   const handleShare = () => {
-    console.log('Sharing recipe...');
+    Alert.alert(
+      'Export Recipe',
+      'Markdown is easy to read anywhere. Recipe file (JSON-LD) can be imported into KidChef and most recipe apps.',
+      [
+        { text: 'Markdown', onPress: () => shareExport('markdown') },
+        { text: 'Recipe File', onPress: () => shareExport('jsonld') },
+        ...(sharedKids.length > 0
+          ? [{ text: 'Recipe File + Kid Versions', onPress: () => shareExport('jsonld', sharedKids) }]
+          : []),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const printCard = async (kid: KidProfile, paperSize: PaperSize, asPdf: boolean) => {
+    if (!recipe) return;
+    try {
+      if (asPdf) {
+        const url = await recipePrintService.saveKidRecipeCardPdf(recipe, kid, paperSize);
+        await Share.share({ title: `${recipe.title} for ${kid.name}`, url });
+      } else {
+        await recipePrintService.printKidRecipeCard(recipe, kid, paperSize);
+      }
+    } catch (error) {
+      console.error('Error printing recipe card:', error);
+      Alert.alert('Error', 'Failed to create the recipe card. Please try again.');
+    }
+  };
+
+  const choosePaperSize = (kid: KidProfile) => {
+    Alert.alert(
+      `Recipe Card for ${kid.name}`,
+      'Print a big-type card with tick boxes for the fridge, or save it as a PDF.',
+      [
+        { text: 'Print (Letter)', onPress: () => printCard(kid, 'letter', false) },
+        { text: 'Print (A4)', onPress: () => printCard(kid, 'a4', false) },
+        { text: 'Save PDF (Letter)', onPress: () => printCard(kid, 'letter', true) },
+        { text: 'Save PDF (A4)', onPress: () => printCard(kid, 'a4', true) },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  // Cards use a kid's own version, so only kids the recipe is shared with are offered
+  const handlePrintCard = () => {
+    const kids = kidProfiles.filter(kid => sharedKids.includes(kid.id));
+
+    if (kids.length === 0) {
+      Alert.alert(
+        'Share First',
+        'Recipe cards are made from a kid\'s version of the recipe. Share this recipe with a kid, then print their card.'
+      );
+      return;
+    }
+
+    if (kids.length === 1) {
+      choosePaperSize(kids[0]);
+      return;
+    }
+
+    Alert.alert('Print Recipe Card', 'Whose card would you like to print?', [
+      ...kids.map(kid => ({ text: `${kid.avatarEmoji || '👶'} ${kid.name}`, onPress: () => choosePaperSize(kid) })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
   };
 
   const handleEdit = () => {
@@ -427,6 +518,10 @@ export default function RecipeDetailScreen() {
     );
   }
 
+  // Imported times arrive as "PT15M", "15" or "1 hr 15 mins"; show them all the same way
+  const recipeTimes = getRecipeTimes(recipe);
+  const formatTime = (minutes: number | undefined, raw: Recipe['prepTime']) =>
+    minutes !== undefined ? formatMinutes(minutes) : raw || '—';
 
   return (
     <SafeAreaView style={styles.container}>
@@ -472,19 +567,19 @@ export default function RecipeDetailScreen() {
           <View style={styles.infoGrid}>
             <View style={styles.infoItem}>
               <Text style={styles.infoLabel}>Servings</Text>
-              <Text style={styles.infoValue}>{Math.round(servings * scaleMultiplier)}</Text>
+              <Text style={styles.infoValue}>{targetServings}</Text>
             </View>
             <View style={styles.infoItem}>
               <Text style={styles.infoLabel}>Prep Time</Text>
-              <Text style={styles.infoValue}>{recipe.prepTime}</Text>
+              <Text style={styles.infoValue}>{formatTime(recipeTimes.prepMinutes, recipe.prepTime)}</Text>
             </View>
             <View style={styles.infoItem}>
               <Text style={styles.infoLabel}>Cook Time</Text>
-              <Text style={styles.infoValue}>{recipe.cookTime}</Text>
+              <Text style={styles.infoValue}>{formatTime(recipeTimes.cookMinutes, recipe.cookTime)}</Text>
             </View>
             <View style={styles.infoItem}>
               <Text style={styles.infoLabel}>Total Time</Text>
-              <Text style={styles.infoValue}>{recipe.totalTime}</Text>
+              <Text style={styles.infoValue}>{formatTime(recipeTimes.totalMinutes, recipe.totalTime)}</Text>
             </View>
           </View>
         </View>
@@ -494,62 +589,87 @@ export default function RecipeDetailScreen() {
           <Text style={styles.scaleDescription}>
             Scale the recipe to make more or less. Ingredients will adjust automatically.
           </Text>
+          <View style={styles.servingsStepper}>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setTargetServings(Math.max(1, targetServings - 1))}
+              disabled={targetServings <= 1}
+            >
+              <Text style={styles.stepperButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>{targetServings} servings</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => setTargetServings(targetServings + 1)}
+            >
+              <Text style={styles.stepperButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
           <View style={styles.scaleOptions}>
-            {[0.5, 1, 2, 3].map((multiplier) => (
-              <TouchableOpacity
-                key={multiplier}
-                style={[
-                  styles.scaleButton,
-                  scaleMultiplier === multiplier && styles.scaleButtonActive
-                ]}
-                onPress={() => setScaleMultiplier(multiplier)}
-              >
-                <Text style={[
-                  styles.scaleButtonText,
-                  scaleMultiplier === multiplier && styles.scaleButtonTextActive
-                ]}>
-                  {multiplier === 0.5 ? '½x' : `${multiplier}x`}
-                </Text>
-                <Text style={[
-                  styles.scaleButtonSubtext,
-                  scaleMultiplier === multiplier && styles.scaleButtonSubtextActive
-                ]}>
-                  {Math.round(servings * multiplier)} servings
-                </Text>
-              </TouchableOpacity>
-            ))}
+            {[0.5, 1, 2, 3].map((multiplier) => {
+              const presetServings = Math.max(1, Math.round(servings * multiplier));
+              const isActive = targetServings === presetServings;
+              return (
+                <TouchableOpacity
+                  key={multiplier}
+                  style={[
+                    styles.scaleButton,
+                    isActive && styles.scaleButtonActive
+                  ]}
+                  onPress={() => setTargetServings(presetServings)}
+                >
+                  <Text style={[
+                    styles.scaleButtonText,
+                    isActive && styles.scaleButtonTextActive
+                  ]}>
+                    {multiplier === 0.5 ? '½x' : `${multiplier}x`}
+                  </Text>
+                  <Text style={[
+                    styles.scaleButtonSubtext,
+                    isActive && styles.scaleButtonSubtextActive
+                  ]}>
+                    {presetServings} servings
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
-          {scaleMultiplier !== 1 && (
+          {scaleFactor !== 1 && (
             <View style={styles.scaleIndicator}>
               <Text style={styles.scaleIndicatorText}>
-                🍴 Making {scaleMultiplier === 0.5 ? 'half' : `${scaleMultiplier}x`} the original recipe
+                🍴 Making {targetServings} servings instead of {servings}
               </Text>
+              {scalingNotes.map((note, index) => (
+                <Text key={index} style={styles.scaleNoteText}>
+                  • {note.message}
+                </Text>
+              ))}
             </View>
           )}
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Ingredients</Text>
-          {recipe.ingredients.map((ingredient, index) => {
-            const ingredientText = typeof ingredient === 'string' ? ingredient : `${ingredient.amount || ''} ${ingredient.unit || ''} ${ingredient.name}`.trim();
-            return (
-              <View key={index} style={styles.ingredientItem}>
-                <Text style={styles.ingredientText}>
-                  {scaleMultiplier !== 1 ? scaleIngredient(ingredientText, scaleMultiplier) : ingredientText}
-                </Text>
-              </View>
-            );
-          })}
+          {ingredientLines.map((ingredientText, index) => (
+            <View key={index} style={styles.ingredientItem}>
+              <Text style={styles.ingredientText}>
+                {ingredientText}
+              </Text>
+            </View>
+          ))}
         </View>
 
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Instructions</Text>
-          {(recipe.instructions || recipe.steps?.map(s => s.step) || []).map((instruction, index) => (
+          {instructionTexts.map((instruction, index) => (
             <View key={index} style={styles.instructionItem}>
               <View style={styles.stepNumber}>
                 <Text style={styles.stepNumberText}>{index + 1}</Text>
               </View>
-              <Text style={styles.instructionText}>{instruction}</Text>
+              <View style={styles.instructionBody}>
+                <Text style={styles.instructionText}>{instruction}</Text>
+                {renderStepSafetyFlags(getStepSafetyFlags(safetyFlags, index))}
+              </View>
             </View>
           ))}
         </View>
@@ -592,10 +712,17 @@ export default function RecipeDetailScreen() {
             )}
           </TouchableOpacity>
 
+          <TouchableOpacity style={styles.shoppingListButton} onPress={handleAddToShoppingList}>
+            <Text style={styles.shoppingListButtonText}>🛒 Add to Shopping List</Text>
+          </TouchableOpacity>
+
           <View style={styles.secondaryActions}>
             <TouchableOpacity style={styles.secondaryButton} onPress={handleShare}>
               <Text style={styles.secondaryButtonText}>📤 Share</Text>
             </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={handlePrintCard}>
+              <Text style={styles.secondaryButtonText}>🖨️ Print</Text>
+            </TouchableOpacity>
             <TouchableOpacity style={styles.secondaryButton} onPress={handleEdit}>
               <Text style={styles.secondaryButtonText}>✏️ Edit</Text>
             </TouchableOpacity>
@@ -621,6 +748,43 @@ export default function RecipeDetailScreen() {
   );
 }
 
+const SAFETY_SEVERITY_LABELS: Record<SafetySeverity, string> = {
+  caution: 'heads up',
+  supervise: 'supervise kids',
+  adult_only: 'grown-up only',
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+// One line per distinct trigger in the step, e.g. "⚠️ Hot oil — grown-up only"
+const renderStepSafetyFlags = (flags: SafetyFlag[]) => {
+  const seen = new Set<string>();
+  const uniqueFlags = flags.filter(flag => {
+    const key = flag.found.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  if (uniqueFlags.length === 0) return null;
+
+  return (
+    <View style={styles.stepSafetyFlags}>
+      {uniqueFlags.map(flag => (
+        <Text
+          key={`${flag.span.start}-${flag.found}`}
+          style={[
+            styles.stepSafetyFlag,
+            flag.severity === 'adult_only' && styles.stepSafetyFlagAdultOnly,
+            flag.severity === 'caution' && styles.stepSafetyFlagCaution,
+          ]}
+        >
+          ⚠️ {capitalize(flag.found.toLowerCase())} — {SAFETY_SEVERITY_LABELS[flag.severity]}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -783,6 +947,41 @@ const styles = StyleSheet.create({
     color: '#92400e',
     fontWeight: '600',
   },
+  scaleNoteText: {
+    fontSize: 13,
+    color: '#92400e',
+    marginTop: 6,
+    alignSelf: 'stretch',
+  },
+  servingsStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 20,
+    marginBottom: 15,
+  },
+  stepperButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#eff6ff',
+    borderWidth: 2,
+    borderColor: '#2563eb',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperButtonText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#2563eb',
+  },
+  stepperValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1f2937',
+    minWidth: 110,
+    textAlign: 'center',
+  },
   ingredientItem: {
     backgroundColor: '#f8fafc',
     padding: 12,
@@ -812,12 +1011,37 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: 'white',
   },
-  instructionText: {
+  instructionBody: {
     flex: 1,
+  },
+  instructionText: {
     fontSize: 16,
     color: '#1f2937',
     lineHeight: 24,
   },
+  stepSafetyFlags: {
+    marginTop: 6,
+    gap: 4,
+  },
+  stepSafetyFlag: {
+    alignSelf: 'flex-start',
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#b45309',
+    backgroundColor: '#fef3c7',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  stepSafetyFlagAdultOnly: {
+    color: '#b91c1c',
+    backgroundColor: '#fee2e2',
+  },
+  stepSafetyFlagCaution: {
+    color: '#4b5563',
+    backgroundColor: '#f3f4f6',
+  },
   actions: {
     padding: 20,
     paddingBottom: 40,
@@ -881,6 +1105,20 @@ const styles = StyleSheet.create({
   loadingIndicator: {
     marginRight: 8,
   },
+  shoppingListButton: {
+    backgroundColor: 'white',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#2563eb',
+    marginBottom: 12,
+  },
+  shoppingListButtonText: {
+    color: '#2563eb',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   secondaryActions: {
     flexDirection: 'row',
     gap: 10,
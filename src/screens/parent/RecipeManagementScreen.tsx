@@ -27,7 +27,7 @@ interface KidRecipe {
 }
 
 export default function RecipeManagementScreen() {
-  const { user, kidProfiles } = useAuth();
+  const { user, kidProfiles, requestUnlock } = useAuth();
   const [kidRecipes, setKidRecipes] = useState<KidRecipe[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -123,6 +123,8 @@ export default function RecipeManagementScreen() {
 
   const deleteRecipe = async (recipe: KidRecipe) => {
     if (deletingRecipes.has(recipe.id)) return;
+    // Parents can require a grown-up check so a kid left on parent mode can't delete recipes
+    if (!(await requestUnlock('deleteKidRecipe'))) return;
 
     setDeletingRecipes(prev => new Set(prev.add(recipe.id)));
 
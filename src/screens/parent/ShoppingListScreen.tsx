@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+  TextInput,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuth } from '../../contexts/AuthContext';
+import { useShoppingList, useSaveShoppingList } from '../../hooks/useShoppingList';
+import { familyMealService } from '../../services/familyMeals';
+import { recipeService } from '../../services/recipes';
+import { formatIngredient, parseIngredientLine } from '../../utils/ingredientParser';
+import { getUnitPreferences } from '../../utils/unitConversion';
+import {
+  getAisle,
+  groupByAisle,
+  mergeShoppingItems,
+  recipesToShoppingItems,
+} from '../../utils/shoppingList';
+import type { ShoppingListItem } from '../../types';
+
+export default function ShoppingListScreen() {
+  const { user, parentProfile } = useAuth();
+  const { data: items = [], isLoading } = useShoppingList(parentProfile?.id);
+  const saveList = useSaveShoppingList(parentProfile?.id);
+  const [newItemText, setNewItemText] = useState('');
+  const [addingMeals, setAddingMeals] = useState(false);
+
+  const { system } = getUnitPreferences(parentProfile?.settings);
+  const checkedCount = items.filter(item => item.checked).length;
+
+  const toggleItem = (itemId: string) => {
+    saveList.mutate(items.map(item =>
+      item.id === itemId ? { ...item, checked: !item.checked } : item
+    ));
+  };
+
+  const removeItem = (item: ShoppingListItem) => {
+    Alert.alert('Remove Item', `Remove ${item.name} from the list?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => saveList.mutate(items.filter(existing => existing.id !== item.id)),
+      },
+    ]);
+  };
+
+  const addManualItem = () => {
+    const text = newItemText.trim();
+    if (!text) return;
+
+    const parsed = parseIngredientLine(text);
+    const item: ShoppingListItem = {
+      id: `manual-${Date.now()}`,
+      name: parsed.name,
+      aisle: getAisle(parsed.name),
+      checked: false,
+      recipeIds: [],
+      isManual: true,
+    };
+    if (parsed.amount !== undefined) item.amount = parsed.amount;
+    if (parsed.unit) item.unit = parsed.unit;
+
+    saveList.mutate(mergeShoppingItems([...items, item], system));
+    setNewItemText('');
+  };
+
+  const addThisWeeksMeals = async () => {
+    if (!user || !parentProfile) return;
+
+    try {
+      setAddingMeals(true);
+      const [meals, recipes] = await Promise.all([
+        familyMealService.getMealsForWeek(parentProfile.id, new Date()),
+        recipeService.getUserRecipes(user.uid),
+      ]);
+
+      const plannedIds = new Set(
+        meals.filter(meal => meal.status !== 'completed').flatMap(meal => meal.recipeIds)
+      );
+      const plannedRecipes = recipes.filter(recipe => plannedIds.has(recipe.id));
+
+      if (plannedRecipes.length === 0) {
+        Alert.alert('Nothing Planned', 'Add some recipes to this week\'s meal plan first.');
+        return;
+      }
+
+      saveList.mutate(mergeShoppingItems([...items, ...recipesToShoppingItems(plannedRecipes)], system));
+    } catch (error) {
+      console.error('Error adding meals to shopping list:', error);
+      Alert.alert('Error', 'Failed to add this week\'s meals');
+    } finally {
+      setAddingMeals(false);
+    }
+  };
+
+  const clearChecked = () => {
+    saveList.mutate(items.filter(item => !item.checked));
+  };
+
+  const clearAll = () => {
+    Alert.alert('Clear List', 'Remove every item from the shopping list?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => saveList.mutate([]) },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#2563eb" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Shopping List</Text>
+          <Text style={styles.subtitle}>
+            {items.length === 0 ? 'Your list is empty' : `${checkedCount} of ${items.length} items in the cart`}
+          </Text>
+        </View>
+
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={newItemText}
+            onChangeText={setNewItemText}
+            placeholder="Add an item, e.g. 2 lb apples"
+            returnKeyType="done"
+            onSubmitEditing={addManualItem}
+          />
+          <TouchableOpacity style={styles.addButton} onPress={addManualItem}>
+            <Text style={styles.addButtonText}>Add</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.mealsButton, addingMeals && styles.disabledButton]}
+          onPress={addThisWeeksMeals}
+          disabled={addingMeals}
+        >
+          <Text style={styles.mealsButtonText}>
+            {addingMeals ? 'Adding...' : '📅 Add This Week\'s Meals'}
+          </Text>
+        </TouchableOpacity>
+
+        {groupByAisle(items).map(section => (
+          <View key={section.aisle} style={styles.section}>
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+            {section.items.map(item => (
+              <TouchableOpacity
+                key={item.id}
+                style={styles.itemRow}
+                onPress={() => toggleItem(item.id)}
+                onLongPress={() => removeItem(item)}
+              >
+                <Text style={styles.checkbox}>{item.checked ? '☑️' : '⬜'}</Text>
+                <Text style={[styles.itemText, item.checked && styles.itemTextChecked]}>
+                  {formatIngredient({ id: item.id, name: item.name, amount: item.amount, unit: item.unit, order: 0 })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ))}
+
+        {items.length > 0 && (
+          <View style={styles.footerActions}>
+            {checkedCount > 0 && (
+              <TouchableOpacity style={styles.secondaryButton} onPress={clearChecked}>
+                <Text style={styles.secondaryButtonText}>Clear Checked</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.dangerButton} onPress={clearAll}>
+              <Text style={styles.dangerButtonText}>Clear All</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  addButton: {
+    backgroundColor: '#2563eb',
+    borderRadius: 8,
+    paddingHorizontal: 18,
+    justifyContent: 'center',
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  mealsButton: {
+    backgroundColor: '#eff6ff',
+    borderWidth: 1,
+    borderColor: '#2563eb',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  mealsButtonText: {
+    color: '#2563eb',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  section: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f3f4f6',
+  },
+  checkbox: {
+    fontSize: 18,
+    marginRight: 12,
+  },
+  itemText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1f2937',
+  },
+  itemTextChecked: {
+    color: '#9ca3af',
+    textDecorationLine: 'line-through',
+  },
+  footerActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+    marginBottom: 40,
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: 'white',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  dangerButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#fecaca',
+    backgroundColor: '#fef2f2',
+    alignItems: 'center',
+  },
+  dangerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#ef4444',
+  },
+});
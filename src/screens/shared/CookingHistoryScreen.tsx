@@ -0,0 +1,394 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Image } from 'expo-image';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRoute, useNavigation, useFocusEffect } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../../contexts/AuthContext';
+import { cookingSessionService, toSessionDate } from '../../services/cookingSessions';
+import { recipeService } from '../../services/recipes';
+import type { CookingSession, KidProfile, RootStackParamList } from '../../types';
+
+type CookingHistoryParams = { kidId?: string };
+
+const formatDuration = (session: CookingSession): string | null => {
+  if (!session.completedAt) return null;
+  const minutes = Math.round(
+    (toSessionDate(session.completedAt).getTime() - toSessionDate(session.startedAt).getTime()) / 60000
+  );
+  if (minutes < 1) return 'under a minute';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} hr ${rest} min` : `${hours} hr`;
+};
+
+export default function CookingHistoryScreen() {
+  const route = useRoute();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { kidProfiles, currentKid, deviceMode, selectKid, setDeviceMode } = useAuth();
+  const { kidId: initialKidId } = (route.params || {}) as CookingHistoryParams;
+
+  const isKidMode = deviceMode === 'kid';
+  const [selectedKidId, setSelectedKidId] = useState<string | null>(
+    isKidMode ? currentKid?.id || null : initialKidId || null
+  );
+  const [selectedRecipeId, setSelectedRecipeId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<CookingSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Kids only ever see their own history
+  const visibleKids: KidProfile[] = isKidMode
+    ? (currentKid ? [currentKid] : [])
+    : kidProfiles;
+
+  useFocusEffect(
+    useCallback(() => {
+      loadHistory();
+    }, [kidProfiles, currentKid, deviceMode])
+  );
+
+  const loadHistory = async () => {
+    try {
+      setLoading(true);
+      const perKid = await Promise.all(
+        visibleKids.map(kid => cookingSessionService.getSessionsForKid(kid.id))
+      );
+      const completed = perKid
+        .flat()
+        .filter(session => !!session.completedAt)
+        .sort((a, b) => toSessionDate(b.completedAt!).getTime() - toSessionDate(a.completedAt!).getTime());
+      setSessions(completed);
+    } catch (error) {
+      console.error('Error loading cooking history:', error);
+      Alert.alert('Error', 'Failed to load cooking history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const kidSessions = selectedKidId
+    ? sessions.filter(session => session.kidId === selectedKidId)
+    : sessions;
+
+  // Recipe filter options come from whatever the selected kid(s) have actually cooked
+  const recipeOptions = Array.from(
+    new Map(kidSessions.map(session => [session.recipeId, session.recipeTitle || 'Recipe'])).entries()
+  );
+
+  const filteredSessions = selectedRecipeId
+    ? kidSessions.filter(session => session.recipeId === selectedRecipeId)
+    : kidSessions;
+
+  const handleSelectKid = (kidId: string | null) => {
+    setSelectedKidId(kidId);
+    setSelectedRecipeId(null);
+  };
+
+  const handleCookAgain = async (session: CookingSession) => {
+    if (isKidMode) {
+      navigation.navigate('RecipeView', { recipeId: session.recipeId, kidId: session.kidId });
+      return;
+    }
+
+    const kid = kidProfiles.find(k => k.id === session.kidId);
+    if (!kid) return;
+
+    Alert.alert(
+      'Cook Again',
+      `Switch to Kid Mode so ${kid.name} can make ${session.recipeTitle || 'this recipe'} again? It will be waiting under "Keep Cooking".`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Switch to Kid Mode',
+          onPress: async () => {
+            try {
+              const recipe = await recipeService.getRecipe(session.recipeId);
+              if (!recipe) {
+                Alert.alert('Recipe Not Found', 'This recipe has been deleted.');
+                return;
+              }
+              await cookingSessionService.startSession(kid.id, recipe, session.totalSteps, session.kidRecipeId);
+              setDeviceMode('kid');
+              selectKid(kid.id);
+            } catch (error) {
+              console.error('Error starting cook again session:', error);
+              Alert.alert('Error', 'Failed to set up the recipe. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderSession = (session: CookingSession) => {
+    const kid = kidProfiles.find(k => k.id === session.kidId) || (currentKid?.id === session.kidId ? currentKid : undefined);
+    const completedAt = toSessionDate(session.completedAt!);
+    const duration = formatDuration(session);
+
+    return (
+      <View key={session.id} style={styles.sessionCard}>
+        <View style={styles.sessionHeader}>
+          <Text style={styles.sessionEmoji}>
+            {session.recipeImage && !session.recipeImage.startsWith('http') ? session.recipeImage : '🍽️'}
+          </Text>
+          <View style={styles.sessionInfo}>
+            <Text style={styles.sessionTitle}>{session.recipeTitle || 'Recipe'}</Text>
+            <Text style={styles.sessionMeta}>
+              {!isKidMode && kid ? `${kid.avatarEmoji || '👶'} ${kid.name} • ` : ''}
+              {completedAt.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+              {duration ? ` • ${duration}` : ''}
+            </Text>
+          </View>
+        </View>
+
+        {session.rating ? (
+          <Text style={styles.rating}>{'⭐'.repeat(session.rating)}</Text>
+        ) : null}
+
+        {session.notes ? (
+          <Text style={styles.notes}>“{session.notes}”</Text>
+        ) : null}
+
+        {session.photos && session.photos.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.photoRow}>
+            {session.photos.map(photo => (
+              <Image
+                key={photo}
+                source={{ uri: photo }}
+                style={styles.photo}
+                contentFit="cover"
+                cachePolicy="memory-disk"
+              />
+            ))}
+          </ScrollView>
+        )}
+
+        <TouchableOpacity style={styles.cookAgainButton} onPress={() => handleCookAgain(session)}>
+          <Text style={styles.cookAgainText}>🔁 Cook Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{isKidMode ? 'My Cooking' : 'Cooking History'}</Text>
+          <Text style={styles.subtitle}>
+            {isKidMode ? 'Everything you\'ve made so far!' : 'What your kids have actually cooked'}
+          </Text>
+        </View>
+
+        {!isKidMode && kidProfiles.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !selectedKidId && styles.chipActive]}
+              onPress={() => handleSelectKid(null)}
+            >
+              <Text style={[styles.chipText, !selectedKidId && styles.chipTextActive]}>All Kids</Text>
+            </TouchableOpacity>
+            {kidProfiles.map(kid => (
+              <TouchableOpacity
+                key={kid.id}
+                style={[styles.chip, selectedKidId === kid.id && styles.chipActive]}
+                onPress={() => handleSelectKid(kid.id)}
+              >
+                <Text style={[styles.chipText, selectedKidId === kid.id && styles.chipTextActive]}>
+                  {kid.avatarEmoji || '👶'} {kid.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {recipeOptions.length > 1 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            <TouchableOpacity
+              style={[styles.chip, !selectedRecipeId && styles.chipActive]}
+              onPress={() => setSelectedRecipeId(null)}
+            >
+              <Text style={[styles.chipText, !selectedRecipeId && styles.chipTextActive]}>All Recipes</Text>
+            </TouchableOpacity>
+            {recipeOptions.map(([recipeId, title]) => (
+              <TouchableOpacity
+                key={recipeId}
+                style={[styles.chip, selectedRecipeId === recipeId && styles.chipActive]}
+                onPress={() => setSelectedRecipeId(recipeId)}
+              >
+                <Text style={[styles.chipText, selectedRecipeId === recipeId && styles.chipTextActive]}>{title}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#2563eb" />
+          </View>
+        ) : filteredSessions.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyEmoji}>📖</Text>
+            <Text style={styles.emptyTitle}>Nothing cooked yet</Text>
+            <Text style={styles.emptyText}>
+              Finished recipes will show up here with notes and ratings.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.countText}>
+              {filteredSessions.length} {filteredSessions.length === 1 ? 'recipe' : 'recipes'} cooked
+            </Text>
+            {filteredSessions.map(renderSession)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1f2937',
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#6b7280',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    marginRight: 8,
+  },
+  chipActive: {
+    backgroundColor: '#2563eb',
+    borderColor: '#2563eb',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  chipTextActive: {
+    color: 'white',
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    paddingVertical: 40,
+    alignItems: 'center',
+  },
+  countText: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginBottom: 10,
+  },
+  sessionCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+  },
+  sessionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sessionEmoji: {
+    fontSize: 32,
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1f2937',
+  },
+  sessionMeta: {
+    fontSize: 14,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+  rating: {
+    fontSize: 16,
+    marginTop: 10,
+  },
+  notes: {
+    fontSize: 15,
+    color: '#374151',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  photoRow: {
+    marginTop: 10,
+  },
+  photo: {
+    width: 90,
+    height: 90,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  cookAgainButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#ecfdf5',
+    alignItems: 'center',
+  },
+  cookAgainText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#047857',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyEmoji: {
+    fontSize: 48,
+    marginBottom: 12,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1f2937',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#6b7280',
+    textAlign: 'center',
+  },
+});
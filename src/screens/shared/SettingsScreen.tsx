@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -7,20 +7,37 @@ import {
   Switch,
   ScrollView,
   Alert,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAuth } from '../../contexts/AuthContext';
+import { recipeTransferService } from '../../services/recipeTransfer';
 import { PinChangeModal } from '../../components/PinChangeModal';
+import PinInput from '../../components/PinInput';
+import { getUnitPreferences } from '../../utils/unitConversion';
+import { unlockProviders, getUnlockSetting, GUARDED_ACTION_LABELS } from '../../services/unlockProviders';
+import type { UserSettings, RootStackParamList, GuardedAction, UnlockSetting } from '../../types';
+
+const GUARDED_ACTIONS: GuardedAction[] = ['exitKidMode', 'approveCompletion', 'deleteKidRecipe'];
 
 export default function SettingsScreen() {
   const [safetyNotes, setSafetyNotes] = useState(true);
-  const [readAloud, setReadAloud] = useState(true);
   const [autoSimplify, setAutoSimplify] = useState(false);
   const [notifications, setNotifications] = useState(true);
   const [darkMode, setDarkMode] = useState(false);
   const [showPinChangeModal, setShowPinChangeModal] = useState(false);
+  const [showPinReset, setShowPinReset] = useState(false);
+  const [biometricAvailable, setBiometricAvailable] = useState(false);
+
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { user, parentProfile, kidProfiles, hasKidModePin, changePIN, verifyParentPin, resetKidModePin, signOut, updateParentProfile } = useAuth();
+  const unitPreferences = getUnitPreferences(parentProfile?.settings);
 
-  const { user, parentProfile, changePIN, signOut } = useAuth();
+  useEffect(() => {
+    unlockProviders.biometric.isAvailable({ hasKidModePin }).then(setBiometricAvailable);
+  }, [hasKidModePin]);
 
   const handleSignOut = () => {
     Alert.alert(
@@ -47,7 +64,7 @@ export default function SettingsScreen() {
   };
 
   const handleChangePIN = () => {
-    if (!parentProfile?.kidModePin) {
+    if (!hasKidModePin) {
       Alert.alert(
         'No PIN Set',
         'You need to create a kid profile first to set up a PIN.',
@@ -58,14 +75,71 @@ export default function SettingsScreen() {
     setShowPinChangeModal(true);
   };
 
-  const handlePinChanged = async (newPin: string) => {
+  const handlePinChanged = async (newPin: string, currentPin: string) => {
     try {
-      await changePIN(newPin);
+      await changePIN(newPin, currentPin);
     } catch (error: any) {
       throw new Error(error.message || 'Failed to change PIN');
     }
   };
 
+  // The whole collection, with every kid's versions, as one file to keep as a backup
+  const handleExportRecipes = async () => {
+    if (!user?.uid) return;
+    try {
+      const message = await recipeTransferService.exportCollection(user.uid, kidProfiles.map(kid => kid.id));
+      await Share.share({ title: 'KidChef Recipes', message });
+    } catch (error) {
+      console.error('Error exporting recipes:', error);
+      Alert.alert('Error', 'Failed to export your recipes. Please try again.');
+    }
+  };
+
+  const handleSettingChange = async (updates: Partial<UserSettings>) => {
+    if (!parentProfile) return;
+
+    try {
+      await updateParentProfile({ settings: { ...parentProfile.settings, ...updates } });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      Alert.alert('Error', 'Failed to save your setting. Please try again.');
+    }
+  };
+
+  const handleUnlockMethodChange = (action: GuardedAction, setting: UnlockSetting) => {
+    if (setting === 'pin' && !hasKidModePin) {
+      Alert.alert('No PIN Set', 'Set a kid mode PIN first; until then this action won\'t be checked.');
+    }
+    handleSettingChange({
+      unlockMethods: { ...parentProfile?.settings?.unlockMethods, [action]: setting },
+    });
+  };
+
+  // One row per guarded action, with a chip for each way to unlock it
+  const renderUnlockMethodRow = (action: GuardedAction) => {
+    const current = getUnlockSetting(parentProfile?.settings, action);
+    const options: UnlockSetting[] = ['pin', ...(biometricAvailable ? ['biometric' as const] : []), 'password', 'none'];
+
+    return (
+      <View key={action} style={styles.unlockRow}>
+        <Text style={styles.settingTitle}>{GUARDED_ACTION_LABELS[action]}</Text>
+        <View style={styles.unlockOptions}>
+          {options.map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.unlockOption, current === option && styles.unlockOptionActive]}
+              onPress={() => handleUnlockMethodChange(action, option)}
+            >
+              <Text style={[styles.unlockOptionText, current === option && styles.unlockOptionTextActive]}>
+                {option === 'none' ? 'No Check' : `${unlockProviders[option].icon} ${unlockProviders[option].label}`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
   const SettingItem = ({
     title,
     description,
@@ -114,7 +188,21 @@ export default function SettingsScreen() {
         visible={showPinChangeModal}
         onClose={() => setShowPinChangeModal(false)}
         onPinChanged={handlePinChanged}
-        currentPin={parentProfile?.kidModePin}
+        verifyCurrentPin={verifyParentPin}
+        onForgotPin={() => {
+          setShowPinChangeModal(false);
+          setShowPinReset(true);
+        }}
+      />
+      <PinInput
+        visible={showPinReset}
+        onClose={() => setShowPinReset(false)}
+        onSuccess={() => {
+          setShowPinReset(false);
+          Alert.alert('Success', 'Your PIN has been reset.');
+        }}
+        onResetPin={resetKidModePin}
+        mode="reset"
       />
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.header}>
@@ -136,11 +224,19 @@ export default function SettingsScreen() {
           <SettingItem
             title="Enable Read-Aloud Mode"
             description="Kids can hear instructions spoken out loud"
-            value={readAloud}
-            onValueChange={setReadAloud}
+            value={!!parentProfile?.settings?.readAloud}
+            onValueChange={(value) => handleSettingChange({ readAloud: value })}
             icon="🔊"
           />
 
+          <SettingItem
+            title="Hands-Free Cooking"
+            description="Read each step automatically as kids move through a recipe"
+            value={!!parentProfile?.settings?.enableVoiceInstructions}
+            onValueChange={(value) => handleSettingChange({ enableVoiceInstructions: value })}
+            icon="🙌"
+          />
+
           <SettingItem
             title="Auto-Simplify Recipes"
             description="Automatically convert all recipes to kid-friendly versions"
@@ -156,17 +252,25 @@ export default function SettingsScreen() {
             <View style={styles.settingContent}>
               <Text style={styles.settingTitle}>Kid Mode PIN</Text>
               <Text style={styles.settingDescription}>
-                {parentProfile?.kidModePin
+                {hasKidModePin
                   ? 'Tap to change your PIN for exiting kid mode'
                   : 'Set up when creating your first kid profile'}
               </Text>
             </View>
-            {parentProfile?.kidModePin && (
+            {hasKidModePin && (
               <Text style={styles.settingAction}>Change</Text>
             )}
           </TouchableOpacity>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Grown-Up Checks</Text>
+          <Text style={styles.sectionDescription}>
+            Choose how a grown-up proves it's them. The account password always works as a backup.
+          </Text>
+          {GUARDED_ACTIONS.map(renderUnlockMethodRow)}
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>General</Text>
 
@@ -178,6 +282,22 @@ export default function SettingsScreen() {
             icon="🔔"
           />
 
+          <SettingItem
+            title="Metric Measurements"
+            description="Show grams and milliliters instead of cups and ounces"
+            value={unitPreferences.system === 'metric'}
+            onValueChange={(value) => handleSettingChange({ measurementSystem: value ? 'metric' : 'us' })}
+            icon="⚖️"
+          />
+
+          <SettingItem
+            title="Celsius Temperatures"
+            description="Show oven temperatures in °C instead of °F"
+            value={unitPreferences.temperatureUnit === 'celsius'}
+            onValueChange={(value) => handleSettingChange({ temperatureUnit: value ? 'celsius' : 'fahrenheit' })}
+            icon="🌡️"
+          />
+
           <SettingItem
             title="Dark Mode"
             description="Switch to dark theme"
@@ -199,7 +319,13 @@ export default function SettingsScreen() {
           <ActionButton
             title="Export Recipes"
             icon="📤"
-            onPress={() => console.log('Export recipes')}
+            onPress={handleExportRecipes}
+          />
+
+          <ActionButton
+            title="Import Recipes"
+            icon="📥"
+            onPress={() => navigation.navigate('PasteRecipe')}
           />
 
           <ActionButton
@@ -373,4 +499,41 @@ const styles = StyleSheet.create({
     color: '#2563eb',
     fontWeight: '600',
   },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#6b7280',
+    paddingHorizontal: 20,
+    paddingBottom: 10,
+  },
+  unlockRow: {
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  unlockOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  unlockOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e7eb',
+    backgroundColor: '#f9fafb',
+  },
+  unlockOptionActive: {
+    borderColor: '#2563eb',
+    backgroundColor: '#eff6ff',
+  },
+  unlockOptionText: {
+    fontSize: 13,
+    color: '#374151',
+  },
+  unlockOptionTextActive: {
+    color: '#2563eb',
+    fontWeight: '600',
+  },
 });
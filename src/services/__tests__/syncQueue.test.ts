@@ -0,0 +1,182 @@
+/**
+ * @jest-environment node
+ *
+ * Firestore's React Native build doesn't load under jest; its Node build does
+ */
+import { deleteDoc, deleteField, getDoc, increment, serverTimestamp, setDoc, Timestamp, updateDoc } from 'firebase/firestore';
+import { offlineStore } from '../offlineStore';
+import { coalesce, syncQueueService, toQueuedUpdate, SyncMutation } from '../syncQueue';
+
+let mockOnline = true;
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('firebase/firestore', () => ({
+  ...jest.requireActual('firebase/firestore'),
+  doc: jest.fn((_db, collection: string, id: string) => ({ path: `${collection}/${id}` })),
+  getDoc: jest.fn(),
+  setDoc: jest.fn(),
+  updateDoc: jest.fn(),
+  deleteDoc: jest.fn(),
+}));
+jest.mock('../firebase', () => ({ db: {} }));
+jest.mock('../cacheService', () => ({ cacheService: { clearAll: jest.fn() } }));
+jest.mock('../networkStatus', () => ({
+  networkStatusService: {
+    isOnline: () => mockOnline,
+    subscribe: () => () => {},
+  },
+}));
+
+const mutation = (overrides: Partial<SyncMutation>): SyncMutation => ({
+  id: 'sync_1',
+  op: 'update',
+  collection: 'recipes',
+  docId: 'recipe-1',
+  queuedAt: 1000,
+  attempts: 0,
+  ...overrides,
+});
+
+describe('toQueuedUpdate', () => {
+  test('sends deleteField() as a field name and drops undefined', () => {
+    expect(toQueuedUpdate({ title: 'Pancakes', notes: deleteField(), servings: undefined }))
+      .toEqual({ data: { title: 'Pancakes' }, deleteFields: ['notes'] });
+  });
+
+  test.each([
+    ['serverTimestamp()', serverTimestamp()],
+    ['increment()', increment(1)],
+  ])('refuses %s', (_, value) => {
+    expect(() => toQueuedUpdate({ title: 'Pancakes', updatedAt: value })).toThrow('updatedAt');
+  });
+});
+
+describe('coalesce', () => {
+  test('folds an update into a queued add', () => {
+    const add = mutation({ op: 'add', data: { title: 'Pancakes', servings: 4 } });
+    const update = mutation({ id: 'sync_2', data: { servings: 6 }, queuedAt: 2000 });
+
+    expect(coalesce(add, update)).toEqual({
+      ...add,
+      id: 'sync_2',
+      data: { title: 'Pancakes', servings: 6 },
+      deleteFields: undefined,
+      queuedAt: 2000,
+    });
+  });
+
+  test('drops an add that is deleted before it syncs', () => {
+    expect(coalesce(mutation({ op: 'add', data: {} }), mutation({ id: 'sync_2', op: 'delete' }))).toBeNull();
+  });
+
+  test('replaces an update with a delete', () => {
+    const remove = mutation({ id: 'sync_2', op: 'delete' });
+    expect(coalesce(mutation({ data: { title: 'Pancakes' } }), remove)).toBe(remove);
+  });
+
+  test('merges field deletions across updates', () => {
+    const first = mutation({ data: { title: 'Pancakes' }, deleteFields: ['notes', 'image'] });
+    const second = mutation({ id: 'sync_2', data: { image: 'new.jpg' }, deleteFields: ['title'], queuedAt: 2000 });
+
+    expect(coalesce(first, second)).toMatchObject({
+      id: 'sync_2',
+      data: { image: 'new.jpg' },
+      deleteFields: ['notes', 'title'],
+      queuedAt: 2000,
+    });
+  });
+
+  test('lets a set replace a queued update', () => {
+    const set = mutation({ id: 'sync_2', op: 'set', data: { title: 'Waffles' } });
+    expect(coalesce(mutation({ data: { title: 'Pancakes' } }), set)).toBe(set);
+  });
+});
+
+describe('syncQueueService replay', () => {
+  const serverCopy = (data: Record<string, any> | null) => {
+    (getDoc as jest.Mock).mockResolvedValue({ exists: () => !!data, data: () => data });
+  };
+
+  // Queues the change offline, then comes back online and replays it
+  const replay = async (change: Parameters<typeof syncQueueService.enqueue>[0]) => {
+    mockOnline = false;
+    syncQueueService.enqueue(change);
+    mockOnline = true;
+    await syncQueueService.flush();
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockOnline = true;
+    syncQueueService.stop();
+    await syncQueueService.start('parent-1');
+  });
+
+  afterEach(() => {
+    syncQueueService.stop();
+    jest.restoreAllMocks();
+  });
+
+  test('writes a queued add with its idempotency key', async () => {
+    serverCopy(null);
+    await replay({ op: 'add', collection: 'recipes', docId: 'recipe-1', data: { title: 'Pancakes' } });
+
+    expect(setDoc).toHaveBeenCalledWith({ path: 'recipes/recipe-1' }, { title: 'Pancakes', lastMutationId: expect.stringMatching(/^sync_/) });
+    expect(syncQueueService.getStatus().pending).toBe(0);
+  });
+
+  test('skips a change the server already has', async () => {
+    mockOnline = false;
+    syncQueueService.enqueue({ op: 'set', collection: 'recipes', docId: 'recipe-1', data: { title: 'Pancakes' } });
+    const setDocCalls = (setDoc as jest.Mock).mock.calls.length;
+    mockOnline = true;
+    (getDoc as jest.Mock).mockImplementation(async () => ({
+      exists: () => true,
+      data: () => ({ lastMutationId: syncQueueService['mutations'][0].id }),
+    }));
+    await syncQueueService.flush();
+
+    expect((setDoc as jest.Mock).mock.calls.length).toBe(setDocCalls);
+    expect(syncQueueService.getStatus().pending).toBe(0);
+  });
+
+  test('turns queued field deletions back into deleteField()', async () => {
+    serverCopy({ title: 'Pancakes', notes: 'Old', updatedAt: Timestamp.fromMillis(0) });
+    await replay({ op: 'update', collection: 'recipes', docId: 'recipe-1', data: { title: 'Waffles' }, deleteFields: ['notes'] });
+
+    const [, updates] = (updateDoc as jest.Mock).mock.calls[0];
+    expect(updates.title).toBe('Waffles');
+    expect(updates.notes.isEqual(deleteField())).toBe(true);
+    expect(updates.updatedAt).toBeInstanceOf(Timestamp);
+  });
+
+  test('keeps a newer server copy and records the conflict', async () => {
+    serverCopy({ title: 'Edited elsewhere', updatedAt: Timestamp.fromMillis(Date.now() + 60 * 1000) });
+    await replay({ op: 'update', collection: 'recipes', docId: 'recipe-1', data: { title: 'Waffles' } });
+
+    expect(updateDoc).not.toHaveBeenCalled();
+    expect(syncQueueService.getStatus().conflicts).toMatchObject([{ collection: 'recipes', docId: 'recipe-1', op: 'update' }]);
+    expect(await offlineStore.getDoc('recipes', 'recipe-1')).toMatchObject({ title: 'Edited elsewhere' });
+  });
+
+  test('drops an update to a document deleted elsewhere', async () => {
+    serverCopy(null);
+    await replay({ op: 'update', collection: 'recipes', docId: 'recipe-1', data: { title: 'Waffles' } });
+
+    expect(updateDoc).not.toHaveBeenCalled();
+    expect(syncQueueService.getStatus().conflicts).toHaveLength(1);
+  });
+
+  test('deletes only documents that still exist', async () => {
+    serverCopy(null);
+    await replay({ op: 'delete', collection: 'recipes', docId: 'recipe-1' });
+    expect(deleteDoc).not.toHaveBeenCalled();
+
+    serverCopy({ title: 'Pancakes', updatedAt: Timestamp.fromMillis(0) });
+    await replay({ op: 'delete', collection: 'recipes', docId: 'recipe-2' });
+    expect(deleteDoc).toHaveBeenCalledWith({ path: 'recipes/recipe-2' });
+  });
+});
@@ -1,4 +1,5 @@
 import type { Recipe, KidRecipe, ReadingLevel, KidIngredient, KidStep } from '../types';
+import { getRecipeTotalMinutes, parseDurationMinutes } from '../utils/durations';
 
 export interface AIService {
   convertToKidFriendly: (recipe: Recipe, readingLevel: ReadingLevel, kidAge?: number) => Promise<Omit<KidRecipe, 'id' | 'originalRecipeId' | 'createdAt'>>;
@@ -50,6 +51,11 @@ function getAgeRangeForLevel(level: ReadingLevel): string {
   }
 }
 
+// Kids need extra time on top of the recipe's own estimate
+function estimateKidDuration(recipe: Recipe): number {
+  return (getRecipeTotalMinutes(recipe) ?? 30) + 15;
+}
+
 function getAgeFromLevel(level: ReadingLevel): number {
   switch (level) {
     case 'beginner': return 7;
@@ -246,6 +252,9 @@ Guidelines:
         throw new Error('AI response missing required fields (simplifiedIngredients or simplifiedSteps)');
       }
 
+      // Models sometimes answer "45 minutes" instead of a number
+      aiResponse.estimatedDuration = parseDurationMinutes(aiResponse.estimatedDuration) ?? estimateKidDuration(recipe);
+
       console.log('Successfully parsed AI response with', aiResponse.simplifiedIngredients.length, 'ingredients and', aiResponse.simplifiedSteps.length, 'steps');
 
       return aiResponse;
@@ -306,7 +315,7 @@ async function enhancedMockConversion(recipe: Recipe, readingLevel: ReadingLevel
     simplifiedIngredients,
     simplifiedSteps,
     safetyNotes,
-    estimatedDuration: (recipe.totalTime || 30) + 15, // Add extra time for kids
+    estimatedDuration: estimateKidDuration(recipe),
     skillsRequired: ['measuring', 'mixing', readingLevel === 'advanced' ? 'knife skills' : 'safe cutting'],
   };
 }
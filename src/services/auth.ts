@@ -3,6 +3,8 @@ import {
   createUserWithEmailAndPassword,
   signOut,
   onAuthStateChanged,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
   User
 } from 'firebase/auth';
 import { doc, setDoc, getDoc } from 'firebase/firestore';
@@ -13,6 +15,7 @@ export interface AuthService {
   signUp: (email: string, password: string, profile: Partial<UserProfile>) => Promise<User>;
   signIn: (email: string, password: string) => Promise<User>;
   signOut: () => Promise<void>;
+  reauthenticate: (password: string) => Promise<void>;
   onAuthStateChanged: (callback: (user: User | null) => void) => () => void;
   getUserProfile: (userId: string) => Promise<UserProfile | null>;
   updateUserProfile: (userId: string, profile: Partial<UserProfile>) => Promise<void>;
@@ -48,6 +51,17 @@ export const authService: AuthService = {
     await signOut(auth);
   },
 
+  // Confirms the account password again, e.g. before resetting the kid mode PIN
+  async reauthenticate(password: string) {
+    const user = auth.currentUser;
+    if (!user?.email) throw new Error('No user logged in');
+
+    const credential = EmailAuthProvider.credential(user.email, password);
+    await reauthenticateWithCredential(user, credential);
+    // Refresh the ID token so Cloud Functions see the new sign-in time
+    await user.getIdToken(true);
+  },
+
   onAuthStateChanged(callback: (user: User | null) => void) {
     return onAuthStateChanged(auth, callback);
   },
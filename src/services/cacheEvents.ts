@@ -0,0 +1,76 @@
+export type CacheEntity = 'recipe' | 'kidRecipe' | 'kidProfile' | 'parentProfile' | 'favorite' | 'rating';
+
+export type CacheChange = 'created' | 'updated' | 'deleted';
+
+/**
+ * Something a service changed. The owner fields (userId, kidId, parentId,
+ * recipeId) say which lists the document appears in; when a service doesn't
+ * know them, every list of that kind is refreshed.
+ */
+export type CacheEvent =
+  | { entity: 'recipe'; change: CacheChange; id: string; userId?: string }
+  | { entity: 'kidRecipe'; change: CacheChange; id: string; kidId?: string; originalRecipeId?: string }
+  | { entity: 'kidProfile'; change: CacheChange; id: string; parentId?: string }
+  | { entity: 'parentProfile'; change: CacheChange; id: string; userId?: string }
+  | { entity: 'favorite'; change: CacheChange; id: string; parentId?: string; kidId?: string }
+  | { entity: 'rating'; change: CacheChange; id: string; recipeId: string };
+
+export type CacheEventListener = (event: CacheEvent) => void;
+
+/**
+ * Every mutating service call announces itself here. The cache drops what the
+ * change made stale, and screens can listen to refresh what they show.
+ */
+class CacheEventService {
+  private listeners: Map<CacheEntity, CacheEventListener[]> = new Map();
+  private globalListeners: CacheEventListener[] = [];
+
+  // Subscribe to changes to one kind of document
+  subscribe(entity: CacheEntity, listener: CacheEventListener): () => void {
+    if (!this.listeners.has(entity)) {
+      this.listeners.set(entity, []);
+    }
+
+    this.listeners.get(entity)!.push(listener);
+
+    return () => {
+      const entityListeners = this.listeners.get(entity);
+      if (entityListeners) {
+        const index = entityListeners.indexOf(listener);
+        if (index > -1) {
+          entityListeners.splice(index, 1);
+        }
+
+        if (entityListeners.length === 0) {
+          this.listeners.delete(entity);
+        }
+      }
+    };
+  }
+
+  // Subscribe to every change
+  subscribeGlobal(listener: CacheEventListener): () => void {
+    this.globalListeners.push(listener);
+
+    return () => {
+      const index = this.globalListeners.indexOf(listener);
+      if (index > -1) {
+        this.globalListeners.splice(index, 1);
+      }
+    };
+  }
+
+  emit(event: CacheEvent): void {
+    // Global listeners (the cache itself) run first so entity listeners read fresh data
+    const listeners = [...this.globalListeners, ...(this.listeners.get(event.entity) || [])];
+    listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in cache event listener:', error);
+      }
+    });
+  }
+}
+
+export const cacheEvents = new CacheEventService();
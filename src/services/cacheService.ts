@@ -1,145 +1,74 @@
-import { Recipe, KidProfile } from '../types';
+import { queryClient, queryKeys, CacheKey } from './queryClient';
+import { cacheEvents, CacheEvent } from './cacheEvents';
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number; // Time to live in milliseconds
-}
+const DEFAULT_MAX_AGE = 5 * 60 * 1000; // 5 minutes
+export const SHORT_MAX_AGE = 2 * 60 * 1000; // 2 minutes for frequently changing data
 
-interface CacheStorage {
-  recipes: Map<string, CacheEntry<Recipe[]>>;
-  recipeDetail: Map<string, CacheEntry<Recipe>>;
-  kidProfiles: Map<string, CacheEntry<KidProfile[]>>;
-}
+// Every entry kind that services cache, for clearing them together
+const CACHED_ROOTS = ['recipes', 'kidRecipes', 'kidProfiles', 'parentProfile', 'sharedRecipes'];
 
+/**
+ * The app's one cache, stored in the react-query client (and persisted with it).
+ * Services read and write entries here under the same typed keys the hooks use,
+ * and entries go stale as soon as a service reports a change on cacheEvents.
+ */
 class CacheService {
-  private cache: CacheStorage = {
-    recipes: new Map(),
-    recipeDetail: new Map(),
-    kidProfiles: new Map(),
-  };
-
-  private defaultTTL = 5 * 60 * 1000; // 5 minutes
-  private shortTTL = 2 * 60 * 1000; // 2 minutes for frequently changing data
-
-  private isExpired<T>(entry: CacheEntry<T>): boolean {
-    return Date.now() - entry.timestamp > entry.ttl;
-  }
-
-  private set<T>(
-    cache: Map<string, CacheEntry<T>>,
-    key: string,
-    data: T,
-    ttl = this.defaultTTL
-  ): void {
-    cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl,
-    });
-  }
-
-  private get<T>(cache: Map<string, CacheEntry<T>>, key: string): T | null {
-    const entry = cache.get(key);
-    if (!entry) return null;
-
-    if (this.isExpired(entry)) {
-      cache.delete(key);
-      return null;
-    }
-
-    return entry.data;
-  }
-
-  // Recipe caching
-  setRecipes(userId: string, recipes: Recipe[]): void {
-    this.set(this.cache.recipes, userId, recipes, this.shortTTL);
-  }
-
-  getRecipes(userId: string): Recipe[] | null {
-    return this.get(this.cache.recipes, userId);
+  constructor() {
+    cacheEvents.subscribeGlobal(event => this.handleEvent(event));
   }
 
-  setRecipeDetail(recipeId: string, recipe: Recipe): void {
-    this.set(this.cache.recipeDetail, recipeId, recipe);
+  // Returns the cached value, or null when it's missing, invalidated or older than maxAge
+  get<TData>(key: CacheKey<TData>, maxAge = DEFAULT_MAX_AGE): TData | null {
+    const state = queryClient.getQueryState(key);
+    if (!state || state.data === undefined || state.isInvalidated) return null;
+    if (Date.now() - state.dataUpdatedAt > maxAge) return null;
+    return state.data;
   }
 
-  getRecipeDetail(recipeId: string): Recipe | null {
-    return this.get(this.cache.recipeDetail, recipeId);
+  set<TData>(key: CacheKey<TData>, data: TData): void {
+    queryClient.setQueryData(key, data);
   }
 
-  // Kid profiles caching
-  setKidProfiles(userId: string, profiles: KidProfile[]): void {
-    this.set(this.cache.kidProfiles, userId, profiles);
+  // Marks entries stale; screens showing them refetch, everything else refetches on next read
+  invalidate(queryKey: readonly unknown[]): void {
+    queryClient.invalidateQueries({ queryKey });
   }
 
-  getKidProfiles(userId: string): KidProfile[] | null {
-    return this.get(this.cache.kidProfiles, userId);
-  }
-
-  // Cache invalidation
-  invalidateRecipes(userId: string): void {
-    this.cache.recipes.delete(userId);
-  }
-
-  invalidateRecipeDetail(recipeId: string): void {
-    this.cache.recipeDetail.delete(recipeId);
-  }
-
-  invalidateKidProfiles(userId: string): void {
-    this.cache.kidProfiles.delete(userId);
-  }
-
-  // Clear all caches
+  // Used when a sync or sign-out may have changed anything
   clearAll(): void {
-    this.cache.recipes.clear();
-    this.cache.recipeDetail.clear();
-    this.cache.kidProfiles.clear();
+    CACHED_ROOTS.forEach(root => this.invalidate([root]));
   }
 
-  // Cleanup expired entries (call periodically)
-  cleanup(): void {
-    const now = Date.now();
-
-    // Cleanup recipes
-    for (const [key, entry] of this.cache.recipes.entries()) {
-      if (this.isExpired(entry)) {
-        this.cache.recipes.delete(key);
-      }
-    }
-
-    // Cleanup recipe details
-    for (const [key, entry] of this.cache.recipeDetail.entries()) {
-      if (this.isExpired(entry)) {
-        this.cache.recipeDetail.delete(key);
-      }
-    }
-
-    // Cleanup kid profiles
-    for (const [key, entry] of this.cache.kidProfiles.entries()) {
-      if (this.isExpired(entry)) {
-        this.cache.kidProfiles.delete(key);
-      }
+  private handleEvent(event: CacheEvent): void {
+    switch (event.entity) {
+      case 'recipe':
+        this.invalidate(queryKeys.recipe(event.id));
+        this.invalidate(event.userId ? queryKeys.recipes(event.userId) : ['recipes', 'list']);
+        // Shared recipes are copies of the parent's recipe
+        this.invalidate(['sharedRecipes']);
+        return;
+      case 'kidRecipe':
+        this.invalidate(queryKeys.kidRecipe(event.id));
+        this.invalidate(event.kidId ? queryKeys.kidRecipes(event.kidId) : ['kidRecipes', 'list']);
+        this.invalidate(['recipeConverted']);
+        return;
+      case 'kidProfile':
+        this.invalidate(queryKeys.kidProfile(event.id));
+        this.invalidate(event.parentId ? queryKeys.kidProfiles(event.parentId) : ['kidProfiles', 'list']);
+        return;
+      case 'parentProfile':
+        this.invalidate(event.userId ? queryKeys.parentProfile(event.userId) : ['parentProfile']);
+        return;
+      case 'rating':
+        // The recipe's average rating changes with it
+        this.invalidate(queryKeys.recipe(event.recipeId));
+        this.invalidate(['recipes', 'list']);
+        return;
+      case 'favorite':
+        // Nothing cached holds favorites; screens listen for these directly
+        return;
     }
   }
-
-  // Get cache stats for debugging
-  getStats(): {
-    recipes: number;
-    recipeDetail: number;
-    kidProfiles: number;
-  } {
-    return {
-      recipes: this.cache.recipes.size,
-      recipeDetail: this.cache.recipeDetail.size,
-      kidProfiles: this.cache.kidProfiles.size,
-    };
-  }
 }
 
 export const cacheService = new CacheService();
-
-// Setup periodic cleanup (every 10 minutes)
-setInterval(() => {
-  cacheService.cleanup();
-}, 10 * 60 * 1000);
\ No newline at end of file
@@ -15,7 +15,7 @@ import {
 } from 'firebase/firestore';
 import { httpsCallable } from 'firebase/functions';
 import { db, functions } from './firebase';
-import type { ReadingLevel } from '../types';
+import type { ReadingLevel, KidAllergy, KidPermissions } from '../types';
 
 export enum ConversionStatus {
   QUEUED = 'queued',
@@ -32,6 +32,8 @@ export interface ConversionTask {
   kidAge: number;
   readingLevel: ReadingLevel;
   allergyFlags: string[];
+  allergies?: KidAllergy[];
+  permissions?: KidPermissions; // Lets the conversion write grown-up hand-off steps
   status: ConversionStatus;
   progress?: number;
   error?: ConversionError;
@@ -59,7 +61,9 @@ export interface ConversionStatusService {
     kidId: string,
     kidAge: number,
     readingLevel: ReadingLevel,
-    allergyFlags?: string[]
+    allergyFlags?: string[],
+    allergies?: KidAllergy[],
+    permissions?: KidPermissions
   ) => Promise<string>;
   getConversionStatus: (taskId: string) => Promise<ConversionTask | null>;
   getUserConversions: (userId: string, limit?: number) => Promise<ConversionTask[]>;
@@ -78,7 +82,9 @@ class ConversionStatusManager implements ConversionStatusService {
     kidId: string,
     kidAge: number,
     readingLevel: ReadingLevel,
-    allergyFlags: string[] = []
+    allergyFlags: string[] = [],
+    allergies?: KidAllergy[],
+    permissions?: KidPermissions
   ): Promise<string> {
     try {
       // Check if there's already a conversion in progress for this recipe+kid combo
@@ -93,6 +99,8 @@ class ConversionStatusManager implements ConversionStatusService {
         kidAge,
         readingLevel,
         allergyFlags,
+        ...(allergies ? { allergies } : {}),
+        ...(permissions ? { permissions } : {}),
         status: ConversionStatus.QUEUED,
         queuedAt: new Date(),
         retryCount: 0,
@@ -163,6 +171,8 @@ class ConversionStatusManager implements ConversionStatusService {
         kidAge: task.kidAge,
         readingLevel: task.readingLevel,
         allergyFlags: task.allergyFlags,
+        allergies: task.allergies,
+        permissions: task.permissions,
       });
 
       const data = result.data as any;
@@ -418,6 +428,8 @@ class ConversionStatusManager implements ConversionStatusService {
       kidAge: data.kidAge,
       readingLevel: data.readingLevel,
       allergyFlags: data.allergyFlags || [],
+      allergies: data.allergies,
+      permissions: data.permissions,
       status: data.status,
       progress: data.progress,
       error: data.error,
@@ -0,0 +1,185 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { validateDocumentId, validateString } from '../utils/validation';
+import type { CookingSession, Recipe } from '../types';
+
+// Unfinished sessions older than this are treated as abandoned and not offered for resume
+const RESUME_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CompleteSessionDetails {
+  notes?: string;
+  rating?: number;
+}
+
+export interface CookingSessionService {
+  startSession: (kidId: string, recipe: Recipe, totalSteps: number, kidRecipeId?: string) => Promise<CookingSession>;
+  getSession: (sessionId: string) => Promise<CookingSession | null>;
+  getActiveSession: (kidId: string, recipeId: string) => Promise<CookingSession | null>;
+  getActiveSessions: (kidId: string) => Promise<CookingSession[]>;
+  getSessionsForKid: (kidId: string) => Promise<CookingSession[]>;
+  updateProgress: (sessionId: string, currentStep: number) => Promise<void>;
+  updateNotes: (sessionId: string, notes: string) => Promise<void>;
+  completeSession: (sessionId: string, details?: CompleteSessionDetails) => Promise<CookingSession | null>;
+  deleteSession: (sessionId: string) => Promise<void>;
+}
+
+export const toSessionDate = (value: CookingSession['startedAt']): Date =>
+  value instanceof Date ? value : value.toDate();
+
+const lastTouched = (session: CookingSession): number =>
+  toSessionDate(session.updatedAt || session.startedAt).getTime();
+
+export const cookingSessionService: CookingSessionService = {
+  async startSession(kidId: string, recipe: Recipe, totalSteps: number, kidRecipeId?: string) {
+    try {
+      const now = Timestamp.now();
+      const sessionData: Omit<CookingSession, 'id'> = {
+        kidId: validateDocumentId(kidId, 'Kid ID'),
+        recipeId: validateDocumentId(recipe.id, 'Recipe ID'),
+        recipeTitle: recipe.title,
+        startedAt: now,
+        updatedAt: now,
+        currentStep: 0,
+        totalSteps,
+      };
+      if (kidRecipeId) sessionData.kidRecipeId = kidRecipeId;
+      if (recipe.image) sessionData.recipeImage = recipe.image;
+
+      const docRef = await addDoc(collection(db, 'cookingSessions'), sessionData);
+      return { id: docRef.id, ...sessionData };
+    } catch (error) {
+      console.error('Error starting cooking session:', error);
+      throw error;
+    }
+  },
+
+  async getSession(sessionId: string) {
+    try {
+      const sessionDoc = await getDoc(doc(db, 'cookingSessions', validateDocumentId(sessionId, 'Session ID')));
+      if (!sessionDoc.exists()) {
+        return null;
+      }
+      return { id: sessionDoc.id, ...sessionDoc.data() } as CookingSession;
+    } catch (error) {
+      console.error('Error fetching cooking session:', error);
+      throw error;
+    }
+  },
+
+  async getActiveSession(kidId: string, recipeId: string) {
+    const sessions = await this.getActiveSessions(kidId);
+    return sessions.find(session => session.recipeId === recipeId) || null;
+  },
+
+  async getActiveSessions(kidId: string) {
+    try {
+      const sessions = await this.getSessionsForKid(kidId);
+      const cutoff = Date.now() - RESUME_WINDOW_MS;
+      return sessions
+        .filter(session => !session.completedAt && lastTouched(session) >= cutoff)
+        .sort((a, b) => lastTouched(b) - lastTouched(a));
+    } catch (error) {
+      console.error('Error fetching active cooking sessions:', error);
+      return [];
+    }
+  },
+
+  async getSessionsForKid(kidId: string) {
+    try {
+      const q = query(
+        collection(db, 'cookingSessions'),
+        where('kidId', '==', validateDocumentId(kidId, 'Kid ID'))
+      );
+      const querySnapshot = await getDocs(q);
+      const sessions = querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      } as CookingSession));
+
+      // Sort client-side to avoid needing a composite index
+      return sessions.sort((a, b) => toSessionDate(b.startedAt).getTime() - toSessionDate(a.startedAt).getTime());
+    } catch (error) {
+      console.error('Error fetching cooking sessions:', error);
+      throw error;
+    }
+  },
+
+  async updateProgress(sessionId: string, currentStep: number) {
+    try {
+      await updateDoc(doc(db, 'cookingSessions', validateDocumentId(sessionId, 'Session ID')), {
+        currentStep: Math.max(0, Math.floor(currentStep)),
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('Error saving cooking progress:', error);
+      throw error;
+    }
+  },
+
+  async updateNotes(sessionId: string, notes: string) {
+    try {
+      await updateDoc(doc(db, 'cookingSessions', validateDocumentId(sessionId, 'Session ID')), {
+        notes: validateString(notes, 'Notes', { maxLength: 1000 }),
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('Error saving cooking notes:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Marks a session finished. Returns null if it was already completed so
+   * callers don't count the same cook twice.
+   */
+  async completeSession(sessionId: string, details: CompleteSessionDetails = {}) {
+    try {
+      const session = await this.getSession(sessionId);
+      if (!session) {
+        throw new Error('Cooking session not found');
+      }
+      if (session.completedAt) {
+        return null;
+      }
+
+      const now = Timestamp.now();
+      const updates: Partial<CookingSession> = {
+        completedAt: now,
+        updatedAt: now,
+        currentStep: Math.max(0, session.totalSteps - 1),
+      };
+      if (details.notes !== undefined) {
+        updates.notes = validateString(details.notes, 'Notes', { maxLength: 1000 });
+      }
+      if (details.rating !== undefined) {
+        updates.rating = Math.min(5, Math.max(1, Math.round(details.rating)));
+      }
+
+      await updateDoc(doc(db, 'cookingSessions', session.id), updates);
+      return { ...session, ...updates };
+    } catch (error) {
+      console.error('Error completing cooking session:', error);
+      throw error;
+    }
+  },
+
+  async deleteSession(sessionId: string) {
+    try {
+      await deleteDoc(doc(db, 'cookingSessions', validateDocumentId(sessionId, 'Session ID')));
+    } catch (error) {
+      console.error('Error deleting cooking session:', error);
+      throw error;
+    }
+  },
+};
@@ -32,6 +32,10 @@ class DeepLinkService {
       if (parsed.hostname === 'import' && parsed.queryParams?.url) {
         const recipeUrl = decodeURIComponent(parsed.queryParams.url as string);
         await this.handleRecipeImport(recipeUrl);
+      } else if (parsed.hostname === 'import' && parsed.queryParams?.text) {
+        // Recipe text shared from a notes app or email
+        const recipeText = decodeURIComponent(parsed.queryParams.text as string);
+        this.handleRecipeTextImport(recipeText);
       }
     } catch (error) {
       console.error('Error handling deep link:', error);
@@ -51,6 +55,16 @@ class DeepLinkService {
     }
   }
 
+  private handleRecipeTextImport(text: string) {
+    try {
+      if (this.navigationRef?.current) {
+        this.navigationRef.current.navigate('PasteRecipe', { text });
+      }
+    } catch (error) {
+      console.error('Error importing recipe text from deep link:', error);
+    }
+  }
+
   // Method to manually trigger recipe import (for testing)
   async importRecipeFromUrl(url: string) {
     await this.handleRecipeImport(url);
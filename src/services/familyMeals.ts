@@ -0,0 +1,209 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { recipeService } from './recipes';
+import { checkRecipeForKid } from '../utils/kidRecipeChecks';
+import type { KidRecipeConflict } from '../utils/kidRecipeChecks';
+import { validateDocumentId, validateString } from '../utils/validation';
+import type { FamilyMeal, KidProfile, Recipe } from '../types';
+
+export type FamilyMealInput = Omit<FamilyMeal, 'id' | 'parentId' | 'createdAt' | 'updatedAt'>;
+
+export interface SaveMealOptions {
+  // Permission conflicts can be waived when an adult will be cooking alongside;
+  // mild allergies can be acknowledged, but moderate and severe ones never can
+  allowPermissionConflicts?: boolean;
+  allowMildAllergyConflicts?: boolean;
+}
+
+export class FamilyMealConflictError extends Error {
+  conflicts: KidRecipeConflict[];
+
+  constructor(conflicts: KidRecipeConflict[]) {
+    super(conflicts.map(conflict => conflict.message).join('\n'));
+    this.name = 'FamilyMealConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+export interface FamilyMealService {
+  createMeal: (parentId: string, meal: FamilyMealInput, kids: KidProfile[], options?: SaveMealOptions) => Promise<string>;
+  updateMeal: (mealId: string, updates: Partial<FamilyMealInput>, kids: KidProfile[], options?: SaveMealOptions) => Promise<void>;
+  updateMealStatus: (mealId: string, status: FamilyMeal['status']) => Promise<void>;
+  deleteMeal: (mealId: string) => Promise<void>;
+  getMeal: (mealId: string) => Promise<FamilyMeal | null>;
+  getMealsForWeek: (parentId: string, weekStart: Date) => Promise<FamilyMeal[]>;
+  checkMealConflicts: (recipeIds: string[], assignedKidIds: string[], kids: KidProfile[]) => Promise<KidRecipeConflict[]>;
+}
+
+const toDate = (value: FamilyMeal['scheduledFor']): Date =>
+  value instanceof Date ? value : value.toDate();
+
+/**
+ * Start of the planner week (Sunday, midnight local time) containing the given date
+ */
+export const getWeekStart = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+const assertNoBlockingConflicts = (conflicts: KidRecipeConflict[], options: SaveMealOptions) => {
+  const blocking = conflicts.filter(conflict =>
+    conflict.type === 'allergy'
+      ? conflict.severity !== 'mild' || !options.allowMildAllergyConflicts
+      : !options.allowPermissionConflicts
+  );
+  if (blocking.length > 0) {
+    throw new FamilyMealConflictError(blocking);
+  }
+};
+
+export const familyMealService: FamilyMealService = {
+  async createMeal(parentId: string, meal: FamilyMealInput, kids: KidProfile[], options: SaveMealOptions = {}) {
+    try {
+      const validatedParentId = validateDocumentId(parentId, 'Parent ID');
+      const name = validateString(meal.name, 'Meal name', { maxLength: 100, allowEmpty: false });
+
+      const conflicts = await this.checkMealConflicts(meal.recipeIds, meal.assignedKids, kids);
+      assertNoBlockingConflicts(conflicts, options);
+
+      const now = Timestamp.now();
+      const mealData: Omit<FamilyMeal, 'id'> = {
+        ...meal,
+        name: name.trim(),
+        parentId: validatedParentId,
+        scheduledFor: meal.scheduledFor instanceof Date ? Timestamp.fromDate(meal.scheduledFor) : meal.scheduledFor,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const docRef = await addDoc(collection(db, 'familyMeals'), mealData);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating family meal:', error);
+      throw error;
+    }
+  },
+
+  async updateMeal(mealId: string, updates: Partial<FamilyMealInput>, kids: KidProfile[], options: SaveMealOptions = {}) {
+    try {
+      const existing = await this.getMeal(mealId);
+      if (!existing) {
+        throw new Error('Meal not found');
+      }
+
+      // Re-check against the meal as it will look after the update
+      if (updates.recipeIds || updates.assignedKids) {
+        const conflicts = await this.checkMealConflicts(
+          updates.recipeIds || existing.recipeIds,
+          updates.assignedKids || existing.assignedKids,
+          kids
+        );
+        assertNoBlockingConflicts(conflicts, options);
+      }
+
+      const updateData: Record<string, unknown> = {
+        ...updates,
+        updatedAt: Timestamp.now(),
+      };
+      if (updates.name !== undefined) {
+        updateData.name = validateString(updates.name, 'Meal name', { maxLength: 100, allowEmpty: false }).trim();
+      }
+      if (updates.scheduledFor instanceof Date) {
+        updateData.scheduledFor = Timestamp.fromDate(updates.scheduledFor);
+      }
+
+      await updateDoc(doc(db, 'familyMeals', mealId), updateData);
+    } catch (error) {
+      console.error('Error updating family meal:', error);
+      throw error;
+    }
+  },
+
+  async updateMealStatus(mealId: string, status: FamilyMeal['status']) {
+    try {
+      await updateDoc(doc(db, 'familyMeals', mealId), {
+        status,
+        updatedAt: Timestamp.now(),
+      });
+    } catch (error) {
+      console.error('Error updating family meal status:', error);
+      throw error;
+    }
+  },
+
+  async deleteMeal(mealId: string) {
+    try {
+      await deleteDoc(doc(db, 'familyMeals', mealId));
+    } catch (error) {
+      console.error('Error deleting family meal:', error);
+      throw error;
+    }
+  },
+
+  async getMeal(mealId: string): Promise<FamilyMeal | null> {
+    try {
+      const mealDoc = await getDoc(doc(db, 'familyMeals', mealId));
+      if (mealDoc.exists()) {
+        return { id: mealDoc.id, ...mealDoc.data() } as FamilyMeal;
+      }
+      return null;
+    } catch (error) {
+      console.error('Error fetching family meal:', error);
+      return null;
+    }
+  },
+
+  async getMealsForWeek(parentId: string, weekStart: Date): Promise<FamilyMeal[]> {
+    try {
+      const start = getWeekStart(weekStart);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 7);
+
+      // Single-field query so no composite index is needed; the week is filtered locally
+      const q = query(
+        collection(db, 'familyMeals'),
+        where('parentId', '==', parentId)
+      );
+      const snapshot = await getDocs(q);
+
+      const meals: FamilyMeal[] = [];
+      snapshot.forEach((mealDoc) => {
+        const meal = { id: mealDoc.id, ...mealDoc.data() } as FamilyMeal;
+        const scheduled = toDate(meal.scheduledFor);
+        if (scheduled >= start && scheduled < end) {
+          meals.push(meal);
+        }
+      });
+
+      return meals.sort((a, b) => toDate(a.scheduledFor).getTime() - toDate(b.scheduledFor).getTime());
+    } catch (error) {
+      console.error('Error fetching family meals:', error);
+      throw error;
+    }
+  },
+
+  async checkMealConflicts(recipeIds: string[], assignedKidIds: string[], kids: KidProfile[]): Promise<KidRecipeConflict[]> {
+    const assigned = kids.filter(kid => assignedKidIds.includes(kid.id));
+    if (assigned.length === 0 || recipeIds.length === 0) {
+      return [];
+    }
+
+    const recipes = (await Promise.all(recipeIds.map(id => recipeService.getRecipe(id))))
+      .filter((recipe): recipe is Recipe => recipe !== null);
+
+    return assigned.flatMap(kid => recipes.flatMap(recipe => checkRecipeForKid(recipe, kid)));
+  },
+};
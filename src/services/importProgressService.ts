@@ -123,6 +123,8 @@ class ImportProgressService {
   // Get status message for display
   getStatusMessage(status: ImportStatus): string {
     switch (status) {
+      case ImportStatus.QUEUED:
+        return 'Waiting to import...';
       case ImportStatus.VALIDATING:
         return 'Validating URL...';
       case ImportStatus.FETCHING:
@@ -135,6 +137,8 @@ class ImportProgressService {
         return 'Import complete!';
       case ImportStatus.ERROR:
         return 'Import failed';
+      case ImportStatus.SKIPPED:
+        return 'Skipped';
       default:
         return 'Importing...';
     }
@@ -143,6 +147,8 @@ class ImportProgressService {
   // Get user-friendly progress percentage (for progress bars)
   getProgressPercentage(status: ImportStatus): number {
     switch (status) {
+      case ImportStatus.QUEUED:
+        return 0;
       case ImportStatus.VALIDATING:
         return 10;
       case ImportStatus.FETCHING:
@@ -154,6 +160,7 @@ class ImportProgressService {
       case ImportStatus.COMPLETE:
         return 100;
       case ImportStatus.ERROR:
+      case ImportStatus.SKIPPED:
         return 0;
       default:
         return 0;
@@ -0,0 +1,305 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { recipeImportService, ImportStatus, ImportError } from './recipeImport';
+import { recipeService } from './recipes';
+import { importProgressService } from './importProgressService';
+import type { Recipe } from '../types';
+
+export interface ImportQueueItem {
+  id: string;
+  url: string;
+  status: ImportStatus;
+  progress?: string;
+  error?: ImportError;
+  recipeId?: string;
+  recipeTitle?: string;
+  attempts: number;
+  queuedAt: number; // Epoch ms
+  finishedAt?: number;
+}
+
+export type ImportQueueListener = (items: ImportQueueItem[]) => void;
+
+// Queues are stored per parent so imports pick up where they left off after a restart
+const STORAGE_KEY_PREFIX = 'KIDCHEF_IMPORT_QUEUE_';
+const MAX_CONCURRENT_IMPORTS = 2;
+
+const FINISHED_STATUSES = [ImportStatus.COMPLETE, ImportStatus.ERROR, ImportStatus.SKIPPED];
+
+const isFinished = (item: ImportQueueItem) => FINISHED_STATUSES.includes(item.status);
+const isInFlight = (item: ImportQueueItem) => !isFinished(item) && item.status !== ImportStatus.QUEUED;
+
+class ImportQueueService {
+  private userId: string | null = null;
+  private items: ImportQueueItem[] = [];
+  private listeners: ImportQueueListener[] = [];
+  private running = new Set<string>();
+  private itemIdCounter = 0;
+  // Bumped on every start/stop so imports from a previous session don't write into this one
+  private session = 0;
+  private restoring: Promise<void> | null = null;
+
+  // Load the parent's saved queue and resume anything that hadn't finished
+  start(userId: string): Promise<void> {
+    if (this.userId === userId && this.restoring) return this.restoring;
+
+    this.session += 1;
+    this.userId = userId;
+    this.items = [];
+    this.running.clear();
+    this.restoring = this.restore(userId, this.session);
+    return this.restoring;
+  }
+
+  stop(): void {
+    this.session += 1;
+    this.userId = null;
+    this.restoring = null;
+    this.items = [];
+    this.running.clear();
+    this.notify();
+  }
+
+  subscribe(listener: ImportQueueListener): () => void {
+    this.listeners.push(listener);
+    listener(this.items);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  getItems(): ImportQueueItem[] {
+    return this.items;
+  }
+
+  getItem(itemId: string): ImportQueueItem | null {
+    return this.items.find(item => item.id === itemId) || null;
+  }
+
+  // Adds URLs to the end of the queue. A URL that is already waiting or in progress
+  // isn't added twice; its existing item's ID is returned instead.
+  enqueue(urls: string[]): string[] {
+    if (!this.userId) {
+      throw new Error('User not authenticated');
+    }
+
+    const pendingIds = new Map(
+      this.items.filter(item => !isFinished(item)).map(item => [item.url, item.id])
+    );
+    const newItems: ImportQueueItem[] = [];
+    const itemIds: string[] = [];
+
+    urls.forEach(url => {
+      const trimmed = url.trim();
+      if (!trimmed) return;
+
+      const pendingId = pendingIds.get(trimmed);
+      if (pendingId) {
+        if (!itemIds.includes(pendingId)) itemIds.push(pendingId);
+        return;
+      }
+
+      this.itemIdCounter += 1;
+      const item: ImportQueueItem = {
+        id: `import_${Date.now()}_${this.itemIdCounter}`,
+        url: trimmed,
+        status: ImportStatus.QUEUED,
+        progress: importProgressService.getStatusMessage(ImportStatus.QUEUED),
+        attempts: 0,
+        queuedAt: Date.now(),
+      };
+      pendingIds.set(trimmed, item.id);
+      newItems.push(item);
+      itemIds.push(item.id);
+    });
+
+    if (newItems.length > 0) {
+      this.items = [...this.items, ...newItems];
+      this.save();
+      this.notify();
+      newItems.forEach(item =>
+        importProgressService.emitProgress(item.id, item.url, ImportStatus.QUEUED, item.progress)
+      );
+      this.processQueue();
+    }
+
+    return itemIds;
+  }
+
+  retry(itemId: string): void {
+    const item = this.getItem(itemId);
+    if (!item || (item.status !== ImportStatus.ERROR && item.status !== ImportStatus.SKIPPED)) return;
+
+    this.updateItem(itemId, {
+      status: ImportStatus.QUEUED,
+      progress: importProgressService.getStatusMessage(ImportStatus.QUEUED),
+      error: undefined,
+      finishedAt: undefined,
+    });
+    importProgressService.emitProgress(itemId, item.url, ImportStatus.QUEUED, 'Retrying import...');
+    this.processQueue();
+  }
+
+  // Only items that haven't started (or have failed) can be skipped
+  skip(itemId: string): void {
+    const item = this.getItem(itemId);
+    if (!item || (item.status !== ImportStatus.QUEUED && item.status !== ImportStatus.ERROR)) return;
+
+    this.updateItem(itemId, {
+      status: ImportStatus.SKIPPED,
+      progress: importProgressService.getStatusMessage(ImportStatus.SKIPPED),
+      finishedAt: Date.now(),
+    });
+    importProgressService.emitProgress(itemId, item.url, ImportStatus.SKIPPED);
+  }
+
+  clearFinished(): void {
+    this.items = this.items.filter(item => !isFinished(item));
+    this.save();
+    this.notify();
+  }
+
+  private async restore(userId: string, session: number): Promise<void> {
+    let items: ImportQueueItem[] = [];
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY_PREFIX + userId);
+      // Anything that was mid-import when the app closed goes back in line
+      items = stored
+        ? (JSON.parse(stored) as ImportQueueItem[]).map(item =>
+          isInFlight(item)
+            ? { ...item, status: ImportStatus.QUEUED, progress: importProgressService.getStatusMessage(ImportStatus.QUEUED) }
+            : item
+        )
+        : [];
+    } catch (error) {
+      console.error('Error restoring import queue:', error);
+    }
+
+    if (session !== this.session) return;
+    this.items = items;
+    this.notify();
+    this.processQueue();
+  }
+
+  private processQueue(): void {
+    if (!this.userId) return;
+
+    while (this.running.size < MAX_CONCURRENT_IMPORTS) {
+      const next = this.items.find(item => item.status === ImportStatus.QUEUED && !this.running.has(item.id));
+      if (!next) return;
+
+      this.running.add(next.id);
+      this.processItem(next, this.userId, this.session).finally(() => {
+        this.running.delete(next.id);
+        this.processQueue();
+      });
+    }
+  }
+
+  private async processItem(item: ImportQueueItem, userId: string, session: number): Promise<void> {
+    const isCurrent = () => session === this.session;
+
+    const setStatus = (status: ImportStatus, progress = importProgressService.getStatusMessage(status)) => {
+      if (!isCurrent()) return;
+      this.updateItem(item.id, { status, progress });
+      importProgressService.emitProgress(item.id, item.url, status, progress);
+    };
+
+    const fail = (error: ImportError) => {
+      if (!isCurrent()) return;
+      this.updateItem(item.id, {
+        status: ImportStatus.ERROR,
+        progress: 'Import failed',
+        error,
+        finishedAt: Date.now(),
+      });
+      importProgressService.emitError(item.id, item.url, error);
+    };
+
+    this.updateItem(item.id, { attempts: item.attempts + 1, error: undefined });
+    setStatus(ImportStatus.VALIDATING);
+
+    try {
+      const result = await recipeImportService.importFromUrl(item.url, {
+        maxRetries: 3,
+        onProgress: (status) => {
+          // Completion is reported once the recipe has been saved
+          if (status !== ImportStatus.COMPLETE && status !== ImportStatus.ERROR) {
+            setStatus(status);
+          }
+        },
+        onRetry: (attempt) => setStatus(ImportStatus.FETCHING, `Retrying... (attempt ${attempt})`),
+      });
+      if (!isCurrent()) return;
+
+      if (!result.success || !result.recipe) {
+        fail(result.error || {
+          code: 'UNKNOWN_ERROR',
+          message: 'Import failed for unknown reason',
+          canRetry: true
+        });
+        return;
+      }
+
+      try {
+        const recipeWithUserId = { ...result.recipe, userId };
+        const recipeId = await recipeService.addRecipe(userId, recipeWithUserId);
+        const savedRecipe: Recipe = { ...recipeWithUserId, id: recipeId, createdAt: new Date(), updatedAt: new Date() };
+        if (!isCurrent()) return;
+
+        this.updateItem(item.id, {
+          status: ImportStatus.COMPLETE,
+          progress: 'Recipe saved successfully!',
+          recipeId,
+          recipeTitle: savedRecipe.title,
+          finishedAt: Date.now(),
+        });
+        importProgressService.emitComplete(item.id, item.url, savedRecipe);
+      } catch (saveError) {
+        console.error('Error saving recipe:', saveError);
+        fail({
+          code: 'SAVE_FAILED',
+          message: 'Recipe imported but failed to save',
+          suggestion: 'Please try importing again',
+          canRetry: true
+        });
+      }
+    } catch (error: any) {
+      console.error('Import error:', error);
+      fail({
+        code: 'IMPORT_FAILED',
+        message: error?.message || 'Import failed',
+        canRetry: true
+      });
+    }
+  }
+
+  private updateItem(itemId: string, updates: Partial<ImportQueueItem>): void {
+    this.items = this.items.map(item =>
+      item.id === itemId ? { ...item, ...updates } : item
+    );
+    this.save();
+    this.notify();
+  }
+
+  private save(): void {
+    if (!this.userId) return;
+    AsyncStorage.setItem(STORAGE_KEY_PREFIX + this.userId, JSON.stringify(this.items))
+      .catch(error => console.error('Error saving import queue:', error));
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.items);
+      } catch (error) {
+        console.error('Error in import queue listener:', error);
+      }
+    });
+  }
+}
+
+export const importQueueService = new ImportQueueService();
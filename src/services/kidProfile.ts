@@ -8,10 +8,17 @@ import {
   getDocs,
   query,
   where,
-  Timestamp
+  Timestamp,
+  onSnapshot
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { offlineStore } from './offlineStore';
+import { cacheService } from './cacheService';
+import { cacheEvents } from './cacheEvents';
+import { queryKeys } from './queryClient';
+import { readWithFallback } from './syncQueue';
 import type { KidProfile, KidPermissions } from '../types';
+import { getKidAllergies, toAllergyFlags } from '../utils/kidRecipeChecks';
 
 export interface KidProfileService {
   createKidProfile: (parentId: string, kidData: Omit<KidProfile, 'id' | 'parentId' | 'createdAt' | 'updatedAt'>) => Promise<string>;
@@ -22,16 +29,21 @@ export interface KidProfileService {
   deleteKidProfile: (kidId: string) => Promise<void>;
   getKidsByReadingLevel: (readingLevel: string) => Promise<KidProfile[]>;
   getKidsWithAllergies: (allergens: string[]) => Promise<KidProfile[]>;
+  subscribeToParentKids: (parentId: string, callback: (kids: KidProfile[]) => void) => () => void;
 }
 
+const sortByName = (kids: KidProfile[]): KidProfile[] => kids.sort((a, b) => a.name.localeCompare(b.name));
+
 export const kidProfileService: KidProfileService = {
   async createKidProfile(parentId: string, kidData: Omit<KidProfile, 'id' | 'parentId' | 'createdAt' | 'updatedAt'>) {
     try {
       const now = Timestamp.now();
+      const allergies = getKidAllergies(kidData);
       const kidProfile: Omit<KidProfile, 'id'> = {
         ...kidData,
         parentId,
-        allergyFlags: kidData.allergyFlags || [],
+        allergies,
+        allergyFlags: toAllergyFlags(allergies),
         permissions: kidData.permissions || {
           canViewIngredients: true,
           canUseKnives: false,
@@ -45,6 +57,7 @@ export const kidProfileService: KidProfileService = {
       };
 
       const docRef = await addDoc(collection(db, 'kidProfiles'), kidProfile);
+      cacheEvents.emit({ entity: 'kidProfile', change: 'created', id: docRef.id, parentId });
       return docRef.id;
     } catch (error) {
       console.error('Error creating kid profile:', error);
@@ -54,14 +67,22 @@ export const kidProfileService: KidProfileService = {
 
   async getKidProfile(kidId: string): Promise<KidProfile | null> {
     try {
-      const docSnap = await getDoc(doc(db, 'kidProfiles', kidId));
-      if (docSnap.exists()) {
-        return {
-          id: docSnap.id,
-          ...docSnap.data(),
-        } as KidProfile;
-      }
-      return null;
+      return await readWithFallback(
+        async () => {
+          const docSnap = await getDoc(doc(db, 'kidProfiles', kidId));
+          if (docSnap.exists()) {
+            const kidProfile = {
+              id: docSnap.id,
+              ...docSnap.data(),
+            } as KidProfile;
+            await offlineStore.putDoc('kidProfiles', kidProfile);
+            return kidProfile;
+          }
+          await offlineStore.removeDoc('kidProfiles', kidId);
+          return null;
+        },
+        () => offlineStore.getDoc<KidProfile>('kidProfiles', kidId)
+      );
     } catch (error) {
       console.error('Error fetching kid profile:', error);
       return null;
@@ -70,22 +91,38 @@ export const kidProfileService: KidProfileService = {
 
   async getParentKids(parentId: string): Promise<KidProfile[]> {
     try {
-      const q = query(
-        collection(db, 'kidProfiles'),
-        where('parentId', '==', parentId)
-      );
+      const cached = cacheService.get(queryKeys.kidProfiles(parentId));
+      if (cached) {
+        return cached;
+      }
 
-      const querySnapshot = await getDocs(q);
-      const kids: KidProfile[] = [];
+      const isParentsKid = (kid: KidProfile) => kid.parentId === parentId;
+      const kids = await readWithFallback(
+        async () => {
+          const q = query(
+            collection(db, 'kidProfiles'),
+            where('parentId', '==', parentId)
+          );
+
+          const querySnapshot = await getDocs(q);
+          const fetched: KidProfile[] = [];
+
+          querySnapshot.forEach((doc) => {
+            fetched.push({
+              id: doc.id,
+              ...doc.data(),
+            } as KidProfile);
+          });
+
+          return offlineStore.replaceQuery('kidProfiles', isParentsKid, fetched);
+        },
+        () => offlineStore.getDocs('kidProfiles', isParentsKid)
+      );
 
-      querySnapshot.forEach((doc) => {
-        kids.push({
-          id: doc.id,
-          ...doc.data(),
-        } as KidProfile);
-      });
+      const sortedKids = sortByName(kids);
+      cacheService.set(queryKeys.kidProfiles(parentId), sortedKids);
 
-      return kids.sort((a, b) => a.name.localeCompare(b.name));
+      return sortedKids;
     } catch (error) {
       console.error('Error fetching parent kids:', error);
       throw error;
@@ -101,7 +138,13 @@ export const kidProfileService: KidProfileService = {
       delete updateData.id;
       delete updateData.createdAt;
 
+      // Keep the name-only flags in step with the structured list
+      if (updates.allergies) {
+        updateData.allergyFlags = toAllergyFlags(updates.allergies);
+      }
+
       await updateDoc(doc(db, 'kidProfiles', kidId), updateData);
+      cacheEvents.emit({ entity: 'kidProfile', change: 'updated', id: kidId, parentId: updates.parentId });
     } catch (error) {
       console.error('Error updating kid profile:', error);
       throw error;
@@ -114,6 +157,7 @@ export const kidProfileService: KidProfileService = {
         permissions,
         updatedAt: Timestamp.now(),
       });
+      cacheEvents.emit({ entity: 'kidProfile', change: 'updated', id: kidId });
     } catch (error) {
       console.error('Error updating kid permissions:', error);
       throw error;
@@ -123,6 +167,8 @@ export const kidProfileService: KidProfileService = {
   async deleteKidProfile(kidId: string) {
     try {
       await deleteDoc(doc(db, 'kidProfiles', kidId));
+      await offlineStore.removeDoc('kidProfiles', kidId);
+      cacheEvents.emit({ entity: 'kidProfile', change: 'deleted', id: kidId });
     } catch (error) {
       console.error('Error deleting kid profile:', error);
       throw error;
@@ -161,9 +207,8 @@ export const kidProfileService: KidProfileService = {
 
       querySnapshot.forEach((doc) => {
         const kidData = { id: doc.id, ...doc.data() } as KidProfile;
-        const hasAllergies = allergens.some(allergen =>
-          kidData.allergyFlags?.includes(allergen)
-        );
+        const kidAllergens = toAllergyFlags(getKidAllergies(kidData));
+        const hasAllergies = allergens.some(allergen => kidAllergens.includes(allergen));
         if (hasAllergies) {
           kids.push(kidData);
         }
@@ -175,4 +220,26 @@ export const kidProfileService: KidProfileService = {
       return [];
     }
   },
-};
\ No newline at end of file
+
+  // Keeps the family's kid list current, e.g. when a kid is added on another device
+  subscribeToParentKids(parentId: string, callback: (kids: KidProfile[]) => void): () => void {
+    const q = query(
+      collection(db, 'kidProfiles'),
+      where('parentId', '==', parentId)
+    );
+
+    return onSnapshot(q, (querySnapshot) => {
+      const kids: KidProfile[] = [];
+      querySnapshot.forEach((doc) => {
+        kids.push({ id: doc.id, ...doc.data() } as KidProfile);
+      });
+
+      const sortedKids = sortByName(kids);
+      cacheService.set(queryKeys.kidProfiles(parentId), sortedKids);
+      offlineStore.replaceQuery('kidProfiles', kid => kid.parentId === parentId, sortedKids);
+      callback(sortedKids);
+    }, (error) => {
+      console.error('Error in parent kids subscription:', error);
+    });
+  },
+};
@@ -175,8 +175,14 @@ class KidProgressService {
     return initialProgress;
   }
 
-  // Record recipe completion and check for new badges
-  async recordRecipeCompletion(kidId: string, recipe: Recipe, safetyFollowed: boolean = true): Promise<BadgeEarnedResult> {
+  // Record recipe completion and check for new badges.
+  // completedAt comes from the cooking session so streaks follow when the kid actually cooked.
+  async recordRecipeCompletion(
+    kidId: string,
+    recipe: Recipe,
+    safetyFollowed: boolean = true,
+    completedAt: Date = new Date()
+  ): Promise<BadgeEarnedResult> {
     const progress = await this.getProgress(kidId);
     const newBadges: KidBadge[] = [];
     const achievements: KidAchievement[] = [];
@@ -187,6 +193,22 @@ class KidProgressService {
       updatedAt: Timestamp.now(),
     };
 
+    // Update cooking streak - cooking again on the same day doesn't extend it
+    const lastActivity = progress.streaks.lastActivity as Date | Timestamp | undefined;
+    const daysSinceLast = lastActivity
+      ? this.daysBetween(lastActivity instanceof Timestamp ? lastActivity.toDate() : lastActivity, completedAt)
+      : undefined;
+    if (daysSinceLast === undefined || daysSinceLast >= 0) {
+      const current = daysSinceLast === 0
+        ? Math.max(1, progress.streaks.current)
+        : daysSinceLast === 1 ? progress.streaks.current + 1 : 1;
+      updates.streaks = {
+        current,
+        best: Math.max(progress.streaks.best, current),
+        lastActivity: Timestamp.fromDate(completedAt),
+      };
+    }
+
     // Update category progress based on recipe tags/type
     const recipeCategories = this.categorizeRecipe(recipe);
     for (const category of recipeCategories) {
@@ -227,6 +249,13 @@ class KidProgressService {
     return { newBadges, achievements };
   }
 
+  // Whole calendar days from one date to another, in local time
+  private daysBetween(from: Date, to: Date): number {
+    const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+    const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+    return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+  }
+
   // Check which new badges should be awarded
   private checkForNewBadges(progress: KidProgress): Omit<KidBadge, 'earnedAt'>[] {
     const earnedBadgeIds = new Set(progress.badges.map(b => b.id));
@@ -268,6 +297,11 @@ class KidProgressService {
       newBadges.push(AVAILABLE_BADGES.find(b => b.id === 'dessert_artist')!);
     }
 
+    // Check streaks
+    if (progress.streaks.best >= 7 && !earnedBadgeIds.has('week_streak')) {
+      newBadges.push(AVAILABLE_BADGES.find(b => b.id === 'week_streak')!);
+    }
+
     // Check balanced cooking
     const categories = progress.categoryProgress;
     if (categories.vegetables > 0 && categories.fruits > 0 && categories.desserts > 0 &&
@@ -9,10 +9,17 @@ import {
   getDoc,
   query,
   where,
-  Timestamp
+  Timestamp,
+  onSnapshot
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { aiService } from './aiService';
+import { offlineStore } from './offlineStore';
+import { cacheService } from './cacheService';
+import { cacheEvents } from './cacheEvents';
+import { queryKeys } from './queryClient';
+import { readWithFallback } from './syncQueue';
+import { parseDurationMinutes } from '../utils/durations';
 import type { Recipe, KidRecipe, ReadingLevel, KidProfile, KidRecipeCacheEntry } from '../types';
 
 export interface KidRecipeManagerService {
@@ -24,8 +31,17 @@ export interface KidRecipeManagerService {
   deleteKidRecipe: (kidRecipeId: string) => Promise<void>;
   reconvertRecipe: (originalRecipe: Recipe, kidId: string, readingLevel: ReadingLevel, kidAge?: number) => Promise<string>;
   updateConversionCount: (kidRecipeId: string) => Promise<void>;
+  subscribeToKidRecipes: (kidId: string, callback: (kidRecipes: KidRecipe[]) => void) => () => void;
 }
 
+// Newest first; handles both Date objects and Firestore Timestamps
+const sortByCreated = (kidRecipes: KidRecipe[]): KidRecipe[] =>
+  kidRecipes.sort((a, b) => {
+    const aTime = a.createdAt ? (a.createdAt instanceof Date ? a.createdAt.getTime() : a.createdAt.toMillis()) : 0;
+    const bTime = b.createdAt ? (b.createdAt instanceof Date ? b.createdAt.getTime() : b.createdAt.toMillis()) : 0;
+    return bTime - aTime;
+  });
+
 const stripUndefined = (value: unknown): unknown => {
   if (Array.isArray(value)) {
     return value.map(stripUndefined);
@@ -98,7 +114,7 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
             simplifiedIngredients: cacheEntry.simplifiedIngredients,
             simplifiedSteps: cacheEntry.simplifiedSteps,
             safetyNotes: cacheEntry.safetyNotes,
-            estimatedDuration: cacheEntry.estimatedDuration,
+            estimatedDuration: parseDurationMinutes(cacheEntry.estimatedDuration),
             skillsRequired: cacheEntry.skillsRequired,
           };
         }
@@ -143,6 +159,7 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
       // Save to database
       const docRef = await addDoc(collection(db, 'kidRecipes'), stripUndefined(kidRecipe));
       console.log('Kid recipe saved successfully with ID:', docRef.id);
+      cacheEvents.emit({ entity: 'kidRecipe', change: 'created', id: docRef.id, kidId, originalRecipeId: originalRecipe.id });
 
       return docRef.id;
     } catch (error) {
@@ -153,14 +170,22 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
 
   async getKidRecipe(kidRecipeId: string): Promise<KidRecipe | null> {
     try {
-      const docSnap = await getDoc(doc(db, 'kidRecipes', kidRecipeId));
-      if (docSnap.exists()) {
-        return {
-          id: docSnap.id,
-          ...docSnap.data(),
-        } as KidRecipe;
-      }
-      return null;
+      return await readWithFallback(
+        async () => {
+          const docSnap = await getDoc(doc(db, 'kidRecipes', kidRecipeId));
+          if (docSnap.exists()) {
+            const kidRecipe = {
+              id: docSnap.id,
+              ...docSnap.data(),
+            } as KidRecipe;
+            await offlineStore.putDoc('kidRecipes', kidRecipe);
+            return kidRecipe;
+          }
+          await offlineStore.removeDoc('kidRecipes', kidRecipeId);
+          return null;
+        },
+        () => offlineStore.getDoc<KidRecipe>('kidRecipes', kidRecipeId)
+      );
     } catch (error) {
       console.error('Error fetching kid recipe:', error);
       return null;
@@ -169,22 +194,34 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
 
   async getKidRecipeByOriginal(originalRecipeId: string, kidId: string): Promise<KidRecipe | null> {
     try {
-      const q = query(
-        collection(db, 'kidRecipes'),
-        where('originalRecipeId', '==', originalRecipeId),
-        where('kidId', '==', kidId),
-        where('isActive', '==', true)
-      );
+      return await readWithFallback(
+        async () => {
+          const q = query(
+            collection(db, 'kidRecipes'),
+            where('originalRecipeId', '==', originalRecipeId),
+            where('kidId', '==', kidId),
+            where('isActive', '==', true)
+          );
 
-      const querySnapshot = await getDocs(q);
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0];
-        return {
-          id: doc.id,
-          ...doc.data(),
-        } as KidRecipe;
-      }
-      return null;
+          const querySnapshot = await getDocs(q);
+          if (!querySnapshot.empty) {
+            const doc = querySnapshot.docs[0];
+            const kidRecipe = {
+              id: doc.id,
+              ...doc.data(),
+            } as KidRecipe;
+            await offlineStore.putDoc('kidRecipes', kidRecipe);
+            return kidRecipe;
+          }
+          return null;
+        },
+        async () => {
+          const [kidRecipe] = await offlineStore.getDocs<KidRecipe>('kidRecipes', recipe =>
+            recipe.originalRecipeId === originalRecipeId && recipe.kidId === kidId && recipe.isActive === true
+          );
+          return kidRecipe || null;
+        }
+      );
     } catch (error) {
       console.error('Error fetching kid recipe by original:', error);
       return null;
@@ -193,27 +230,31 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
 
   async getKidRecipes(kidId: string): Promise<KidRecipe[]> {
     try {
-      const q = query(
-        collection(db, 'kidRecipes'),
-        where('kidId', '==', kidId),
-        where('isActive', '==', true)
-      );
+      const isKidsRecipe = (recipe: KidRecipe) => recipe.kidId === kidId && recipe.isActive === true;
+      const kidRecipes = await readWithFallback(
+        async () => {
+          const q = query(
+            collection(db, 'kidRecipes'),
+            where('kidId', '==', kidId),
+            where('isActive', '==', true)
+          );
 
-      const querySnapshot = await getDocs(q);
-      const kidRecipes: KidRecipe[] = [];
+          const querySnapshot = await getDocs(q);
+          const fetched: KidRecipe[] = [];
 
-      querySnapshot.forEach((doc) => {
-        kidRecipes.push({
-          id: doc.id,
-          ...doc.data(),
-        } as KidRecipe);
-      });
+          querySnapshot.forEach((doc) => {
+            fetched.push({
+              id: doc.id,
+              ...doc.data(),
+            } as KidRecipe);
+          });
 
-      return kidRecipes.sort((a, b) => {
-        const aTime = a.createdAt ? (a.createdAt instanceof Date ? a.createdAt.getTime() : a.createdAt.toMillis()) : 0;
-        const bTime = b.createdAt ? (b.createdAt instanceof Date ? b.createdAt.getTime() : b.createdAt.toMillis()) : 0;
-        return bTime - aTime;
-      });
+          return offlineStore.replaceQuery('kidRecipes', isKidsRecipe, fetched);
+        },
+        () => offlineStore.getDocs('kidRecipes', isKidsRecipe)
+      );
+
+      return sortByCreated(kidRecipes);
     } catch (error) {
       console.error('Error fetching kid recipes:', error);
       return [];
@@ -233,6 +274,8 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
   async deleteKidRecipe(kidRecipeId: string): Promise<void> {
     try {
       await deleteDoc(doc(db, 'kidRecipes', kidRecipeId));
+      await offlineStore.removeDoc('kidRecipes', kidRecipeId);
+      cacheEvents.emit({ entity: 'kidRecipe', change: 'deleted', id: kidRecipeId });
       console.log('Kid recipe deleted successfully');
     } catch (error) {
       console.error('Error deleting kid recipe:', error);
@@ -249,6 +292,7 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
           isActive: false,
           deactivatedAt: Timestamp.now(),
         });
+        cacheEvents.emit({ entity: 'kidRecipe', change: 'updated', id: existingKidRecipe.id, kidId, originalRecipeId: originalRecipe.id });
       }
 
       // Create new conversion
@@ -270,12 +314,36 @@ export const kidRecipeManagerService: KidRecipeManagerService = {
           conversionCount: currentCount + 1,
           lastConvertedAt: Timestamp.now(),
         });
+        cacheEvents.emit({ entity: 'kidRecipe', change: 'updated', id: kidRecipeId, kidId: kidRecipeDoc.data().kidId });
       }
     } catch (error) {
       console.error('Error updating conversion count:', error);
       throw error;
     }
   },
+
+  // Conversions finish on the server, so lists on screen follow the collection live
+  subscribeToKidRecipes(kidId: string, callback: (kidRecipes: KidRecipe[]) => void): () => void {
+    const q = query(
+      collection(db, 'kidRecipes'),
+      where('kidId', '==', kidId),
+      where('isActive', '==', true)
+    );
+
+    return onSnapshot(q, (querySnapshot) => {
+      const kidRecipes: KidRecipe[] = [];
+      querySnapshot.forEach((doc) => {
+        kidRecipes.push({ id: doc.id, ...doc.data() } as KidRecipe);
+      });
+
+      const sortedKidRecipes = sortByCreated(kidRecipes);
+      cacheService.set(queryKeys.kidRecipes(kidId), sortedKidRecipes);
+      offlineStore.replaceQuery('kidRecipes', recipe => recipe.kidId === kidId && recipe.isActive === true, sortedKidRecipes);
+      callback(sortedKidRecipes);
+    }, (error) => {
+      console.error('Error in kid recipes subscription:', error);
+    });
+  },
 };
 
 // Helper interface for extended KidRecipe with conversion tracking
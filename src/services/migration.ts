@@ -11,6 +11,8 @@ import {
 import { db } from './firebase';
 import { parentProfileService } from './parentProfile';
 import { kidProfileService } from './kidProfile';
+import { cacheEvents } from './cacheEvents';
+import { getKidAllergies } from '../utils/kidRecipeChecks';
 import type { UserProfile, ParentProfile, KidProfile, UserSettings } from '../types';
 
 export interface MigrationService {
@@ -18,6 +20,7 @@ export interface MigrationService {
   migrateUserToMultiKid: (userId: string) => Promise<{ parentId: string; kidId: string }>;
   getMigrationStatus: (userId: string) => Promise<'not_needed' | 'needed' | 'completed'>;
   rollbackMigration: (userId: string) => Promise<void>;
+  migrateAllergyFlags: (kids: KidProfile[]) => Promise<number>;
 }
 
 const defaultUserSettings: UserSettings = {
@@ -26,6 +29,7 @@ const defaultUserSettings: UserSettings = {
   autoSimplify: true,
   fontSize: 'medium',
   temperatureUnit: 'fahrenheit',
+  measurementSystem: 'us',
   language: 'en',
   showDifficulty: true,
   enableVoiceInstructions: false,
@@ -141,6 +145,9 @@ export const migrationService: MigrationService = {
       });
 
       await batch.commit();
+      recipesSnapshot.forEach((recipeDoc) => {
+        cacheEvents.emit({ entity: 'recipe', change: 'updated', id: recipeDoc.id, userId });
+      });
 
       console.log('Migration completed successfully', { parentId, kidId });
       return { parentId, kidId };
@@ -198,6 +205,13 @@ export const migrationService: MigrationService = {
       });
 
       await batch.commit();
+      kids.forEach(kid => {
+        cacheEvents.emit({ entity: 'kidProfile', change: 'deleted', id: kid.id, parentId: parentProfile.id });
+      });
+      cacheEvents.emit({ entity: 'parentProfile', change: 'deleted', id: parentProfile.id, userId });
+      recipesSnapshot.forEach((recipeDoc) => {
+        cacheEvents.emit({ entity: 'recipe', change: 'updated', id: recipeDoc.id, userId });
+      });
 
       console.log('Migration rollback completed successfully');
     } catch (error) {
@@ -205,4 +219,34 @@ export const migrationService: MigrationService = {
       throw error;
     }
   },
-};
\ No newline at end of file
+
+  /**
+   * Gives kids that only have name-only allergy flags a structured allergy list.
+   * Returns how many profiles were updated.
+   */
+  async migrateAllergyFlags(kids: KidProfile[]): Promise<number> {
+    try {
+      const legacyKids = kids.filter(kid => !kid.allergies && kid.allergyFlags?.length > 0);
+      if (legacyKids.length === 0) {
+        return 0;
+      }
+
+      const batch = writeBatch(db);
+      legacyKids.forEach(kid => {
+        batch.update(doc(db, 'kidProfiles', kid.id), {
+          allergies: getKidAllergies(kid),
+          updatedAt: Timestamp.now(),
+        });
+      });
+      await batch.commit();
+      legacyKids.forEach(kid => {
+        cacheEvents.emit({ entity: 'kidProfile', change: 'updated', id: kid.id, parentId: kid.parentId });
+      });
+
+      return legacyKids.length;
+    } catch (error) {
+      console.error('Error migrating allergy flags:', error);
+      return 0;
+    }
+  },
+};
@@ -0,0 +1,61 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { onlineManager } from '@tanstack/react-query';
+import { errorReportingService } from './errorReporting';
+
+export type NetworkListener = (isOnline: boolean) => void;
+
+// Reachability is unknown (null) for a moment after connecting; count that as online
+const isStateOnline = (state: NetInfoState): boolean =>
+  !!state.isConnected && state.isInternetReachable !== false;
+
+class NetworkStatusService {
+  private online = true;
+  private listeners: NetworkListener[] = [];
+  private unsubscribeNetInfo: (() => void) | null = null;
+
+  // Starts watching connectivity and keeps react-query and error reporting in step with it
+  start(): void {
+    if (this.unsubscribeNetInfo) return;
+
+    this.unsubscribeNetInfo = NetInfo.addEventListener(state => this.setOnline(isStateOnline(state)));
+
+    onlineManager.setEventListener(setOnline => this.subscribe(setOnline));
+  }
+
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  subscribe(listener: NetworkListener): () => void {
+    this.listeners.push(listener);
+    listener(this.online);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private setOnline(online: boolean): void {
+    if (online === this.online) return;
+    this.online = online;
+    errorReportingService.setOnlineStatus(online);
+
+    this.listeners.forEach(listener => {
+      try {
+        listener(online);
+      } catch (error) {
+        console.error('Error in network listener:', error);
+      }
+    });
+  }
+}
+
+export const networkStatusService = new NetworkStatusService();
@@ -0,0 +1,189 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Timestamp } from 'firebase/firestore';
+
+// Firestore collections that can be read without a connection
+export type OfflineCollection =
+  | 'recipes'
+  | 'kidRecipes'
+  | 'kidProfiles'
+  | 'parentProfiles'
+  | 'recipeFavorites'
+  | 'recipeRatings'
+  | 'shoppingLists';
+
+export interface OfflineDoc {
+  id: string;
+  [field: string]: any;
+}
+
+const STORAGE_KEY_PREFIX = 'KIDCHEF_OFFLINE_';
+
+const OFFLINE_COLLECTIONS: OfflineCollection[] = [
+  'recipes', 'kidRecipes', 'kidProfiles', 'parentProfiles', 'recipeFavorites', 'recipeRatings', 'shoppingLists',
+];
+
+/**
+ * Timestamps come back from JSON as plain { seconds, nanoseconds, type? } objects;
+ * turn them back into Timestamps so .toMillis() and .toDate() keep working
+ */
+export const reviveTimestamps = (value: any): any => {
+  if (Array.isArray(value)) return value.map(reviveTimestamps);
+  if (!value || typeof value !== 'object' || value instanceof Timestamp || value instanceof Date) return value;
+
+  const keys = Object.keys(value);
+  const isTimestampShape = typeof value.seconds === 'number' && typeof value.nanoseconds === 'number' &&
+    keys.every(key => key === 'seconds' || key === 'nanoseconds' || key === 'type');
+  if (isTimestampShape) {
+    return new Timestamp(value.seconds, value.nanoseconds);
+  }
+
+  const revived: Record<string, any> = {};
+  keys.forEach(key => {
+    revived[key] = reviveTimestamps(value[key]);
+  });
+  return revived;
+};
+
+/**
+ * When a document last changed, in epoch ms; ratings only have createdAt
+ */
+export const getUpdatedMillis = (data: any): number => {
+  const value = data?.updatedAt ?? data?.createdAt;
+  if (!value) return 0;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return Date.parse(value) || 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  if (typeof value.seconds === 'number') return value.seconds * 1000 + Math.floor((value.nanoseconds || 0) / 1e6);
+  return 0;
+};
+
+/**
+ * Local copy of the documents the app has read or written, kept in AsyncStorage
+ * so recipes, kid recipes and profiles still open without Wi-Fi
+ */
+class OfflineStore {
+  private collections = new Map<OfflineCollection, Map<string, OfflineDoc>>();
+  private loading = new Map<OfflineCollection, Promise<Map<string, OfflineDoc>>>();
+  // Saves for a collection run one after another so an older snapshot can't land last
+  private saving = new Map<OfflineCollection, Promise<void>>();
+
+  async getDoc<T extends { id: string }>(collection: OfflineCollection, id: string): Promise<T | null> {
+    const docs = await this.load(collection);
+    return (docs.get(id) as T) || null;
+  }
+
+  async getDocs<T extends { id: string }>(collection: OfflineCollection, match: (doc: T) => boolean): Promise<T[]> {
+    const docs = await this.load(collection);
+    return Array.from(docs.values()).filter(doc => match(doc as T)) as T[];
+  }
+
+  async putDoc(collection: OfflineCollection, doc: OfflineDoc): Promise<void> {
+    await this.putDocs(collection, [doc]);
+  }
+
+  async putDocs(collection: OfflineCollection, newDocs: OfflineDoc[]): Promise<void> {
+    if (newDocs.length === 0) return;
+    const docs = await this.load(collection);
+    newDocs.forEach(doc => docs.set(doc.id, doc));
+    this.save(collection);
+  }
+
+  // Merges changes into the stored copy, e.g. an edit made offline
+  async updateDoc(collection: OfflineCollection, id: string, updates: Record<string, any>): Promise<void> {
+    const docs = await this.load(collection);
+    const existing = docs.get(id);
+    if (!existing) return;
+    docs.set(id, { ...existing, ...updates, id });
+    this.save(collection);
+  }
+
+  async removeDoc(collection: OfflineCollection, id: string): Promise<void> {
+    const docs = await this.load(collection);
+    if (docs.delete(id)) {
+      this.save(collection);
+    }
+  }
+
+  /**
+   * Replaces the stored results of a query with fresh ones from the server.
+   * Documents with unsynced local changes (keepIds) keep their local version,
+   * including staying gone when they were deleted locally.
+   * Returns everything that now matches, local changes included.
+   */
+  async replaceQuery<T extends { id: string }>(
+    collection: OfflineCollection,
+    match: (doc: T) => boolean,
+    freshDocs: T[],
+    keepIds: string[] = []
+  ): Promise<T[]> {
+    const docs = await this.load(collection);
+    const keep = new Set(keepIds);
+    const freshIds = new Set(freshDocs.map(doc => doc.id));
+
+    Array.from(docs.values()).forEach(doc => {
+      if (match(doc as T) && !freshIds.has(doc.id) && !keep.has(doc.id)) {
+        docs.delete(doc.id);
+      }
+    });
+    freshDocs.forEach(doc => {
+      if (!keep.has(doc.id)) {
+        docs.set(doc.id, doc);
+      }
+    });
+    this.save(collection);
+
+    return Array.from(docs.values()).filter(doc => match(doc as T)) as T[];
+  }
+
+  // Everything goes on sign-out so the next parent doesn't see this family's recipes
+  async clear(): Promise<void> {
+    this.collections.clear();
+    this.loading.clear();
+    try {
+      await AsyncStorage.multiRemove(OFFLINE_COLLECTIONS.map(collection => STORAGE_KEY_PREFIX + collection));
+    } catch (error) {
+      console.error('Error clearing offline store:', error);
+    }
+  }
+
+  private load(collection: OfflineCollection): Promise<Map<string, OfflineDoc>> {
+    const loaded = this.collections.get(collection);
+    if (loaded) return Promise.resolve(loaded);
+
+    let pending = this.loading.get(collection);
+    if (!pending) {
+      pending = AsyncStorage.getItem(STORAGE_KEY_PREFIX + collection)
+        .then(stored => {
+          const docs: OfflineDoc[] = stored ? reviveTimestamps(JSON.parse(stored)) : [];
+          return new Map(docs.map(doc => [doc.id, doc]));
+        })
+        .catch(error => {
+          console.error(`Error loading offline ${collection}:`, error);
+          return new Map<string, OfflineDoc>();
+        })
+        .then(docs => {
+          this.collections.set(collection, docs);
+          this.loading.delete(collection);
+          return docs;
+        });
+      this.loading.set(collection, pending);
+    }
+    return pending;
+  }
+
+  private save(collection: OfflineCollection): void {
+    const previous = this.saving.get(collection) || Promise.resolve();
+    const next = previous.then(async () => {
+      const docs = this.collections.get(collection);
+      if (!docs) return;
+      try {
+        await AsyncStorage.setItem(STORAGE_KEY_PREFIX + collection, JSON.stringify(Array.from(docs.values())));
+      } catch (error) {
+        console.error(`Error saving offline ${collection}:`, error);
+      }
+    });
+    this.saving.set(collection, next);
+  }
+}
+
+export const offlineStore = new OfflineStore();
@@ -0,0 +1,39 @@
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { validateDocumentId } from '../utils/validation';
+import type { Pantry, PantryItem } from '../types';
+
+export interface PantryService {
+  getItems: (parentId: string) => Promise<PantryItem[]>;
+  saveItems: (parentId: string, items: PantryItem[]) => Promise<void>;
+}
+
+export const pantryService: PantryService = {
+  async getItems(parentId: string): Promise<PantryItem[]> {
+    try {
+      const pantryDoc = await getDoc(doc(db, 'pantries', validateDocumentId(parentId, 'Parent ID')));
+      if (!pantryDoc.exists()) {
+        return [];
+      }
+      return (pantryDoc.data() as Omit<Pantry, 'id'>).items || [];
+    } catch (error) {
+      console.error('Error fetching pantry:', error);
+      throw error;
+    }
+  },
+
+  async saveItems(parentId: string, items: PantryItem[]): Promise<void> {
+    try {
+      const validatedParentId = validateDocumentId(parentId, 'Parent ID');
+      const pantryData: Omit<Pantry, 'id'> = {
+        parentId: validatedParentId,
+        items: items.map(({ id, name, aisle }) => ({ id, name, aisle })),
+        updatedAt: Timestamp.now(),
+      };
+      await setDoc(doc(db, 'pantries', validatedParentId), pantryData);
+    } catch (error) {
+      console.error('Error saving pantry:', error);
+      throw error;
+    }
+  },
+};
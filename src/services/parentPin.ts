@@ -0,0 +1,47 @@
+import { httpsCallable } from 'firebase/functions';
+import { functions } from './firebase';
+import type { PinVerification } from '../types';
+
+export interface ParentPinService {
+  verifyPin: (pin: string) => Promise<PinVerification>;
+  setPin: (pin: string, currentPin?: string) => Promise<PinVerification>;
+  migrateLegacyPin: () => Promise<boolean>;
+}
+
+// PINs are hashed and checked by Cloud Functions, which also count wrong tries
+export const parentPinService: ParentPinService = {
+  async verifyPin(pin: string): Promise<PinVerification> {
+    try {
+      const verifyParentPin = httpsCallable(functions, 'verifyParentPin');
+      const result = await verifyParentPin({ pin });
+      return result.data as PinVerification;
+    } catch (error) {
+      console.error('Error verifying parent PIN:', error);
+      throw error;
+    }
+  },
+
+  // Without currentPin the server only accepts the change right after a password sign-in
+  async setPin(pin: string, currentPin?: string): Promise<PinVerification> {
+    try {
+      const setParentPin = httpsCallable(functions, 'setParentPin');
+      const result = await setParentPin({ pin, ...(currentPin ? { currentPin } : {}) });
+      const data = result.data as { success: boolean; verification?: PinVerification };
+      return data.success ? { valid: true } : data.verification || { valid: false };
+    } catch (error) {
+      console.error('Error setting parent PIN:', error);
+      throw error;
+    }
+  },
+
+  async migrateLegacyPin(): Promise<boolean> {
+    try {
+      const migrateParentPin = httpsCallable(functions, 'migrateParentPin');
+      const result = await migrateParentPin({});
+      return (result.data as { hasPin: boolean }).hasPin;
+    } catch (error) {
+      console.error('Error migrating parent PIN:', error);
+      return false;
+    }
+  },
+};
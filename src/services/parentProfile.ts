@@ -11,6 +11,9 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from './firebase';
+import { offlineStore } from './offlineStore';
+import { cacheEvents } from './cacheEvents';
+import { readWithFallback } from './syncQueue';
 import type { ParentProfile, UserSettings } from '../types';
 
 export interface ParentProfileService {
@@ -36,6 +39,7 @@ export const parentProfileService: ParentProfileService = {
       };
 
       const docRef = await addDoc(collection(db, 'parentProfiles'), parentProfile);
+      cacheEvents.emit({ entity: 'parentProfile', change: 'created', id: docRef.id, userId });
       return docRef.id;
     } catch (error) {
       console.error('Error creating parent profile:', error);
@@ -45,20 +49,31 @@ export const parentProfileService: ParentProfileService = {
 
   async getParentProfile(userId: string): Promise<ParentProfile | null> {
     try {
-      const q = query(
-        collection(db, 'parentProfiles'),
-        where('userId', '==', userId)
-      );
+      // Without the stored copy an offline start would look like a brand new account
+      return await readWithFallback(
+        async () => {
+          const q = query(
+            collection(db, 'parentProfiles'),
+            where('userId', '==', userId)
+          );
 
-      const querySnapshot = await getDocs(q);
-      if (!querySnapshot.empty) {
-        const doc = querySnapshot.docs[0];
-        return {
-          id: doc.id,
-          ...doc.data(),
-        } as ParentProfile;
-      }
-      return null;
+          const querySnapshot = await getDocs(q);
+          if (!querySnapshot.empty) {
+            const doc = querySnapshot.docs[0];
+            const profile = {
+              id: doc.id,
+              ...doc.data(),
+            } as ParentProfile;
+            await offlineStore.putDoc('parentProfiles', profile);
+            return profile;
+          }
+          return null;
+        },
+        async () => {
+          const [profile] = await offlineStore.getDocs<ParentProfile>('parentProfiles', stored => stored.userId === userId);
+          return profile || null;
+        }
+      );
     } catch (error) {
       console.error('Error fetching parent profile:', error);
       return null;
@@ -75,6 +90,7 @@ export const parentProfileService: ParentProfileService = {
       delete updateData.createdAt;
 
       await updateDoc(doc(db, 'parentProfiles', profileId), updateData);
+      cacheEvents.emit({ entity: 'parentProfile', change: 'updated', id: profileId, userId: updates.userId });
     } catch (error) {
       console.error('Error updating parent profile:', error);
       throw error;
@@ -87,6 +103,7 @@ export const parentProfileService: ParentProfileService = {
         settings,
         updatedAt: Timestamp.now(),
       });
+      cacheEvents.emit({ entity: 'parentProfile', change: 'updated', id: profileId });
     } catch (error) {
       console.error('Error updating parent settings:', error);
       throw error;
@@ -103,6 +120,7 @@ export const parentProfileService: ParentProfileService = {
             kidIds: [...currentKidIds, kidId],
             updatedAt: Timestamp.now(),
           });
+          cacheEvents.emit({ entity: 'parentProfile', change: 'updated', id: profileId, userId: parentDoc.data()?.userId });
         }
       }
     } catch (error) {
@@ -121,6 +139,7 @@ export const parentProfileService: ParentProfileService = {
           kidIds: updatedKidIds,
           updatedAt: Timestamp.now(),
         });
+        cacheEvents.emit({ entity: 'parentProfile', change: 'updated', id: profileId, userId: parentDoc.data()?.userId });
       }
     } catch (error) {
       console.error('Error removing kid from parent:', error);
@@ -131,6 +150,8 @@ export const parentProfileService: ParentProfileService = {
   async deleteParentProfile(profileId: string) {
     try {
       await deleteDoc(doc(db, 'parentProfiles', profileId));
+      await offlineStore.removeDoc('parentProfiles', profileId);
+      cacheEvents.emit({ entity: 'parentProfile', change: 'deleted', id: profileId });
     } catch (error) {
       console.error('Error deleting parent profile:', error);
       throw error;
@@ -1,6 +1,9 @@
-import { QueryClient } from '@tanstack/react-query';
+import { QueryClient, DataTag } from '@tanstack/react-query';
 import { persistQueryClient } from '@tanstack/react-query-persist-client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { reviveTimestamps } from './offlineStore';
+import type { ConversionTask } from './conversionStatus';
+import type { Recipe, KidRecipe, KidProfile, ParentProfile, ShoppingListItem, PantryItem } from '../types';
 
 // Create persister function for AsyncStorage
 const createAsyncStoragePersister = (config: any) => ({
@@ -66,9 +69,9 @@ export const queryClient = new QueryClient({
 const persister = createAsyncStoragePersister({
   storage: AsyncStorage,
   key: 'KIDCHEF_CACHE',
-  // Serialize custom types
+  // Serialize custom types; Firestore Timestamps come back as plain objects otherwise
   serialize: JSON.stringify,
-  deserialize: JSON.parse,
+  deserialize: (data: string) => reviveTimestamps(JSON.parse(data)),
 });
 
 // Persist the query client
@@ -81,11 +84,13 @@ export const initializeQueryClient = async () => {
       // Only persist specific query types to avoid storage bloat
       dehydrateOptions: {
         shouldDehydrateQuery: (query) => {
-          // Persist kid recipes, recipes, and kid profiles
+          // Persist kid recipes, recipes, kid profiles, the shopping list and the pantry
           return query.queryKey[0] === 'kidRecipes' ||
                  query.queryKey[0] === 'recipes' ||
                  query.queryKey[0] === 'kidProfiles' ||
-                 query.queryKey[0] === 'parentProfile';
+                 query.queryKey[0] === 'parentProfile' ||
+                 query.queryKey[0] === 'shoppingList' ||
+                 query.queryKey[0] === 'pantry';
         },
       },
     });
@@ -95,19 +100,27 @@ export const initializeQueryClient = async () => {
   }
 };
 
-// Query keys for consistent caching
+// A query key tagged with the data stored under it, so reads and writes are typed
+export type CacheKey<TData> = DataTag<string[], TData>;
+
+const cacheKey = <TData>(...parts: string[]): CacheKey<TData> => parts as CacheKey<TData>;
+
+// Query keys for consistent caching. Lists and single documents sit under
+// separate segments so ['recipes', 'list'] refreshes every recipe list at once.
 export const queryKeys = {
-  recipes: (userId: string) => ['recipes', userId],
-  recipe: (recipeId: string) => ['recipes', recipeId],
-  kidRecipes: (kidId: string) => ['kidRecipes', kidId],
-  kidRecipe: (kidRecipeId: string) => ['kidRecipes', kidRecipeId],
-  kidProfiles: (parentId: string) => ['kidProfiles', parentId],
-  kidProfile: (kidId: string) => ['kidProfiles', kidId],
-  parentProfile: (userId: string) => ['parentProfile', userId],
-  sharedRecipes: (kidId: string) => ['sharedRecipes', kidId],
-  conversionTasks: (userId: string) => ['conversionTasks', userId],
-  conversionTask: (taskId: string) => ['conversionTasks', taskId],
-} as const;
+  recipes: (userId: string) => cacheKey<Recipe[]>('recipes', 'list', userId),
+  recipe: (recipeId: string) => cacheKey<Recipe | null>('recipes', 'detail', recipeId),
+  kidRecipes: (kidId: string) => cacheKey<KidRecipe[]>('kidRecipes', 'list', kidId),
+  kidRecipe: (kidRecipeId: string) => cacheKey<KidRecipe | null>('kidRecipes', 'detail', kidRecipeId),
+  kidProfiles: (parentId: string) => cacheKey<KidProfile[]>('kidProfiles', 'list', parentId),
+  kidProfile: (kidId: string) => cacheKey<KidProfile | null>('kidProfiles', 'detail', kidId),
+  parentProfile: (userId: string) => cacheKey<ParentProfile | null>('parentProfile', userId),
+  sharedRecipes: (kidId: string) => cacheKey<Recipe[]>('sharedRecipes', kidId),
+  conversionTasks: (userId: string) => cacheKey<ConversionTask[]>('conversionTasks', 'list', userId),
+  conversionTask: (taskId: string) => cacheKey<ConversionTask | null>('conversionTasks', 'detail', taskId),
+  shoppingList: (parentId: string) => cacheKey<ShoppingListItem[]>('shoppingList', parentId),
+  pantry: (parentId: string) => cacheKey<PantryItem[]>('pantry', parentId),
+};
 
 // Helper to clear all cached data (useful for logout)
 export const clearQueryCache = async () => {
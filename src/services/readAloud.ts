@@ -0,0 +1,110 @@
+import * as Speech from 'expo-speech';
+import type { KidStep, ReadingLevel } from '../types';
+
+export interface SpeakOptions {
+  language?: string; // ISO language code from UserSettings
+  readingLevel?: ReadingLevel;
+  onDone?: () => void;
+}
+
+export interface ReadAloudService {
+  speak: (text: string, options?: SpeakOptions) => Promise<void>;
+  speakStep: (step: Pick<KidStep, 'kidFriendlyText' | 'safetyNote' | 'encouragement'>, stepNumber: number, totalSteps: number, options?: SpeakOptions) => Promise<void>;
+  stop: () => Promise<void>;
+  isSpeaking: () => Promise<boolean>;
+}
+
+// Newer readers need more time to follow along
+const SPEECH_RATES: Record<ReadingLevel, number> = {
+  beginner: 0.8,
+  intermediate: 0.9,
+  advanced: 1.0,
+};
+
+const voiceCache = new Map<string, string | undefined>();
+
+/**
+ * Best installed voice for a language: an exact match ("en-US") wins over a
+ * regional one ("en-GB"), and enhanced voices win over default ones
+ */
+const findVoice = async (language: string): Promise<string | undefined> => {
+  if (voiceCache.has(language)) {
+    return voiceCache.get(language);
+  }
+
+  try {
+    const voices = await Speech.getAvailableVoicesAsync();
+    const lang = language.toLowerCase();
+    const candidates = voices.filter(voice => {
+      const voiceLang = voice.language.toLowerCase().replace('_', '-');
+      return voiceLang === lang || voiceLang.split('-')[0] === lang.split('-')[0];
+    });
+    const score = (voice: Speech.Voice) =>
+      (voice.language.toLowerCase().replace('_', '-') === lang ? 2 : 0) +
+      (voice.quality === Speech.VoiceQuality.Enhanced ? 1 : 0);
+    const best = candidates.sort((a, b) => score(b) - score(a))[0];
+
+    voiceCache.set(language, best?.identifier);
+    return best?.identifier;
+  } catch (error) {
+    console.error('Error loading speech voices:', error);
+    return undefined;
+  }
+};
+
+/**
+ * What gets spoken for a step: the instruction, then any safety note, then the encouragement
+ */
+export const buildStepSpeech = (
+  step: Pick<KidStep, 'kidFriendlyText' | 'safetyNote' | 'encouragement'>,
+  stepNumber: number,
+  totalSteps: number
+): string => {
+  const parts = [`Step ${stepNumber} of ${totalSteps}.`, step.kidFriendlyText];
+  if (step.safetyNote) parts.push(`Safety tip: ${step.safetyNote}`);
+  if (step.encouragement) parts.push(step.encouragement);
+  return parts.join(' ');
+};
+
+export const readAloudService: ReadAloudService = {
+  async speak(text: string, options: SpeakOptions = {}) {
+    try {
+      // Only one thing should be talking at a time
+      await Speech.stop();
+
+      const language = options.language || 'en';
+      const voice = await findVoice(language);
+
+      Speech.speak(text, {
+        language,
+        voice,
+        rate: SPEECH_RATES[options.readingLevel || 'intermediate'],
+        onDone: options.onDone,
+        onError: (error) => console.error('Error speaking text:', error),
+      });
+    } catch (error) {
+      console.error('Error starting read-aloud:', error);
+    }
+  },
+
+  async speakStep(step, stepNumber, totalSteps, options = {}) {
+    await this.speak(buildStepSpeech(step, stepNumber, totalSteps), options);
+  },
+
+  async stop() {
+    try {
+      await Speech.stop();
+    } catch (error) {
+      console.error('Error stopping read-aloud:', error);
+    }
+  },
+
+  async isSpeaking() {
+    try {
+      return await Speech.isSpeakingAsync();
+    } catch (error) {
+      console.error('Error checking read-aloud status:', error);
+      return false;
+    }
+  },
+};
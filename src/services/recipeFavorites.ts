@@ -10,6 +10,9 @@ import {
   deleteDoc
 } from 'firebase/firestore';
 import { auth, db } from './firebase';
+import { offlineStore } from './offlineStore';
+import { cacheEvents } from './cacheEvents';
+import { syncQueueService, readWithFallback } from './syncQueue';
 import type { RecipeFavorite } from '../types';
 import { validateDocumentId, ValidationError } from '../utils/validation';
 
@@ -21,6 +24,22 @@ export interface RecipeFavoritesService {
   removeFavorite: (recipeId: string, parentId: string, kidId?: string) => Promise<void>;
 }
 
+// Reads a favorite, preferring the local copy while it has changes waiting to sync
+const readFavorite = (favoriteId: string): Promise<RecipeFavorite | null> =>
+  readWithFallback(
+    async () => {
+      if (syncQueueService.getPendingDocIds('recipeFavorites').indexOf(favoriteId) > -1) {
+        return offlineStore.getDoc<RecipeFavorite>('recipeFavorites', favoriteId);
+      }
+      const favoriteDoc = await getDoc(doc(db, 'recipeFavorites', favoriteId));
+      if (!favoriteDoc.exists()) return null;
+      const favorite = { id: favoriteDoc.id, ...favoriteDoc.data() } as RecipeFavorite;
+      await offlineStore.putDoc('recipeFavorites', favorite);
+      return favorite;
+    },
+    () => offlineStore.getDoc<RecipeFavorite>('recipeFavorites', favoriteId)
+  );
+
 export const recipeFavoritesService: RecipeFavoritesService = {
   async toggleFavorite(recipeId: string, parentId: string, kidId?: string): Promise<boolean> {
     try {
@@ -41,8 +60,8 @@ export const recipeFavoritesService: RecipeFavoritesService = {
       const favoriteRef = doc(db, 'recipeFavorites', favoriteId);
 
       // Check if favorite already exists
-      const favoriteDoc = await getDoc(favoriteRef);
-      console.log('Existing favorite document exists:', favoriteDoc.exists());
+      const existingFavorite = await readFavorite(favoriteId);
+      console.log('Existing favorite document exists:', !!existingFavorite);
 
       if (__DEV__) {
         console.log('Current user auth state:', {
@@ -55,23 +74,28 @@ export const recipeFavoritesService: RecipeFavoritesService = {
           parentId: validatedParentId,
           kidId: validatedKidId,
           favoriteId,
-          documentExists: favoriteDoc.exists()
+          documentExists: !!existingFavorite
         });
       }
 
       const now = Timestamp.now();
 
-      if (favoriteDoc.exists()) {
+      if (existingFavorite) {
         // Toggle existing favorite
-        const existingFavorite = favoriteDoc.data() as RecipeFavorite;
+        const { id: _id, ...existingData } = existingFavorite;
         const newFavoriteStatus = !existingFavorite.isFavorited;
-
-        await setDoc(favoriteRef, {
-          ...existingFavorite,
+        const favoriteData = {
+          ...existingData,
           parentUserId: auth.currentUser?.uid || existingFavorite.parentUserId,
           isFavorited: newFavoriteStatus,
           updatedAt: now,
-        });
+        };
+
+        await syncQueueService.write(
+          { op: 'set', collection: 'recipeFavorites', docId: favoriteId, data: favoriteData },
+          () => setDoc(favoriteRef, favoriteData)
+        );
+        cacheEvents.emit({ entity: 'favorite', change: 'updated', id: favoriteId, parentId, kidId });
 
         return newFavoriteStatus;
       } else {
@@ -86,7 +110,11 @@ export const recipeFavoritesService: RecipeFavoritesService = {
           updatedAt: now,
         };
 
-        await setDoc(favoriteRef, newFavorite);
+        await syncQueueService.write(
+          { op: 'set', collection: 'recipeFavorites', docId: favoriteId, data: newFavorite },
+          () => setDoc(favoriteRef, newFavorite)
+        );
+        cacheEvents.emit({ entity: 'favorite', change: 'created', id: favoriteId, parentId, kidId });
         return true;
       }
     } catch (error) {
@@ -114,18 +142,15 @@ export const recipeFavoritesService: RecipeFavoritesService = {
         return false;
       }
 
-      const favoriteRef = doc(db, 'recipeFavorites', favoriteId);
-
       console.log('isFavorite attempting to read document:', {
         favoriteId,
         user: auth.currentUser?.uid,
         timestamp: new Date().toISOString()
       });
 
-      const favoriteDoc = await getDoc(favoriteRef);
+      const favorite = await readFavorite(favoriteId);
 
-      if (favoriteDoc.exists()) {
-        const favorite = favoriteDoc.data() as RecipeFavorite;
+      if (favorite) {
         return favorite.isFavorited === true; // Explicit boolean check
       }
 
@@ -270,6 +295,7 @@ export const recipeFavoritesService: RecipeFavoritesService = {
 
       const favoriteRef = doc(db, 'recipeFavorites', favoriteId);
       await deleteDoc(favoriteRef);
+      cacheEvents.emit({ entity: 'favorite', change: 'deleted', id: favoriteId, parentId, kidId });
     } catch (error) {
       console.error('Error removing favorite:', error);
       throw error;
@@ -1,11 +1,15 @@
 import { httpsCallable } from 'firebase/functions';
 import { functions, auth } from './firebase';
-import type { Recipe } from '../types';
+import type { Recipe, RecipeDraft } from '../types';
 import { validateString, sanitizeHtml, ValidationError } from '../utils/validation';
+import { normalizeIngredients, parseIngredientLines } from '../utils/ingredientParser';
+import { parseRecipeText, isRecipeDraftComplete } from '../utils/recipeText';
 
 export interface RecipeImportService {
   importFromUrl: (url: string, options?: ImportOptions) => Promise<ImportResult>;
   validateUrl: (url: string) => boolean;
+  extractUrls: (text: string) => string[];
+  importFromText: (text: string) => Promise<TextImportResult>;
 }
 
 export interface ImportOptions {
@@ -21,6 +25,14 @@ export interface ImportResult {
   fromFallback?: boolean;
 }
 
+// Text imports are never saved directly; the draft pre-fills the manual entry form
+export interface TextImportResult {
+  success: boolean;
+  draft?: RecipeDraft;
+  error?: ImportError;
+  fromFallback?: boolean;
+}
+
 export interface ImportError {
   code: string;
   message: string;
@@ -30,14 +42,21 @@ export interface ImportError {
 }
 
 export enum ImportStatus {
+  QUEUED = 'queued',
   VALIDATING = 'validating',
   FETCHING = 'fetching',
   PARSING = 'parsing',
   VALIDATING_CONTENT = 'validating_content',
   COMPLETE = 'complete',
-  ERROR = 'error'
+  ERROR = 'error',
+  SKIPPED = 'skipped'
 }
 
+// href="..." in a browser bookmarks export, or any bare http(s) link in pasted text
+const BOOKMARK_HREF_REGEX = /href\s*=\s*["']([^"']+)["']/gi;
+const BARE_URL_REGEX = /https?:\/\/[^\s"'<>]+/gi;
+const TRAILING_PUNCTUATION_REGEX = /[.,;:!?)\]]+$/;
+
 interface ScrapedRecipe {
   title: string;
   description?: string;
@@ -91,6 +110,80 @@ export const recipeImportService: RecipeImportService = {
     }
   },
 
+  extractUrls(text: string): string[] {
+    const candidates = /<a\s/i.test(text)
+      ? Array.from(text.matchAll(BOOKMARK_HREF_REGEX), match => match[1].replace(/&amp;/g, '&'))
+      : Array.from(text.matchAll(BARE_URL_REGEX), match => match[0].replace(TRAILING_PUNCTUATION_REGEX, ''));
+
+    const urls: string[] = [];
+    candidates.forEach(candidate => {
+      const url = candidate.trim();
+      if (this.validateUrl(url) && !urls.includes(url)) {
+        urls.push(url);
+      }
+    });
+    return urls;
+  },
+
+  async importFromText(text: string): Promise<TextImportResult> {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return {
+        success: false,
+        error: {
+          code: 'EMPTY_TEXT',
+          message: 'Paste a recipe to import',
+          canRetry: false
+        }
+      };
+    }
+
+    const draft = parseRecipeText(trimmed);
+    if (isRecipeDraftComplete(draft)) {
+      return { success: true, draft };
+    }
+
+    // The heuristics missed something; let the AI read it
+    try {
+      const extractRecipeFromText = httpsCallable(functions, 'extractRecipeFromText');
+      const result = await extractRecipeFromText({ text: trimmed, title: draft.title || undefined });
+      const data = result.data as { success: boolean; recipe?: ScrapedRecipe };
+
+      if (!data.success || !data.recipe) {
+        throw new Error('Could not read recipe text');
+      }
+
+      return {
+        success: true,
+        fromFallback: true,
+        draft: {
+          title: data.recipe.title || draft.title,
+          description: data.recipe.description || draft.description,
+          prepTime: data.recipe.prepTime || draft.prepTime,
+          cookTime: data.recipe.cookTime || draft.cookTime,
+          servings: data.recipe.servings || draft.servings,
+          ingredients: data.recipe.ingredients.length > 0 ? data.recipe.ingredients : draft.ingredients,
+          instructions: data.recipe.instructions.length > 0 ? data.recipe.instructions : draft.instructions,
+        }
+      };
+    } catch (error) {
+      console.error('Error extracting recipe from text:', error);
+      const importError: ImportError = {
+        code: 'TEXT_NOT_READ',
+        message: 'We couldn\'t read the whole recipe',
+        suggestion: 'Check the text has a title, ingredients and steps, or enter it manually',
+        canRetry: true,
+        allowManualEdit: true
+      };
+
+      // Whatever the heuristics found is still worth pre-filling
+      const hasContent = draft.title || draft.ingredients.length > 0 || draft.instructions.length > 0;
+      return hasContent
+        ? { success: true, draft, error: importError }
+        : { success: false, error: importError };
+    }
+  },
+
   async importFromUrl(url: string, options: ImportOptions = {}): Promise<ImportResult> {
     const { maxRetries = 3, onProgress, onRetry } = options;
 
@@ -181,9 +274,13 @@ export const recipeImportService: RecipeImportService = {
         if (result.success) {
           onProgress?.(ImportStatus.COMPLETE);
 
+          // Scrapers return raw ingredient lines; store them structured
           return {
             success: true,
-            recipe: result.recipe
+            recipe: result.recipe && {
+              ...result.recipe,
+              ingredients: normalizeIngredients(result.recipe.ingredients),
+            }
           };
         } else {
           throw new Error(result.error || 'Import failed');
@@ -349,7 +446,7 @@ export const recipeImportService: RecipeImportService = {
       totalTime: scraped.totalTime || '',
       servings: scraped.servings || 4,
       difficulty: scraped.difficulty || this.inferDifficulty(scraped),
-      ingredients: scraped.ingredients,
+      ingredients: parseIngredientLines(scraped.ingredients),
       instructions: scraped.instructions,
       sourceUrl: scraped.sourceUrl,
       tags: tags,
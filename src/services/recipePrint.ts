@@ -0,0 +1,46 @@
+import * as Print from 'expo-print';
+import { kidRecipeManagerService } from './kidRecipeManager';
+import { renderKidRecipeCardHtml, PAPER_SIZES, PaperSize } from '../utils/kidRecipeCard';
+import type { Recipe, KidProfile } from '../types';
+
+export interface RecipePrintService {
+  getKidRecipeCardHtml: (recipe: Recipe, kid: KidProfile, paperSize: PaperSize) => Promise<string>;
+  printKidRecipeCard: (recipe: Recipe, kid: KidProfile, paperSize: PaperSize) => Promise<void>;
+  saveKidRecipeCardPdf: (recipe: Recipe, kid: KidProfile, paperSize: PaperSize) => Promise<string>;
+}
+
+export const recipePrintService: RecipePrintService = {
+  // Cards are printed from the kid's own version, so the recipe has to be shared with them first
+  async getKidRecipeCardHtml(recipe: Recipe, kid: KidProfile, paperSize: PaperSize) {
+    const kidRecipe = await kidRecipeManagerService.getKidRecipeByOriginal(recipe.id, kid.id);
+    if (!kidRecipe) {
+      throw new Error(`${kid.name} doesn't have a kid version of this recipe yet`);
+    }
+
+    return renderKidRecipeCardHtml(kidRecipe, { title: recipe.title, kid, paperSize });
+  },
+
+  async printKidRecipeCard(recipe: Recipe, kid: KidProfile, paperSize: PaperSize) {
+    try {
+      const html = await recipePrintService.getKidRecipeCardHtml(recipe, kid, paperSize);
+      const { width, height } = PAPER_SIZES[paperSize];
+      await Print.printAsync({ html, width, height });
+    } catch (error) {
+      console.error('Error printing recipe card:', error);
+      throw error;
+    }
+  },
+
+  // Returns the file URI of the PDF
+  async saveKidRecipeCardPdf(recipe: Recipe, kid: KidProfile, paperSize: PaperSize) {
+    try {
+      const html = await recipePrintService.getKidRecipeCardHtml(recipe, kid, paperSize);
+      const { width, height } = PAPER_SIZES[paperSize];
+      const { uri } = await Print.printToFileAsync({ html, width, height });
+      return uri;
+    } catch (error) {
+      console.error('Error saving recipe card PDF:', error);
+      throw error;
+    }
+  },
+};
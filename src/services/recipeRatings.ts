@@ -12,6 +12,9 @@ import {
 } from 'firebase/firestore';
 import { db } from './firebase';
 import { recipeService } from './recipes';
+import { offlineStore } from './offlineStore';
+import { cacheEvents } from './cacheEvents';
+import { syncQueueService, readWithFallback } from './syncQueue';
 import type { RecipeRating } from '../types';
 
 export interface RecipeRatingsService {
@@ -49,14 +52,20 @@ export const recipeRatingsService: RecipeRatingsService = {
         parentId,
         rating,
         emoji: RATING_EMOJIS[rating],
-        comment,
+        ...(comment && { comment }),
         createdAt: now,
       };
 
-      await setDoc(ratingRef, newRating);
+      const result = await syncQueueService.write(
+        { op: 'set', collection: 'recipeRatings', docId: ratingId, data: newRating },
+        () => setDoc(ratingRef, newRating)
+      );
+      cacheEvents.emit({ entity: 'rating', change: 'updated', id: ratingId, recipeId });
 
-      // Update the recipe's average rating
-      await this.updateRecipeAverageRating(recipeId);
+      // Update the recipe's average rating; a queued rating does this once it syncs
+      if (result === 'saved') {
+        await this.updateRecipeAverageRating(recipeId);
+      }
 
     } catch (error) {
       console.error('Error rating recipe:', error);
@@ -88,14 +97,26 @@ export const recipeRatingsService: RecipeRatingsService = {
   async getKidRating(recipeId: string, kidId: string): Promise<RecipeRating | null> {
     try {
       const ratingId = `${kidId}_${recipeId}`;
-      const ratingRef = doc(db, 'recipeRatings', ratingId);
-      const ratingDoc = await getDoc(ratingRef);
 
-      if (ratingDoc.exists()) {
-        return { id: ratingDoc.id, ...ratingDoc.data() } as RecipeRating;
-      }
+      return await readWithFallback(
+        async () => {
+          if (syncQueueService.getPendingDocIds('recipeRatings').indexOf(ratingId) > -1) {
+            return offlineStore.getDoc<RecipeRating>('recipeRatings', ratingId);
+          }
 
-      return null;
+          const ratingRef = doc(db, 'recipeRatings', ratingId);
+          const ratingDoc = await getDoc(ratingRef);
+
+          if (ratingDoc.exists()) {
+            const kidRating = { id: ratingDoc.id, ...ratingDoc.data() } as RecipeRating;
+            await offlineStore.putDoc('recipeRatings', kidRating);
+            return kidRating;
+          }
+
+          return null;
+        },
+        () => offlineStore.getDoc<RecipeRating>('recipeRatings', ratingId)
+      );
     } catch (error) {
       console.error('Error getting kid rating:', error);
       return null;
@@ -134,6 +155,7 @@ export const recipeRatingsService: RecipeRatingsService = {
         ratingCount: count,
         updatedAt: Timestamp.now()
       });
+      cacheEvents.emit({ entity: 'recipe', change: 'updated', id: recipeId });
 
     } catch (error) {
       console.error('Error updating recipe average rating:', error);
@@ -142,6 +164,14 @@ export const recipeRatingsService: RecipeRatingsService = {
   },
 };
 
+// Ratings made offline count towards the average once they reach the server
+syncQueueService.onApplied(mutation => {
+  if (mutation.collection !== 'recipeRatings' || !mutation.data?.recipeId) return;
+  recipeRatingsService.updateRecipeAverageRating(mutation.data.recipeId).catch(error => {
+    console.error('Error updating average rating after sync:', error);
+  });
+});
+
 // Helper functions for UI components
 export const getRatingEmoji = (rating: number): string => {
   if (rating >= 4.5) return '🤤';
@@ -14,6 +14,8 @@ import { db } from './firebase';
 import { recipeService } from './recipes';
 import { kidProgressService } from './kidProgressService';
 import { recipeSharingService } from './recipeSharing';
+import { findAllergyMatches, getKidAllergies, isRecipeHiddenForKid } from '../utils/kidRecipeChecks';
+import { getRecipeTimes } from '../utils/durations';
 import type { Recipe, KidProfile, RecipeRecommendation, RecipeCategory } from '../types';
 
 export interface RecipeRecommendationsService {
@@ -34,8 +36,9 @@ export const recipeRecommendationsService: RecipeRecommendationsService = {
         return [];
       }
 
-      // Get shared recipes available to this kid
-      const sharedRecipes = await recipeSharingService.getSharedRecipesForKid(kidId);
+      // Get shared recipes available to this kid, minus anything a severe allergy rules out
+      const sharedRecipes = (await recipeSharingService.getSharedRecipesForKid(kidId))
+        .filter(recipe => !isRecipeHiddenForKid(recipe, kidProfile));
 
       if (sharedRecipes.length === 0) {
         return [];
@@ -175,7 +178,7 @@ export const recipeRecommendationsService: RecipeRecommendationsService = {
     }
 
     // Allergy safety
-    const hasAllergenConflict = this.hasAllergenConflict(recipe, kidProfile.allergyFlags || []);
+    const hasAllergenConflict = findAllergyMatches(recipe, getKidAllergies(kidProfile)).length > 0;
     if (hasAllergenConflict) {
       score -= 0.8; // Heavy penalty for allergen conflicts
     }
@@ -202,9 +205,7 @@ export const recipeRecommendationsService: RecipeRecommendationsService = {
     if (recipe.ingredients.length > 15) complexity += 1;
 
     // Check cooking time
-    const cookTime = typeof recipe.cookTime === 'number'
-      ? recipe.cookTime
-      : parseInt(recipe.cookTime?.toString().replace(/\D/g, '') || '30');
+    const cookTime = getRecipeTimes(recipe).cookMinutes ?? 30;
 
     if (cookTime > 45) complexity += 1;
     if (cookTime > 90) complexity += 1;
@@ -226,15 +227,4 @@ export const recipeRecommendationsService: RecipeRecommendationsService = {
     if (age <= 10) return complexity !== 'complex';
     return true; // 11+ can handle any complexity with supervision
   },
-
-  hasAllergenConflict(recipe: Recipe, kidAllergens: string[]): boolean {
-    if (!recipe.allergens || kidAllergens.length === 0) return false;
-
-    return recipe.allergens.some(allergen =>
-      kidAllergens.some(kidAllergen =>
-        kidAllergen.toLowerCase().includes(allergen.toLowerCase()) ||
-        allergen.toLowerCase().includes(kidAllergen.toLowerCase())
-      )
-    );
-  },
 };
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { recipeService } from './recipes';
+import { kidRecipeManagerService } from './kidRecipeManager';
+import { exportRecipe, createRecipeArchive, RecipeExportFormat } from '../utils/recipeExport';
+import type { ParsedRecipeFile } from '../utils/recipeImportFormats';
+import type { Recipe, KidRecipe } from '../types';
+
+export interface RecipeImportSummary {
+  imported: number;
+  failed: number;
+  skipped: number;
+}
+
+export interface RecipeTransferService {
+  exportRecipe: (recipe: Recipe, format: RecipeExportFormat, kidIds?: string[]) => Promise<string>;
+  exportCollection: (userId: string, kidIds?: string[]) => Promise<string>;
+  importRecipes: (userId: string, file: ParsedRecipeFile) => Promise<RecipeImportSummary>;
+}
+
+export const recipeTransferService: RecipeTransferService = {
+  // Pass kid IDs to include each kid's version of the recipe
+  async exportRecipe(recipe: Recipe, format: RecipeExportFormat, kidIds: string[] = []) {
+    try {
+      const kidRecipes = await Promise.all(
+        kidIds.map(kidId => kidRecipeManagerService.getKidRecipeByOriginal(recipe.id, kidId))
+      );
+
+      return exportRecipe(
+        recipe,
+        format,
+        kidRecipes.filter((kidRecipe): kidRecipe is KidRecipe => kidRecipe !== null)
+      );
+    } catch (error) {
+      console.error('Error exporting recipe:', error);
+      throw error;
+    }
+  },
+
+  async exportCollection(userId: string, kidIds: string[] = []) {
+    try {
+      const recipes = await recipeService.getUserRecipes(userId);
+
+      const kidRecipesByRecipeId: Record<string, KidRecipe[]> = {};
+      const kidRecipeLists = await Promise.all(kidIds.map(kidId => kidRecipeManagerService.getKidRecipes(kidId)));
+      kidRecipeLists.flat().forEach(kidRecipe => {
+        (kidRecipesByRecipeId[kidRecipe.originalRecipeId] ||= []).push(kidRecipe);
+      });
+
+      return JSON.stringify(createRecipeArchive(recipes, kidRecipesByRecipeId), null, 2);
+    } catch (error) {
+      console.error('Error exporting recipes:', error);
+      throw error;
+    }
+  },
+
+  // One failed save doesn't stop the rest of the file from importing
+  async importRecipes(userId: string, file: ParsedRecipeFile) {
+    let imported = 0;
+    let failed = 0;
+
+    for (const recipe of file.recipes) {
+      try {
+        await recipeService.addRecipe(userId, { ...recipe, userId });
+        imported += 1;
+      } catch (error) {
+        console.error('Error importing recipe:', recipe.title, error);
+        failed += 1;
+      }
+    }
+
+    return { imported, failed, skipped: file.skipped };
+  },
+};
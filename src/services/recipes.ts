@@ -2,6 +2,7 @@ import {
   collection,
   doc,
   addDoc,
+  setDoc,
   updateDoc,
   deleteDoc,
   getDocs,
@@ -9,10 +10,20 @@ import {
   query,
   where,
   orderBy,
-  Timestamp
+  Timestamp,
+  deleteField,
+  FieldValue,
+  onSnapshot
 } from 'firebase/firestore';
 import { db } from './firebase';
-import { cacheService } from './cacheService';
+import { cacheService, SHORT_MAX_AGE } from './cacheService';
+import { cacheEvents } from './cacheEvents';
+import { queryKeys } from './queryClient';
+import { offlineStore } from './offlineStore';
+import { syncQueueService, readWithFallback, toQueuedUpdate } from './syncQueue';
+import { normalizeRecipeTimes, parseDurationMinutes } from '../utils/durations';
+import { annotateStepSafety } from '../utils/recipeSafety';
+import { recipeSearchIndex } from '../utils/recipeSearchIndex';
 import type { Recipe, KidRecipe } from '../types';
 
 export interface RecipeService {
@@ -23,23 +34,73 @@ export interface RecipeService {
   getRecipe: (recipeId: string) => Promise<Recipe | null>;
   createKidFriendlyVersion: (recipeId: string, kidRecipe: Omit<KidRecipe, 'id' | 'createdAt'>) => Promise<string>;
   getKidRecipe: (kidRecipeId: string) => Promise<KidRecipe | null>;
+  subscribeToRecipe: (recipeId: string, callback: (recipe: Recipe | null) => void) => () => void;
 }
 
+const TIME_FIELDS = [
+  ['prepTime', 'prepMinutes'],
+  ['cookTime', 'cookMinutes'],
+  ['totalTime', 'totalMinutes'],
+] as const;
+
+/**
+ * Re-parses minutes for whichever time fields are being changed, clearing any
+ * that no longer parse so stale values don't linger
+ */
+const getTimeUpdates = (updates: Partial<Recipe>): Record<string, number | FieldValue> => {
+  const timeUpdates: Record<string, number | FieldValue> = {};
+  TIME_FIELDS.forEach(([textField, minutesField]) => {
+    if (!(textField in updates)) return;
+    const minutes = parseDurationMinutes(updates[textField]);
+    timeUpdates[minutesField] = minutes !== undefined ? minutes : deleteField();
+  });
+  return timeUpdates;
+};
+
+/**
+ * Re-runs the step safety analyzer when the steps or instructions change
+ */
+const getStepUpdates = (updates: Partial<Recipe>): Partial<Recipe> => {
+  if (updates.steps) {
+    return { steps: annotateStepSafety({ steps: updates.steps }) };
+  }
+  if (updates.instructions) {
+    return { steps: annotateStepSafety({ instructions: updates.instructions }) };
+  }
+  return {};
+};
+
+// Newest first; handles both Date objects and Firestore Timestamps
+const sortByUpdated = (recipes: Recipe[]): Recipe[] =>
+  recipes.sort((a, b) => {
+    const aTime = a.updatedAt ? (a.updatedAt instanceof Date ? a.updatedAt.getTime() : a.updatedAt.toMillis()) : 0;
+    const bTime = b.updatedAt ? (b.updatedAt instanceof Date ? b.updatedAt.getTime() : b.updatedAt.toMillis()) : 0;
+    return bTime - aTime;
+  });
+
 export const recipeService: RecipeService = {
   async addRecipe(userId: string, recipe: Omit<Recipe, 'id' | 'createdAt' | 'updatedAt'>) {
     try {
       const now = Timestamp.now();
+      const steps = annotateStepSafety(recipe);
       const recipeData: Omit<Recipe, 'id'> = {
         ...recipe,
+        ...normalizeRecipeTimes(recipe),
+        ...(steps.length > 0 ? { steps } : {}),
         userId,
         createdAt: now,
         updatedAt: now,
       };
 
-      const docRef = await addDoc(collection(db, 'recipes'), recipeData);
+      // The id is made on the device so a recipe added offline keeps it once synced
+      const docRef = doc(collection(db, 'recipes'));
+      await syncQueueService.write(
+        { op: 'add', collection: 'recipes', docId: docRef.id, data: recipeData },
+        () => setDoc(docRef, recipeData)
+      );
 
-      // Invalidate user's recipe list cache since we added a new recipe
-      cacheService.invalidateRecipes(userId);
+      cacheEvents.emit({ entity: 'recipe', change: 'created', id: docRef.id, userId });
+      recipeSearchIndex.upsert({ id: docRef.id, ...recipeData });
 
       return docRef.id;
     } catch (error) {
@@ -50,18 +111,20 @@ export const recipeService: RecipeService = {
 
   async updateRecipe(recipeId: string, updates: Partial<Recipe>) {
     try {
-      const updateData = {
+      const stepUpdates = getStepUpdates(updates);
+      const changes = {
         ...updates,
-        updatedAt: Timestamp.now(),
+        ...getTimeUpdates(updates),
+        ...stepUpdates,
       };
 
-      await updateDoc(doc(db, 'recipes', recipeId), updateData);
+      await syncQueueService.write(
+        { op: 'update', collection: 'recipes', docId: recipeId, ...toQueuedUpdate(changes) },
+        () => updateDoc(doc(db, 'recipes', recipeId), { ...changes, updatedAt: Timestamp.now() })
+      );
 
-      // Invalidate both the recipe detail and the user's recipe list cache
-      cacheService.invalidateRecipeDetail(recipeId);
-      if (updates.userId) {
-        cacheService.invalidateRecipes(updates.userId);
-      }
+      cacheEvents.emit({ entity: 'recipe', change: 'updated', id: recipeId, userId: updates.userId });
+      recipeSearchIndex.update(recipeId, { ...updates, ...stepUpdates });
     } catch (error) {
       console.error('Error updating recipe:', error);
       throw error;
@@ -73,13 +136,13 @@ export const recipeService: RecipeService = {
       // First get the recipe to find the userId for cache invalidation
       const recipeToDelete = await this.getRecipe(recipeId);
 
-      await deleteDoc(doc(db, 'recipes', recipeId));
+      await syncQueueService.write(
+        { op: 'delete', collection: 'recipes', docId: recipeId },
+        () => deleteDoc(doc(db, 'recipes', recipeId))
+      );
 
-      // Invalidate both the recipe detail cache and the user's recipe list cache
-      cacheService.invalidateRecipeDetail(recipeId);
-      if (recipeToDelete?.userId) {
-        cacheService.invalidateRecipes(recipeToDelete.userId);
-      }
+      cacheEvents.emit({ entity: 'recipe', change: 'deleted', id: recipeId, userId: recipeToDelete?.userId });
+      recipeSearchIndex.remove(recipeId);
     } catch (error) {
       console.error('Error deleting recipe:', error);
       throw error;
@@ -89,7 +152,7 @@ export const recipeService: RecipeService = {
   async getUserRecipes(userId: string): Promise<Recipe[]> {
     try {
       // Check cache first
-      const cached = cacheService.getRecipes(userId);
+      const cached = cacheService.get(queryKeys.recipes(userId), SHORT_MAX_AGE);
       if (cached) {
         console.log('Returning cached recipes for user:', userId);
         return cached;
@@ -97,32 +160,36 @@ export const recipeService: RecipeService = {
 
       console.log('Cache miss - fetching recipes from Firestore for user:', userId);
 
-      // Simplified query without orderBy to avoid index requirement temporarily
-      const q = query(
-        collection(db, 'recipes'),
-        where('userId', '==', userId)
-      );
+      const isUsersRecipe = (recipe: Recipe) => recipe.userId === userId;
+      const recipes = await readWithFallback(
+        async () => {
+          // Simplified query without orderBy to avoid index requirement temporarily
+          const q = query(
+            collection(db, 'recipes'),
+            where('userId', '==', userId)
+          );
 
-      const querySnapshot = await getDocs(q);
-      const recipes: Recipe[] = [];
+          const querySnapshot = await getDocs(q);
+          const fetched: Recipe[] = [];
 
-      querySnapshot.forEach((doc) => {
-        recipes.push({
-          id: doc.id,
-          ...doc.data(),
-        } as Recipe);
-      });
+          querySnapshot.forEach((doc) => {
+            fetched.push({
+              id: doc.id,
+              ...doc.data(),
+            } as Recipe);
+          });
+
+          // Recipes edited offline show their local version until they sync
+          return offlineStore.replaceQuery('recipes', isUsersRecipe, fetched, syncQueueService.getPendingDocIds('recipes'));
+        },
+        () => offlineStore.getDocs('recipes', isUsersRecipe)
+      );
 
       // Sort locally instead of using Firestore orderBy
-      const sortedRecipes = recipes.sort((a, b) => {
-        // Handle both Date objects and Firestore Timestamps
-        const aTime = a.updatedAt ? (a.updatedAt instanceof Date ? a.updatedAt.getTime() : a.updatedAt.toMillis()) : 0;
-        const bTime = b.updatedAt ? (b.updatedAt instanceof Date ? b.updatedAt.getTime() : b.updatedAt.toMillis()) : 0;
-        return bTime - aTime;
-      });
+      const sortedRecipes = sortByUpdated(recipes);
 
       // Cache the results
-      cacheService.setRecipes(userId, sortedRecipes);
+      cacheService.set(queryKeys.recipes(userId), sortedRecipes);
 
       return sortedRecipes;
     } catch (error) {
@@ -134,7 +201,7 @@ export const recipeService: RecipeService = {
   async getRecipe(recipeId: string): Promise<Recipe | null> {
     try {
       // Check cache first
-      const cached = cacheService.getRecipeDetail(recipeId);
+      const cached = cacheService.get(queryKeys.recipe(recipeId));
       if (cached) {
         console.log('Returning cached recipe detail for:', recipeId);
         return cached;
@@ -142,19 +209,33 @@ export const recipeService: RecipeService = {
 
       console.log('Cache miss - fetching recipe from Firestore:', recipeId);
 
-      const docSnap = await getDoc(doc(db, 'recipes', recipeId));
-      if (docSnap.exists()) {
-        const recipe = {
-          id: docSnap.id,
-          ...docSnap.data(),
-        } as Recipe;
+      const recipe = await readWithFallback(
+        async () => {
+          if (syncQueueService.getPendingDocIds('recipes').indexOf(recipeId) > -1) {
+            return offlineStore.getDoc<Recipe>('recipes', recipeId);
+          }
 
-        // Cache the result
-        cacheService.setRecipeDetail(recipeId, recipe);
+          const docSnap = await getDoc(doc(db, 'recipes', recipeId));
+          if (!docSnap.exists()) {
+            await offlineStore.removeDoc('recipes', recipeId);
+            return null;
+          }
 
-        return recipe;
+          const fetched = {
+            id: docSnap.id,
+            ...docSnap.data(),
+          } as Recipe;
+          await offlineStore.putDoc('recipes', fetched);
+          return fetched;
+        },
+        () => offlineStore.getDoc<Recipe>('recipes', recipeId)
+      );
+
+      if (recipe) {
+        // Cache the result
+        cacheService.set(queryKeys.recipe(recipeId), recipe);
       }
-      return null;
+      return recipe;
     } catch (error) {
       console.error('Error fetching recipe:', error);
       return null;
@@ -177,6 +258,9 @@ export const recipeService: RecipeService = {
         updatedAt: Timestamp.now(),
       });
 
+      cacheEvents.emit({ entity: 'kidRecipe', change: 'created', id: docRef.id, kidId: kidRecipe.kidId, originalRecipeId: recipeId });
+      cacheEvents.emit({ entity: 'recipe', change: 'updated', id: recipeId, userId: kidRecipe.userId });
+
       return docRef.id;
     } catch (error) {
       console.error('Error creating kid-friendly version:', error);
@@ -199,4 +283,26 @@ export const recipeService: RecipeService = {
       return null;
     }
   },
+
+  // Keeps the recipe on screen current when it's edited elsewhere, e.g. on another device
+  subscribeToRecipe(recipeId: string, callback: (recipe: Recipe | null) => void): () => void {
+    return onSnapshot(doc(db, 'recipes', recipeId), (docSnap) => {
+      // The local copy wins until queued offline edits have synced
+      if (syncQueueService.getPendingDocIds('recipes').includes(recipeId)) return;
+
+      if (!docSnap.exists()) {
+        offlineStore.removeDoc('recipes', recipeId);
+        callback(null);
+        return;
+      }
+
+      const recipe = { id: docSnap.id, ...docSnap.data() } as Recipe;
+      cacheService.set(queryKeys.recipe(recipeId), recipe);
+      offlineStore.putDoc('recipes', recipe);
+      recipeSearchIndex.upsert(recipe);
+      callback(recipe);
+    }, (error) => {
+      console.error('Error in recipe subscription:', error);
+    });
+  },
 };
\ No newline at end of file
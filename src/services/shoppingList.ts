@@ -0,0 +1,74 @@
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { offlineStore } from './offlineStore';
+import { syncQueueService, readWithFallback } from './syncQueue';
+import { validateDocumentId } from '../utils/validation';
+import type { ShoppingList, ShoppingListItem } from '../types';
+
+export interface ShoppingListService {
+  getItems: (parentId: string) => Promise<ShoppingListItem[]>;
+  saveItems: (parentId: string, items: ShoppingListItem[]) => Promise<void>;
+}
+
+// Firestore rejects undefined fields, so optional ones are dropped before writing
+const toFirestoreItem = (item: ShoppingListItem): ShoppingListItem => {
+  const data: ShoppingListItem = {
+    id: item.id,
+    name: item.name,
+    aisle: item.aisle,
+    checked: item.checked,
+    recipeIds: item.recipeIds,
+  };
+  if (item.amount !== undefined) data.amount = item.amount;
+  if (item.unit) data.unit = item.unit;
+  if (item.isManual) data.isManual = true;
+  return data;
+};
+
+export const shoppingListService: ShoppingListService = {
+  async getItems(parentId: string): Promise<ShoppingListItem[]> {
+    try {
+      const validatedParentId = validateDocumentId(parentId, 'Parent ID');
+      const list = await readWithFallback(
+        async () => {
+          // Items checked off in the store stay checked until the change has synced
+          if (syncQueueService.getPendingDocIds('shoppingLists').indexOf(validatedParentId) > -1) {
+            return offlineStore.getDoc<ShoppingList>('shoppingLists', validatedParentId);
+          }
+
+          const listDoc = await getDoc(doc(db, 'shoppingLists', validatedParentId));
+          if (!listDoc.exists()) {
+            return null;
+          }
+          const fetched = { id: listDoc.id, ...listDoc.data() } as ShoppingList;
+          await offlineStore.putDoc('shoppingLists', fetched);
+          return fetched;
+        },
+        () => offlineStore.getDoc<ShoppingList>('shoppingLists', validatedParentId)
+      );
+      return list?.items || [];
+    } catch (error) {
+      console.error('Error fetching shopping list:', error);
+      throw error;
+    }
+  },
+
+  async saveItems(parentId: string, items: ShoppingListItem[]): Promise<void> {
+    try {
+      const validatedParentId = validateDocumentId(parentId, 'Parent ID');
+      const listData: Omit<ShoppingList, 'id'> = {
+        parentId: validatedParentId,
+        items: items.map(toFirestoreItem),
+        updatedAt: Timestamp.now(),
+      };
+      // Queued and kept on the device when offline, so nothing is lost if the app closes in the store
+      await syncQueueService.write(
+        { op: 'set', collection: 'shoppingLists', docId: validatedParentId, data: listData },
+        () => setDoc(doc(db, 'shoppingLists', validatedParentId), listData)
+      );
+    } catch (error) {
+      console.error('Error saving shopping list:', error);
+      throw error;
+    }
+  },
+};
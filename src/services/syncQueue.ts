@@ -0,0 +1,493 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, setDoc, updateDoc, deleteDoc, deleteField, Timestamp, FieldValue } from 'firebase/firestore';
+import { db } from './firebase';
+import { networkStatusService } from './networkStatus';
+import { offlineStore, reviveTimestamps, getUpdatedMillis, OfflineCollection } from './offlineStore';
+import { cacheService } from './cacheService';
+
+export type SyncOperation = 'add' | 'set' | 'update' | 'delete';
+
+export interface SyncMutation {
+  id: string; // Idempotency key; written to the document so a replay never applies twice
+  op: SyncOperation;
+  collection: OfflineCollection;
+  docId: string;
+  data?: Record<string, any>;
+  deleteFields?: string[]; // Fields to remove on update; FieldValues can't be stored as JSON
+  queuedAt: number; // Epoch ms of the local change, compared with the server's updatedAt
+  attempts: number;
+  lastError?: string;
+}
+
+export type NewSyncMutation = Omit<SyncMutation, 'id' | 'queuedAt' | 'attempts' | 'lastError'>;
+
+export interface SyncConflict {
+  collection: OfflineCollection;
+  docId: string;
+  op: SyncOperation;
+  resolvedAt: number;
+}
+
+export type SyncState = 'synced' | 'offline' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number;
+  failed: number; // Rejected by the server, e.g. permission denied; kept for a manual retry
+  conflicts: SyncConflict[]; // Local changes dropped because the server copy was newer
+  lastSyncedAt?: number;
+}
+
+export type SyncStatusListener = (status: SyncStatus) => void;
+export type SyncAppliedListener = (mutation: SyncMutation) => void;
+
+const STORAGE_KEY_PREFIX = 'KIDCHEF_SYNC_QUEUE_';
+const MAX_CONFLICTS_KEPT = 20;
+// Bad Wi-Fi can leave a write hanging rather than failing; give up and queue it instead
+export const WRITE_TIMEOUT_MS = 10 * 1000;
+
+const NETWORK_ERROR_CODES = ['unavailable', 'deadline-exceeded', 'network-request-failed', 'timeout'];
+
+export const isNetworkError = (error: any): boolean =>
+  NETWORK_ERROR_CODES.includes(error?.code) ||
+  /network|offline|timed out/i.test(error?.message || '');
+
+export const withWriteTimeout = <T>(write: Promise<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(Object.assign(new Error('Write timed out'), { code: 'timeout' }));
+    }, WRITE_TIMEOUT_MS);
+    write.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+/**
+ * Reads from Firestore when online, falling back to the local copy when
+ * offline or when the connection drops part way
+ */
+export const readWithFallback = async <T>(fetch: () => Promise<T>, fallback: () => Promise<T>): Promise<T> => {
+  if (!networkStatusService.isOnline()) return fallback();
+  try {
+    return await fetch();
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    console.warn('Read failed on a bad connection, using the offline copy:', error);
+    return fallback();
+  }
+};
+
+/**
+ * Splits Firestore update data into what the queue can store as JSON; only
+ * deleteField() sentinels are supported and travel as field names. Others
+ * (serverTimestamp, increment, arrayUnion) would be lost, so they throw.
+ */
+export const toQueuedUpdate = (updates: Record<string, any>): Pick<SyncMutation, 'data' | 'deleteFields'> => {
+  const data: Record<string, any> = {};
+  const deleteFields: string[] = [];
+  Object.keys(updates).forEach(field => {
+    if (updates[field] instanceof FieldValue) {
+      if (!updates[field].isEqual(deleteField())) {
+        throw new Error(`Can't queue "${field}": only deleteField() is supported offline`);
+      }
+      deleteFields.push(field);
+    } else if (updates[field] !== undefined) {
+      data[field] = updates[field];
+    }
+  });
+  return { data, ...(deleteFields.length > 0 ? { deleteFields } : {}) };
+};
+
+/**
+ * Folds a new change into one already waiting for the same document, so
+ * editing a recipe five times offline sends one write
+ */
+export const coalesce = (existing: SyncMutation, next: SyncMutation): SyncMutation | null => {
+  if (next.op === 'delete') {
+    // Never reached the server, so there's nothing to delete there
+    return existing.op === 'add' ? null : next;
+  }
+  if (next.op === 'update' && (existing.op === 'add' || existing.op === 'set' || existing.op === 'update')) {
+    const data = { ...existing.data, ...next.data };
+    (next.deleteFields || []).forEach(field => delete data[field]);
+    const deleteFields = existing.op === 'update'
+      ? Array.from(new Set([...(existing.deleteFields || []).filter(field => !(field in (next.data || {}))), ...(next.deleteFields || [])]))
+      : undefined;
+    return {
+      ...existing,
+      id: next.id,
+      data,
+      ...(deleteFields && deleteFields.length > 0 ? { deleteFields } : { deleteFields: undefined }),
+      queuedAt: next.queuedAt,
+    };
+  }
+  return next;
+};
+
+/**
+ * Writes made without a connection, saved per parent and replayed in order
+ * when the device is back online. Where the server copy changed after the
+ * local edit (by updatedAt), the server wins and the local change is dropped.
+ */
+class SyncQueueService {
+  private userId: string | null = null;
+  private mutations: SyncMutation[] = [];
+  private conflicts: SyncConflict[] = [];
+  private lastSyncedAt: number | undefined;
+  private syncing = false;
+  private statusListeners: SyncStatusListener[] = [];
+  private appliedListeners: SyncAppliedListener[] = [];
+  private unsubscribeNetwork: (() => void) | null = null;
+  private mutationIdCounter = 0;
+  // Bumped on every start/stop so a replay from a previous session doesn't write into this one
+  private session = 0;
+  private restoring: Promise<void> | null = null;
+
+  start(userId: string): Promise<void> {
+    if (this.userId === userId && this.restoring) return this.restoring;
+
+    this.session += 1;
+    this.userId = userId;
+    this.mutations = [];
+    this.conflicts = [];
+    this.restoring = this.restore(userId, this.session);
+
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = networkStatusService.subscribe(isOnline => {
+      this.notify();
+      if (isOnline) this.flush();
+    });
+
+    return this.restoring;
+  }
+
+  stop(): void {
+    this.session += 1;
+    this.userId = null;
+    this.restoring = null;
+    this.mutations = [];
+    this.conflicts = [];
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+    this.notify();
+  }
+
+  subscribe(listener: SyncStatusListener): () => void {
+    this.statusListeners.push(listener);
+    listener(this.getStatus());
+
+    return () => {
+      const index = this.statusListeners.indexOf(listener);
+      if (index > -1) {
+        this.statusListeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Services hook in here for side effects, e.g. recounting a recipe's average rating
+  onApplied(listener: SyncAppliedListener): () => void {
+    this.appliedListeners.push(listener);
+
+    return () => {
+      const index = this.appliedListeners.indexOf(listener);
+      if (index > -1) {
+        this.appliedListeners.splice(index, 1);
+      }
+    };
+  }
+
+  getStatus(): SyncStatus {
+    const failed = this.mutations.filter(mutation => !!mutation.lastError).length;
+    let state: SyncState = 'synced';
+    if (!networkStatusService.isOnline()) {
+      state = 'offline';
+    } else if (this.syncing) {
+      state = 'syncing';
+    } else if (failed > 0) {
+      state = 'error';
+    } else if (this.mutations.length > 0) {
+      state = 'syncing';
+    }
+
+    return {
+      state,
+      pending: this.mutations.length,
+      failed,
+      conflicts: this.conflicts,
+      lastSyncedAt: this.lastSyncedAt,
+    };
+  }
+
+  // Documents with local changes the server hasn't seen yet
+  getPendingDocIds(collection: OfflineCollection): string[] {
+    return this.mutations.filter(mutation => mutation.collection === collection).map(mutation => mutation.docId);
+  }
+
+  enqueue(change: NewSyncMutation): void {
+    if (!this.userId) {
+      throw new Error('User not authenticated');
+    }
+
+    this.mutationIdCounter += 1;
+    const mutation: SyncMutation = {
+      ...change,
+      id: `sync_${Date.now()}_${this.mutationIdCounter}`,
+      queuedAt: Date.now(),
+      attempts: 0,
+    };
+
+    const existingIndex = this.mutations.findIndex(existing =>
+      existing.collection === mutation.collection && existing.docId === mutation.docId
+    );
+    if (existingIndex === -1) {
+      this.mutations = [...this.mutations, mutation];
+    } else {
+      const merged = coalesce(this.mutations[existingIndex], mutation);
+      this.mutations = merged
+        ? this.mutations.map((existing, index) => index === existingIndex ? merged : existing)
+        : this.mutations.filter((_, index) => index !== existingIndex);
+    }
+
+    this.save();
+    this.notify();
+    this.flush();
+  }
+
+  /**
+   * Runs a write straight away when online; queues it when offline or when the
+   * connection drops part way. Either way the local copy is updated to match.
+   * Resolves 'queued' when the change is waiting to sync.
+   */
+  async write(change: NewSyncMutation, apply: () => Promise<void>): Promise<'saved' | 'queued'> {
+    // Changes to a document with queued edits wait behind them to keep the order
+    const hasPending = this.getPendingDocIds(change.collection).indexOf(change.docId) > -1;
+    let result: 'saved' | 'queued' = 'queued';
+
+    if (!this.userId) {
+      await apply();
+      result = 'saved';
+    } else if (networkStatusService.isOnline() && !hasPending) {
+      try {
+        await withWriteTimeout(apply());
+        result = 'saved';
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        console.warn('Write failed on a bad connection, queueing it:', error);
+      }
+    }
+
+    if (result === 'queued') {
+      this.enqueue(change);
+    }
+    await this.applyLocally(change);
+    return result;
+  }
+
+  // Gives rejected changes another go, e.g. after fixing a permission problem
+  retryFailed(): void {
+    this.mutations = this.mutations.map(mutation => ({ ...mutation, lastError: undefined }));
+    this.save();
+    this.notify();
+    this.flush();
+  }
+
+  discardFailed(): void {
+    this.mutations = this.mutations.filter(mutation => !mutation.lastError);
+    this.save();
+    this.notify();
+  }
+
+  clearConflicts(): void {
+    this.conflicts = [];
+    this.notify();
+  }
+
+  async flush(): Promise<void> {
+    if (this.syncing || !this.userId || !networkStatusService.isOnline()) return;
+    const session = this.session;
+
+    this.syncing = true;
+    this.notify();
+    let appliedAny = false;
+
+    try {
+      for (;;) {
+        const next = this.mutations.find(mutation => !mutation.lastError);
+        if (!next || session !== this.session || !networkStatusService.isOnline()) break;
+
+        try {
+          await withWriteTimeout(this.apply(next));
+          if (session !== this.session) break;
+          appliedAny = true;
+          this.removeMutation(next.id);
+          this.appliedListeners.forEach(listener => {
+            try {
+              listener(next);
+            } catch (error) {
+              console.error('Error in sync applied listener:', error);
+            }
+          });
+        } catch (error: any) {
+          if (session !== this.session) break;
+          if (isNetworkError(error)) {
+            // Try again when the connection comes back
+            this.updateMutation(next.id, { attempts: next.attempts + 1 });
+            break;
+          }
+          console.error('Error syncing change:', error);
+          this.updateMutation(next.id, { attempts: next.attempts + 1, lastError: error?.message || 'Sync failed' });
+        }
+      }
+    } finally {
+      if (session === this.session) {
+        this.syncing = false;
+        if (appliedAny) {
+          this.lastSyncedAt = Date.now();
+          // Screens showing the optimistic copies refetch the real ones
+          cacheService.clearAll();
+        }
+        this.notify();
+      }
+    }
+  }
+
+  private async apply(mutation: SyncMutation): Promise<void> {
+    const ref = doc(db, mutation.collection, mutation.docId);
+    const snapshot = await getDoc(ref);
+    const serverData = snapshot.exists() ? snapshot.data() : null;
+
+    // Already written by an earlier attempt whose reply got lost
+    if (serverData?.lastMutationId === mutation.id) return;
+
+    if (mutation.op === 'add') {
+      if (serverData) return;
+      await setDoc(ref, { ...mutation.data, lastMutationId: mutation.id });
+      return;
+    }
+
+    // Last write wins: a server copy changed after this local edit is kept
+    if (serverData && getUpdatedMillis(serverData) > mutation.queuedAt) {
+      this.recordConflict(mutation);
+      await offlineStore.putDoc(mutation.collection, { id: mutation.docId, ...serverData });
+      return;
+    }
+
+    switch (mutation.op) {
+      case 'set':
+        await setDoc(ref, { ...mutation.data, lastMutationId: mutation.id });
+        return;
+      case 'update': {
+        if (!serverData) {
+          // Deleted on another device while this one was offline
+          this.recordConflict(mutation);
+          await offlineStore.removeDoc(mutation.collection, mutation.docId);
+          return;
+        }
+        const deletes: Record<string, any> = {};
+        (mutation.deleteFields || []).forEach(field => {
+          deletes[field] = deleteField();
+        });
+        await updateDoc(ref, {
+          ...mutation.data,
+          ...deletes,
+          updatedAt: Timestamp.fromMillis(mutation.queuedAt),
+          lastMutationId: mutation.id,
+        });
+        return;
+      }
+      case 'delete':
+        if (serverData) {
+          await deleteDoc(ref);
+        }
+        return;
+    }
+  }
+
+  private async applyLocally(change: NewSyncMutation): Promise<void> {
+    switch (change.op) {
+      case 'add':
+      case 'set':
+        await offlineStore.putDoc(change.collection, { ...change.data, id: change.docId });
+        return;
+      case 'update': {
+        const cleared: Record<string, undefined> = {};
+        (change.deleteFields || []).forEach(field => {
+          cleared[field] = undefined;
+        });
+        await offlineStore.updateDoc(change.collection, change.docId, {
+          ...change.data,
+          ...cleared,
+          updatedAt: Timestamp.now(),
+        });
+        return;
+      }
+      case 'delete':
+        await offlineStore.removeDoc(change.collection, change.docId);
+        return;
+    }
+  }
+
+  private recordConflict(mutation: SyncMutation): void {
+    console.warn('Server copy is newer, dropping local change:', mutation.collection, mutation.docId);
+    this.conflicts = [
+      { collection: mutation.collection, docId: mutation.docId, op: mutation.op, resolvedAt: Date.now() },
+      ...this.conflicts,
+    ].slice(0, MAX_CONFLICTS_KEPT);
+  }
+
+  private async restore(userId: string, session: number): Promise<void> {
+    let mutations: SyncMutation[] = [];
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY_PREFIX + userId);
+      mutations = stored ? reviveTimestamps(JSON.parse(stored)) : [];
+    } catch (error) {
+      console.error('Error restoring sync queue:', error);
+    }
+
+    if (session !== this.session) return;
+    // Anything queued while this restore was running goes after the saved changes
+    this.mutations = [...mutations, ...this.mutations];
+    this.notify();
+    this.flush();
+  }
+
+  private removeMutation(mutationId: string): void {
+    this.mutations = this.mutations.filter(mutation => mutation.id !== mutationId);
+    this.save();
+    this.notify();
+  }
+
+  private updateMutation(mutationId: string, updates: Partial<SyncMutation>): void {
+    this.mutations = this.mutations.map(mutation =>
+      mutation.id === mutationId ? { ...mutation, ...updates } : mutation
+    );
+    this.save();
+    this.notify();
+  }
+
+  private save(): void {
+    if (!this.userId) return;
+    AsyncStorage.setItem(STORAGE_KEY_PREFIX + this.userId, JSON.stringify(this.mutations))
+      .catch(error => console.error('Error saving sync queue:', error));
+  }
+
+  private notify(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in sync status listener:', error);
+      }
+    });
+  }
+}
+
+export const syncQueueService = new SyncQueueService();
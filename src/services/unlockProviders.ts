@@ -0,0 +1,114 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import { authService } from './auth';
+import { parentPinService } from './parentPin';
+import type { UnlockMethod, UnlockSetting, GuardedAction, UserSettings, PinVerification } from '../types';
+
+export interface UnlockProvider {
+  method: UnlockMethod;
+  label: string;
+  icon: string;
+  input: 'pin' | 'password' | 'none'; // What the prompt asks for before calling unlock
+  isAvailable: (context: UnlockContext) => Promise<boolean>;
+  unlock: (secret: string | undefined, reason: string) => Promise<PinVerification>;
+}
+
+export interface UnlockContext {
+  hasKidModePin: boolean;
+}
+
+// What each action asked for before parents could choose
+export const DEFAULT_UNLOCK_METHODS: Record<GuardedAction, UnlockSetting> = {
+  exitKidMode: 'pin',
+  approveCompletion: 'pin',
+  deleteKidRecipe: 'none',
+};
+
+export const GUARDED_ACTION_LABELS: Record<GuardedAction, string> = {
+  exitKidMode: 'Leave Kid Mode',
+  approveCompletion: 'Approve Finished Recipes',
+  deleteKidRecipe: 'Delete Kid Recipes',
+};
+
+export const getUnlockSetting = (settings: Partial<UserSettings> | undefined, action: GuardedAction): UnlockSetting =>
+  settings?.unlockMethods?.[action] || DEFAULT_UNLOCK_METHODS[action];
+
+const pinProvider: UnlockProvider = {
+  method: 'pin',
+  label: 'Parent PIN',
+  icon: '🔢',
+  input: 'pin',
+  isAvailable: async (context) => context.hasKidModePin,
+  unlock: async (secret) => parentPinService.verifyPin(secret || ''),
+};
+
+const biometricProvider: UnlockProvider = {
+  method: 'biometric',
+  label: 'Face or Fingerprint',
+  icon: '👆',
+  input: 'none',
+  isAvailable: async () => {
+    try {
+      const [hasHardware, isEnrolled] = await Promise.all([
+        LocalAuthentication.hasHardwareAsync(),
+        LocalAuthentication.isEnrolledAsync(),
+      ]);
+      return hasHardware && isEnrolled;
+    } catch (error) {
+      console.error('Error checking biometrics:', error);
+      return false;
+    }
+  },
+  // The device passcode is left out on purpose; kids often know it
+  unlock: async (_secret, reason) => {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage: reason,
+      cancelLabel: 'Cancel',
+      fallbackLabel: '',
+      disableDeviceFallback: true,
+    });
+    return { valid: result.success };
+  },
+};
+
+const passwordProvider: UnlockProvider = {
+  method: 'password',
+  label: 'Account Password',
+  icon: '🔑',
+  input: 'password',
+  isAvailable: async () => true,
+  unlock: async (secret) => {
+    try {
+      await authService.reauthenticate(secret || '');
+      return { valid: true };
+    } catch (error: any) {
+      if (error?.code === 'auth/wrong-password' || error?.code === 'auth/invalid-credential') {
+        return { valid: false };
+      }
+      // Firebase throttles repeated wrong passwords itself
+      if (error?.code === 'auth/too-many-requests') {
+        return { valid: false, attemptsRemaining: 0, lockedUntil: Date.now() + 60 * 1000 };
+      }
+      throw error;
+    }
+  },
+};
+
+export const unlockProviders: Record<UnlockMethod, UnlockProvider> = {
+  pin: pinProvider,
+  biometric: biometricProvider,
+  password: passwordProvider,
+};
+
+// The account password is the way back in when everything else fails
+const FALLBACK_METHODS: Record<UnlockMethod, UnlockMethod[]> = {
+  biometric: ['pin', 'password'],
+  pin: ['password'],
+  password: [],
+};
+
+// Other providers to offer when the chosen one fails or is cancelled, best first
+export const getFallbackProviders = async (method: UnlockMethod, context: UnlockContext): Promise<UnlockProvider[]> => {
+  const others = FALLBACK_METHODS[method].map(other => unlockProviders[other]);
+  const available = await Promise.all(others.map(provider => provider.isAvailable(context)));
+  return others.filter((_, index) => available[index]);
+};
@@ -27,25 +27,43 @@ export interface ParentProfile {
   parentName: string;
   email: string;
   settings: UserSettings;
-  kidModePin?: string; // 4-digit PIN to exit kid mode
+  kidModePin?: string; // Legacy plaintext PIN; moved to the server-only parentPins collection on sign-in
+  hasKidModePin?: boolean; // Set by the server once a hashed PIN is stored
   kidIds: string[]; // References to KidProfile documents (legacy)
   createdAt: FirestoreDate;
   updatedAt: FirestoreDate;
 }
 
+// Result of checking the parent PIN on the server
+export interface PinVerification {
+  valid: boolean;
+  attemptsRemaining?: number;
+  lockedUntil?: number; // Milliseconds since epoch; no tries until then
+  requiresReset?: boolean; // Too many wrong tries; only a password reset unlocks it
+}
+
 export interface KidProfile {
   id: string;
   parentId: string; // Reference to ParentProfile
   name: string;
   age: number;
   readingLevel: ReadingLevel;
-  allergyFlags: string[]; // e.g., ['nuts', 'dairy', 'eggs']
+  allergyFlags: string[]; // Allergen names only, kept in sync with allergies for older readers
+  allergies?: KidAllergy[]; // Missing on profiles created before severities existed
   permissions: KidPermissions;
   avatarEmoji?: string;
   createdAt: FirestoreDate;
   updatedAt: FirestoreDate;
 }
 
+export type AllergySeverity = 'mild' | 'moderate' | 'severe';
+
+export interface KidAllergy {
+  allergen: string; // e.g., 'nuts', 'dairy', 'eggs'
+  severity: AllergySeverity;
+  notes?: string; // e.g., "baked egg is OK"
+}
+
 export interface KidPermissions {
   canViewIngredients: boolean;
   canUseKnives: boolean;
@@ -55,16 +73,62 @@ export interface KidPermissions {
   maxCookingTimeMinutes: number;
 }
 
+export type MeasurementSystem = 'us' | 'metric';
+
 export interface UserSettings {
   safetyNotes: boolean;
   readAloud: boolean;
   autoSimplify: boolean;
   fontSize: 'small' | 'medium' | 'large';
   temperatureUnit: 'fahrenheit' | 'celsius';
+  measurementSystem?: MeasurementSystem; // Falls back to temperatureUnit when unset
   language: string; // ISO language code
   showDifficulty: boolean;
   enableVoiceInstructions: boolean;
   theme: 'light' | 'dark' | 'auto';
+  filterPresets?: FilterPreset[]; // Named filter combinations shown as chips on the recipe list
+  unlockMethods?: Partial<Record<GuardedAction, UnlockSetting>>; // Missing actions use DEFAULT_UNLOCK_METHODS
+}
+
+// Ways a grown-up can prove it's them, and the actions that ask for it
+export type UnlockMethod = 'pin' | 'biometric' | 'password';
+export type UnlockSetting = UnlockMethod | 'none';
+export type GuardedAction = 'exitKidMode' | 'approveCompletion' | 'deleteKidRecipe';
+
+/**
+ * Recipe list filters. Every criterion that's set must match; list criteria
+ * match as described on each field.
+ */
+export interface SearchFilters {
+  cuisine?: string;
+  mealType?: string;
+  difficulty?: string;
+  maxCookTime?: number;
+  maxServings?: number;
+  minServings?: number;
+  freeOfAllergens?: string[]; // Contains none of these
+  requiredEquipment?: string[]; // Uses all of these, e.g. 'slow cooker'
+  forbiddenEquipment?: string[]; // Uses none of these, e.g. 'oven'
+  categories?: RecipeCategory[]; // In at least one of these
+  minRating?: number; // Recipes without ratings don't match
+  favoritesOnly?: boolean;
+  sharedWithKidId?: string;
+  neverCooked?: boolean;
+}
+
+/**
+ * Filters combined with AND ('all') or OR ('any'), nested as deep as needed
+ */
+export type FilterExpression =
+  | SearchFilters
+  | { all: FilterExpression[] }
+  | { any: FilterExpression[] };
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  emoji?: string;
+  filters: FilterExpression;
 }
 
 // Recipe Category and Rating Types
@@ -124,6 +188,9 @@ export interface Recipe {
   prepTime?: number | string;
   cookTime?: number | string;
   totalTime?: number | string;
+  prepMinutes?: number; // Canonical minutes parsed from prepTime when saved
+  cookMinutes?: number; // Canonical minutes parsed from cookTime when saved
+  totalMinutes?: number; // Canonical minutes parsed from totalTime when saved
   difficulty?: 'easy' | 'medium' | 'hard';
   cuisine?: string;
   mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'dessert';
@@ -150,6 +217,7 @@ export interface Ingredient {
   id: string;
   name: string;
   amount?: number;
+  amountMax?: number; // Upper bound when the amount is a range ("2-3 cloves")
   unit?: string;
   notes?: string;
   order: number;
@@ -170,6 +238,17 @@ export interface RecipeStep {
   requiresAdultSupervision?: boolean;
 }
 
+// A recipe read from pasted text, shaped like the manual entry form so it can be reviewed before saving
+export interface RecipeDraft {
+  title: string;
+  description: string;
+  prepTime: string;
+  cookTime: string;
+  servings?: number;
+  ingredients: string[];
+  instructions: string[];
+}
+
 // Nutrition Information
 export interface NutritionInfo {
   calories?: number;
@@ -239,6 +318,7 @@ export interface KidStep {
   encouragement?: string; // Motivational message for kids
   helpText?: string; // Additional guidance for this step
   visualAid?: string; // URL or description of visual help
+  grownUpStep?: boolean; // Hand-off step a grown-up does because the kid's permissions don't cover it
 }
 
 // Multi-Kid Feature Types
@@ -254,7 +334,10 @@ export interface CookingSession {
   kidId: string;
   recipeId: string;
   kidRecipeId?: string;
+  recipeTitle?: string; // Copied at start so resume cards don't need the recipe
+  recipeImage?: string;
   startedAt: FirestoreDate;
+  updatedAt?: FirestoreDate;
   completedAt?: FirestoreDate;
   currentStep: number;
   totalSteps: number;
@@ -269,10 +352,54 @@ export interface FamilyMeal {
   name: string;
   description?: string;
   scheduledFor: FirestoreDate;
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
   recipeIds: string[];
   assignedKids: string[]; // Which kids are helping
   status: 'planned' | 'in_progress' | 'completed';
   notes?: string;
+  createdAt?: FirestoreDate;
+  updatedAt?: FirestoreDate;
+}
+
+export type StoreAisle =
+  | 'produce'
+  | 'dairy'
+  | 'meat'
+  | 'bakery'
+  | 'frozen'
+  | 'baking'
+  | 'pantry'
+  | 'other';
+
+export interface ShoppingListItem {
+  id: string;
+  name: string;
+  amount?: number;
+  unit?: string;
+  aisle: StoreAisle;
+  checked: boolean;
+  recipeIds: string[]; // Recipes this item was gathered from
+  isManual?: boolean; // Added by hand rather than from a recipe
+}
+
+export interface ShoppingList {
+  id: string; // Same as the parent profile ID - one list per family
+  parentId: string;
+  items: ShoppingListItem[];
+  updatedAt: FirestoreDate;
+}
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  aisle: StoreAisle;
+}
+
+export interface Pantry {
+  id: string; // Same as the parent profile ID - one pantry per family
+  parentId: string;
+  items: PantryItem[];
+  updatedAt: FirestoreDate;
 }
 
 export interface KidBadge {
@@ -309,7 +436,11 @@ export type RootStackParamList = {
   KidSelector: undefined;
   KidManagement: undefined;
   FamilyMeals: undefined;
+  ShoppingList: undefined;
+  Pantry: undefined;
   CookingHistory: { kidId?: string };
+  PasteRecipe: { text?: string } | undefined;
+  ManualRecipeEntry: { draft?: RecipeDraft; notice?: string } | undefined;
 };
 
 export type AppMode = 'parent' | 'kid';
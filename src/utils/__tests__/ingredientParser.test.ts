@@ -0,0 +1,38 @@
+import type { Ingredient } from '../../types';
+import { parseIngredientLine, parseIngredientLines, parseQuantity } from '../ingredientParser';
+import fixtures from './fixtures/ingredientLines.json';
+
+// Lines copied from real imports, with the Ingredient each one should become
+const cases = fixtures as Array<{ line: string; expected: Omit<Ingredient, 'id' | 'order'> }>;
+
+describe('parseIngredientLine', () => {
+  test.each(cases.map(({ line, expected }) => [line, expected] as const))('%s', (line, expected) => {
+    expect(parseIngredientLine(line, 3)).toEqual({ id: 'ingredient-3', order: 3, ...expected });
+  });
+});
+
+describe('parseIngredientLines', () => {
+  test('skips blank lines and section headers', () => {
+    const ingredients = parseIngredientLines(['For the sauce:', '', '2 tbsp butter', '  ', '1 cup milk']);
+    expect(ingredients.map(ingredient => [ingredient.order, ingredient.name])).toEqual([
+      [0, 'butter'],
+      [1, 'milk'],
+    ]);
+  });
+});
+
+describe('parseQuantity', () => {
+  test.each([
+    ['1 1/2', 1.5],
+    ['1½', 1.5],
+    ['¾', 0.75],
+    ['0,5', 0.5],
+    ['2.25', 2.25],
+  ])('%s', (value, expected) => {
+    expect(parseQuantity(value)).toBeCloseTo(expected);
+  });
+
+  test('rejects a zero denominator', () => {
+    expect(parseQuantity('1/0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,151 @@
+import type { KidPermissions, Recipe } from '../../types';
+import { matchesFilters } from '../searchUtils';
+import {
+  evaluateRecipePermissions,
+  findAllergenConflicts,
+  findToolsNeeded,
+  isRecipeHiddenForKid,
+} from '../kidRecipeChecks';
+
+const recipeWith = (ingredients: string[], allergens?: string[], instructions: string[] = []): Recipe =>
+  ({ id: 'recipe-1', title: 'Test recipe', ingredients, instructions, allergens } as unknown as Recipe);
+
+describe('findAllergenConflicts', () => {
+  test.each([
+    ['1/2 cup chopped nuts', 'nuts'],
+    ['1 cup mixed nuts', 'nuts'],
+    ['1 cup roasted chestnuts', 'nuts'],
+    ['2 tbsp tree nut butter', 'nuts'],
+    ['1 cup almonds and coconut', 'nuts'],
+    ['2 tbsp peanut butter and 1 cup milk', 'dairy'],
+    ['1 eggplant and 2 eggs', 'eggs'],
+    ['1 cup coconut milk and 2 tbsp butter', 'dairy'],
+    ['4 anchovies, chopped', 'fish'],
+  ])('%s contains %s', (ingredient, allergen) => {
+    expect(findAllergenConflicts(recipeWith([ingredient]), [allergen])).toEqual([allergen]);
+  });
+
+  test.each([
+    ['1/2 tsp ground nutmeg', 'nuts'],
+    ['1 cup shredded coconut', 'nuts'],
+    ['1 butternut squash, cubed', 'nuts'],
+    ['1 can coconut milk', 'dairy'],
+    ['2 tbsp peanut butter', 'dairy'],
+    ['1 large eggplant', 'eggs'],
+    ['1/2 tsp cream of tartar', 'dairy'],
+  ])('%s does not contain %s', (ingredient, allergen) => {
+    expect(findAllergenConflicts(recipeWith([ingredient]), [allergen])).toEqual([]);
+  });
+
+  test('matches flags it has no keywords for by name', () => {
+    expect(findAllergenConflicts(recipeWith(['2 ripe kiwis, sliced']), ['kiwi'])).toEqual(['kiwi']);
+  });
+
+  test('trusts allergens declared on the recipe', () => {
+    expect(findAllergenConflicts(recipeWith(['1 cup granola'], ['Tree nuts']), ['nuts'])).toEqual(['nuts']);
+  });
+
+  test('reads structured ingredients by name', () => {
+    const recipe = recipeWith([]);
+    recipe.ingredients = [{ id: 'ingredient-0', name: 'mixed nuts', amount: 1, unit: 'cup', order: 0 }];
+    expect(findAllergenConflicts(recipe, ['nuts'])).toEqual(['nuts']);
+  });
+
+  test('reads the notes on structured ingredients', () => {
+    const recipe = recipeWith([]);
+    recipe.ingredients = [{ id: 'ingredient-0', name: 'flour', amount: 2, unit: 'cup', notes: 'or almond flour', order: 0 }];
+    expect(findAllergenConflicts(recipe, ['nuts', 'gluten'])).toEqual(['nuts', 'gluten']);
+  });
+});
+
+describe('isRecipeHiddenForKid', () => {
+  const recipe = recipeWith(['1 cup mixed nuts', '2 cups oats']);
+
+  test('hides recipes with a severe allergen', () => {
+    expect(isRecipeHiddenForKid(recipe, { allergyFlags: ['nuts'], allergies: [{ allergen: 'nuts', severity: 'severe' }] })).toBe(true);
+  });
+
+  test('only warns for milder allergies', () => {
+    expect(isRecipeHiddenForKid(recipe, { allergyFlags: ['nuts'], allergies: [{ allergen: 'nuts', severity: 'mild' }] })).toBe(false);
+  });
+});
+
+describe('findToolsNeeded', () => {
+  test.each([
+    ['Dice the tomatoes.', 'knives'],
+    ['Slicing the bread is a grown-up job.', 'knives'],
+    ['Chop the parsley finely.', 'knives'],
+    ['Cut the butter into cubes.', 'knives'],
+    ['Use a sharp knife.', 'knives'],
+    ['Fry the onions until soft.', 'stove'],
+    ['Bring a pot of water to a boil.', 'stove'],
+    ['Heat the oil in a skillet.', 'stove'],
+    ['Sauté the garlic.', 'stove'],
+    ['Simmering gently for 10 minutes.', 'stove'],
+    ['Boil the eggs, then cool them.', 'stove'],
+    ['Potatoes are boiled until soft.', 'stove'],
+    ['Bake for 20 minutes.', 'oven'],
+    ['Roasted for 40 minutes, turning once.', 'oven'],
+    ['Put the tray in the preheated oven.', 'oven'],
+  ])('%s needs the %s', (text, tool) => {
+    expect(findToolsNeeded(text)).toEqual([tool]);
+  });
+
+  test.each([
+    'Add the diced tomatoes.',
+    'Top with sliced bananas.',
+    'Press out shapes with a cookie cutter.',
+    'Decorate with cute sprinkles.',
+    'Stir in the roasted peppers.',
+    'Spoon the baked beans onto toast.',
+    'Peel the boiled eggs.',
+    'Whisk the flour and baking soda together.',
+    'Mix in the baking powder.',
+  ])('%s needs no tools', text => {
+    expect(findToolsNeeded(text)).toEqual([]);
+  });
+
+  test('reads the equipment list', () => {
+    expect(findToolsNeeded('Mix everything together.', ['Baking sheet', 'Knife'])).toEqual(['knives', 'oven']);
+  });
+});
+
+describe('evaluateRecipePermissions', () => {
+  const permissions: KidPermissions = {
+    canViewIngredients: true,
+    canUseKnives: false,
+    canUseStove: false,
+    canUseOven: true,
+    requiresAdultHelp: false,
+    maxCookingTimeMinutes: 60,
+  };
+
+  test('hands steps with blocked tools to a grown-up', () => {
+    const recipe = recipeWith([], undefined, [
+      'Add the diced tomatoes and sliced bananas to a bowl.',
+      'Chop the basil.',
+      'Bake for 15 minutes.',
+      'Heat the sauce in a saucepan.',
+    ]);
+
+    const check = evaluateRecipePermissions(recipe, permissions);
+    expect(check.grownUpSteps.map(step => [step.stepIndex, step.tools])).toEqual([
+      [1, ['knives']],
+      [3, ['stove']],
+    ]);
+    expect(check.blockedTools).toEqual(['knives', 'stove']);
+  });
+
+  test('lets ready-prepared ingredients through', () => {
+    const recipe = recipeWith([], undefined, ['Mix the boiled eggs with the roasted peppers.', 'Press out shapes with a cookie cutter.']);
+    expect(evaluateRecipePermissions(recipe, permissions).grownUpSteps).toEqual([]);
+  });
+});
+
+describe('equipment filters', () => {
+  test('match tools from the step text', () => {
+    const recipe = recipeWith([], undefined, ['Stir the baked beans into the roasted peppers.']);
+    expect(matchesFilters(recipe, { forbiddenEquipment: ['oven'] })).toBe(true);
+    expect(matchesFilters(recipeWith([], undefined, ['Roast the peppers for 30 minutes.']), { forbiddenEquipment: ['oven'] })).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { findSafetyFlagsInText } from '../recipeSafety';
+
+const flagsIn = (text: string) =>
+  findSafetyFlagsInText(text, 'step').map(flag => [flag.category, flag.found]);
+
+describe('findSafetyFlagsInText', () => {
+  test.each([
+    ['Never leave the hot oil unattended.', 'high_heat', 'hot oil'],
+    ["Don't touch the flame with your hands.", 'high_heat', 'flame'],
+    ['Do not add the wine until the end.', 'alcohol', 'wine'],
+    ['Skip the salt but add the wine.', 'alcohol', 'wine'],
+    ['Not too much rum!', 'alcohol', 'rum'],
+    ['Ask a grown-up to use the knife.', 'sharp_tools', 'knife'],
+    ['Slice with a sharp knife.', 'sharp_tools', 'sharp knife'],
+    ['No wine needed, then pour in the brandy.', 'alcohol', 'brandy'],
+    ['Without stirring, add the beer.', 'alcohol', 'beer'],
+  ])('%s flags %s', (text, category, found) => {
+    expect(flagsIn(text)).toEqual([[category, found]]);
+  });
+
+  test.each([
+    'No knife needed - tear the lettuce by hand.',
+    'No sharp knife is required.',
+    'Make it without wine.',
+    'Use apple juice instead of the wine.',
+    'Stir in the non-alcoholic beer.',
+    'Choose an alcohol-free wine.',
+    'This one is alcohol free.',
+    'Use de-alcoholised wine.',
+  ])('%s flags nothing', text => {
+    expect(flagsIn(text)).toEqual([]);
+  });
+
+  test('keeps the longer of two overlapping matches', () => {
+    expect(findSafetyFlagsInText("Grab a chef's knife.", 'step').map(flag => flag.found)).toEqual(["chef's knife"]);
+  });
+});
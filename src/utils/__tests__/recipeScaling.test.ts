@@ -0,0 +1,124 @@
+import type { KidIngredient } from '../../types';
+import {
+  getScaleFactor,
+  getScalingNotes,
+  normalizeScaledUnit,
+  roundToMeasurable,
+  scaleIngredient,
+  scaleKidIngredient,
+} from '../recipeScaling';
+
+describe('getScaleFactor', () => {
+  test.each([
+    [4, 8, 2],
+    [4, 6, 1.5],
+    [6, 3, 0.5],
+    [undefined, 6, 1],
+    [0, 6, 1],
+    [4, 0, 1],
+  ])('%s servings to %s is %s', (original, target, factor) => {
+    expect(getScaleFactor(original, target)).toBe(factor);
+  });
+});
+
+describe('roundToMeasurable', () => {
+  test.each([
+    [0.3, 'cup', 1 / 3],
+    [0.05, 'cup', 0.25],
+    [1.1, 'tsp', 1.125],
+    [123, 'g', 125],
+    [12.4, 'g', 12],
+    [3.3, undefined, 3.5],
+    [1.4, undefined, 1.5],
+  ])('%s %s rounds to %s', (amount, unit, expected) => {
+    expect(roundToMeasurable(amount, unit)).toBeCloseTo(expected);
+  });
+});
+
+describe('normalizeScaledUnit', () => {
+  test.each([
+    [16, 'tbsp', 1, 'cup'],
+    [6, 'tbsp', 6, 'tbsp'],
+    [1.5, 'tsp', 1.5, 'tsp'],
+    [1500, 'g', 1.5, 'kg'],
+    [0.5, 'kg', 500, 'g'],
+    [2000, 'ml', 2, 'l'],
+  ])('%s %s becomes %s %s', (amount, unit, expectedAmount, expectedUnit) => {
+    expect(normalizeScaledUnit(amount, unit)).toEqual({ amount: expectedAmount, unit: expectedUnit });
+  });
+});
+
+describe('scaleIngredient', () => {
+  test('leaves the ingredient alone at the original size', () => {
+    const ingredient = { name: 'flour', amount: 1, unit: 'cup' };
+    expect(scaleIngredient(ingredient, 1)).toBe(ingredient);
+  });
+
+  test('scales to measurable cup fractions', () => {
+    expect(scaleIngredient({ name: 'flour', amount: 1, unit: 'cup' }, 1.5)).toEqual({ name: 'flour', amount: 1.5, unit: 'cup' });
+  });
+
+  test('promotes spoons to cups when the amount is big enough', () => {
+    expect(scaleIngredient({ name: 'butter', amount: 8, amountMax: 12, unit: 'tbsp' }, 2))
+      .toEqual({ name: 'butter', amount: 1, amountMax: 1.5, unit: 'cup' });
+  });
+
+  test('keeps eggs whole', () => {
+    expect(scaleIngredient({ name: 'large eggs', amount: 3 }, 0.5).amount).toBe(2);
+    expect(scaleIngredient({ name: 'egg', amount: 1 }, 0.25).amount).toBe(1);
+  });
+
+  test('scales both ends of a counted range', () => {
+    expect(scaleIngredient({ name: 'garlic', amount: 2, amountMax: 3, unit: 'clove' }, 2))
+      .toEqual({ name: 'garlic', amount: 4, amountMax: 6, unit: 'clove' });
+  });
+});
+
+describe('scaleKidIngredient', () => {
+  const sugar: KidIngredient = {
+    id: 'ingredient-0',
+    name: 'sugar',
+    amount: 2,
+    unit: 'tbsp',
+    kidFriendlyName: '2 big spoons of sugar',
+    order: 0,
+  };
+
+  test('keeps the amount in the kid-friendly name in step', () => {
+    expect(scaleKidIngredient(sugar, 2)).toEqual({ ...sugar, amount: 4, kidFriendlyName: '4 big spoons of sugar' });
+  });
+
+  test('uses friendlier units when the name has no amount', () => {
+    const butter = { ...sugar, name: 'butter', amount: 8, kidFriendlyName: 'soft butter' };
+    expect(scaleKidIngredient(butter, 2)).toEqual({ ...butter, amount: 1, unit: 'cup' });
+  });
+});
+
+describe('getScalingNotes', () => {
+  const ingredients = [
+    { id: 'eggs', name: 'eggs', amount: 3 },
+    { id: 'baking-powder', name: 'baking powder', amount: 2, unit: 'tsp' },
+    { id: 'salt', name: 'salt', amount: 1, unit: 'tsp' },
+  ];
+
+  test('says nothing at the original size', () => {
+    expect(getScalingNotes(ingredients, ['Bake for 20 minutes.'], 1)).toEqual([]);
+  });
+
+  test('explains rounded eggs and baking time when halving', () => {
+    const notes = getScalingNotes(ingredients, ['Bake for 20 minutes.'], 0.5);
+    expect(notes.map(note => note.type)).toEqual(['eggs', 'leavening', 'cooking-time']);
+    expect(notes[0]).toMatchObject({ ingredientId: 'eggs' });
+    expect(notes[0].message).toContain('to 2');
+    expect(notes[2].message).toContain('smaller pan');
+  });
+
+  test('warns about leavening and seasoning in big batches', () => {
+    const notes = getScalingNotes(ingredients, ['Stir everything together.'], 2);
+    expect(notes.map(note => note.type)).toEqual(['leavening', 'seasoning']);
+  });
+
+  test('skips leavening and seasoning for small changes', () => {
+    expect(getScalingNotes(ingredients.slice(1), ['Mix well.'], 1.5)).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  convertIngredient,
+  convertMeasurement,
+  convertTemperature,
+  convertTemperaturesInText,
+  getIngredientDensity,
+  needsConversion,
+  toBaseMeasurement,
+} from '../unitConversion';
+
+describe('getIngredientDensity', () => {
+  test.each([
+    ['all-purpose flour', 125],
+    ['brown sugar', 220],
+    ['unsalted butter', 227],
+    ['long grain rice', 185],
+    ['butter, softened', 227],
+    ['peanut butter', 258],
+  ])('%s weighs %i g per cup', (name, grams) => {
+    expect(getIngredientDensity(name)).toBe(grams);
+  });
+
+  test.each(['rice vinegar', 'buttermilk', 'rice milk', 'brown rice syrup', 'maple syrup', 'butter beans', 'sugar snap peas'])(
+    '%s has no density',
+    name => {
+      expect(getIngredientDensity(name)).toBeUndefined();
+    }
+  );
+});
+
+describe('convertIngredient', () => {
+  test.each([
+    ['all-purpose flour', 125, 'g'],
+    ['unsalted butter', 225, 'g'],
+    ['milk', 235, 'ml'],
+    ['buttermilk', 235, 'ml'],
+    ['rice vinegar', 235, 'ml'],
+    ['brown rice syrup', 235, 'ml'],
+  ])('1 cup %s is %i %s', (name, amount, unit) => {
+    expect(convertIngredient({ amount: 1, unit: 'cup', name }, 'metric')).toEqual({ amount, unit, name });
+  });
+
+  test('weighed baking staples become cups', () => {
+    expect(convertIngredient({ amount: 250, unit: 'g', name: 'plain flour' }, 'us'))
+      .toEqual({ amount: 2, unit: 'cup', name: 'plain flour' });
+  });
+
+  test('other weights become pounds and ounces', () => {
+    expect(convertIngredient({ amount: 500, unit: 'g', name: 'chicken thighs' }, 'us'))
+      .toEqual({ amount: 1, unit: 'lb', name: 'chicken thighs' });
+    expect(convertIngredient({ amount: 100, unit: 'g', name: 'cheddar' }, 'us'))
+      .toEqual({ amount: 3.5, unit: 'oz', name: 'cheddar' });
+  });
+
+  test('converts both ends of a range', () => {
+    expect(convertIngredient({ amount: 2, amountMax: 3, unit: 'lb', name: 'potatoes' }, 'metric'))
+      .toEqual({ amount: 905, amountMax: 1360, unit: 'g', name: 'potatoes' });
+  });
+
+  test('leaves spoons and units without a size alone', () => {
+    const spoon = { amount: 1, unit: 'tbsp', name: 'olive oil' };
+    const cloves = { amount: 2, unit: 'clove', name: 'garlic' };
+    expect(convertIngredient(spoon, 'metric')).toBe(spoon);
+    expect(convertIngredient(cloves, 'us')).toBe(cloves);
+  });
+});
+
+describe('convertMeasurement', () => {
+  test('moves to larger units past a litre', () => {
+    const converted = convertMeasurement({ amount: 6, unit: 'cup' }, 'metric');
+    expect(converted.unit).toBe('l');
+    expect(converted.amount).toBeCloseTo(1.4);
+  });
+
+  test('small metric volumes become spoons', () => {
+    expect(convertMeasurement({ amount: 10, unit: 'ml' }, 'us')).toEqual({ amount: 2, unit: 'tsp' });
+    expect(convertMeasurement({ amount: 500, unit: 'ml' }, 'us')).toEqual({ amount: 2, unit: 'cup' });
+  });
+});
+
+describe('needsConversion', () => {
+  test.each([
+    ['cup', 'metric', true],
+    ['g', 'metric', false],
+    ['g', 'us', true],
+    ['tsp', 'metric', false],
+    ['clove', 'us', false],
+    [undefined, 'metric', false],
+  ] as const)('%s to %s: %s', (unit, system, expected) => {
+    expect(needsConversion(unit, system)).toBe(expected);
+  });
+});
+
+describe('toBaseMeasurement', () => {
+  test('adds up volumes in millilitres and weights in grams', () => {
+    expect(toBaseMeasurement(2, 'tbsp')?.amount).toBeCloseTo(29.5736);
+    expect(toBaseMeasurement(1, 'lb')).toEqual({ amount: 453.592, unit: 'g' });
+    expect(toBaseMeasurement(1, 'can')).toBeUndefined();
+  });
+});
+
+describe('temperatures', () => {
+  test('rounds oven temperatures to real settings', () => {
+    expect(convertTemperature(350, 'fahrenheit', 'celsius')).toBe(180);
+    expect(convertTemperature(180, 'celsius', 'fahrenheit')).toBe(350);
+    expect(convertTemperature(40, 'celsius', 'fahrenheit')).toBe(104);
+  });
+
+  test('rewrites temperatures inside instructions', () => {
+    expect(convertTemperaturesInText('Bake at 350°F, or 400 degrees F', 'celsius')).toBe('Bake at 180°C, or 200°C');
+    expect(convertTemperaturesInText('Heat the oven to 200C', 'fahrenheit')).toBe('Heat the oven to 400°F');
+    expect(convertTemperaturesInText('Bake at 180°C', 'celsius')).toBe('Bake at 180°C');
+  });
+});
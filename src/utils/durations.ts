@@ -0,0 +1,116 @@
+import type { Recipe } from '../types';
+import { parseDurationText, formatDurationLabel } from './stepTimers';
+
+export type DurationValue = number | string | null | undefined;
+
+export interface RecipeMinutes {
+  prepMinutes?: number;
+  cookMinutes?: number;
+  totalMinutes?: number;
+}
+
+type RecipeTimeFields = Pick<Recipe, 'prepTime' | 'cookTime' | 'totalTime'> & RecipeMinutes;
+
+// JSON-LD durations: "PT15M", "PT1H30M", "P1DT2H", "PT0.5H"
+const ISO_DURATION_REGEX = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+// "1h 30m", "45m", "1h30m" - shorthand recipe sites use that step text never does
+const COMPACT_UNIT_REGEX = /(\d+(?:\.\d+)?)\s*(h|m)(?=\d|\b)/gi;
+
+const PLAIN_NUMBER_REGEX = /^\d+(?:\.\d+)?$/;
+
+/**
+ * Minutes in an ISO 8601 duration, or null if the text isn't one
+ */
+export const parseIsoDuration = (value: string): number | null => {
+  const match = value.trim().match(ISO_DURATION_REGEX);
+  if (!match) return null;
+
+  const [, days, hours, minutes, seconds] = match;
+  if (!days && !hours && !minutes && !seconds) return null;
+
+  const total =
+    parseFloat(days || '0') * 1440 +
+    parseFloat(hours || '0') * 60 +
+    parseFloat(minutes || '0') +
+    parseFloat(seconds || '0') / 60;
+  return Math.round(total);
+};
+
+/**
+ * ISO 8601 duration for a number of minutes ("PT1H30M"), as schema.org expects
+ */
+export const toIsoDuration = (minutes: number): string => {
+  const rounded = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  const remainder = rounded % 60;
+  if (hours === 0) return `PT${remainder}M`;
+  return remainder === 0 ? `PT${hours}H` : `PT${hours}H${remainder}M`;
+};
+
+/**
+ * Canonical minutes for any time value a recipe can carry: a number of minutes,
+ * an ISO 8601 duration, a bare number string, or free text like "1 hr 30 min"
+ */
+export const parseDurationMinutes = (value: DurationValue): number | undefined => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+  }
+  if (!value) return undefined;
+
+  const text = value.trim();
+  if (!text) return undefined;
+
+  const isoMinutes = parseIsoDuration(text);
+  if (isoMinutes !== null) return isoMinutes;
+
+  if (PLAIN_NUMBER_REGEX.test(text)) {
+    return Math.round(parseFloat(text));
+  }
+
+  const expanded = text.replace(COMPACT_UNIT_REGEX, (_, amount: string, unit: string) =>
+    `${amount} ${unit.toLowerCase() === 'h' ? 'hours' : 'minutes'} `
+  );
+  const seconds = parseDurationText(expanded);
+  return seconds !== null ? Math.round(seconds / 60) : undefined;
+};
+
+/**
+ * Parses the recipe's time text into the minute fields stored alongside it.
+ * Only fields that parse are included, so the result is safe to write to Firestore.
+ */
+export const normalizeRecipeTimes = (recipe: Pick<Recipe, 'prepTime' | 'cookTime' | 'totalTime'>): RecipeMinutes => {
+  const normalized: RecipeMinutes = {};
+  const prepMinutes = parseDurationMinutes(recipe.prepTime);
+  const cookMinutes = parseDurationMinutes(recipe.cookTime);
+  const totalMinutes = parseDurationMinutes(recipe.totalTime);
+
+  if (prepMinutes !== undefined) normalized.prepMinutes = prepMinutes;
+  if (cookMinutes !== undefined) normalized.cookMinutes = cookMinutes;
+  if (totalMinutes !== undefined) normalized.totalMinutes = totalMinutes;
+  return normalized;
+};
+
+/**
+ * Prep, cook and total minutes for a recipe. Stored minutes win; older recipes
+ * are parsed on the fly, and a missing total is prep plus cook.
+ */
+export const getRecipeTimes = (recipe: RecipeTimeFields): RecipeMinutes => {
+  const prepMinutes = recipe.prepMinutes ?? parseDurationMinutes(recipe.prepTime);
+  const cookMinutes = recipe.cookMinutes ?? parseDurationMinutes(recipe.cookTime);
+  let totalMinutes = recipe.totalMinutes ?? parseDurationMinutes(recipe.totalTime);
+
+  if (totalMinutes === undefined && (prepMinutes !== undefined || cookMinutes !== undefined)) {
+    totalMinutes = (prepMinutes || 0) + (cookMinutes || 0);
+  }
+
+  return { prepMinutes, cookMinutes, totalMinutes };
+};
+
+export const getRecipeTotalMinutes = (recipe: RecipeTimeFields): number | undefined =>
+  getRecipeTimes(recipe).totalMinutes;
+
+/**
+ * Display label for a number of minutes: "45 min", "1 hr 30 min"
+ */
+export const formatMinutes = (minutes: number): string => formatDurationLabel(minutes * 60);
@@ -0,0 +1,324 @@
+import type { Ingredient } from '../types';
+
+/**
+ * Unicode vulgar fractions commonly found in scraped recipe text
+ */
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅕': 1 / 5,
+  '⅖': 2 / 5,
+  '⅗': 3 / 5,
+  '⅘': 4 / 5,
+  '⅙': 1 / 6,
+  '⅚': 5 / 6,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+
+/**
+ * Canonical unit names mapped to the spellings we see on recipe sites.
+ * Single-letter abbreviations are matched case-sensitively ("t" vs "T").
+ */
+export const UNIT_ALIASES: Record<string, string[]> = {
+  tsp: ['teaspoons', 'teaspoon', 'tsps', 'tsp', 't'],
+  tbsp: ['tablespoons', 'tablespoon', 'tbsps', 'tbsp', 'tbls', 'tbl', 'tbs', 'T'],
+  cup: ['cups', 'cup', 'c'],
+  'fl oz': ['fluid ounces', 'fluid ounce', 'fl. oz', 'fl oz', 'floz'],
+  pint: ['pints', 'pint', 'pt'],
+  quart: ['quarts', 'quart', 'qt'],
+  gallon: ['gallons', 'gallon', 'gal'],
+  ml: ['milliliters', 'milliliter', 'millilitres', 'millilitre', 'ml'],
+  cl: ['centiliters', 'centiliter', 'centilitres', 'centilitre', 'cl'],
+  dl: ['deciliters', 'deciliter', 'decilitres', 'decilitre', 'dl'],
+  l: ['liters', 'liter', 'litres', 'litre', 'l'],
+  mg: ['milligrams', 'milligram', 'mg'],
+  g: ['grams', 'gram', 'gr', 'g'],
+  kg: ['kilograms', 'kilogram', 'kilos', 'kilo', 'kg'],
+  oz: ['ounces', 'ounce', 'oz'],
+  lb: ['pounds', 'pound', 'lbs', 'lb'],
+  pinch: ['pinches', 'pinch'],
+  dash: ['dashes', 'dash'],
+  drop: ['drops', 'drop'],
+  clove: ['cloves', 'clove'],
+  can: ['cans', 'can', 'tins', 'tin'],
+  jar: ['jars', 'jar'],
+  package: ['packages', 'package', 'packets', 'packet', 'pkg'],
+  stick: ['sticks', 'stick'],
+  slice: ['slices', 'slice'],
+  piece: ['pieces', 'piece'],
+  bunch: ['bunches', 'bunch'],
+  sprig: ['sprigs', 'sprig'],
+  handful: ['handfuls', 'handful'],
+  head: ['heads', 'head'],
+};
+
+const CASE_SENSITIVE_ALIASES = new Set(['t', 'T']);
+
+// Abbreviated units read the same for any amount ("2 tbsp", not "2 tbsps")
+const ABBREVIATED_UNITS = new Set(['tsp', 'tbsp', 'fl oz', 'ml', 'cl', 'dl', 'l', 'mg', 'g', 'kg', 'oz', 'lb']);
+
+// Metric amounts read as decimals ("62.5 g") rather than fractions
+const DECIMAL_UNITS = new Set(['ml', 'cl', 'dl', 'l', 'mg', 'g', 'kg']);
+
+// Longest aliases first so "fl oz" wins over "oz" and "tbsp" over "t"
+const UNIT_LOOKUP: Array<{ alias: string; unit: string }> = Object.entries(UNIT_ALIASES)
+  .flatMap(([unit, aliases]) => aliases.map(alias => ({ alias, unit })))
+  .sort((a, b) => b.alias.length - a.alias.length);
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Mixed numbers and plain fractions come first so "1/2" isn't read as "1"
+const NUMBER_PATTERN =
+  `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?(?:\\s*[${FRACTION_CHARS}])?|[${FRACTION_CHARS}])`;
+const QUANTITY_REGEX = new RegExp(
+  `^(${NUMBER_PATTERN})(?:\\s*(?:-|–|—|to|or)\\s*(${NUMBER_PATTERN}))?`,
+  'i'
+);
+
+const OPTIONAL_REGEX = /\(\s*optional\s*\)|,?\s*\boptional\b:?/gi;
+const IS_OPTIONAL_REGEX = /\boptional\b/i;
+const TO_TASTE_REGEX = /,?\s*\b(to taste|as needed|for serving|for garnish)\b\.?/i;
+
+/**
+ * Converts a single quantity token ("1 1/2", "1½", "0,5", "¾") to a number
+ */
+export const parseQuantity = (value: string): number | undefined => {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  let total = 0;
+  let remainder = text;
+
+  const fractionChar = remainder.slice(-1);
+  if (UNICODE_FRACTIONS[fractionChar] !== undefined) {
+    total += UNICODE_FRACTIONS[fractionChar];
+    remainder = remainder.slice(0, -1).trim();
+  }
+
+  if (!remainder) return total;
+
+  const mixedMatch = remainder.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixedMatch) {
+    const denominator = parseInt(mixedMatch[3], 10);
+    if (denominator === 0) return undefined;
+    return total + parseInt(mixedMatch[1], 10) + parseInt(mixedMatch[2], 10) / denominator;
+  }
+
+  const fractionMatch = remainder.match(/^(\d+)\/(\d+)$/);
+  if (fractionMatch) {
+    const denominator = parseInt(fractionMatch[2], 10);
+    if (denominator === 0) return undefined;
+    return total + parseInt(fractionMatch[1], 10) / denominator;
+  }
+
+  // European decimal comma ("0,5 l") - only when it can't be a thousands separator
+  const decimal = parseFloat(remainder.replace(/^(\d+),(\d{1,2})$/, '$1.$2'));
+  return isNaN(decimal) ? undefined : total + decimal;
+};
+
+/**
+ * Resolves a unit spelling ("Tablespoons", "tbsp.", "mL") to its canonical name
+ */
+export const normalizeUnit = (unit: string | undefined): string | undefined => {
+  if (!unit) return undefined;
+  const cleaned = unit.trim().replace(/\.$/, '');
+  if (!cleaned) return undefined;
+
+  for (const { alias, unit: canonical } of UNIT_LOOKUP) {
+    const matches = CASE_SENSITIVE_ALIASES.has(alias)
+      ? cleaned === alias
+      : cleaned.toLowerCase() === alias.toLowerCase();
+    if (matches) return canonical;
+  }
+  return undefined;
+};
+
+/**
+ * Pulls a leading unit off the remaining ingredient text
+ */
+const extractUnit = (text: string): { unit?: string; rest: string } => {
+  for (const { alias, unit } of UNIT_LOOKUP) {
+    const flags = CASE_SENSITIVE_ALIASES.has(alias) ? '' : 'i';
+    const match = text.match(new RegExp(`^${escapeRegExp(alias)}\\.?(?=[\\s,)]|$)`, flags));
+    if (match) {
+      return { unit, rest: text.slice(match[0].length).trim() };
+    }
+  }
+  return { rest: text };
+};
+
+const joinNotes = (notes: string[]): string | undefined => {
+  const cleaned = notes.map(note => note.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned.join('; ') : undefined;
+};
+
+/**
+ * Parses a free-text ingredient line such as "1 1/2 cups all-purpose flour, sifted"
+ * into a structured Ingredient
+ */
+export const parseIngredientLine = (line: string, order: number = 0): Ingredient => {
+  let text = line
+    .replace(/<[^>]*>/g, '')
+    .replace(/^\s*(?:[-•*▢▪◦]|\d+[.)])\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const notes: string[] = [];
+
+  const isOptional = IS_OPTIONAL_REGEX.test(text);
+  if (isOptional) {
+    text = text.replace(OPTIONAL_REGEX, '').trim();
+  }
+
+  // Parenthetical notes: "1 (14 oz) can tomatoes", "2 cups milk (whole or 2%)"
+  text = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    notes.push(inner);
+    return ' ';
+  }).replace(/\s+/g, ' ').trim();
+
+  let amount: number | undefined;
+  let amountMax: number | undefined;
+
+  const quantityMatch = text.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    amount = parseQuantity(quantityMatch[1]);
+    if (quantityMatch[2]) {
+      const upper = parseQuantity(quantityMatch[2]);
+      if (upper !== undefined && amount !== undefined) {
+        // "1-1/2 cups" is a mixed number, not a range
+        if (upper < 1 && upper < amount && Number.isInteger(amount)) {
+          amount += upper;
+        } else if (upper > amount) {
+          amountMax = upper;
+        }
+      }
+    }
+    text = text.slice(quantityMatch[0].length).trim();
+  }
+
+  const { unit, rest } = amount !== undefined ? extractUnit(text) : { unit: undefined, rest: text };
+  text = rest.replace(/^of\s+/i, '');
+
+  const toTasteMatch = text.match(TO_TASTE_REGEX);
+  if (toTasteMatch) {
+    notes.push(toTasteMatch[1]);
+    text = text.replace(TO_TASTE_REGEX, '').trim();
+  }
+
+  const commaIndex = text.indexOf(',');
+  if (commaIndex !== -1) {
+    notes.unshift(text.slice(commaIndex + 1));
+    text = text.slice(0, commaIndex);
+  }
+
+  const name = text.replace(/[\s,;:]+$/, '').trim() || line.trim();
+
+  const ingredient: Ingredient = {
+    id: `ingredient-${order}`,
+    name,
+    order,
+  };
+  if (amount !== undefined) ingredient.amount = amount;
+  if (amountMax !== undefined) ingredient.amountMax = amountMax;
+  if (unit) ingredient.unit = unit;
+  const joinedNotes = joinNotes(notes);
+  if (joinedNotes) ingredient.notes = joinedNotes;
+  if (isOptional) ingredient.isOptional = true;
+
+  return ingredient;
+};
+
+/**
+ * Parses a list of raw ingredient lines, skipping blanks and section headers
+ */
+export const parseIngredientLines = (lines: string[]): Ingredient[] => {
+  return lines
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !/^[^:]{1,40}:$/.test(line))
+    .map((line, index) => parseIngredientLine(line, index));
+};
+
+/**
+ * Brings legacy string ingredients and structured ingredients into a single shape
+ */
+export const normalizeIngredients = (ingredients: Array<Ingredient | string> | undefined): Ingredient[] => {
+  if (!ingredients) return [];
+  return ingredients.map((ingredient, index) =>
+    typeof ingredient === 'string'
+      ? parseIngredientLine(ingredient, index)
+      : ingredient
+  );
+};
+
+const DISPLAY_FRACTIONS: Array<[number, string]> = [
+  [1 / 8, '⅛'],
+  [1 / 4, '¼'],
+  [1 / 3, '⅓'],
+  [3 / 8, '⅜'],
+  [1 / 2, '½'],
+  [5 / 8, '⅝'],
+  [2 / 3, '⅔'],
+  [3 / 4, '¾'],
+  [7 / 8, '⅞'],
+];
+
+/**
+ * Formats a numeric amount for display, using fraction glyphs where they fit
+ */
+export const formatQuantity = (amount: number): string => {
+  const whole = Math.floor(amount);
+  const fraction = amount - whole;
+
+  if (fraction < 0.01) return whole.toString();
+  if (fraction > 0.99) return (whole + 1).toString();
+
+  const glyph = DISPLAY_FRACTIONS.find(([value]) => Math.abs(value - fraction) < 0.01);
+  if (glyph) {
+    return whole > 0 ? `${whole}${glyph[1]}` : glyph[1];
+  }
+
+  return amount.toFixed(2).replace(/\.?0+$/, '');
+};
+
+/**
+ * Pluralizes spelled-out units ("2 cups", "3 pinches") and leaves abbreviations alone
+ */
+export const formatUnit = (unit: string, amount?: number): string => {
+  if (ABBREVIATED_UNITS.has(unit) || amount === undefined || amount <= 1) return unit;
+  return /(?:ch|sh|s)$/.test(unit) ? `${unit}es` : `${unit}s`;
+};
+
+/**
+ * Renders an ingredient (structured or legacy string) as a single display line
+ */
+export const formatIngredient = (ingredient: Ingredient | string): string => {
+  if (typeof ingredient === 'string') return ingredient;
+
+  const format = ingredient.unit && DECIMAL_UNITS.has(ingredient.unit)
+    ? (amount: number) => amount.toFixed(2).replace(/\.?0+$/, '')
+    : formatQuantity;
+
+  const parts: string[] = [];
+  if (ingredient.amount !== undefined && ingredient.amount !== null) {
+    parts.push(
+      ingredient.amountMax !== undefined
+        ? `${format(ingredient.amount)}-${format(ingredient.amountMax)}`
+        : format(ingredient.amount)
+    );
+  }
+  if (ingredient.unit) parts.push(formatUnit(ingredient.unit, ingredient.amountMax ?? ingredient.amount));
+  parts.push(ingredient.name);
+
+  let text = parts.join(' ');
+  if (ingredient.notes) text += `, ${ingredient.notes}`;
+  if (ingredient.isOptional) text += ' (optional)';
+  return text;
+};
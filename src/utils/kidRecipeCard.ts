@@ -0,0 +1,155 @@
+import type { KidRecipe, KidProfile, KidIngredient, ReadingLevel } from '../types';
+import { formatMinutes } from './durations';
+
+export type PaperSize = 'letter' | 'a4';
+
+export interface PaperDimensions {
+  cssSize: string;
+  // Page size in points (1/72 inch), the unit the print dialog and PDF writer expect
+  width: number;
+  height: number;
+}
+
+export const PAPER_SIZES: Record<PaperSize, PaperDimensions> = {
+  letter: { cssSize: 'letter', width: 612, height: 792 },
+  a4: { cssSize: 'A4', width: 595, height: 842 },
+};
+
+interface CardTypeScale {
+  body: number;
+  title: number;
+  checkbox: number;
+}
+
+// Newer readers get bigger type and more room per line, read from across the kitchen
+const TYPE_SCALES: Record<ReadingLevel, CardTypeScale> = {
+  beginner: { body: 22, title: 36, checkbox: 26 },
+  intermediate: { body: 18, title: 32, checkbox: 22 },
+  advanced: { body: 15, title: 28, checkbox: 18 },
+};
+
+export interface KidRecipeCardOptions {
+  title: string;
+  kid?: Pick<KidProfile, 'name' | 'avatarEmoji'>;
+  paperSize?: PaperSize;
+}
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatKidIngredient = (ingredient: KidIngredient): string =>
+  [ingredient.amount, ingredient.unit, ingredient.kidFriendlyName || ingredient.name].filter(Boolean).join(' ');
+
+const renderStyles = (paper: PaperDimensions, scale: CardTypeScale): string => `
+  @page { size: ${paper.cssSize}; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body {
+    font-family: -apple-system, 'Helvetica Neue', Arial, sans-serif;
+    font-size: ${scale.body}px;
+    line-height: 1.45;
+    color: #1f2937;
+    margin: 0;
+  }
+  header { display: flex; align-items: center; gap: 16px; border-bottom: 3px solid #2563eb; padding-bottom: 12px; margin-bottom: 16px; }
+  .avatar { font-size: ${scale.title * 1.5}px; line-height: 1; }
+  h1 { font-size: ${scale.title}px; margin: 0; }
+  .chef { font-size: ${scale.body}px; color: #6b7280; margin: 4px 0 0; }
+  .time { font-size: ${scale.body}px; color: #2563eb; font-weight: 600; margin: 0 0 12px; }
+  h2 { font-size: ${Math.round(scale.body * 1.25)}px; margin: 20px 0 8px; color: #2563eb; }
+  ul, ol { list-style: none; padding: 0; margin: 0; }
+  li { display: flex; align-items: flex-start; gap: 12px; margin-bottom: 10px; page-break-inside: avoid; }
+  .box {
+    flex: none;
+    width: ${scale.checkbox}px;
+    height: ${scale.checkbox}px;
+    border: 2px solid #1f2937;
+    border-radius: 4px;
+    margin-top: ${Math.round((scale.body * 1.45 - scale.checkbox) / 2)}px;
+  }
+  .number { flex: none; font-weight: 700; min-width: ${scale.body * 1.5}px; }
+  .icon { flex: none; }
+  .step-text { flex: 1; }
+  .grown-up { background: #fef3c7; border-radius: 8px; padding: 6px 8px; }
+  .grown-up-label { display: block; font-size: ${Math.round(scale.body * 0.75)}px; font-weight: 700; color: #b45309; }
+  .step-note { display: block; font-size: ${Math.round(scale.body * 0.8)}px; color: #b91c1c; margin-top: 2px; }
+  .safety { border: 2px solid #f59e0b; border-radius: 12px; padding: 12px 16px; margin-top: 20px; page-break-inside: avoid; }
+  .safety h2 { margin-top: 0; color: #b45309; }
+  .safety li { display: list-item; list-style: disc; margin-left: 24px; }
+`;
+
+const renderIngredients = (kidRecipe: KidRecipe): string =>
+  [...kidRecipe.simplifiedIngredients]
+    .sort((a, b) => a.order - b.order)
+    .map(ingredient => `<li><span class="box"></span><span>${escapeHtml(formatKidIngredient(ingredient))}</span></li>`)
+    .join('\n');
+
+const renderSteps = (kidRecipe: KidRecipe): string =>
+  [...kidRecipe.simplifiedSteps]
+    .sort((a, b) => a.order - b.order)
+    .map((step, index) => {
+      const text = escapeHtml(step.kidFriendlyText || step.step);
+      const icon = step.icon ? `<span class="icon">${escapeHtml(step.icon)}</span>` : '';
+      const label = step.grownUpStep ? '<span class="grown-up-label">👩‍🍳 Grown-up step</span>' : '';
+      const note = step.safetyNote ? `<span class="step-note">⚠️ ${escapeHtml(step.safetyNote)}</span>` : '';
+      return (
+        `<li${step.grownUpStep ? ' class="grown-up"' : ''}>` +
+        `<span class="box"></span><span class="number">${index + 1}.</span>${icon}` +
+        `<span class="step-text">${label}${text}${note}</span></li>`
+      );
+    })
+    .join('\n');
+
+/**
+ * A print-ready HTML page for a kid's version of a recipe: big type for the
+ * kid's reading level and a box to tick beside every ingredient and step.
+ */
+export const renderKidRecipeCardHtml = (kidRecipe: KidRecipe, options: KidRecipeCardOptions): string => {
+  const paper = PAPER_SIZES[options.paperSize || 'letter'];
+  const scale = TYPE_SCALES[kidRecipe.targetReadingLevel] || TYPE_SCALES.beginner;
+  const { kid } = options;
+  const safetyNotes = kidRecipe.safetyNotes || [];
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(options.title)}</title>
+<style>${renderStyles(paper, scale)}</style>
+</head>
+<body>
+<header>
+  ${kid ? `<span class="avatar">${escapeHtml(kid.avatarEmoji || '👶')}</span>` : ''}
+  <div>
+    <h1>${escapeHtml(options.title)}</h1>
+    ${kid ? `<p class="chef">Chef ${escapeHtml(kid.name)}</p>` : ''}
+  </div>
+</header>
+${kidRecipe.estimatedDuration ? `<p class="time">⏱️ About ${escapeHtml(formatMinutes(kidRecipe.estimatedDuration))}</p>` : ''}
+<h2>🥣 What You Need</h2>
+<ul>
+${renderIngredients(kidRecipe)}
+</ul>
+<h2>👩‍🍳 Let's Cook!</h2>
+<ol>
+${renderSteps(kidRecipe)}
+</ol>
+${
+  safetyNotes.length > 0
+    ? `<section class="safety">
+<h2>⚠️ Stay Safe</h2>
+<ul>
+${safetyNotes.map(note => `<li>${escapeHtml(note)}</li>`).join('\n')}
+</ul>
+</section>`
+    : ''
+}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,298 @@
+import type { Recipe, KidProfile, KidPermissions, KidAllergy, AllergySeverity, KidStep } from '../types';
+import { getRecipeTotalMinutes } from './durations';
+import { ingredientContainsAllergen, ingredientToText } from '../../shared/allergens';
+
+export interface KidRecipeConflict {
+  kidId: string;
+  kidName: string;
+  recipeId: string;
+  recipeTitle: string;
+  type: 'allergy' | 'permission';
+  severity?: AllergySeverity; // Worst matching allergy, for allergy conflicts
+  message: string;
+}
+
+// Older profiles only stored names; treat those as moderate until a parent says otherwise
+export const DEFAULT_ALLERGY_SEVERITY: AllergySeverity = 'moderate';
+
+const SEVERITY_RANK: Record<AllergySeverity, number> = { mild: 0, moderate: 1, severe: 2 };
+
+// Nouns match with a plural ending; verbs with their own -s/-ed/-ing forms
+const TOOL_KEYWORDS = {
+  knives: {
+    nouns: ['knife', 'knives', 'mandoline'],
+    verbs: ['chop', 'dice', 'mince', 'slice', 'julienne', 'carve', 'cut'],
+  },
+  stove: {
+    nouns: ['stove', 'stovetop', 'skillet', 'saucepan', 'frying pan', 'burner', 'wok', 'griddle'],
+    verbs: ['saute', 'sauté', 'simmer', 'boil', 'fry', 'sear'],
+  },
+  oven: {
+    nouns: ['oven', 'baking sheet', 'baking dish', 'sheet pan'],
+    verbs: ['bake', 'roast', 'broil', 'preheat'],
+  },
+};
+
+// Ingredients that share a word with a tool verb
+const TOOL_EXCEPTIONS = ['baking soda', 'baking powder'];
+
+// Words that can follow a past-tense tool verb while it's still the action:
+// "roasted for 20 minutes", "boiled until soft". Anything else reads as an
+// adjective on an ingredient, as in "diced tomatoes" or "baked beans".
+const AFTER_VERB_WORDS = new Set([
+  'for', 'until', 'till', 'in', 'on', 'at', 'with', 'over', 'under', 'into', 'onto', 'to', 'from', 'by',
+  'and', 'or', 'then', 'before', 'after', 'while', 'about', 'around', 'through',
+  'gently', 'lightly', 'briefly', 'slowly', 'well', 'thoroughly', 'again',
+]);
+
+export type KitchenTool = keyof typeof TOOL_KEYWORDS;
+
+const TOOL_PERMISSIONS: Record<KitchenTool, 'canUseKnives' | 'canUseStove' | 'canUseOven'> = {
+  knives: 'canUseKnives',
+  stove: 'canUseStove',
+  oven: 'canUseOven',
+};
+
+const TOOL_REASONS: Record<KitchenTool, string> = {
+  knives: 'needs a knife',
+  stove: 'uses the stove',
+  oven: 'uses the oven',
+};
+
+export interface StepPermissionCheck {
+  stepIndex: number;
+  tools: KitchenTool[]; // Tools the step needs that the kid isn't allowed to use
+  reason: string;
+}
+
+export interface RecipePermissionCheck {
+  grownUpSteps: StepPermissionCheck[];
+  blockedTools: KitchenTool[]; // Across all steps plus the recipe's equipment list
+  minutes?: number;
+  overTimeLimit: boolean;
+  requiresAdultHelp: boolean;
+}
+
+const normalizeFlag = (flag: string): string => flag.trim().toLowerCase();
+
+// Notes count too: "flour" with "or almond flour" can contain nuts
+const getIngredientText = (recipe: Recipe): string[] => recipe.ingredients.map(ingredientToText);
+
+const getRecipeSteps = (recipe: Recipe): Array<{ text: string; equipment?: string[] }> =>
+  recipe.steps && recipe.steps.length > 0
+    ? [...recipe.steps].sort((a, b) => a.order - b.order).map(step => ({ text: step.step, equipment: step.equipment }))
+    : (recipe.instructions || []).map(text => ({ text }));
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// "dice" -> dices/diced/dicing, "fry" -> fried/frying, "chop" -> chops/chopped/chopping
+const verbPattern = (verb: string): string => {
+  const last = verb.slice(-1);
+  const stem = escapeRegex(verb.slice(0, -1));
+  if (last === 'e' || last === 'é') {
+    return `${stem}(?:${last}|${last}s|${last}?ed|${last}?ing)`;
+  }
+  if (/[^aeiou]y$/.test(verb)) {
+    return `${stem}(?:y|ied|ying)`;
+  }
+  if (/^[^aeiou]*[aeiou][^aeiouwxy]$/.test(verb)) {
+    return `${escapeRegex(verb)}(?:s|${last}ed|${last}ing)?`;
+  }
+  return `${escapeRegex(verb)}(?:s|ed|ing)?`;
+};
+
+// Whole words only, like the safety keywords in recipeSafety
+const TOOL_PATTERNS = (Object.keys(TOOL_KEYWORDS) as KitchenTool[]).map(tool => ({
+  tool,
+  patterns: [
+    ...TOOL_KEYWORDS[tool].nouns.map(noun => `${escapeRegex(noun)}(?:s|es)?`),
+    ...TOOL_KEYWORDS[tool].verbs.map(verbPattern),
+  ].map(pattern => new RegExp(`(?:^|[^\\w-])(${pattern})(?![\\w-])`, 'g')),
+}));
+
+const TOOL_EXCEPTION_REGEX = new RegExp(`\\b(?:${TOOL_EXCEPTIONS.map(escapeRegex).join('|')})\\b`, 'g');
+
+const isToolMention = (text: string, word: string, end: number): boolean => {
+  if (!/ed$/.test(word)) return true;
+  const next = text.slice(end).match(/^\s+([a-z]+)/);
+  return !next || AFTER_VERB_WORDS.has(next[1]);
+};
+
+const mentionsTool = (text: string, tool: KitchenTool): boolean =>
+  TOOL_PATTERNS.find(entry => entry.tool === tool)!.patterns.some(pattern =>
+    Array.from(text.matchAll(pattern)).some(match =>
+      isToolMention(text, match[1], (match.index ?? 0) + match[0].length)
+    )
+  );
+
+/**
+ * A kid's allergies with severities, falling back to the legacy name-only flags
+ */
+export const getKidAllergies = (kid: Pick<KidProfile, 'allergies' | 'allergyFlags'>): KidAllergy[] => {
+  if (kid.allergies && kid.allergies.length > 0) {
+    return kid.allergies;
+  }
+  return (kid.allergyFlags || []).map(allergen => ({ allergen, severity: DEFAULT_ALLERGY_SEVERITY }));
+};
+
+/**
+ * The name-only list stored alongside structured allergies
+ */
+export const toAllergyFlags = (allergies: KidAllergy[]): string[] =>
+  allergies.map(allergy => allergy.allergen);
+
+export const getHighestSeverity = (allergies: KidAllergy[]): AllergySeverity | undefined =>
+  allergies.reduce<AllergySeverity | undefined>(
+    (highest, allergy) =>
+      !highest || SEVERITY_RANK[allergy.severity] > SEVERITY_RANK[highest] ? allergy.severity : highest,
+    undefined
+  );
+
+/**
+ * Which of a kid's allergy flags the recipe appears to contain
+ */
+export const findAllergenConflicts = (recipe: Recipe, allergyFlags: string[]): string[] => {
+  const ingredients = getIngredientText(recipe);
+  const declared = (recipe.allergens || []).map(normalizeFlag);
+
+  return allergyFlags.filter(flag => {
+    const allergen = normalizeFlag(flag);
+    if (declared.some(item => item.includes(allergen) || allergen.includes(item))) {
+      return true;
+    }
+
+    return ingredients.some(ingredient => ingredientContainsAllergen(ingredient, allergen));
+  });
+};
+
+/**
+ * Which of a kid's allergies the recipe appears to contain, with their severities
+ */
+export const findAllergyMatches = (recipe: Recipe, allergies: KidAllergy[]): KidAllergy[] => {
+  const matched = new Set(findAllergenConflicts(recipe, allergies.map(allergy => allergy.allergen)));
+  return allergies.filter(allergy => matched.has(allergy.allergen));
+};
+
+/**
+ * Severe allergies hide a recipe from the kid entirely; milder ones only warn
+ */
+export const isRecipeHiddenForKid = (recipe: Recipe, kid: Pick<KidProfile, 'allergies' | 'allergyFlags'>): boolean =>
+  findAllergyMatches(recipe, getKidAllergies(kid)).some(allergy => allergy.severity === 'severe');
+
+/**
+ * Kitchen tools a piece of step text or an equipment list calls for
+ */
+export const findToolsNeeded = (text: string, equipment: string[] = []): KitchenTool[] => {
+  const haystack = [text, ...equipment].join('. ').toLowerCase().replace(TOOL_EXCEPTION_REGEX, ' ');
+  return (Object.keys(TOOL_KEYWORDS) as KitchenTool[]).filter(tool => mentionsTool(haystack, tool));
+};
+
+const getBlockedTools = (tools: KitchenTool[], permissions: KidPermissions): KitchenTool[] =>
+  tools.filter(tool => !permissions[TOOL_PERMISSIONS[tool]]);
+
+export const describeBlockedTools = (tools: KitchenTool[]): string =>
+  tools.map(tool => TOOL_REASONS[tool]).join(' and ');
+
+/**
+ * Whether a grown-up has to do this step, either because it needs a tool the kid
+ * can't use or because the conversion already marked it as a hand-off
+ */
+export const checkStepPermissions = (
+  step: { text: string; equipment?: string[]; grownUpStep?: boolean },
+  stepIndex: number,
+  permissions?: KidPermissions
+): StepPermissionCheck | null => {
+  const tools = permissions ? getBlockedTools(findToolsNeeded(step.text, step.equipment), permissions) : [];
+  if (tools.length > 0) {
+    return { stepIndex, tools, reason: describeBlockedTools(tools) };
+  }
+  if (step.grownUpStep) {
+    return { stepIndex, tools, reason: 'is a grown-up job' };
+  }
+  return null;
+};
+
+/**
+ * Same check for a converted kid step, looking at both the original and the kid-friendly wording
+ */
+export const checkKidStepPermissions = (
+  step: Pick<KidStep, 'step' | 'kidFriendlyText' | 'grownUpStep'>,
+  stepIndex: number,
+  permissions?: KidPermissions
+): StepPermissionCheck | null =>
+  checkStepPermissions(
+    { text: `${step.step || ''} ${step.kidFriendlyText}`, grownUpStep: step.grownUpStep },
+    stepIndex,
+    permissions
+  );
+
+/**
+ * Everything a kid's permissions say about a recipe: which steps need a grown-up,
+ * which tools are off limits and whether it runs past their time limit
+ */
+export const evaluateRecipePermissions = (recipe: Recipe, permissions: KidPermissions): RecipePermissionCheck => {
+  const grownUpSteps = getRecipeSteps(recipe)
+    .map((step, index) => checkStepPermissions(step, index, permissions))
+    .filter((check): check is StepPermissionCheck => check !== null);
+
+  const blockedTools = new Set<KitchenTool>(grownUpSteps.flatMap(check => check.tools));
+  getBlockedTools(findToolsNeeded('', recipe.equipment), permissions).forEach(tool => blockedTools.add(tool));
+
+  const minutes = getRecipeTotalMinutes(recipe);
+  return {
+    grownUpSteps,
+    blockedTools: (Object.keys(TOOL_KEYWORDS) as KitchenTool[]).filter(tool => blockedTools.has(tool)),
+    minutes,
+    overTimeLimit: minutes !== undefined && !!permissions.maxCookingTimeMinutes && minutes > permissions.maxCookingTimeMinutes,
+    requiresAdultHelp: permissions.requiresAdultHelp,
+  };
+};
+
+/**
+ * Plain-language reasons a kid's permissions don't cover this recipe
+ */
+export const findPermissionConflicts = (recipe: Recipe, permissions: KidPermissions): string[] => {
+  const check = evaluateRecipePermissions(recipe, permissions);
+  const reasons = check.blockedTools.map(tool => TOOL_REASONS[tool]);
+
+  if (check.overTimeLimit) {
+    reasons.push(`takes ${check.minutes} minutes (limit is ${permissions.maxCookingTimeMinutes})`);
+  }
+
+  return reasons;
+};
+
+/**
+ * Checks one recipe against a kid's allergies and kitchen permissions
+ */
+export const checkRecipeForKid = (recipe: Recipe, kid: KidProfile): KidRecipeConflict[] => {
+  const conflicts: KidRecipeConflict[] = [];
+  const base = { kidId: kid.id, kidName: kid.name, recipeId: recipe.id, recipeTitle: recipe.title };
+
+  const allergies = findAllergyMatches(recipe, getKidAllergies(kid));
+  if (allergies.length > 0) {
+    const severity = getHighestSeverity(allergies);
+    const allergens = allergies.map(allergy => allergy.allergen);
+    conflicts.push({
+      ...base,
+      type: 'allergy',
+      severity,
+      message: severity === 'mild'
+        ? `${recipe.title} may contain ${allergens.join(', ')} (${kid.name} has a mild allergy)`
+        : `${recipe.title} may contain ${allergens.join(', ')} (${kid.name} is allergic)`,
+    });
+  }
+
+  if (kid.permissions) {
+    const reasons = findPermissionConflicts(recipe, kid.permissions);
+    if (reasons.length > 0) {
+      conflicts.push({
+        ...base,
+        type: 'permission',
+        message: `${recipe.title} ${reasons.join(', ')}, which ${kid.name} isn't allowed to do alone`,
+      });
+    }
+  }
+
+  return conflicts;
+};
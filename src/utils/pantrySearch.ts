@@ -0,0 +1,172 @@
+import type { Recipe, Ingredient, PantryItem } from '../types';
+import { normalizeIngredients } from './ingredientParser';
+import { tokenizeSearchText } from './recipeSearchIndex';
+
+/**
+ * Things every kitchen has, so they never count as missing
+ */
+export const PANTRY_STAPLES = [
+  'water',
+  'ice',
+  'salt',
+  'pepper',
+  'black pepper',
+  'salt and pepper',
+  'salt and black pepper',
+  'kosher salt',
+  'sea salt',
+  'table salt',
+  'oil',
+  'vegetable oil',
+  'cooking oil',
+  'olive oil',
+  'cooking spray',
+];
+
+// Names where the first word changes what the thing is, so "butter" on the
+// shelf doesn't cover "peanut butter" in the recipe
+const COMPOUND_INGREDIENTS = [
+  'peanut butter', 'almond butter', 'cream cheese', 'sour cream', 'ice cream', 'whipped cream',
+  'coconut milk', 'almond milk', 'oat milk', 'soy milk', 'condensed milk', 'evaporated milk',
+  'baking soda', 'baking powder', 'sweet potato', 'green onion', 'spring onion',
+  'garlic powder', 'onion powder', 'garlic salt', 'chili powder', 'cocoa powder', 'chocolate chip',
+  'brown sugar', 'powdered sugar', 'icing sugar', 'maple syrup', 'corn syrup',
+  'tomato paste', 'tomato sauce', 'soy sauce', 'hot sauce', 'fish sauce',
+  'chicken broth', 'beef broth', 'vegetable broth', 'chicken stock', 'beef stock', 'vegetable stock',
+  'coconut oil', 'sesame oil', 'rice vinegar', 'egg noodle', 'bell pepper', 'chili pepper', 'red pepper flake',
+].map(name => tokenizeSearchText(name));
+
+// Preparation and size words that don't change what needs to be in the cupboard
+const DESCRIPTOR_WORDS = new Set([
+  'fresh', 'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed', 'ground', 'peeled',
+  'melted', 'softened', 'cold', 'warm', 'large', 'medium', 'small', 'extra', 'finely', 'roughly', 'to',
+  'taste', 'for', 'serving', 'optional', 'of', 'a', 'an', 'the', 'some', 'about', 'divided', 'packed',
+]);
+
+const getNameWords = (name: string): string[] =>
+  tokenizeSearchText(name).filter(word => !DESCRIPTOR_WORDS.has(word) && !/^\d+$/.test(word));
+
+const STAPLE_KEYS = new Set(PANTRY_STAPLES.map(name => getNameWords(name).join(' ')));
+
+export const isPantryStaple = (name: string): boolean => STAPLE_KEYS.has(getNameWords(name).join(' '));
+
+const findPhrase = (words: string[], phrase: string[]): number => {
+  if (phrase.length === 0 || phrase.length > words.length) return -1;
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((word, offset) => words[start + offset] === word)) return start;
+  }
+  return -1;
+};
+
+// The shorter name matches inside the longer one without splitting a compound like "peanut butter"
+const phraseMatches = (longer: string[], shorter: string[]): boolean => {
+  const start = findPhrase(longer, shorter);
+  if (start === -1) return false;
+  const end = start + shorter.length;
+
+  return COMPOUND_INGREDIENTS.every(compound => {
+    const compoundStart = findPhrase(longer, compound);
+    if (compoundStart === -1) return true;
+    const compoundEnd = compoundStart + compound.length;
+    const overlaps = start < compoundEnd && compoundStart < end;
+    const covers = start <= compoundStart && compoundEnd <= end;
+    return !overlaps || covers;
+  });
+};
+
+/**
+ * True when a pantry item covers the ingredient: "eggs" covers "2 large eggs",
+ * "cheddar cheese" covers "cheese", but "butter" doesn't cover "peanut butter"
+ */
+export const pantryItemMatches = (ingredientName: string, pantryItemName: string): boolean => {
+  const ingredientWords = getNameWords(ingredientName);
+  const pantryWords = getNameWords(pantryItemName);
+  if (ingredientWords.length === 0 || pantryWords.length === 0) return false;
+
+  return ingredientWords.length >= pantryWords.length
+    ? phraseMatches(ingredientWords, pantryWords)
+    : phraseMatches(pantryWords, ingredientWords);
+};
+
+export interface PantrySubstitution {
+  ingredient: string;
+  using: string;
+}
+
+export interface PantryMatch {
+  recipe: Recipe;
+  // Ingredients that count: not staples and not optional
+  requiredCount: number;
+  onHandCount: number;
+  // Share of required ingredients on hand, from 0 to 1
+  coverage: number;
+  missing: string[];
+  substitutions: PantrySubstitution[];
+  missingOptional: string[];
+}
+
+const findOnHand = (name: string, pantryItems: PantryItem[]): PantryItem | undefined =>
+  pantryItems.find(item => pantryItemMatches(name, item.name));
+
+/**
+ * How much of the recipe can be made from the pantry. A listed substitution
+ * that's on hand counts as having the ingredient.
+ */
+export const getPantryMatch = (recipe: Recipe, pantryItems: PantryItem[]): PantryMatch => {
+  const missing: string[] = [];
+  const missingOptional: string[] = [];
+  const substitutions: PantrySubstitution[] = [];
+  let requiredCount = 0;
+  let onHandCount = 0;
+
+  normalizeIngredients(recipe.ingredients).forEach((ingredient: Ingredient) => {
+    if (isPantryStaple(ingredient.name)) return;
+
+    const onHand = findOnHand(ingredient.name, pantryItems);
+    const substitute = onHand
+      ? undefined
+      : (ingredient.substitutions || []).find(alternative => findOnHand(alternative, pantryItems));
+
+    if (ingredient.isOptional) {
+      if (!onHand && !substitute) missingOptional.push(ingredient.name);
+      return;
+    }
+
+    requiredCount += 1;
+    if (onHand) {
+      onHandCount += 1;
+    } else if (substitute) {
+      onHandCount += 1;
+      substitutions.push({ ingredient: ingredient.name, using: substitute });
+    } else {
+      missing.push(ingredient.name);
+    }
+  });
+
+  return {
+    recipe,
+    requiredCount,
+    onHandCount,
+    coverage: requiredCount === 0 ? 1 : onHandCount / requiredCount,
+    missing,
+    substitutions,
+    missingOptional,
+  };
+};
+
+/**
+ * Recipes ranked by how much of each is already in the pantry, fewest missing
+ * ingredients first among equals. Recipes with nothing on hand are left out.
+ */
+export const searchByPantry = (recipes: Recipe[], pantryItems: PantryItem[]): PantryMatch[] => {
+  if (pantryItems.length === 0) return [];
+
+  return recipes
+    .map(recipe => getPantryMatch(recipe, pantryItems))
+    .filter(match => match.onHandCount > 0 || match.requiredCount === 0)
+    .sort((a, b) =>
+      b.coverage - a.coverage ||
+      a.missing.length - b.missing.length ||
+      b.onHandCount - a.onHandCount
+    );
+};
@@ -0,0 +1,185 @@
+import type { Recipe, KidRecipe } from '../types';
+import { formatIngredient } from './ingredientParser';
+import { getRecipeTimes, formatMinutes, toIsoDuration } from './durations';
+import { getRecipeStepTexts } from './recipeSafety';
+
+export type RecipeExportFormat = 'jsonld' | 'markdown';
+
+export const RECIPE_ARCHIVE_FORMAT = 'kidchef-recipes';
+export const RECIPE_ARCHIVE_VERSION = 1;
+
+// Kid versions aren't part of schema.org, so they live under our own prefix
+export const KIDCHEF_JSONLD_CONTEXT = ['https://schema.org', { kidchef: 'https://kidchef.app/ns#' }];
+
+export interface KidVersionJsonLd {
+  '@type': 'kidchef:KidRecipe';
+  'kidchef:readingLevel': KidRecipe['targetReadingLevel'];
+  'kidchef:kidAge': number;
+  'kidchef:ingredients': string[];
+  'kidchef:steps': string[];
+  'kidchef:safetyNotes': string[];
+  'kidchef:estimatedDuration'?: string;
+}
+
+export interface HowToStepJsonLd {
+  '@type': 'HowToStep';
+  position: number;
+  text: string;
+}
+
+export interface RecipeJsonLd {
+  '@context'?: typeof KIDCHEF_JSONLD_CONTEXT;
+  '@type': 'Recipe';
+  name: string;
+  description?: string;
+  image?: string;
+  url?: string;
+  recipeYield?: string;
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  recipeCategory?: string;
+  recipeCuisine?: string;
+  keywords?: string;
+  recipeIngredient: string[];
+  recipeInstructions: HowToStepJsonLd[];
+  'kidchef:kidVersions'?: KidVersionJsonLd[];
+}
+
+export interface RecipeArchive {
+  format: typeof RECIPE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  recipes: RecipeJsonLd[];
+}
+
+const READING_LEVEL_LABELS: Record<KidRecipe['targetReadingLevel'], string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+// Recipe images are sometimes an emoji placeholder rather than a link
+const isImageUrl = (image?: string): image is string => !!image && /^https?:\/\//i.test(image);
+
+const kidVersionToJsonLd = (kidRecipe: KidRecipe): KidVersionJsonLd => ({
+  '@type': 'kidchef:KidRecipe',
+  'kidchef:readingLevel': kidRecipe.targetReadingLevel,
+  'kidchef:kidAge': kidRecipe.kidAge,
+  'kidchef:ingredients': kidRecipe.simplifiedIngredients.map(ingredient =>
+    [ingredient.amount, ingredient.unit, ingredient.kidFriendlyName || ingredient.name].filter(Boolean).join(' ')
+  ),
+  'kidchef:steps': kidRecipe.simplifiedSteps.map(step => step.kidFriendlyText || step.step),
+  'kidchef:safetyNotes': kidRecipe.safetyNotes || [],
+  ...(kidRecipe.estimatedDuration ? { 'kidchef:estimatedDuration': toIsoDuration(kidRecipe.estimatedDuration) } : {}),
+});
+
+/**
+ * A schema.org Recipe for the recipe, with any kid versions attached. Fields
+ * the recipe doesn't have are left out rather than written empty.
+ */
+export const recipeToJsonLd = (
+  recipe: Recipe,
+  kidRecipes: KidRecipe[] = [],
+  options: { includeContext?: boolean } = {}
+): RecipeJsonLd => {
+  const { includeContext = true } = options;
+  const { prepMinutes, cookMinutes, totalMinutes } = getRecipeTimes(recipe);
+  const tags = recipe.tags || [];
+
+  return {
+    ...(includeContext ? { '@context': KIDCHEF_JSONLD_CONTEXT } : {}),
+    '@type': 'Recipe',
+    name: recipe.title,
+    ...(recipe.description ? { description: recipe.description } : {}),
+    ...(isImageUrl(recipe.image) ? { image: recipe.image } : {}),
+    ...(recipe.url ? { url: recipe.url } : {}),
+    ...(recipe.servings ? { recipeYield: String(recipe.servings) } : {}),
+    ...(prepMinutes !== undefined ? { prepTime: toIsoDuration(prepMinutes) } : {}),
+    ...(cookMinutes !== undefined ? { cookTime: toIsoDuration(cookMinutes) } : {}),
+    ...(totalMinutes !== undefined ? { totalTime: toIsoDuration(totalMinutes) } : {}),
+    ...(recipe.mealType ? { recipeCategory: recipe.mealType } : {}),
+    ...(recipe.cuisine ? { recipeCuisine: recipe.cuisine } : {}),
+    ...(tags.length > 0 ? { keywords: tags.join(', ') } : {}),
+    recipeIngredient: recipe.ingredients.map(formatIngredient),
+    recipeInstructions: getRecipeStepTexts(recipe).map((text, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      text,
+    })),
+    ...(kidRecipes.length > 0 ? { 'kidchef:kidVersions': kidRecipes.map(kidVersionToJsonLd) } : {}),
+  };
+};
+
+/**
+ * The recipe as a readable Markdown document, kid versions after the original
+ */
+export const recipeToMarkdown = (recipe: Recipe, kidRecipes: KidRecipe[] = []): string => {
+  const { prepMinutes, cookMinutes, totalMinutes } = getRecipeTimes(recipe);
+  const lines: string[] = [`# ${recipe.title}`, ''];
+
+  if (recipe.description) {
+    lines.push(recipe.description, '');
+  }
+
+  const details = [
+    recipe.servings ? `- **Serves:** ${recipe.servings}` : null,
+    prepMinutes !== undefined ? `- **Prep:** ${formatMinutes(prepMinutes)}` : null,
+    cookMinutes !== undefined ? `- **Cook:** ${formatMinutes(cookMinutes)}` : null,
+    totalMinutes !== undefined ? `- **Total:** ${formatMinutes(totalMinutes)}` : null,
+    recipe.tags && recipe.tags.length > 0 ? `- **Tags:** ${recipe.tags.join(', ')}` : null,
+    recipe.url ? `- **Source:** ${recipe.url}` : null,
+  ].filter((line): line is string => line !== null);
+  if (details.length > 0) {
+    lines.push(...details, '');
+  }
+
+  lines.push('## Ingredients', '');
+  recipe.ingredients.forEach(ingredient => lines.push(`- ${formatIngredient(ingredient)}`));
+  lines.push('', '## Instructions', '');
+  getRecipeStepTexts(recipe).forEach((text, index) => lines.push(`${index + 1}. ${text}`));
+
+  kidRecipes.forEach(kidRecipe => {
+    const kidVersion = kidVersionToJsonLd(kidRecipe);
+    lines.push(
+      '',
+      `## Kid Version: ${READING_LEVEL_LABELS[kidRecipe.targetReadingLevel]} (age ${kidRecipe.kidAge})`,
+      '',
+      '### Ingredients',
+      '',
+      ...kidVersion['kidchef:ingredients'].map(ingredient => `- ${ingredient}`),
+      '',
+      '### Steps',
+      '',
+      ...kidVersion['kidchef:steps'].map((step, index) => `${index + 1}. ${step}`)
+    );
+    if (kidVersion['kidchef:safetyNotes'].length > 0) {
+      lines.push('', '### Safety Notes', '', ...kidVersion['kidchef:safetyNotes'].map(note => `- ${note}`));
+    }
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * One recipe in the chosen format, ready to share or save
+ */
+export const exportRecipe = (recipe: Recipe, format: RecipeExportFormat, kidRecipes: KidRecipe[] = []): string =>
+  format === 'markdown'
+    ? recipeToMarkdown(recipe, kidRecipes)
+    : JSON.stringify(recipeToJsonLd(recipe, kidRecipes), null, 2);
+
+/**
+ * A backup of many recipes: an envelope around one JSON-LD Recipe each
+ */
+export const createRecipeArchive = (
+  recipes: Recipe[],
+  kidRecipesByRecipeId: Record<string, KidRecipe[]> = {}
+): RecipeArchive => ({
+  format: RECIPE_ARCHIVE_FORMAT,
+  version: RECIPE_ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  recipes: recipes.map(recipe =>
+    recipeToJsonLd(recipe, kidRecipesByRecipeId[recipe.id] || [], { includeContext: false })
+  ),
+});
@@ -0,0 +1,316 @@
+import type { Recipe } from '../types';
+import { normalizeIngredients } from './ingredientParser';
+import { RECIPE_ARCHIVE_FORMAT } from './recipeExport';
+
+export type ImportedRecipe = Omit<Recipe, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export type RecipeFileFormat = 'kidchef-archive' | 'json-ld' | 'paprika' | 'mela' | 'mealmaster';
+
+export interface ParsedRecipeFile {
+  format: RecipeFileFormat;
+  recipes: ImportedRecipe[];
+  skipped: number; // Entries that were recognised but had no title or ingredients
+}
+
+type JsonObject = Record<string, unknown>;
+
+const DEFAULT_SERVINGS = 4;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+const asStringList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map(asString).filter((item): item is string => !!item);
+  }
+  const text = asString(value);
+  return text ? [text] : [];
+};
+
+// Recipe managers keep lists as one newline-separated string
+const splitLines = (value: unknown): string[] =>
+  (asString(value) || '')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+
+const splitTags = (value: unknown): string[] =>
+  (Array.isArray(value) ? asStringList(value) : (asString(value) || '').split(','))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+const parseServings = (value: unknown): number => {
+  const text = Array.isArray(value) ? asString(value[0]) : asString(value);
+  const match = text?.match(/\d+/);
+  const servings = match ? parseInt(match[0], 10) : NaN;
+  return servings > 0 && servings <= 100 ? servings : DEFAULT_SERVINGS;
+};
+
+const getImageUrl = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) return getImageUrl(value[0]);
+  if (isObject(value)) return asString(value.url);
+  return asString(value);
+};
+
+const isRecipeType = (value: unknown): boolean => {
+  const types = Array.isArray(value) ? value : [value];
+  return types.some(type => typeof type === 'string' && type.replace(/^schema:/, '') === 'Recipe');
+};
+
+/**
+ * Builds the recipe the app stores, leaving out anything empty so it can be
+ * written to Firestore as-is. Null when there's nothing worth saving.
+ */
+const buildRecipe = (fields: {
+  title?: string;
+  description?: string;
+  image?: string;
+  url?: string;
+  servings: number;
+  prepTime?: string;
+  cookTime?: string;
+  totalTime?: string;
+  ingredients: string[];
+  instructions: string[];
+  tags: string[];
+  cuisine?: string;
+}): ImportedRecipe | null => {
+  if (!fields.title || fields.ingredients.length === 0) return null;
+
+  return {
+    title: fields.title,
+    servings: fields.servings,
+    ingredients: normalizeIngredients(fields.ingredients),
+    ...(fields.description ? { description: fields.description } : {}),
+    ...(fields.image ? { image: fields.image } : {}),
+    ...(fields.url ? { url: fields.url } : {}),
+    ...(fields.prepTime ? { prepTime: fields.prepTime } : {}),
+    ...(fields.cookTime ? { cookTime: fields.cookTime } : {}),
+    ...(fields.totalTime ? { totalTime: fields.totalTime } : {}),
+    ...(fields.instructions.length > 0 ? { instructions: fields.instructions } : {}),
+    ...(fields.tags.length > 0 ? { tags: fields.tags } : {}),
+    ...(fields.cuisine ? { cuisine: fields.cuisine } : {}),
+  };
+};
+
+// recipeInstructions can be text, a list of text, HowToSteps, or HowToSections of steps
+const getJsonLdInstructions = (value: unknown): string[] => {
+  if (typeof value === 'string') return splitLines(value);
+  if (!Array.isArray(value)) return isObject(value) ? getJsonLdInstructions([value]) : [];
+
+  return value.flatMap(item => {
+    if (typeof item === 'string') return splitLines(item);
+    if (!isObject(item)) return [];
+    if (Array.isArray(item.itemListElement)) return getJsonLdInstructions(item.itemListElement);
+    const text = asString(item.text) || asString(item.name);
+    return text ? [text] : [];
+  });
+};
+
+/**
+ * A schema.org Recipe node, as found on recipe sites and in our own exports.
+ * Kid versions in our exports are ignored; they're regenerated for each kid.
+ */
+export const recipeFromJsonLd = (node: JsonObject): ImportedRecipe | null =>
+  buildRecipe({
+    title: asString(node.name),
+    description: asString(node.description),
+    image: getImageUrl(node.image),
+    url: asString(node.url),
+    servings: parseServings(node.recipeYield),
+    prepTime: asString(node.prepTime),
+    cookTime: asString(node.cookTime),
+    totalTime: asString(node.totalTime),
+    ingredients: asStringList(node.recipeIngredient ?? node.ingredients),
+    instructions: getJsonLdInstructions(node.recipeInstructions),
+    tags: splitTags(node.keywords),
+    cuisine: asString(node.recipeCuisine),
+  });
+
+// Paprika's export, once unzipped: one JSON object per recipe
+const recipeFromPaprika = (entry: JsonObject): ImportedRecipe | null =>
+  buildRecipe({
+    title: asString(entry.name),
+    description: asString(entry.description),
+    image: asString(entry.image_url),
+    url: asString(entry.source_url),
+    servings: parseServings(entry.servings),
+    prepTime: asString(entry.prep_time),
+    cookTime: asString(entry.cook_time),
+    totalTime: asString(entry.total_time),
+    ingredients: splitLines(entry.ingredients),
+    instructions: splitLines(entry.directions),
+    tags: asStringList(entry.categories),
+  });
+
+// Mela's .melarecipe files
+const recipeFromMela = (entry: JsonObject): ImportedRecipe | null =>
+  buildRecipe({
+    title: asString(entry.title),
+    description: asString(entry.text),
+    url: asString(entry.link),
+    servings: parseServings(entry.yield),
+    prepTime: asString(entry.prepTime),
+    cookTime: asString(entry.cookTime),
+    totalTime: asString(entry.totalTime),
+    // Mela marks ingredient group headings with a leading "#"
+    ingredients: splitLines(entry.ingredients).filter(line => !line.startsWith('#')),
+    instructions: splitLines(entry.instructions).filter(line => !line.startsWith('#')),
+    tags: asStringList(entry.categories),
+  });
+
+const isPaprikaEntry = (entry: JsonObject) => 'name' in entry && ('directions' in entry || 'source_url' in entry);
+const isMelaEntry = (entry: JsonObject) => 'title' in entry && 'instructions' in entry && typeof entry.ingredients === 'string';
+
+// Recipe nodes anywhere in a JSON-LD document, including inside @graph
+const findJsonLdRecipes = (value: unknown): JsonObject[] => {
+  if (Array.isArray(value)) return value.flatMap(findJsonLdRecipes);
+  if (!isObject(value)) return [];
+  if (isRecipeType(value['@type'])) return [value];
+  return Array.isArray(value['@graph']) ? findJsonLdRecipes(value['@graph']) : [];
+};
+
+const collect = (
+  format: RecipeFileFormat,
+  entries: JsonObject[],
+  convert: (entry: JsonObject) => ImportedRecipe | null
+): ParsedRecipeFile => {
+  const recipes = entries.map(convert).filter((recipe): recipe is ImportedRecipe => recipe !== null);
+  return { format, recipes, skipped: entries.length - recipes.length };
+};
+
+const parseJsonFile = (data: unknown): ParsedRecipeFile | null => {
+  if (isObject(data) && data.format === RECIPE_ARCHIVE_FORMAT && Array.isArray(data.recipes)) {
+    return collect('kidchef-archive', data.recipes.filter(isObject), recipeFromJsonLd);
+  }
+
+  const jsonLdRecipes = findJsonLdRecipes(data);
+  if (jsonLdRecipes.length > 0) {
+    return collect('json-ld', jsonLdRecipes, recipeFromJsonLd);
+  }
+
+  const entries = (Array.isArray(data) ? data : [data]).filter(isObject);
+  if (entries.length > 0 && entries.every(isPaprikaEntry)) {
+    return collect('paprika', entries, recipeFromPaprika);
+  }
+  if (entries.length > 0 && entries.every(isMelaEntry)) {
+    return collect('mela', entries, recipeFromMela);
+  }
+  return null;
+};
+
+// MealMaster: "MMMMM----- Recipe via Meal-Master" ... "MMMMM", or the "-----" variant
+const MEALMASTER_START_REGEX = /^(?:MMMMM|-----)-*.*meal-master/i;
+const MEALMASTER_END_REGEX = /^(?:MMMMM|-----)\s*$/;
+const MEALMASTER_UNITS: Record<string, string> = {
+  ts: 'tsp', t: 'tsp', tb: 'tbsp', T: 'tbsp', c: 'cup', pt: 'pint', qt: 'quart', ga: 'gallon',
+  oz: 'oz', lb: 'lb', fl: 'fl oz', ml: 'ml', dl: 'dl', l: 'l', mg: 'mg', g: 'g', kg: 'kg',
+  ea: '', x: '', ct: '', sm: 'small', md: 'medium', lg: 'large', cn: 'can', pk: 'package', pn: 'pinch',
+  dr: 'drop', ds: 'dash', sl: 'slice', bn: 'bunch', cl: 'clove',
+};
+
+// "  1 1/2 c  Flour" -> "1 1/2 cup Flour"
+const parseMealMasterIngredient = (line: string): string | null => {
+  const match = line.match(/^\s*([\d\s/.]*)\s+([a-zA-Z]{1,2})?\s+(.+)$/);
+  if (!match) return line.trim() || null;
+
+  const [, amount, unitCode, name] = match;
+  const unit = unitCode !== undefined ? (MEALMASTER_UNITS[unitCode] ?? unitCode) : '';
+  // "-------" separators and "--" continuation lines aren't ingredients
+  if (/^-+/.test(name.trim())) return null;
+  return [amount.trim(), unit, name.trim()].filter(Boolean).join(' ');
+};
+
+const parseMealMaster = (text: string): ParsedRecipeFile | null => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const recipes: ImportedRecipe[] = [];
+  let found = 0;
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!MEALMASTER_START_REGEX.test(lines[index])) {
+      index += 1;
+      continue;
+    }
+    found += 1;
+    index += 1;
+
+    let title: string | undefined;
+    let servings = DEFAULT_SERVINGS;
+    let tags: string[] = [];
+    const ingredients: string[] = [];
+    const directions: string[] = [];
+    let inHeader = true;
+    let inIngredients = false;
+
+    for (; index < lines.length && !MEALMASTER_END_REGEX.test(lines[index]); index += 1) {
+      const line = lines[index];
+      const trimmed = line.trim();
+
+      if (inHeader) {
+        const header = trimmed.match(/^(title|categories|yield|servings)\s*:\s*(.*)$/i);
+        if (header) {
+          const [, key, value] = header;
+          if (/title/i.test(key)) title = value.trim();
+          else if (/categories/i.test(key)) tags = splitTags(value);
+          else servings = parseServings(value);
+          continue;
+        }
+        if (!trimmed) continue;
+        inHeader = false;
+        inIngredients = true;
+      }
+
+      if (inIngredients) {
+        if (!trimmed) {
+          if (ingredients.length > 0) inIngredients = false;
+          continue;
+        }
+        const ingredient = parseMealMasterIngredient(line);
+        if (ingredient) ingredients.push(ingredient);
+        continue;
+      }
+
+      if (trimmed) {
+        // Wrapped lines continue the previous paragraph
+        if (directions.length > 0 && lines[index - 1]?.trim()) {
+          directions[directions.length - 1] += ` ${trimmed}`;
+        } else {
+          directions.push(trimmed);
+        }
+      }
+    }
+    index += 1;
+
+    const recipe = buildRecipe({ title, servings, ingredients, instructions: directions, tags });
+    if (recipe) recipes.push(recipe);
+  }
+
+  return found > 0 ? { format: 'mealmaster', recipes, skipped: found - recipes.length } : null;
+};
+
+/**
+ * Recipes from an exported file or pasted export: our own archive, schema.org
+ * JSON-LD, Paprika or Mela JSON, or MealMaster text. Null when the text isn't
+ * in any of those formats, so callers can fall back to reading it as free text.
+ */
+export const parseRecipeFile = (text: string): ParsedRecipeFile | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return parseJsonFile(JSON.parse(trimmed));
+    } catch {
+      return null;
+    }
+  }
+
+  return parseMealMaster(trimmed);
+};
@@ -1,9 +1,15 @@
-import type { Recipe } from '../types';
+import type { Recipe, RecipeStep } from '../types';
+
+export type SafetySeverity = 'caution' | 'supervise' | 'adult_only';
 
 export interface SafetyFlag {
   category: 'alcohol' | 'raw_food' | 'sharp_tools' | 'high_heat' | 'allergens' | 'complex_technique';
   description: string;
   found: string; // The actual text that triggered the flag
+  severity: SafetySeverity;
+  source: 'title' | 'description' | 'ingredient' | 'step';
+  stepIndex?: number; // Set when the flag came from a step
+  span: { start: number; end: number }; // Where `found` sits in its source text
 }
 
 export interface RecipeSafetyCheck {
@@ -12,69 +18,209 @@ export interface RecipeSafetyCheck {
   warningMessage?: string;
 }
 
-const SAFETY_KEYWORDS = {
-  alcohol: {
+interface SafetyRule {
+  category: SafetyFlag['category'];
+  severity: SafetySeverity;
+  keywords: string[];
+  description: string;
+}
+
+const SAFETY_RULES: SafetyRule[] = [
+  {
+    category: 'alcohol',
+    severity: 'supervise',
     keywords: ['wine', 'beer', 'alcohol', 'liquor', 'vodka', 'whiskey', 'rum', 'gin', 'brandy', 'champagne', 'bourbon', 'tequila', 'sake'],
     description: 'Contains alcohol'
   },
-  raw_food: {
+  {
+    category: 'raw_food',
+    severity: 'caution',
     keywords: ['raw egg', 'raw chicken', 'raw beef', 'raw pork', 'raw fish', 'sushi', 'tartare', 'carpaccio', 'raw milk'],
     description: 'Contains raw or undercooked ingredients'
   },
-  sharp_tools: {
-    keywords: ['sharp knife', 'chef\'s knife', 'knife skills', 'julienne', 'chiffonade', 'mandoline', 'food processor blade'],
+  {
+    category: 'sharp_tools',
+    severity: 'supervise',
+    keywords: ['knife', 'knives', 'sharp knife', 'chef\'s knife', 'knife skills', 'julienne', 'chiffonade', 'mandoline', 'food processor blade'],
     description: 'Requires sharp kitchen tools'
   },
-  high_heat: {
-    keywords: ['deep fry', 'frying oil', 'hot oil', 'broil', 'grill', 'flame', 'flambé', 'torch', 'searing'],
-    description: 'Involves high heat or open flame'
+  {
+    category: 'high_heat',
+    severity: 'adult_only',
+    keywords: ['deep fry', 'deep-fry', 'frying oil', 'hot oil', 'flame', 'flambé', 'flambe', 'torch'],
+    description: 'Involves hot oil or open flame'
+  },
+  {
+    category: 'high_heat',
+    severity: 'supervise',
+    keywords: ['broil', 'grill', 'sear'],
+    description: 'Involves high heat'
   },
-  complex_technique: {
+  {
+    category: 'complex_technique',
+    severity: 'caution',
     keywords: ['tempering', 'emulsification', 'reduction', 'clarify', 'confit', 'sous vide', 'molecular'],
     description: 'Uses advanced cooking techniques'
   }
+];
+
+const SEVERITY_RANK: Record<SafetySeverity, number> = { caution: 0, supervise: 1, adult_only: 2 };
+
+// Only phrasing that says the thing is absent counts: "without wine", "non-alcoholic
+// wine", "no knife needed". "Never leave hot oil unattended" is still a warning.
+const ABSENT_BEFORE_REGEX = /\b(?:without|instead of|free of|non-?alcoholic|alcohol-free|de-?alcoholi[sz]ed)(?:\s+[\w'-]+){0,2}\s*$/i;
+const NO_BEFORE_REGEX = /\bno(?:\s+[\w'-]+){0,2}\s*$/i;
+const NEEDED_AFTER_REGEX = /^\s+(?:is\s+|are\s+)?(?:needed|required|necessary)\b/i;
+
+// Negation only reaches back to the start of its clause; when in doubt, flag it
+const CLAUSE_BREAK_REGEX = /[.,;:!?\n]|\b(?:but|then)\b/gi;
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words only, allowing simple endings ("broiled", "grilling", "wines").
+// The first group holds the character before the word so offsets can skip it.
+const RULE_PATTERNS = SAFETY_RULES.map(rule => ({
+  rule,
+  patterns: rule.keywords.map(keyword =>
+    new RegExp(`(^|[^\\w-])(${escapeRegex(keyword)}(?:s|es|ed|ing|er|ers)?)(?![\\w-])`, 'gi')
+  ),
+}));
+
+const isNegated = (text: string, matchStart: number, matchEnd: number): boolean => {
+  const before = text.slice(0, matchStart);
+  let clauseStart = 0;
+  for (const breakMatch of before.matchAll(CLAUSE_BREAK_REGEX)) {
+    clauseStart = (breakMatch.index ?? 0) + breakMatch[0].length;
+  }
+
+  const clause = before.slice(clauseStart);
+  const after = text.slice(matchEnd);
+  if (ABSENT_BEFORE_REGEX.test(clause)) return true;
+  if (NO_BEFORE_REGEX.test(clause) && NEEDED_AFTER_REGEX.test(after)) return true;
+
+  // "alcohol free", "non-alcoholic"
+  return /^\s*-?free\b/i.test(after) || /\bnon-?$/i.test(before);
 };
 
-export function checkRecipeSafety(recipe: Recipe): RecipeSafetyCheck {
+/**
+ * All safety flags in one piece of text. A match that sits inside a longer
+ * match is dropped so one phrase isn't reported twice.
+ */
+export function findSafetyFlagsInText(
+  text: string,
+  source: SafetyFlag['source'],
+  stepIndex?: number
+): SafetyFlag[] {
+  if (!text) return [];
+
   const flags: SafetyFlag[] = [];
+  RULE_PATTERNS.forEach(({ rule, patterns }) => {
+    patterns.forEach(pattern => {
+      for (const match of text.matchAll(pattern)) {
+        const start = (match.index ?? 0) + match[1].length;
+        const end = start + match[2].length;
+        if (isNegated(text, start, end)) continue;
 
-  // Combine all text from the recipe
-  const allText = [
-    recipe.title,
-    recipe.description || '',
-    ...recipe.ingredients,
-    ...recipe.instructions
-  ].join(' ').toLowerCase();
-
-  // Check for each safety category
-  Object.entries(SAFETY_KEYWORDS).forEach(([category, config]) => {
-    config.keywords.forEach(keyword => {
-      if (allText.includes(keyword.toLowerCase())) {
         flags.push({
-          category: category as SafetyFlag['category'],
-          description: config.description,
-          found: keyword
+          category: rule.category,
+          description: rule.description,
+          found: match[2],
+          severity: rule.severity,
+          source,
+          ...(stepIndex !== undefined ? { stepIndex } : {}),
+          span: { start, end },
         });
       }
     });
   });
 
-  // Remove duplicate flags (same category)
-  const uniqueFlags = flags.filter((flag, index, self) =>
-    index === self.findIndex(f => f.category === flag.category)
+  return flags
+    .filter(flag => !flags.some(other =>
+      other !== flag &&
+      other.span.start <= flag.span.start &&
+      other.span.end >= flag.span.end &&
+      other.span.end - other.span.start > flag.span.end - flag.span.start
+    ))
+    .sort((a, b) => a.span.start - b.span.start);
+}
+
+/**
+ * The recipe's steps as plain text: structured steps when there are any,
+ * otherwise the legacy instructions list
+ */
+export function getRecipeStepTexts(recipe: Pick<Recipe, 'steps' | 'instructions'>): string[] {
+  if (recipe.steps && recipe.steps.length > 0) {
+    return [...recipe.steps].sort((a, b) => a.order - b.order).map(step => step.step);
+  }
+  return recipe.instructions || [];
+}
+
+/**
+ * Every safety flag in the recipe, with step flags carrying their step index
+ */
+export function analyzeRecipeSafety(recipe: Recipe): SafetyFlag[] {
+  const ingredientTexts = (recipe.ingredients || []).map(ingredient =>
+    typeof ingredient === 'string' ? ingredient : [ingredient.name, ingredient.notes].filter(Boolean).join(', ')
   );
 
-  const isCompletelyKidSafe = uniqueFlags.length === 0;
+  return [
+    ...findSafetyFlagsInText(recipe.title, 'title'),
+    ...findSafetyFlagsInText(recipe.description || '', 'description'),
+    ...ingredientTexts.flatMap(text => findSafetyFlagsInText(text, 'ingredient')),
+    ...getRecipeStepTexts(recipe).flatMap((text, index) => findSafetyFlagsInText(text, 'step', index)),
+  ];
+}
+
+export function getStepSafetyFlags(flags: SafetyFlag[], stepIndex: number): SafetyFlag[] {
+  return flags.filter(flag => flag.stepIndex === stepIndex);
+}
+
+export function getHighestSafetySeverity(flags: SafetyFlag[]): SafetySeverity | undefined {
+  return flags.reduce<SafetySeverity | undefined>(
+    (highest, flag) => (!highest || SEVERITY_RANK[flag.severity] > SEVERITY_RANK[highest] ? flag.severity : highest),
+    undefined
+  );
+}
+
+/**
+ * Structured steps with requiresAdultSupervision and safetyWarning filled in from
+ * the analyzer. Recipes that only have instructions get steps built from them.
+ */
+export function annotateStepSafety(recipe: Pick<Recipe, 'steps' | 'instructions'>): RecipeStep[] {
+  const steps: RecipeStep[] = recipe.steps && recipe.steps.length > 0
+    ? [...recipe.steps].sort((a, b) => a.order - b.order)
+    : (recipe.instructions || []).map((text, index) => ({
+      id: `${index + 1}`,
+      step: text,
+      order: index + 1,
+    }));
+
+  return steps.map((step, index) => {
+    const flags = findSafetyFlagsInText(step.step, 'step', index);
+    const needsAdult = flags.some(flag => SEVERITY_RANK[flag.severity] >= SEVERITY_RANK.supervise);
+    if (flags.length === 0) return step;
+
+    return {
+      ...step,
+      requiresAdultSupervision: step.requiresAdultSupervision || needsAdult,
+      safetyWarning: step.safetyWarning || [...new Set(flags.map(flag => flag.description))].join('; '),
+    };
+  });
+}
+
+export function checkRecipeSafety(recipe: Recipe): RecipeSafetyCheck {
+  const flags = analyzeRecipeSafety(recipe);
+  const isCompletelyKidSafe = flags.length === 0;
 
   let warningMessage: string | undefined;
   if (!isCompletelyKidSafe) {
-    const flagDescriptions = uniqueFlags.map(f => f.description.toLowerCase()).join(', ');
+    const flagDescriptions = [...new Set(flags.map(f => f.description.toLowerCase()))].join(', ');
     warningMessage = `This recipe ${flagDescriptions}. Make sure to supervise kids closely or handle these parts yourself.`;
   }
 
   return {
     isCompletelyKidSafe,
-    flags: uniqueFlags,
+    flags,
     warningMessage
   };
 }
@@ -82,12 +228,17 @@ export function checkRecipeSafety(recipe: Recipe): RecipeSafetyCheck {
 export function generateSafetyWarningText(flags: SafetyFlag[]): string {
   if (flags.length === 0) return '';
 
-  const categories = flags.map(f => f.description.toLowerCase());
-  const foundItems = flags.map(f => f.found).join(', ');
+  const foundItems = [...new Set(flags.map(f => f.found.toLowerCase()))];
+  const stepNumbers = [...new Set(
+    flags.filter(f => f.stepIndex !== undefined).map(f => f.stepIndex! + 1)
+  )];
+  const stepText = stepNumbers.length > 0
+    ? ` (step${stepNumbers.length > 1 ? 's' : ''} ${stepNumbers.join(', ')})`
+    : '';
 
-  if (flags.length === 1) {
-    return `This recipe includes ${foundItems}. Kids may need adult supervision for safety.`;
+  if (foundItems.length === 1) {
+    return `This recipe includes ${foundItems[0]}${stepText}. Kids may need adult supervision for safety.`;
   } else {
-    return `This recipe includes ${foundItems} and other items that may require adult supervision.`;
+    return `This recipe includes ${foundItems.join(', ')}${stepText}, which may require adult supervision.`;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,275 @@
+import type { KidIngredient } from '../types';
+import { formatQuantity, parseQuantity } from './ingredientParser';
+
+export interface ScalableIngredient {
+  id?: string;
+  name: string;
+  amount?: number;
+  amountMax?: number;
+  unit?: string;
+}
+
+export interface ScalingNote {
+  type: 'eggs' | 'leavening' | 'seasoning' | 'cooking-time';
+  message: string;
+  ingredientId?: string;
+}
+
+// Fractions you can actually measure with a standard set of cups and spoons
+const CUP_FRACTIONS = [0, 1 / 4, 1 / 3, 1 / 2, 2 / 3, 3 / 4, 1];
+const SPOON_FRACTIONS = [0, 1 / 8, 1 / 4, 1 / 2, 3 / 4, 1];
+const COUNT_FRACTIONS = [0, 1 / 4, 1 / 2, 3 / 4, 1];
+
+const TSP_PER_UNIT: Record<string, number> = {
+  tsp: 1,
+  tbsp: 3,
+  cup: 48,
+};
+
+const METRIC_STEPS: Record<string, { smaller?: string; larger?: string; ratio: number }> = {
+  g: { larger: 'kg', ratio: 1000 },
+  kg: { smaller: 'g', ratio: 1000 },
+  ml: { larger: 'l', ratio: 1000 },
+  l: { smaller: 'ml', ratio: 1000 },
+};
+
+// A measurement within 5% of the scaled amount is close enough to prefer the bigger unit
+const MEASURING_TOLERANCE = 0.05;
+
+const EGG_REGEX = /\beggs?\b/i;
+const LEAVENING_REGEX = /\b(yeast|baking powder|baking soda|bicarbonate)\b/i;
+const SEASONING_REGEX = /\b(salt|cayenne|chili|chilli|red pepper flakes|hot sauce)\b/i;
+const BAKING_STEP_REGEX = /\b(bake|baking|roast|oven)\b/i;
+
+const QUANTITY_IN_TEXT_REGEX = /\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?\s*[½⅓⅔¼¾⅛]?|[½⅓⅔¼¾⅛]/g;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const roundTo = (value: number, step: number): number => Math.round(value / step) * step;
+
+/**
+ * Rounds to the nearest whole-plus-fraction from a set of allowed fractions,
+ * never rounding a real amount all the way down to zero
+ */
+const roundToFractions = (value: number, fractions: number[]): number => {
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+  const nearest = fractions.reduce((best, fraction) =>
+    Math.abs(fraction - remainder) < Math.abs(best - remainder) ? fraction : best
+  );
+  const rounded = whole + nearest;
+  return rounded > 0 ? rounded : fractions[1];
+};
+
+/**
+ * Rounds an amount to something measurable in the given unit: cup and spoon
+ * fractions for US volumes, sensible steps for metric and counted items
+ */
+export const roundToMeasurable = (amount: number, unit?: string): number => {
+  switch (unit) {
+    case 'cup':
+      return roundToFractions(amount, CUP_FRACTIONS);
+    case 'tsp':
+    case 'tbsp':
+      return roundToFractions(amount, SPOON_FRACTIONS);
+    case 'g':
+    case 'ml':
+      if (amount >= 50) return roundTo(amount, 5);
+      if (amount >= 10) return Math.round(amount);
+      return Math.max(roundTo(amount, 0.5), 0.5);
+    case 'kg':
+    case 'l':
+      return Math.max(roundTo(amount, 0.05), 0.05);
+    case 'oz':
+    case 'lb':
+    case 'fl oz':
+      return Math.max(roundTo(amount, 0.25), 0.25);
+    default:
+      return amount >= 3 ? Math.max(roundTo(amount, 0.5), 0.5) : roundToFractions(amount, COUNT_FRACTIONS);
+  }
+};
+
+/**
+ * Picks the most convenient unit for a scaled amount: 48 tsp becomes 1 cup,
+ * 1500 g becomes 1.5 kg, but 6 tbsp stays 6 tbsp rather than "about ⅓ cup"
+ */
+export const normalizeScaledUnit = (amount: number, unit: string): { amount: number; unit: string } => {
+  if (TSP_PER_UNIT[unit] !== undefined) {
+    const teaspoons = amount * TSP_PER_UNIT[unit];
+    const candidates = ['cup', 'tbsp', 'tsp']
+      .map(candidate => {
+        const exact = teaspoons / TSP_PER_UNIT[candidate];
+        const rounded = roundToMeasurable(exact, candidate);
+        return { unit: candidate, exact, rounded, error: Math.abs(rounded - exact) / exact };
+      })
+      // Don't offer fiddly amounts like ⅛ cup or ½ tbsp
+      .filter(candidate => candidate.unit === 'tsp' || candidate.exact >= (candidate.unit === 'cup' ? 0.25 : 1));
+
+    const best = candidates.find(candidate => candidate.error <= MEASURING_TOLERANCE)
+      || candidates.reduce((a, b) => (b.error < a.error ? b : a));
+    return { amount: best.rounded, unit: best.unit };
+  }
+
+  const step = METRIC_STEPS[unit];
+  if (step?.larger && amount >= step.ratio) {
+    return { amount: roundToMeasurable(amount / step.ratio, step.larger), unit: step.larger };
+  }
+  if (step?.smaller && amount < 1) {
+    return { amount: roundToMeasurable(amount * step.ratio, step.smaller), unit: step.smaller };
+  }
+
+  return { amount: roundToMeasurable(amount, unit), unit };
+};
+
+const unitRatio = (from: string, to: string): number => {
+  if (from === to) return 1;
+  if (TSP_PER_UNIT[from] !== undefined && TSP_PER_UNIT[to] !== undefined) {
+    return TSP_PER_UNIT[from] / TSP_PER_UNIT[to];
+  }
+  const step = METRIC_STEPS[from];
+  if (step?.larger === to) return 1 / step.ratio;
+  if (step?.smaller === to) return step.ratio;
+  return 1;
+};
+
+/**
+ * Factor to go from the recipe's own servings to the servings being cooked
+ */
+export const getScaleFactor = (originalServings: number | undefined, targetServings: number): number => {
+  if (!originalServings || originalServings <= 0 || targetServings <= 0) return 1;
+  return targetServings / originalServings;
+};
+
+/**
+ * Scales an ingredient's amount (and range) by a factor, rounding to kitchen
+ * quantities and moving to a friendlier unit where one fits. Eggs always
+ * come out as whole eggs.
+ */
+export const scaleIngredient = <T extends ScalableIngredient>(
+  ingredient: T,
+  factor: number,
+  options: { keepUnit?: boolean } = {}
+): T => {
+  if (factor === 1 || ingredient.amount === undefined || ingredient.amount === null) {
+    return ingredient;
+  }
+
+  const exact = ingredient.amount * factor;
+  const exactMax = ingredient.amountMax !== undefined ? ingredient.amountMax * factor : undefined;
+
+  if (!ingredient.unit && EGG_REGEX.test(ingredient.name)) {
+    const scaled: T = { ...ingredient, amount: Math.max(Math.round(exact), 1) };
+    if (exactMax !== undefined) scaled.amountMax = Math.max(Math.round(exactMax), 1);
+    return scaled;
+  }
+
+  if (!ingredient.unit) {
+    const scaled: T = { ...ingredient, amount: roundToMeasurable(exact) };
+    if (exactMax !== undefined) scaled.amountMax = roundToMeasurable(exactMax);
+    return scaled;
+  }
+
+  const normalized = options.keepUnit
+    ? { amount: roundToMeasurable(exact, ingredient.unit), unit: ingredient.unit }
+    : normalizeScaledUnit(exact, ingredient.unit);
+  const scaled: T = { ...ingredient, amount: normalized.amount, unit: normalized.unit };
+  if (exactMax !== undefined) {
+    // Keep both ends of a range in the same unit as the lower bound
+    scaled.amountMax = roundToMeasurable(exactMax * unitRatio(ingredient.unit, normalized.unit), normalized.unit);
+  }
+  return scaled;
+};
+
+/**
+ * Rewrites the first number in a piece of text that matches the original
+ * amount ("2 big spoons of sugar" → "4 big spoons of sugar")
+ */
+export const rescaleQuantityInText = (text: string, originalAmount: number, scaledAmount: number): string => {
+  let replaced = false;
+  return text.replace(QUANTITY_IN_TEXT_REGEX, match => {
+    if (replaced) return match;
+    const value = parseQuantity(match);
+    if (value === undefined || Math.abs(value - originalAmount) > 0.01) return match;
+    replaced = true;
+    const trailingSpace = /\s$/.test(match) ? ' ' : '';
+    return `${formatQuantity(scaledAmount)}${trailingSpace}`;
+  });
+};
+
+/**
+ * Scales a kid ingredient, keeping any amount written into the kid-friendly
+ * name in step with the scaled number
+ */
+export const scaleKidIngredient = (ingredient: KidIngredient, factor: number): KidIngredient => {
+  if (ingredient.amount === undefined || ingredient.amount === null) {
+    return scaleIngredient(ingredient, factor);
+  }
+
+  const originalAmount = ingredient.amount;
+  const mentionsAmount = (ingredient.kidFriendlyName.match(QUANTITY_IN_TEXT_REGEX) || [])
+    .some(match => Math.abs((parseQuantity(match) ?? NaN) - originalAmount) <= 0.01);
+  if (!mentionsAmount) {
+    return scaleIngredient(ingredient, factor);
+  }
+
+  // Stay in the original unit so "2 big spoons" becomes "4 big spoons", not "¼ cup"
+  const scaled = scaleIngredient(ingredient, factor, { keepUnit: true });
+  return {
+    ...scaled,
+    kidFriendlyName: rescaleQuantityInText(ingredient.kidFriendlyName, originalAmount, scaled.amount ?? originalAmount),
+  };
+};
+
+/**
+ * Things that don't scale in a straight line and deserve a heads-up when the
+ * recipe is made bigger or smaller
+ */
+export const getScalingNotes = (
+  ingredients: ScalableIngredient[],
+  stepTexts: string[],
+  factor: number
+): ScalingNote[] => {
+  if (factor === 1) return [];
+
+  const notes: ScalingNote[] = [];
+  const bigChange = factor >= 2 || factor <= 0.5;
+
+  for (const ingredient of ingredients) {
+    if (ingredient.amount === undefined || ingredient.amount === null) continue;
+
+    if (!ingredient.unit && EGG_REGEX.test(ingredient.name)) {
+      const exact = ingredient.amount * factor;
+      const rounded = Math.max(Math.round(exact), 1);
+      if (Math.abs(exact - rounded) > 0.01) {
+        notes.push({
+          type: 'eggs',
+          ingredientId: ingredient.id,
+          message: `Eggs rounded from ${formatQuantity(exact)} to ${rounded}. For exact results, whisk an egg and use part of it.`,
+        });
+      }
+    } else if (bigChange && LEAVENING_REGEX.test(ingredient.name)) {
+      notes.push({
+        type: 'leavening',
+        ingredientId: ingredient.id,
+        message: `${capitalize(ingredient.name)} doesn't scale perfectly. For big batches, use a little less than the scaled amount.`,
+      });
+    } else if (factor >= 2 && SEASONING_REGEX.test(ingredient.name)) {
+      notes.push({
+        type: 'seasoning',
+        ingredientId: ingredient.id,
+        message: `Start with less ${ingredient.name} and season to taste. Strong flavors can take over in bigger batches.`,
+      });
+    }
+  }
+
+  if (stepTexts.some(text => BAKING_STEP_REGEX.test(text))) {
+    notes.push({
+      type: 'cooking-time',
+      message: factor > 1
+        ? 'Cooking times don\'t scale with the recipe. Use a bigger pan or bake in batches, and check for doneness as you go.'
+        : 'Cooking times don\'t scale with the recipe. Use a smaller pan and start checking for doneness early.',
+    });
+  }
+
+  return notes;
+};
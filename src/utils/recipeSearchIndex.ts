@@ -0,0 +1,396 @@
+import type { Recipe } from '../types';
+import { getRecipeStepTexts } from './recipeSafety';
+
+export type SearchField =
+  | 'title'
+  | 'description'
+  | 'ingredients'
+  | 'tags'
+  | 'cuisine'
+  | 'mealType'
+  | 'difficulty'
+  | 'steps';
+
+export const SEARCH_FIELDS: SearchField[] = [
+  'title',
+  'description',
+  'ingredients',
+  'tags',
+  'cuisine',
+  'mealType',
+  'difficulty',
+  'steps',
+];
+
+// How much a match in each field counts towards the score
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  tags: 2.5,
+  cuisine: 2.5,
+  mealType: 2,
+  ingredients: 1.5,
+  description: 1,
+  difficulty: 1,
+  steps: 0.5,
+};
+
+/**
+ * Words that mean the same thing to a home cook. Every word in a group finds
+ * recipes that use any of the others.
+ */
+export const SEARCH_SYNONYM_GROUPS: string[][] = [
+  ['mac', 'macaroni'],
+  ['pasta', 'spaghetti', 'penne', 'noodle', 'fusilli', 'linguine'],
+  ['veggie', 'vegetable', 'veg'],
+  ['bbq', 'barbecue', 'barbeque'],
+  ['choc', 'chocolate', 'cocoa'],
+  ['cookie', 'biscuit'],
+  ['potato', 'spud', 'tater'],
+  ['zucchini', 'courgette'],
+  ['eggplant', 'aubergine'],
+  ['cilantro', 'coriander'],
+  ['chickpea', 'garbanzo'],
+  ['shrimp', 'prawn'],
+  ['fry', 'fried'],
+  ['burger', 'hamburger', 'cheeseburger'],
+  ['sandwich', 'sarnie'],
+  ['dessert', 'pudding'],
+  ['pb', 'peanut'],
+];
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'with', 'to', 'in', 'on', 'for', 'or', 'into', 'at', 'it']);
+
+// BM25 tuning: how quickly repeats stop adding to the score, and how much long fields are penalized
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Expansions count for less than the word the user actually typed
+const SYNONYM_WEIGHT = 0.9;
+const PREFIX_WEIGHT = 0.8;
+const TYPO_WEIGHT = 0.6;
+
+// Short words have too many near neighbours for typo matching to help
+const MIN_TYPO_LENGTH = 4;
+const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Reduces simple plurals so "tomatoes", "berries" and "eggs" match their singulars
+ */
+export const stemSearchToken = (token: string): string => {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+  if (token.endsWith('ies') && token.length > 4) return `${token.slice(0, -3)}y`;
+  if (token.endsWith('oes')) return token.slice(0, -2);
+  if (token.endsWith('ches') || token.endsWith('shes') || token.endsWith('xes')) return token.slice(0, -2);
+  if (token.endsWith('s') && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+};
+
+/**
+ * Splits text into lowercase, stemmed words, the same way for recipes and queries
+ */
+export const tokenizeSearchText = (text: string | undefined): string[] => {
+  if (!text) return [];
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/gi, ' ')
+    .split(/[\s_]+/)
+    .filter(token => token.length > 0)
+    .map(stemSearchToken);
+};
+
+/**
+ * True when the two words differ by at most one insertion, deletion,
+ * substitution or swap of neighbouring letters (Damerau-Levenshtein ≤ 1)
+ */
+export const isWithinOneEdit = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  const lengthDifference = a.length - b.length;
+  if (Math.abs(lengthDifference) > 1) return false;
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  if (lengthDifference === 0) {
+    // One substitution, or two neighbouring letters swapped
+    if (a.slice(start + 1) === b.slice(start + 1)) return true;
+    return (
+      a[start] === b[start + 1] &&
+      a[start + 1] === b[start] &&
+      a.slice(start + 2) === b.slice(start + 2)
+    );
+  }
+
+  const [longer, shorter] = lengthDifference > 0 ? [a, b] : [b, a];
+  return longer.slice(start + 1) === shorter.slice(start);
+};
+
+const buildSynonymLookup = (groups: string[][]): Map<string, Set<string>> => {
+  const lookup = new Map<string, Set<string>>();
+  groups.forEach(group => {
+    const stemmed = group.map(word => stemSearchToken(word.toLowerCase()));
+    stemmed.forEach(word => {
+      const synonyms = lookup.get(word) || new Set<string>();
+      stemmed.forEach(other => {
+        if (other !== word) synonyms.add(other);
+      });
+      lookup.set(word, synonyms);
+    });
+  });
+  return lookup;
+};
+
+const getFieldTexts = (recipe: Recipe): Record<SearchField, string[]> => ({
+  title: [recipe.title],
+  description: recipe.description ? [recipe.description] : [],
+  ingredients: (recipe.ingredients || []).map(ingredient =>
+    typeof ingredient === 'string' ? ingredient : ingredient.name
+  ),
+  tags: recipe.tags || [],
+  cuisine: recipe.cuisine ? [recipe.cuisine] : [],
+  mealType: recipe.mealType ? [recipe.mealType] : [],
+  difficulty: recipe.difficulty ? [recipe.difficulty] : [],
+  steps: getRecipeStepTexts(recipe),
+});
+
+interface IndexedDocument {
+  recipe: Recipe;
+  // Token count per field, in SEARCH_FIELDS order
+  fieldLengths: number[];
+  terms: string[];
+}
+
+export interface SearchHit {
+  recipeId: string;
+  score: number;
+}
+
+export interface RecipeSearchOptions {
+  fields?: SearchField[];
+  // Only recipes with these IDs are returned
+  recipeIds?: Set<string>;
+  limit?: number;
+}
+
+/**
+ * An in-memory inverted index over the recipe library, ranked with BM25.
+ * Recipes are added, replaced and removed one at a time, so the index never
+ * has to be rebuilt when a single recipe changes.
+ */
+export class RecipeSearchIndex {
+  // term -> recipe ID -> term frequency per field, in SEARCH_FIELDS order
+  private postings = new Map<string, Map<string, number[]>>();
+  private documents = new Map<string, IndexedDocument>();
+  private fieldLengthTotals = SEARCH_FIELDS.map(() => 0);
+  private synonyms: Map<string, Set<string>>;
+  // Sorted copy of the vocabulary for prefix lookups, rebuilt lazily after changes
+  private sortedTerms: string[] | null = null;
+
+  constructor(synonymGroups: string[][] = SEARCH_SYNONYM_GROUPS) {
+    this.synonyms = buildSynonymLookup(synonymGroups);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(recipeId: string): boolean {
+    return this.documents.has(recipeId);
+  }
+
+  getRecipe(recipeId: string): Recipe | undefined {
+    return this.documents.get(recipeId)?.recipe;
+  }
+
+  /**
+   * Adds the recipe, replacing any earlier version with the same ID
+   */
+  upsert(recipe: Recipe): void {
+    if (!recipe.id) return;
+    this.remove(recipe.id);
+
+    const fieldTexts = getFieldTexts(recipe);
+    const fieldLengths: number[] = [];
+    const terms = new Set<string>();
+
+    SEARCH_FIELDS.forEach((field, fieldIndex) => {
+      const tokens = fieldTexts[field].flatMap(tokenizeSearchText);
+      fieldLengths.push(tokens.length);
+      this.fieldLengthTotals[fieldIndex] += tokens.length;
+
+      tokens.forEach(token => {
+        let recipePostings = this.postings.get(token);
+        if (!recipePostings) {
+          recipePostings = new Map();
+          this.postings.set(token, recipePostings);
+          this.sortedTerms = null;
+        }
+        let frequencies = recipePostings.get(recipe.id);
+        if (!frequencies) {
+          frequencies = SEARCH_FIELDS.map(() => 0);
+          recipePostings.set(recipe.id, frequencies);
+        }
+        frequencies[fieldIndex] += 1;
+        terms.add(token);
+      });
+    });
+
+    this.documents.set(recipe.id, { recipe, fieldLengths, terms: Array.from(terms) });
+  }
+
+  /**
+   * Applies a partial update on top of the indexed version of the recipe.
+   * Recipes the index hasn't seen are ignored; they're added when next listed.
+   */
+  update(recipeId: string, updates: Partial<Recipe>): void {
+    const existing = this.documents.get(recipeId);
+    if (!existing) return;
+    this.upsert({ ...existing.recipe, ...updates, id: recipeId });
+  }
+
+  remove(recipeId: string): void {
+    const existing = this.documents.get(recipeId);
+    if (!existing) return;
+
+    existing.terms.forEach(term => {
+      const recipePostings = this.postings.get(term);
+      if (!recipePostings) return;
+      recipePostings.delete(recipeId);
+      if (recipePostings.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    });
+    existing.fieldLengths.forEach((length, fieldIndex) => {
+      this.fieldLengthTotals[fieldIndex] -= length;
+    });
+    this.documents.delete(recipeId);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.fieldLengthTotals = SEARCH_FIELDS.map(() => 0);
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Recipes matching any word in the query, best first. Each word also matches
+   * its synonyms, longer words it starts (for search-as-you-type) and words
+   * one typo away.
+   */
+  search(query: string, options: RecipeSearchOptions = {}): SearchHit[] {
+    const allTokens = tokenizeSearchText(query);
+    const meaningfulTokens = allTokens.filter(token => !STOP_WORDS.has(token));
+    const queryTokens = Array.from(new Set(meaningfulTokens.length > 0 ? meaningfulTokens : allTokens));
+    if (queryTokens.length === 0 || this.documents.size === 0) return [];
+
+    const fieldIndexes = (options.fields || SEARCH_FIELDS).map(field => SEARCH_FIELDS.indexOf(field));
+    const scores = new Map<string, number>();
+
+    queryTokens.forEach(token => {
+      // Each query word counts once per recipe, through its best-scoring expansion
+      const bestForToken = new Map<string, number>();
+
+      this.expandToken(token).forEach((weight, term) => {
+        this.scoreTerm(term, fieldIndexes, options.recipeIds).forEach((termScore, recipeId) => {
+          const weighted = termScore * weight;
+          if (weighted > (bestForToken.get(recipeId) || 0)) {
+            bestForToken.set(recipeId, weighted);
+          }
+        });
+      });
+
+      bestForToken.forEach((score, recipeId) => {
+        scores.set(recipeId, (scores.get(recipeId) || 0) + score);
+      });
+    });
+
+    const hits = Array.from(scores, ([recipeId, score]) => ({ recipeId, score }))
+      .sort((a, b) => b.score - a.score);
+    return options.limit ? hits.slice(0, options.limit) : hits;
+  }
+
+  // Indexed terms the query word should match, with how much each counts
+  private expandToken(token: string): Map<string, number> {
+    const expansions = new Map<string, number>();
+    const addExpansion = (term: string, weight: number) => {
+      if (this.postings.has(term) && weight > (expansions.get(term) || 0)) {
+        expansions.set(term, weight);
+      }
+    };
+
+    addExpansion(token, 1);
+    this.synonyms.get(token)?.forEach(synonym => addExpansion(synonym, SYNONYM_WEIGHT));
+
+    if (token.length >= MIN_PREFIX_LENGTH) {
+      this.getTermsWithPrefix(token).forEach(term => addExpansion(term, PREFIX_WEIGHT));
+    }
+
+    if (token.length >= MIN_TYPO_LENGTH) {
+      this.postings.forEach((_, term) => {
+        if (Math.abs(term.length - token.length) <= 1 && isWithinOneEdit(token, term)) {
+          addExpansion(term, TYPO_WEIGHT);
+        }
+      });
+    }
+
+    return expansions;
+  }
+
+  private getTermsWithPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = Array.from(this.postings.keys()).sort();
+    }
+    const terms = this.sortedTerms;
+
+    // Binary search for the first term that sorts at or after the prefix
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (terms[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+      matches.push(terms[i]);
+    }
+    return matches;
+  }
+
+  // BM25 score of one indexed term for every recipe containing it, summed over the weighted fields
+  private scoreTerm(term: string, fieldIndexes: number[], recipeIds?: Set<string>): Map<string, number> {
+    const scores = new Map<string, number>();
+    const recipePostings = this.postings.get(term);
+    if (!recipePostings) return scores;
+
+    const documentCount = this.documents.size;
+    const idf = Math.log(1 + (documentCount - recipePostings.size + 0.5) / (recipePostings.size + 0.5));
+
+    recipePostings.forEach((frequencies, recipeId) => {
+      if (recipeIds && !recipeIds.has(recipeId)) return;
+      const document = this.documents.get(recipeId);
+      if (!document) return;
+
+      let score = 0;
+      fieldIndexes.forEach(fieldIndex => {
+        const frequency = frequencies[fieldIndex];
+        if (frequency === 0) return;
+        const averageLength = this.fieldLengthTotals[fieldIndex] / documentCount || 1;
+        const lengthNorm = 1 - BM25_B + BM25_B * (document.fieldLengths[fieldIndex] / averageLength);
+        score +=
+          SEARCH_FIELD_WEIGHTS[SEARCH_FIELDS[fieldIndex]] *
+          idf *
+          ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm));
+      });
+
+      if (score > 0) scores.set(recipeId, score);
+    });
+
+    return scores;
+  }
+}
+
+// Shared by the recipe screens and kept current by recipeService
+export const recipeSearchIndex = new RecipeSearchIndex();
@@ -0,0 +1,148 @@
+import type { RecipeDraft } from '../types';
+import { UNIT_ALIASES } from './ingredientParser';
+
+type Section = 'intro' | 'ingredients' | 'instructions' | 'notes';
+
+const INGREDIENT_HEADER_REGEX = /^(?:ingredients?|what you(?:'ll| will)? need|you(?:'ll| will) need|shopping list)\s*:?$/i;
+const INSTRUCTION_HEADER_REGEX = /^(?:instructions?|directions?|method|steps?|preparation|how to make(?: it)?)\s*:?$/i;
+const NOTES_HEADER_REGEX = /^(?:notes?|tips?|variations?)\s*:?$/i;
+
+const SERVINGS_REGEX = /^(?:serves|servings|yield|yields|makes)\s*:?\s*(?:about\s+)?(\d+)/i;
+const PREP_TIME_REGEX = /^prep(?:aration)?(?:\s+time)?\s*:\s*(.+)$/i;
+const COOK_TIME_REGEX = /^(?:cook(?:ing)?|bake|baking)(?:\s+time)?\s*:\s*(.+)$/i;
+const TOTAL_TIME_REGEX = /^total(?:\s+time)?\s*:\s*(.+)$/i;
+
+// "-", "*", "•" bullets and "1.", "1)", "Step 1:" numbering
+const BULLET_REGEX = /^(?:[-*•·–]\s+|\d{1,2}[.)]\s+|step\s+\d{1,2}\s*[:.)-]?\s*)/i;
+const NUMBERED_STEP_REGEX = /^(?:\d{1,2}[.)]\s+|step\s+\d{1,2}\b)/i;
+
+const QUANTITY_START_REGEX = /^(?:\d|[½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞]|a\s+(?:pinch|dash|handful|few)\b)/i;
+const UNIT_WORDS = new Set(
+  Object.values(UNIT_ALIASES).flat().filter(alias => alias.length > 1).map(alias => alias.toLowerCase())
+);
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_INGREDIENT_LENGTH = 80;
+
+const stripBullet = (line: string) => line.replace(BULLET_REGEX, '').trim();
+
+/**
+ * Whether a line reads like an ingredient ("2 cups flour", "1 tsp salt") rather
+ * than a step. Used when the text has no section headers to go on.
+ */
+export const looksLikeIngredient = (line: string): boolean => {
+  const text = stripBullet(line);
+  if (!text || text.length > MAX_INGREDIENT_LENGTH) return false;
+  // Steps are sentences; ingredients rarely end in a full stop
+  if (/[.!]$/.test(text) && text.split(/\s+/).length > 4) return false;
+
+  if (QUANTITY_START_REGEX.test(text)) return true;
+  const firstWord = text.split(/\s+/)[0].toLowerCase();
+  return UNIT_WORDS.has(firstWord);
+};
+
+// One long paragraph of method is split into sentences so each becomes a step
+const splitParagraph = (line: string): string[] => {
+  if (line.length < 200) return [line];
+  return (line.match(/[^.!?]+[.!?]+|[^.!?]+$/g) || [line])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+};
+
+/**
+ * Splits pasted recipe text (from a notes app, an email, a text file) into
+ * title, ingredients and steps. Section headers win when there are any;
+ * otherwise each line is sorted by whether it looks like an ingredient.
+ */
+export const parseRecipeText = (text: string): RecipeDraft => {
+  const draft: RecipeDraft = {
+    title: '',
+    description: '',
+    prepTime: '',
+    cookTime: '',
+    ingredients: [],
+    instructions: [],
+  };
+
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trim());
+
+  const hasHeaders = lines.some(line => INGREDIENT_HEADER_REGEX.test(line) || INSTRUCTION_HEADER_REGEX.test(line));
+  const descriptionLines: string[] = [];
+  let section: Section = 'intro';
+
+  lines.forEach(line => {
+    if (!line) return;
+
+    if (INGREDIENT_HEADER_REGEX.test(line)) {
+      section = 'ingredients';
+      return;
+    }
+    if (INSTRUCTION_HEADER_REGEX.test(line)) {
+      section = 'instructions';
+      return;
+    }
+    if (NOTES_HEADER_REGEX.test(line)) {
+      section = 'notes';
+      return;
+    }
+
+    const servingsMatch = line.match(SERVINGS_REGEX);
+    if (servingsMatch) {
+      draft.servings = parseInt(servingsMatch[1], 10);
+      return;
+    }
+    const prepMatch = line.match(PREP_TIME_REGEX);
+    if (prepMatch) {
+      draft.prepTime = prepMatch[1].trim();
+      return;
+    }
+    const cookMatch = line.match(COOK_TIME_REGEX);
+    if (cookMatch) {
+      draft.cookTime = cookMatch[1].trim();
+      return;
+    }
+    if (TOTAL_TIME_REGEX.test(line)) return;
+
+    if (!draft.title && section === 'intro' && line.length <= MAX_TITLE_LENGTH && !looksLikeIngredient(line)) {
+      draft.title = stripBullet(line).replace(/[:.]$/, '');
+      return;
+    }
+
+    const content = stripBullet(line);
+    if (!content) return;
+
+    switch (section) {
+      case 'ingredients':
+        draft.ingredients.push(content);
+        return;
+      case 'instructions':
+        draft.instructions.push(...splitParagraph(content));
+        return;
+      case 'notes':
+        descriptionLines.push(content);
+        return;
+      default:
+        if (hasHeaders) {
+          descriptionLines.push(content);
+        } else if (looksLikeIngredient(line)) {
+          draft.ingredients.push(content);
+        } else if (NUMBERED_STEP_REGEX.test(line) || draft.ingredients.length > 0) {
+          draft.instructions.push(...splitParagraph(content));
+        } else {
+          descriptionLines.push(content);
+        }
+    }
+  });
+
+  draft.description = descriptionLines.join(' ');
+  return draft;
+};
+
+/**
+ * Whether the heuristics found enough to pre-fill the form without help
+ */
+export const isRecipeDraftComplete = (draft: RecipeDraft): boolean =>
+  draft.title.length > 0 && draft.ingredients.length > 0 && draft.instructions.length > 0;
@@ -1,4 +1,25 @@
-import type { Recipe } from '../types';
+import type { Recipe, SearchFilters, FilterExpression } from '../types';
+import { getRecipeTimes } from './durations';
+import { findAllergenConflicts, findToolsNeeded, KitchenTool } from './kidRecipeChecks';
+import { recipeSearchIndex, SearchField } from './recipeSearchIndex';
+
+/**
+ * What the search bar is looking through: recipe text, or what can be made
+ * from the pantry
+ */
+export type SearchMode = 'recipes' | 'pantry';
+
+export type { SearchFilters, FilterExpression };
+
+// Equipment names that map onto the kitchen tools kid permissions already detect
+const KITCHEN_TOOL_NAMES: Record<KitchenTool, string[]> = {
+  oven: ['oven'],
+  stove: ['stove', 'stovetop', 'hob'],
+  knives: ['knife', 'knives'],
+};
+
+// Kids search what they can see on the recipe card
+const KID_SEARCH_FIELDS: SearchField[] = ['title', 'cuisine', 'mealType'];
 
 /**
  * Normalizes a search term by removing extra spaces, converting to lowercase,
@@ -13,132 +34,44 @@ export const normalizeSearchTerm = (term: string): string => {
 };
 
 /**
- * Checks if a text field contains the search term
+ * Makes sure the index has the version of each recipe being searched. Lists
+ * come from the recipe cache, so unchanged recipes are the same objects and
+ * are skipped.
  */
-const fieldContainsSearchTerm = (field: string | undefined, searchTerm: string): boolean => {
-  if (!field) return false;
-  return normalizeSearchTerm(field).includes(searchTerm);
+const syncSearchIndex = (recipes: Recipe[]): void => {
+  recipes.forEach(recipe => {
+    if (recipeSearchIndex.getRecipe(recipe.id) !== recipe) {
+      recipeSearchIndex.upsert(recipe);
+    }
+  });
 };
 
-/**
- * Checks if a string array field contains the search term
- */
-const arrayFieldContainsSearchTerm = (field: string[] | undefined, searchTerm: string): boolean => {
-  if (!field || field.length === 0) return false;
-  return field.some(item => fieldContainsSearchTerm(item, searchTerm));
-};
+const searchWithIndex = (recipes: Recipe[], searchTerm: string, fields?: SearchField[]): Recipe[] => {
+  if (!normalizeSearchTerm(searchTerm)) {
+    return recipes;
+  }
 
-/**
- * Extracts text from ingredients array for searching
- */
-const getIngredientsText = (ingredients: Recipe['ingredients']): string => {
-  if (!ingredients) return '';
+  syncSearchIndex(recipes);
 
-  return ingredients
-    .map(ingredient => {
-      if (typeof ingredient === 'string') {
-        return ingredient;
-      }
-      // Handle ingredient objects
-      return `${ingredient.name} ${ingredient.amount || ''} ${ingredient.unit || ''}`;
-    })
-    .join(' ');
+  const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+  return recipeSearchIndex
+    .search(searchTerm, { fields, recipeIds: new Set(recipesById.keys()) })
+    .map(hit => recipesById.get(hit.recipeId))
+    .filter((recipe): recipe is Recipe => recipe !== undefined);
 };
 
 /**
- * Searches recipes based on multiple fields with weighted relevance scoring
+ * Searches recipes across titles, ingredients, tags, cuisine and steps, best
+ * matches first. Tolerates typos and half-typed words.
  */
-export const searchRecipes = (recipes: Recipe[], searchTerm: string): Recipe[] => {
-  const normalizedSearchTerm = normalizeSearchTerm(searchTerm);
-
-  if (!normalizedSearchTerm) {
-    return recipes;
-  }
-
-  const searchWords = normalizedSearchTerm.split(' ').filter(word => word.length > 0);
-
-  const searchResults = recipes
-    .map(recipe => {
-      let relevanceScore = 0;
-      let matchFound = false;
-
-      searchWords.forEach(word => {
-        // Title matches (highest priority)
-        if (fieldContainsSearchTerm(recipe.title, word)) {
-          relevanceScore += 10;
-          matchFound = true;
-        }
-
-        // Description matches
-        if (fieldContainsSearchTerm(recipe.description, word)) {
-          relevanceScore += 7;
-          matchFound = true;
-        }
-
-        // Cuisine matches
-        if (fieldContainsSearchTerm(recipe.cuisine, word)) {
-          relevanceScore += 8;
-          matchFound = true;
-        }
-
-        // Meal type matches
-        if (fieldContainsSearchTerm(recipe.mealType, word)) {
-          relevanceScore += 6;
-          matchFound = true;
-        }
-
-        // Difficulty matches
-        if (fieldContainsSearchTerm(recipe.difficulty, word)) {
-          relevanceScore += 5;
-          matchFound = true;
-        }
-
-        // Ingredients matches (lower priority but important)
-        const ingredientsText = getIngredientsText(recipe.ingredients);
-        if (fieldContainsSearchTerm(ingredientsText, word)) {
-          relevanceScore += 3;
-          matchFound = true;
-        }
-
-        // Tags matches (if we add tags in the future)
-        if (recipe.tags && arrayFieldContainsSearchTerm(recipe.tags as string[], word)) {
-          relevanceScore += 4;
-          matchFound = true;
-        }
-      });
-
-      return { recipe, relevanceScore, matchFound };
-    })
-    .filter(result => result.matchFound)
-    .sort((a, b) => b.relevanceScore - a.relevanceScore) // Sort by relevance
-    .map(result => result.recipe);
-
-  return searchResults;
-};
+export const searchRecipes = (recipes: Recipe[], searchTerm: string): Recipe[] =>
+  searchWithIndex(recipes, searchTerm);
 
 /**
  * Simple search for kid mode - focuses mainly on title for simplicity
  */
-export const searchRecipesKidMode = (recipes: Recipe[], searchTerm: string): Recipe[] => {
-  const normalizedSearchTerm = normalizeSearchTerm(searchTerm);
-
-  if (!normalizedSearchTerm) {
-    return recipes;
-  }
-
-  const searchWords = normalizedSearchTerm.split(' ').filter(word => word.length > 0);
-
-  return recipes.filter(recipe => {
-    return searchWords.some(word => {
-      // Focus on title and basic fields for kids
-      return (
-        fieldContainsSearchTerm(recipe.title, word) ||
-        fieldContainsSearchTerm(recipe.cuisine, word) ||
-        fieldContainsSearchTerm(recipe.mealType, word)
-      );
-    });
-  });
-};
+export const searchRecipesKidMode = (recipes: Recipe[], searchTerm: string): Recipe[] =>
+  searchWithIndex(recipes, searchTerm, KID_SEARCH_FIELDS);
 
 /**
  * Gets search suggestions based on partial input
@@ -176,80 +109,170 @@ export const getSearchSuggestions = (recipes: Recipe[], searchTerm: string, maxS
 };
 
 /**
- * Filters recipes by specific criteria for advanced search
+ * Facts about recipes that live outside the recipe document. Filters that
+ * need one of these match nothing when it isn't supplied.
  */
-export interface SearchFilters {
-  cuisine?: string;
-  mealType?: string;
-  difficulty?: string;
-  maxCookTime?: number;
-  maxServings?: number;
-  minServings?: number;
+export interface SearchFilterContext {
+  favoriteRecipeIds?: Set<string>;
+  sharedRecipeIdsByKid?: Record<string, Set<string>>;
+  cookedRecipeIds?: Set<string>;
 }
 
-export const filterRecipes = (recipes: Recipe[], filters: SearchFilters): Recipe[] => {
-  return recipes.filter(recipe => {
-    // Cuisine filter
-    if (filters.cuisine &&
-        normalizeSearchTerm(recipe.cuisine || '') !== normalizeSearchTerm(filters.cuisine)) {
-      return false;
-    }
+const recipeUsesEquipment = (recipe: Recipe, equipment: string): boolean => {
+  const name = normalizeSearchTerm(equipment);
+  const steps = recipe.steps && recipe.steps.length > 0
+    ? recipe.steps.map(step => ({ text: step.step, equipment: step.equipment || [] }))
+    : (recipe.instructions || []).map(text => ({ text, equipment: [] as string[] }));
+  const equipmentLists = [recipe.equipment || [], ...steps.map(step => step.equipment)];
+
+  // Ovens, stoves and knives are recognised from what the steps say, not only the equipment list
+  const tool = (Object.keys(KITCHEN_TOOL_NAMES) as KitchenTool[]).find(t => KITCHEN_TOOL_NAMES[t].includes(name));
+  if (tool) {
+    return steps.some(step => findToolsNeeded(step.text, step.equipment).includes(tool)) ||
+      findToolsNeeded('', recipe.equipment).includes(tool);
+  }
 
-    // Meal type filter - check both mealType field and tags array
-    if (filters.mealType) {
-      const filterMealType = normalizeSearchTerm(filters.mealType);
-      const recipeMealType = normalizeSearchTerm(recipe.mealType || '');
+  return equipmentLists.some(list => list.some(item => normalizeSearchTerm(item).includes(name))) ||
+    steps.some(step => ` ${normalizeSearchTerm(step.text)} `.includes(` ${name} `));
+};
 
-      // Check mealType field first
-      let mealTypeMatches = recipeMealType === filterMealType;
+/**
+ * True when the recipe meets every criterion in the filters
+ */
+export const matchesFilters = (recipe: Recipe, filters: SearchFilters, context: SearchFilterContext = {}): boolean => {
+  // Cuisine filter
+  if (filters.cuisine &&
+      normalizeSearchTerm(recipe.cuisine || '') !== normalizeSearchTerm(filters.cuisine)) {
+    return false;
+  }
 
-      // If no match, check tags array as fallback
-      if (!mealTypeMatches && recipe.tags && Array.isArray(recipe.tags)) {
-        mealTypeMatches = recipe.tags.some(tag =>
-          normalizeSearchTerm(tag) === filterMealType
-        );
-      }
+  // Meal type filter - check both mealType field and tags array
+  if (filters.mealType) {
+    const filterMealType = normalizeSearchTerm(filters.mealType);
+    const recipeMealType = normalizeSearchTerm(recipe.mealType || '');
 
-      if (!mealTypeMatches) {
-        return false;
-      }
+    // Check mealType field first
+    let mealTypeMatches = recipeMealType === filterMealType;
+
+    // If no match, check tags array as fallback
+    if (!mealTypeMatches && recipe.tags && Array.isArray(recipe.tags)) {
+      mealTypeMatches = recipe.tags.some(tag =>
+        normalizeSearchTerm(tag) === filterMealType
+      );
     }
 
-    // Difficulty filter
-    if (filters.difficulty &&
-        normalizeSearchTerm(recipe.difficulty || '') !== normalizeSearchTerm(filters.difficulty)) {
+    if (!mealTypeMatches) {
       return false;
     }
+  }
 
-    // Cook time filter - check cookTime first, then totalTime as fallback
-    if (filters.maxCookTime) {
-      const timeStr = (recipe.cookTime || recipe.totalTime || '').toString();
-      if (timeStr) {
-        let cookTime: number;
-
-        // Parse time strings that might include units (e.g., "30 minutes", "1 hour")
-        if (timeStr.toLowerCase().includes('hour')) {
-          const hours = parseFloat(timeStr.replace(/[^\d.]/g, ''));
-          cookTime = hours * 60; // Convert to minutes
-        } else {
-          // Extract numbers from string, assume minutes if no unit specified
-          cookTime = parseFloat(timeStr.replace(/[^\d.]/g, '')) || 0;
-        }
-
-        if (cookTime > filters.maxCookTime) {
-          return false;
-        }
-      }
-    }
+  // Difficulty filter
+  if (filters.difficulty &&
+      normalizeSearchTerm(recipe.difficulty || '') !== normalizeSearchTerm(filters.difficulty)) {
+    return false;
+  }
 
-    // Servings filters
-    if (filters.minServings && recipe.servings < filters.minServings) {
-      return false;
-    }
-    if (filters.maxServings && recipe.servings > filters.maxServings) {
+  // Cook time filter - check cookTime first, then totalTime as fallback
+  if (filters.maxCookTime) {
+    const { cookMinutes, totalMinutes } = getRecipeTimes(recipe);
+    const cookTime = cookMinutes ?? totalMinutes;
+    if (cookTime !== undefined && cookTime > filters.maxCookTime) {
       return false;
     }
+  }
 
-    return true;
+  // Servings filters
+  if (filters.minServings && recipe.servings < filters.minServings) {
+    return false;
+  }
+  if (filters.maxServings && recipe.servings > filters.maxServings) {
+    return false;
+  }
+
+  // Allergen filter - uses the same keyword matching as kid allergy checks
+  if (filters.freeOfAllergens && filters.freeOfAllergens.length > 0 &&
+      findAllergenConflicts(recipe, filters.freeOfAllergens).length > 0) {
+    return false;
+  }
+
+  // Equipment filters
+  if (filters.requiredEquipment &&
+      !filters.requiredEquipment.every(equipment => recipeUsesEquipment(recipe, equipment))) {
+    return false;
+  }
+  if (filters.forbiddenEquipment &&
+      filters.forbiddenEquipment.some(equipment => recipeUsesEquipment(recipe, equipment))) {
+    return false;
+  }
+
+  // Category filter - any one of the chosen categories is enough
+  if (filters.categories && filters.categories.length > 0 &&
+      !filters.categories.some(category => recipe.categories?.includes(category))) {
+    return false;
+  }
+
+  // Rating filter
+  if (filters.minRating && (recipe.averageRating === undefined || recipe.averageRating < filters.minRating)) {
+    return false;
+  }
+
+  // Filters that need to know about favorites, sharing and cooking history
+  if (filters.favoritesOnly &&
+      !(context.favoriteRecipeIds ? context.favoriteRecipeIds.has(recipe.id) : recipe.isFavorite)) {
+    return false;
+  }
+  if (filters.sharedWithKidId &&
+      !context.sharedRecipeIdsByKid?.[filters.sharedWithKidId]?.has(recipe.id)) {
+    return false;
+  }
+  if (filters.neverCooked && (recipe.lastCooked || context.cookedRecipeIds?.has(recipe.id))) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Evaluates nested AND ('all') / OR ('any') filter groups
+ */
+export const matchesFilterExpression = (
+  recipe: Recipe,
+  expression: FilterExpression,
+  context: SearchFilterContext = {}
+): boolean => {
+  if ('all' in expression) {
+    return expression.all.every(child => matchesFilterExpression(recipe, child, context));
+  }
+  if ('any' in expression) {
+    return expression.any.length === 0 ||
+      expression.any.some(child => matchesFilterExpression(recipe, child, context));
+  }
+  return matchesFilters(recipe, expression, context);
+};
+
+export const filterRecipes = (
+  recipes: Recipe[],
+  filters: FilterExpression,
+  context: SearchFilterContext = {}
+): Recipe[] => {
+  return recipes.filter(recipe => matchesFilterExpression(recipe, filters, context));
+};
+
+/**
+ * Combines the filters behind several active chips. Chips that set the same
+ * criteria are alternatives ("Breakfast" or "Dessert"); different criteria
+ * must all hold ("Breakfast" and "Quick").
+ */
+export const combineFilters = (filters: FilterExpression[]): FilterExpression => {
+  const groups = new Map<string, FilterExpression[]>();
+
+  filters.forEach((filter, index) => {
+    // Presets and nested groups stand on their own
+    const key = 'all' in filter || 'any' in filter ? `group:${index}` : Object.keys(filter).sort().join(',');
+    groups.set(key, [...(groups.get(key) || []), filter]);
   });
-};
\ No newline at end of file
+
+  return {
+    all: Array.from(groups.values()).map(group => (group.length === 1 ? group[0] : { any: group })),
+  };
+};
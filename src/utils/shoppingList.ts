@@ -0,0 +1,216 @@
+import type { Recipe, ShoppingListItem, StoreAisle, MeasurementSystem } from '../types';
+import { normalizeIngredients } from './ingredientParser';
+import { convertMeasurement, getIngredientDensity, toBaseMeasurement } from './unitConversion';
+import { normalizeScaledUnit } from './recipeScaling';
+
+/**
+ * Store sections in the order most shoppers walk them
+ */
+export const AISLE_ORDER: StoreAisle[] = ['produce', 'bakery', 'meat', 'dairy', 'frozen', 'baking', 'pantry', 'other'];
+
+export const AISLE_LABELS: Record<StoreAisle, string> = {
+  produce: '🥦 Produce',
+  bakery: '🍞 Bakery',
+  meat: '🍗 Meat & Seafood',
+  dairy: '🧀 Dairy & Eggs',
+  frozen: '🧊 Frozen',
+  baking: '🧁 Baking & Spices',
+  pantry: '🥫 Pantry',
+  other: '🛒 Other',
+};
+
+const AISLE_KEYWORDS: Record<Exclude<StoreAisle, 'other'>, string[]> = {
+  frozen: ['frozen', 'ice cream'],
+  produce: [
+    'lettuce', 'tomato', 'onion', 'garlic', 'potato', 'carrot', 'celery', 'cucumber', 'zucchini', 'spinach',
+    'broccoli', 'cauliflower', 'mushroom', 'bell pepper', 'jalapeno', 'avocado', 'apple', 'banana', 'lemon',
+    'lime', 'orange', 'berries', 'strawberr', 'blueberr', 'grape', 'basil', 'cilantro', 'parsley', 'mint',
+    'ginger', 'scallion', 'green onion', 'kale', 'cabbage', 'corn on the cob', 'squash', 'sweet potato',
+  ],
+  bakery: ['bread', 'tortilla', 'bun', 'roll', 'bagel', 'pita', 'baguette', 'croissant'],
+  meat: [
+    'chicken', 'beef', 'pork', 'turkey', 'bacon', 'sausage', 'ham', 'lamb', 'steak', 'ground meat',
+    'salmon', 'shrimp', 'fish', 'cod', 'tilapia',
+  ],
+  dairy: ['milk', 'butter', 'cheese', 'cream', 'yogurt', 'egg', 'sour cream', 'parmesan', 'mozzarella', 'cheddar'],
+  baking: [
+    'flour', 'sugar', 'baking powder', 'baking soda', 'yeast', 'vanilla', 'cocoa', 'chocolate chip',
+    'salt', 'black pepper', 'cinnamon', 'paprika', 'cumin', 'oregano', 'nutmeg', 'chili powder', 'sprinkles',
+  ],
+  pantry: [
+    'rice', 'pasta', 'noodle', 'oil', 'vinegar', 'broth', 'stock', 'beans', 'canned', 'tomato sauce',
+    'tomato paste', 'soy sauce', 'honey', 'maple syrup', 'peanut butter', 'jam', 'oats', 'cereal', 'nuts',
+    'tuna', 'ketchup', 'mustard', 'mayonnaise',
+  ],
+};
+
+// Longest keywords first so "peanut butter" lands in pantry before "butter" claims it
+const AISLE_LOOKUP = (Object.entries(AISLE_KEYWORDS) as Array<[StoreAisle, string[]]>)
+  .flatMap(([aisle, keywords]) => keywords.map(keyword => ({ aisle, keyword })))
+  .sort((a, b) => b.keyword.length - a.keyword.length);
+
+/**
+ * Best-guess store aisle for an ingredient name
+ */
+export const getAisle = (name: string): StoreAisle => {
+  const lower = name.toLowerCase();
+  return AISLE_LOOKUP.find(({ keyword }) => lower.includes(keyword))?.aisle || 'other';
+};
+
+/**
+ * Key used to decide whether two lines are the same thing to buy:
+ * "Tomatoes" and "tomato" merge, "cherry tomatoes" stays separate
+ */
+const getItemKey = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.replace(/(?:oes|ies|s)$/, match => (match === 'ies' ? 'y' : match === 'oes' ? 'o' : '')))
+    .join(' ');
+
+/**
+ * Groups amounts that can be added together: all volumes, all weights,
+ * or the same count-style unit ("clove", "can", no unit)
+ */
+const getBucket = (unit?: string): string => {
+  if (!unit) return 'count';
+  const base = toBaseMeasurement(1, unit);
+  return base ? base.unit : `unit:${unit}`;
+};
+
+/**
+ * Shows a summed base amount (ml or g) in the family's measurement system
+ */
+const displayBaseAmount = (amount: number, unit: 'ml' | 'g', system: MeasurementSystem): { amount: number; unit: string } => {
+  if (system === 'us') {
+    const converted = convertMeasurement({ amount, unit }, 'us');
+    return { amount: converted.amount, unit: converted.unit };
+  }
+  return normalizeScaledUnit(amount, unit);
+};
+
+interface Accumulator {
+  name: string;
+  aisle: StoreAisle;
+  checked: boolean;
+  recipeIds: Set<string>;
+  isManual: boolean;
+  buckets: Map<string, { amount: number; unit?: string; hasAmount: boolean }>;
+}
+
+/**
+ * Merges items that refer to the same ingredient, adding up amounts across
+ * units ("2 cups milk" + "250 ml milk"). A merged item stays checked only if
+ * every line that went into it was already checked.
+ */
+export const mergeShoppingItems = (items: ShoppingListItem[], system: MeasurementSystem = 'us'): ShoppingListItem[] => {
+  const groups = new Map<string, Accumulator>();
+
+  for (const item of items) {
+    const key = getItemKey(item.name);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        name: item.name,
+        aisle: item.aisle,
+        checked: item.checked,
+        recipeIds: new Set(),
+        isManual: !!item.isManual,
+        buckets: new Map(),
+      };
+      groups.set(key, group);
+    } else {
+      group.checked = group.checked && item.checked;
+      group.isManual = group.isManual && !!item.isManual;
+    }
+    item.recipeIds.forEach(id => group!.recipeIds.add(id));
+
+    const bucketKey = getBucket(item.unit);
+    const bucket = group.buckets.get(bucketKey) || { amount: 0, unit: item.unit, hasAmount: false };
+    if (item.amount !== undefined && item.amount !== null) {
+      const base = item.unit ? toBaseMeasurement(item.amount, item.unit) : undefined;
+      bucket.amount += base ? base.amount : item.amount;
+      bucket.unit = base ? base.unit : item.unit;
+      bucket.hasAmount = true;
+    }
+    group.buckets.set(bucketKey, bucket);
+  }
+
+  const merged: ShoppingListItem[] = [];
+
+  groups.forEach((group, key) => {
+    // Cups of flour and grams of flour can be added once we know how heavy a cup is
+    const volume = group.buckets.get('ml');
+    const weight = group.buckets.get('g');
+    const density = getIngredientDensity(group.name);
+    if (volume?.hasAmount && weight?.hasAmount && density !== undefined) {
+      weight.amount += (volume.amount / toBaseMeasurement(1, 'cup')!.amount) * density;
+      group.buckets.delete('ml');
+    }
+
+    let index = 0;
+    group.buckets.forEach(bucket => {
+      const item: ShoppingListItem = {
+        id: `${key.replace(/\s+/g, '-')}-${index++}`,
+        name: group.name,
+        aisle: group.aisle,
+        checked: group.checked,
+        recipeIds: Array.from(group.recipeIds),
+      };
+      if (group.isManual) item.isManual = true;
+
+      if (bucket.hasAmount) {
+        const display = bucket.unit === 'ml' || bucket.unit === 'g'
+          ? displayBaseAmount(bucket.amount, bucket.unit, system)
+          : { amount: Math.round(bucket.amount * 100) / 100, unit: bucket.unit };
+        item.amount = display.amount;
+        if (display.unit) item.unit = display.unit;
+      }
+      merged.push(item);
+    });
+  });
+
+  return sortShoppingItems(merged);
+};
+
+/**
+ * Orders items by aisle, then alphabetically
+ */
+export const sortShoppingItems = (items: ShoppingListItem[]): ShoppingListItem[] =>
+  [...items].sort((a, b) =>
+    AISLE_ORDER.indexOf(a.aisle) - AISLE_ORDER.indexOf(b.aisle) || a.name.localeCompare(b.name)
+  );
+
+/**
+ * Turns recipes into shopping list items, one line per ingredient, ready to merge.
+ * Optional ingredients are left off - parents can add them by hand.
+ */
+export const recipesToShoppingItems = (recipes: Recipe[]): ShoppingListItem[] =>
+  recipes.flatMap(recipe =>
+    normalizeIngredients(recipe.ingredients)
+      .filter(ingredient => !ingredient.isOptional)
+      .map(ingredient => {
+        const item: ShoppingListItem = {
+          id: `${recipe.id}-${ingredient.id}`,
+          name: ingredient.name,
+          aisle: getAisle(ingredient.name),
+          checked: false,
+          recipeIds: [recipe.id],
+        };
+        // Use the top of a range so there's enough
+        const amount = ingredient.amountMax ?? ingredient.amount;
+        if (amount !== undefined) item.amount = amount;
+        if (ingredient.unit) item.unit = ingredient.unit;
+        return item;
+      })
+  );
+
+/**
+ * Splits a list into aisle sections for display
+ */
+export const groupByAisle = (items: ShoppingListItem[]): Array<{ aisle: StoreAisle; title: string; items: ShoppingListItem[] }> =>
+  AISLE_ORDER
+    .map(aisle => ({ aisle, title: AISLE_LABELS[aisle], items: items.filter(item => item.aisle === aisle) }))
+    .filter(section => section.items.length > 0);
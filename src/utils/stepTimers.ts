@@ -0,0 +1,92 @@
+import { parseQuantity } from './ingredientParser';
+
+const UNIT_SECONDS: Array<{ pattern: RegExp; seconds: number }> = [
+  { pattern: /^(?:hours?|hrs?)$/i, seconds: 3600 },
+  { pattern: /^(?:minutes?|mins?)$/i, seconds: 60 },
+  { pattern: /^(?:seconds?|secs?)$/i, seconds: 1 },
+];
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, fifteen: 15, twenty: 20, thirty: 30,
+};
+
+const NUMBER = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?\\s*[½⅓⅔¼¾]?|[½⅓⅔¼¾]|${Object.keys(WORD_NUMBERS).join('|')})`;
+
+// "10 minutes", "5-7 mins", "1 1/2 hours", "an hour"; ranges use the low end so nothing overcooks
+const DURATION_REGEX = new RegExp(
+  `\\b(${NUMBER})(?:\\s*(?:-|–|—|to)\\s*${NUMBER})?\\s*(hours?|hrs?|minutes?|mins?|seconds?|secs?)\\b`,
+  'gi'
+);
+const HALF_HOUR_REGEX = /\bhalf an hour\b/gi;
+
+// Words allowed between the parts of one duration ("1 hour and 15 minutes")
+const JOINER_REGEX = /^[\s,]*(?:and)?[\s,]*$/i;
+
+const toNumber = (value: string): number | undefined => {
+  const word = WORD_NUMBERS[value.toLowerCase()];
+  return word !== undefined ? word : parseQuantity(value);
+};
+
+/**
+ * Finds the first duration in a piece of text and returns it in seconds.
+ * Adjacent parts are added together ("1 hour 30 minutes" = 5400), but a second
+ * separate duration later in the sentence is ignored.
+ */
+export const parseDurationText = (text: string | undefined): number | null => {
+  if (!text) return null;
+
+  const normalized = text.replace(HALF_HOUR_REGEX, '30 minutes');
+  const matches = Array.from(normalized.matchAll(DURATION_REGEX));
+  if (matches.length === 0) return null;
+
+  let total = 0;
+  let lastEnd: number | undefined;
+
+  for (const match of matches) {
+    const start = match.index ?? 0;
+    if (lastEnd !== undefined && !JOINER_REGEX.test(normalized.slice(lastEnd, start))) {
+      break;
+    }
+
+    const amount = toNumber(match[1].trim());
+    const unit = UNIT_SECONDS.find(({ pattern }) => pattern.test(match[2]));
+    if (amount === undefined || !unit) break;
+
+    total += amount * unit.seconds;
+    lastEnd = start + match[0].length;
+  }
+
+  return total > 0 ? Math.round(total) : null;
+};
+
+/**
+ * Duration for a recipe step, preferring the structured time field over the step text
+ */
+export const getStepDuration = (step: { time?: string; text?: string }): number | null =>
+  parseDurationText(step.time) ?? parseDurationText(step.text);
+
+/**
+ * Countdown display: "4:05" or "1:02:30"
+ */
+export const formatCountdown = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const paddedSecs = secs.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${paddedSecs}`
+    : `${minutes}:${paddedSecs}`;
+};
+
+/**
+ * Short label for a duration: "45 sec", "10 min", "1 hr 30 min"
+ */
+export const formatDurationLabel = (totalSeconds: number): string => {
+  if (totalSeconds < 60) return `${totalSeconds} sec`;
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.round((totalSeconds % 3600) / 60);
+  if (hours === 0) return `${minutes} min`;
+  return minutes > 0 ? `${hours} hr ${minutes} min` : `${hours} hr`;
+};
@@ -0,0 +1,344 @@
+import type { Recipe, RecipeStep, UserSettings, MeasurementSystem } from '../types';
+import { parseIngredientLine } from './ingredientParser';
+
+export type TemperatureUnit = UserSettings['temperatureUnit'];
+
+export interface UnitPreferences {
+  system: MeasurementSystem;
+  temperatureUnit: TemperatureUnit;
+}
+
+export interface Measurement {
+  amount: number;
+  amountMax?: number;
+  unit: string;
+}
+
+interface ConvertibleIngredient {
+  name: string;
+  amount?: number;
+  amountMax?: number;
+  unit?: string;
+}
+
+/**
+ * Millilitres per unit of volume
+ */
+const VOLUME_IN_ML: Record<string, number> = {
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  'fl oz': 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+};
+
+/**
+ * Grams per unit of weight
+ */
+const WEIGHT_IN_G: Record<string, number> = {
+  mg: 0.001,
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+const METRIC_UNITS = new Set(['ml', 'cl', 'dl', 'l', 'mg', 'g', 'kg']);
+const US_UNITS = new Set(['tsp', 'tbsp', 'fl oz', 'cup', 'pint', 'quart', 'gallon', 'oz', 'lb']);
+
+// Spoons are standard in metric kitchens too, so they're left alone
+const SHARED_UNITS = new Set(['tsp', 'tbsp']);
+
+/**
+ * Grams per US cup for baking staples that metric recipes weigh instead of measure.
+ * A staple has to end the ingredient name, and longer names are checked first,
+ * so "brown sugar" wins over "sugar" and "rice vinegar" isn't rice.
+ */
+const INGREDIENT_DENSITIES: Record<string, number> = {
+  'all-purpose flour': 125,
+  'bread flour': 130,
+  'cake flour': 115,
+  'whole wheat flour': 120,
+  'almond flour': 96,
+  flour: 125,
+  'granulated sugar': 200,
+  'brown sugar': 220,
+  'powdered sugar': 120,
+  'icing sugar': 120,
+  "confectioners' sugar": 120,
+  sugar: 200,
+  butter: 227,
+  'cocoa powder': 85,
+  cocoa: 85,
+  'rolled oats': 90,
+  oats: 90,
+  rice: 185,
+  cornstarch: 128,
+  'chocolate chips': 170,
+  'peanut butter': 258,
+  'shredded cheese': 113,
+  'grated parmesan': 100,
+  'chopped nuts': 120,
+  walnuts: 120,
+  pecans: 110,
+  raisins: 145,
+};
+
+const DENSITY_LOOKUP = Object.entries(INGREDIENT_DENSITIES)
+  .sort(([a], [b]) => b.length - a.length);
+
+// Liquids stay in millilitres even when a staple is part of their name ("rice milk")
+const LIQUID_REGEX = /\b(?:milk|buttermilk|cream|water|juice|stock|broth|vinegar|oil|syrup|sauce|extract|wine)s?\b/;
+
+/**
+ * Grams per US cup for an ingredient, if it's one of our known staples
+ */
+export const getIngredientDensity = (ingredientName: string): number | undefined => {
+  const name = ingredientName.toLowerCase().split(',')[0].trim();
+  if (LIQUID_REGEX.test(name)) return undefined;
+
+  const match = DENSITY_LOOKUP.find(([staple]) => name === staple || name.endsWith(` ${staple}`));
+  return match ? match[1] : undefined;
+};
+
+/**
+ * Reads the unit preferences out of the parent's settings. Families that only
+ * picked Celsius get metric measurements too, since the two usually go together.
+ */
+export const getUnitPreferences = (settings?: Partial<UserSettings> | null): UnitPreferences => {
+  const temperatureUnit = settings?.temperatureUnit || 'fahrenheit';
+  return {
+    system: settings?.measurementSystem || (temperatureUnit === 'celsius' ? 'metric' : 'us'),
+    temperatureUnit,
+  };
+};
+
+const roundTo = (value: number, step: number): number => Math.round(value / step) * step;
+
+/**
+ * Rounds a metric amount the way a kitchen scale or jug would show it
+ */
+const roundMetric = (value: number): number => {
+  if (value >= 50) return roundTo(value, 5);
+  if (value >= 10) return Math.round(value);
+  return roundTo(value, 0.5);
+};
+
+/**
+ * Rounds a US amount to fractions you can actually measure with cups and spoons
+ */
+const roundCustomary = (value: number, unit: string): number => {
+  if (unit === 'oz') return Math.max(roundTo(value, 0.5), 0.5);
+  if (unit === 'lb') return Math.max(roundTo(value, 0.25), 0.25);
+  if (unit === 'cup' && value < 1) return Math.max(roundTo(value, 1 / 8), 1 / 8);
+  if (unit === 'tsp' && value < 1) return Math.max(roundTo(value, 1 / 8), 1 / 8);
+  return roundTo(value, value >= 1 ? 0.25 : 1 / 8);
+};
+
+const pickMetricVolumeUnit = (ml: number): string => (ml >= 1000 ? 'l' : 'ml');
+const pickMetricWeightUnit = (g: number): string => (g >= 1000 ? 'kg' : 'g');
+
+const pickCustomaryVolumeUnit = (ml: number): string => {
+  if (ml < VOLUME_IN_ML.tbsp) return 'tsp';
+  if (ml < VOLUME_IN_ML.cup / 4) return 'tbsp';
+  return 'cup';
+};
+
+const pickCustomaryWeightUnit = (g: number): string => (g >= WEIGHT_IN_G.lb ? 'lb' : 'oz');
+
+/**
+ * Scales a (possibly ranged) measurement by a factor into a new unit and rounds it
+ */
+const rescale = (
+  measurement: Measurement,
+  factor: number,
+  unit: string,
+  round: (value: number) => number
+): Measurement => {
+  const converted: Measurement = { amount: round(measurement.amount * factor), unit };
+  if (measurement.amountMax !== undefined) {
+    converted.amountMax = round(measurement.amountMax * factor);
+  }
+  return converted;
+};
+
+const toMetric = (measurement: Measurement, ingredientName?: string): Measurement => {
+  const { amount, unit } = measurement;
+
+  if (WEIGHT_IN_G[unit] !== undefined) {
+    const grams = amount * WEIGHT_IN_G[unit];
+    const target = pickMetricWeightUnit(grams);
+    return rescale(measurement, WEIGHT_IN_G[unit] / WEIGHT_IN_G[target], target, value =>
+      target === 'kg' ? roundTo(value, 0.05) : roundMetric(value)
+    );
+  }
+
+  const ml = amount * VOLUME_IN_ML[unit];
+  const density = ingredientName ? getIngredientDensity(ingredientName) : undefined;
+  if (density !== undefined) {
+    const gramsPerUnit = (VOLUME_IN_ML[unit] / VOLUME_IN_ML.cup) * density;
+    const target = pickMetricWeightUnit(amount * gramsPerUnit);
+    return rescale(measurement, gramsPerUnit / WEIGHT_IN_G[target], target, value =>
+      target === 'kg' ? roundTo(value, 0.05) : roundMetric(value)
+    );
+  }
+
+  const target = pickMetricVolumeUnit(ml);
+  return rescale(measurement, VOLUME_IN_ML[unit] / VOLUME_IN_ML[target], target, value =>
+    target === 'l' ? roundTo(value, 0.05) : roundMetric(value)
+  );
+};
+
+const toCustomary = (measurement: Measurement, ingredientName?: string): Measurement => {
+  const { amount, unit } = measurement;
+
+  if (WEIGHT_IN_G[unit] !== undefined) {
+    const grams = amount * WEIGHT_IN_G[unit];
+    const density = ingredientName ? getIngredientDensity(ingredientName) : undefined;
+
+    // Weighed baking staples become cups and spoons, everything else ounces and pounds
+    if (density !== undefined) {
+      const ml = (grams / density) * VOLUME_IN_ML.cup;
+      const target = pickCustomaryVolumeUnit(ml);
+      const factor = (WEIGHT_IN_G[unit] / density) * (VOLUME_IN_ML.cup / VOLUME_IN_ML[target]);
+      return rescale(measurement, factor, target, value => roundCustomary(value, target));
+    }
+
+    const target = pickCustomaryWeightUnit(grams);
+    return rescale(measurement, WEIGHT_IN_G[unit] / WEIGHT_IN_G[target], target, value =>
+      roundCustomary(value, target)
+    );
+  }
+
+  const ml = amount * VOLUME_IN_ML[unit];
+  const target = pickCustomaryVolumeUnit(ml);
+  return rescale(measurement, VOLUME_IN_ML[unit] / VOLUME_IN_ML[target], target, value =>
+    roundCustomary(value, target)
+  );
+};
+
+/**
+ * Whether a unit belongs to the other measurement system and should be converted
+ */
+export const needsConversion = (unit: string | undefined, system: MeasurementSystem): boolean => {
+  if (!unit || SHARED_UNITS.has(unit)) return false;
+  return system === 'metric' ? US_UNITS.has(unit) : METRIC_UNITS.has(unit);
+};
+
+/**
+ * Converts a measurement into the requested system. Units outside the
+ * conversion tables (cloves, cans, pinches) are returned untouched.
+ */
+export const convertMeasurement = (
+  measurement: Measurement,
+  system: MeasurementSystem,
+  ingredientName?: string
+): Measurement => {
+  if (!needsConversion(measurement.unit, system)) return measurement;
+  return system === 'metric'
+    ? toMetric(measurement, ingredientName)
+    : toCustomary(measurement, ingredientName);
+};
+
+/**
+ * Converts an ingredient's amount and unit, keeping every other field.
+ * Returns the same object when nothing needed converting.
+ */
+export const convertIngredient = <T extends ConvertibleIngredient>(ingredient: T, system: MeasurementSystem): T => {
+  if (ingredient.amount === undefined || !ingredient.unit || !needsConversion(ingredient.unit, system)) {
+    return ingredient;
+  }
+
+  const converted = convertMeasurement(
+    { amount: ingredient.amount, amountMax: ingredient.amountMax, unit: ingredient.unit },
+    system,
+    ingredient.name
+  );
+
+  const result: T = { ...ingredient, amount: converted.amount, unit: converted.unit };
+  if (converted.amountMax !== undefined) result.amountMax = converted.amountMax;
+  return result;
+};
+
+/**
+ * Expresses a measurement in millilitres or grams so amounts written in
+ * different units can be added up. Units without a fixed size return undefined.
+ */
+export const toBaseMeasurement = (amount: number, unit: string): { amount: number; unit: 'ml' | 'g' } | undefined => {
+  if (VOLUME_IN_ML[unit] !== undefined) return { amount: amount * VOLUME_IN_ML[unit], unit: 'ml' };
+  if (WEIGHT_IN_G[unit] !== undefined) return { amount: amount * WEIGHT_IN_G[unit], unit: 'g' };
+  return undefined;
+};
+
+/**
+ * Converts a temperature, rounding oven temperatures to settings real ovens have
+ */
+export const convertTemperature = (value: number, from: TemperatureUnit, to: TemperatureUnit): number => {
+  if (from === to) return value;
+
+  if (to === 'celsius') {
+    const celsius = (value - 32) * 5 / 9;
+    return value >= 250 ? roundTo(celsius, 10) : Math.round(celsius);
+  }
+
+  const fahrenheit = value * 9 / 5 + 32;
+  return value >= 120 ? roundTo(fahrenheit, 25) : Math.round(fahrenheit);
+};
+
+// "350°F", "180 ºC", "350 degrees F", "400 degrees Fahrenheit", "200C"
+const TEMPERATURE_REGEX =
+  /(\d{2,3})\s*(?:[°º˚]\s*|[Dd]egrees?\s+)([FfCc])(?:ahrenheit|elsius)?\b|(\d{3})([FC])\b/g;
+
+/**
+ * Rewrites every temperature in a piece of instruction text into the preferred unit
+ */
+export const convertTemperaturesInText = (text: string, to: TemperatureUnit): string => {
+  return text.replace(TEMPERATURE_REGEX, (match, value, unit, bareValue, bareUnit) => {
+    const from: TemperatureUnit = (unit || bareUnit).toUpperCase() === 'C' ? 'celsius' : 'fahrenheit';
+    if (from === to) return match;
+
+    const converted = convertTemperature(parseInt(value || bareValue, 10), from, to);
+    return `${converted}°${to === 'celsius' ? 'C' : 'F'}`;
+  });
+};
+
+const convertStep = (step: RecipeStep, preferences: UnitPreferences): RecipeStep => ({
+  ...step,
+  step: convertTemperaturesInText(step.step, preferences.temperatureUnit),
+  temperature: step.temperature
+    ? convertTemperaturesInText(step.temperature, preferences.temperatureUnit)
+    : step.temperature,
+});
+
+/**
+ * Returns a copy of the recipe with measurements and oven temperatures in the
+ * family's preferred units. Plain-text ingredients are only restructured when
+ * they actually need converting, so untouched lines keep their original wording.
+ */
+export const convertRecipeUnits = (recipe: Recipe, preferences: UnitPreferences): Recipe => {
+  const ingredients = recipe.ingredients.map((ingredient, index) => {
+    if (typeof ingredient !== 'string') {
+      return convertIngredient(ingredient, preferences.system);
+    }
+
+    const parsed = parseIngredientLine(ingredient, index);
+    return needsConversion(parsed.unit, preferences.system)
+      ? convertIngredient(parsed, preferences.system)
+      : ingredient;
+  });
+
+  return {
+    ...recipe,
+    ingredients,
+    steps: recipe.steps?.map(step => convertStep(step, preferences)),
+    instructions: recipe.instructions?.map(instruction =>
+      convertTemperaturesInText(instruction, preferences.temperatureUnit)
+    ),
+  };
+};